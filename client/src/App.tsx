@@ -16,14 +16,18 @@ import Expenses from "@/pages/expenses";
 import Income from "@/pages/income";
 import Investments from "@/pages/investments";
 import Goals from "@/pages/goals";
+import Budgets from "@/pages/budgets";
 import Alerts from "@/pages/alerts";
 import Reports from "@/pages/reports";
 import UserPreferences from "@/pages/user-preferences";
 import AccountsPage from "@/pages/accounts";
+import ImportPage from "@/pages/import";
+import CategorizationRules from "@/pages/categorization-rules";
 import Sidebar from "@/components/layout/sidebar";
 import LoginPage from "@/pages/login";
 import RegisterPage from "@/pages/register";
 import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
 import OAuthCallbackPage from "@/pages/oauth-callback";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { I18nextProvider } from "react-i18next";
@@ -82,6 +86,7 @@ function App() {
                 <Route path="/login" element={<PublicRoute><LoginPage /></PublicRoute>} />
                 <Route path="/register" element={<PublicRoute><RegisterPage /></PublicRoute>} />
                 <Route path="/forgot-password" element={<PublicRoute><ForgotPasswordPage /></PublicRoute>} />
+                <Route path="/reset-password" element={<PublicRoute><ResetPasswordPage /></PublicRoute>} />
                 <Route path="/oauth/callback" element={<PublicRoute><OAuthCallbackPage /></PublicRoute>} />
                 
                 {/* Rotas Protegidas */}
@@ -92,9 +97,12 @@ function App() {
                   <Route path="/income" element={<Income />} />
                   <Route path="/investments" element={<Investments />} />
                   <Route path="/goals" element={<Goals />} />
+                  <Route path="/budgets" element={<Budgets />} />
                   <Route path="/alerts" element={<Alerts />} />
                   <Route path="/reports" element={<Reports />} />
                   <Route path="/accounts" element={<AccountsPage />} />
+                  <Route path="/import" element={<ImportPage />} />
+                  <Route path="/rules" element={<CategorizationRules />} />
                   <Route path="/preferences" element={<UserPreferences />} />
                   {/** initialize-data removed */}
                 </Route>
@@ -112,6 +120,7 @@ function App() {
                 <Route path="/login" element={<PublicRoute><LoginPage /></PublicRoute>} />
                 <Route path="/register" element={<PublicRoute><RegisterPage /></PublicRoute>} />
                 <Route path="/forgot-password" element={<PublicRoute><ForgotPasswordPage /></PublicRoute>} />
+                <Route path="/reset-password" element={<PublicRoute><ResetPasswordPage /></PublicRoute>} />
                 
                 {/* Rotas Protegidas */}
                 <Route element={<ProtectedRoute />}>
@@ -121,9 +130,12 @@ function App() {
                   <Route path="/income" element={<Income />} />
                   <Route path="/investments" element={<Investments />} />
                   <Route path="/goals" element={<Goals />} />
+                  <Route path="/budgets" element={<Budgets />} />
                   <Route path="/alerts" element={<Alerts />} />
                   <Route path="/reports" element={<Reports />} />
                   <Route path="/accounts" element={<AccountsPage />} />
+                  <Route path="/import" element={<ImportPage />} />
+                  <Route path="/rules" element={<CategorizationRules />} />
                   <Route path="/preferences" element={<UserPreferences />} />
                   {/** initialize-data removed */}
                 </Route>
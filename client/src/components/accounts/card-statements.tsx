@@ -0,0 +1,200 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import { formatCurrency } from "@/lib/currency";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AccountSelect } from "@/components/ui/account-select";
+import { useToast } from "@/components/ui/use-toast";
+import { Account, Transaction } from "@/lib/types";
+
+interface CardStatement {
+  id: number;
+  periodStart: string;
+  closingDate: string;
+  dueDate: string;
+  status: "open" | "closed" | "paid";
+  total: number;
+  transactions: Transaction[];
+}
+
+interface CardStatementsOverview {
+  accountId: number;
+  creditLimit: number;
+  usedCredit: number;
+  availableCredit: number;
+  statements: CardStatement[];
+}
+
+interface CardStatementsProps {
+  accountId: number;
+}
+
+const statusLabels: Record<CardStatement["status"], string> = {
+  open: "Aberta",
+  closed: "Fechada",
+  paid: "Paga",
+};
+
+const statusColors: Record<CardStatement["status"], string> = {
+  open: "bg-blue-100 text-blue-800",
+  closed: "bg-orange-100 text-orange-800",
+  paid: "bg-green-100 text-green-800",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("pt-BR", { timeZone: "UTC" });
+
+export default function CardStatements({ accountId }: CardStatementsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [sourceAccountId, setSourceAccountId] = useState("");
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["accounts"],
+    queryFn: () => api("/api/accounts"),
+  });
+
+  const { data: overview, isLoading } = useQuery<CardStatementsOverview>({
+    queryKey: ["accounts", accountId, "statements"],
+    queryFn: () => api(`/api/accounts/${accountId}/statements`),
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async (statementId: number) => {
+      return api(`/api/accounts/${accountId}/statements/${statementId}/pay`, {
+        method: "POST",
+        body: JSON.stringify({ sourceAccountId: parseInt(sourceAccountId) }),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Fatura paga com sucesso" });
+      // A chave ["accounts"] também cobre as faturas deste cartão
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions", "transfer"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao pagar fatura",
+        description: error?.data?.message || error?.message || "Tente novamente",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePay = (statementId: number) => {
+    if (!sourceAccountId) {
+      toast({ title: "Selecione a conta de pagamento", variant: "destructive" });
+      return;
+    }
+    payMutation.mutate(statementId);
+  };
+
+  if (isLoading) {
+    return <p>Carregando faturas...</p>;
+  }
+
+  if (!overview) {
+    return <p>Não foi possível carregar as faturas.</p>;
+  }
+
+  const paymentAccounts = (accounts || []).filter((account) => account.type !== "credit_card");
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div>
+          <p className="text-sm text-gray-500">Limite</p>
+          <p className="text-lg font-semibold">{formatCurrency(overview.creditLimit)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Utilizado</p>
+          <p className="text-lg font-semibold text-red-600">{formatCurrency(overview.usedCredit)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Disponível</p>
+          <p className="text-lg font-semibold text-green-600">{formatCurrency(overview.availableCredit)}</p>
+        </div>
+      </div>
+
+      <div className="max-w-xs space-y-1">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-200">Pagar com</label>
+        <AccountSelect accounts={paymentAccounts} value={sourceAccountId} onChange={setSourceAccountId} />
+      </div>
+
+      {overview.statements.length === 0 ? (
+        <p>Nenhuma fatura encontrada.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Período</TableHead>
+              <TableHead>Fechamento</TableHead>
+              <TableHead>Vencimento</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Total</TableHead>
+              <TableHead className="w-[180px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {overview.statements.map((statement) => (
+              <Fragment key={statement.id}>
+                <TableRow>
+                  <TableCell>
+                    {formatDate(statement.periodStart)} - {formatDate(statement.closingDate)}
+                  </TableCell>
+                  <TableCell>{formatDate(statement.closingDate)}</TableCell>
+                  <TableCell>{formatDate(statement.dueDate)}</TableCell>
+                  <TableCell>
+                    <Badge className={`text-xs font-medium ${statusColors[statement.status]}`}>
+                      {statusLabels[statement.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatCurrency(statement.total)}</TableCell>
+                  <TableCell className="space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedId(expandedId === statement.id ? null : statement.id)}
+                    >
+                      {expandedId === statement.id ? "Ocultar" : "Compras"}
+                    </Button>
+                    {statement.status === "closed" && statement.total > 0 && (
+                      <Button size="sm" onClick={() => handlePay(statement.id)} disabled={payMutation.isPending}>
+                        Pagar
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+                {expandedId === statement.id && (
+                  <TableRow>
+                    <TableCell colSpan={6}>
+                      {statement.transactions.length === 0 ? (
+                        <p className="text-sm text-gray-500">Nenhuma compra nesta fatura.</p>
+                      ) : (
+                        <ul className="space-y-1 text-sm">
+                          {statement.transactions.map((transaction) => (
+                            <li key={transaction.id} className="flex justify-between">
+                              <span>
+                                {formatDate(transaction.date)} · {transaction.description}
+                              </span>
+                              <span className={transaction.type === "income" ? "text-green-600" : "text-red-600"}>
+                                {transaction.type === "income" ? "-" : ""}
+                                {formatCurrency(parseFloat(transaction.amount))}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
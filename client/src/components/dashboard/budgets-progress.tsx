@@ -0,0 +1,111 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCurrency } from "@/lib/currency";
+import { api } from "@/lib/api";
+import { BudgetSummary } from "@/lib/types";
+import { useTranslation } from "react-i18next";
+
+const getPercentColor = (percent: number): string => {
+  if (percent >= 100) return "text-red-600";
+  if (percent >= 80) return "text-yellow-600";
+  return "text-gray-500";
+};
+
+// Orçamentos do mês corrente, dos mais consumidos para os menos consumidos
+export default function BudgetsProgress() {
+  const { t } = useTranslation();
+  const { data: budgets, isLoading } = useQuery<BudgetSummary[]>({
+    queryKey: ["budgets"],
+    queryFn: () => api("/api/budgets"),
+  });
+
+  if (isLoading) {
+    return (
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader className="pb-6">
+          <CardTitle className="text-lg font-semibold text-gray-800">
+            {t('budgets.title')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-6">
+            {[1, 2, 3].map((i) => (
+              <div key={i}>
+                <div className="flex justify-between items-center mb-2">
+                  <Skeleton className="h-4 w-24" />
+                  <Skeleton className="h-4 w-12" />
+                </div>
+                <Skeleton className="h-2 w-full mb-1" />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!budgets) {
+    return (
+      <Card className="bg-white shadow-sm border border-gray-200">
+        <CardHeader>
+          <CardTitle>{t('budgets.title')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8 text-gray-500">
+            {t('budgets.errorLoading')}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const sorted = [...budgets].sort((a, b) => b.percent - a.percent);
+
+  return (
+    <Card className="bg-white shadow-sm border border-gray-200">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-lg font-semibold text-gray-800">
+          {t('budgets.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {sorted.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p className="mb-4">{t('budgets.empty')}</p>
+            <Button size="sm" asChild>
+              <Link to="/budgets">{t('budgets.new')}</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {sorted.slice(0, 4).map((budget) => (
+              <div key={budget.id}>
+                <div className="flex justify-between items-center mb-2">
+                  <h4 className="font-medium text-gray-900">{budget.categoryName}</h4>
+                  <span className={`text-sm ${getPercentColor(budget.percent)}`}>{Math.round(budget.percent)}%</span>
+                </div>
+                <Progress value={Math.min(budget.percent, 100)} className="w-full h-2 mb-1" />
+                <div className="flex justify-between text-sm text-gray-500">
+                  <span>{t('budgets.spent')}: {formatCurrency(budget.spent)}</span>
+                  <span>{t('budgets.planned')}: {formatCurrency(budget.planned)}</span>
+                </div>
+              </div>
+            ))}
+
+            {sorted.length > 4 && (
+              <div className="text-center pt-4">
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/budgets">{t('budgets.viewAll')}</Link>
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
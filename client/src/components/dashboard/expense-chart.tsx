@@ -39,6 +39,7 @@ interface DashboardFilters {
   endDate: string;
   year: string;
   month: string;
+  memberId?: string;
 }
 
 interface ExpenseChartProps {
@@ -65,6 +66,7 @@ export default function ExpenseChart({ filters }: ExpenseChartProps) {
     if (endIso) params.set("endDate", endIso);
     if (filters.year) params.set("year", filters.year);
     if (filters.month && filters.month !== "all") params.set("month", filters.month);
+    if (filters.memberId && filters.memberId !== "all") params.set("memberId", filters.memberId);
 
     const queryString = params.toString();
     return queryString ? `/api/reports/charts?${queryString}` : "/api/reports/charts";
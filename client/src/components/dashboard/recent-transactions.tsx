@@ -7,6 +7,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency } from "@/lib/currency";
 import { formatDate } from "@/lib/date";
 import { api } from "@/lib/api";
+import { TransactionAttachment } from "@/lib/types";
+import { AttachmentThumbnails } from "@/components/ui/attachment-thumbnails";
 import { Briefcase, ShoppingCart, Car, Home, Utensils } from "lucide-react";
 import { useTranslation } from "react-i18next";
 
@@ -18,6 +20,7 @@ interface Transaction {
   type: string;
   status: string;
   categoryId: number;
+  attachments?: TransactionAttachment[];
 }
 
 interface Category {
@@ -254,6 +257,7 @@ export default function RecentTransactions({ filters }: RecentTransactionsProps)
   };
 
   const getIconColor = (type: string) => {
+    if (type === 'transfer') return 'text-blue-500 bg-blue-50';
     return type === 'income' 
       ? 'text-green-500 bg-green-50' 
       : 'text-red-500 bg-red-50';
@@ -343,8 +347,10 @@ export default function RecentTransactions({ filters }: RecentTransactionsProps)
                   const IconComponent = getCategoryIcon(transaction.categoryId);
                   const iconColorClass = getIconColor(transaction.type);
                   const amountFormatted = formatCurrency(parseFloat(transaction.amount));
-                  const amountWithSign = transaction.type === 'income' ? `+${amountFormatted}` : `-${amountFormatted}`;
-                  const amountColor = transaction.type === 'income' ? 'text-green-600' : 'text-red-600';
+                  // Transferências apenas movem saldo entre contas: sem sinal e em cor neutra
+                  const isTransfer = transaction.type === 'transfer';
+                  const amountWithSign = isTransfer ? amountFormatted : transaction.type === 'income' ? `+${amountFormatted}` : `-${amountFormatted}`;
+                  const amountColor = isTransfer ? 'text-blue-600' : transaction.type === 'income' ? 'text-green-600' : 'text-red-600';
 
                   return (
                     <tr key={transaction.id} className="border-b border-gray-50 hover:bg-gray-50">
@@ -354,10 +360,11 @@ export default function RecentTransactions({ filters }: RecentTransactionsProps)
                             <IconComponent className="h-4 w-4" />
                           </div>
                           <span className="font-medium text-gray-900">{transaction.description}</span>
+                          <AttachmentThumbnails attachments={transaction.attachments} />
                         </div>
                       </td>
                       <td className="py-4 px-4 text-gray-600">
-                        {getCategoryName(transaction.categoryId)}
+                        {isTransfer ? t('transactions.transfer') : getCategoryName(transaction.categoryId)}
                       </td>
                       <td className="py-4 px-4 text-gray-600">
                         {formatDate(transaction.date)}
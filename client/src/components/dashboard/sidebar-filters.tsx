@@ -2,7 +2,8 @@ import { useQuery } from "@tanstack/react-query";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "lucide-react";
-import { api } from "@/lib/api";
+import { api, getActiveHouseholdId } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
 import { formatCurrency } from "@/lib/currency";
 
 interface Account {
@@ -17,6 +18,12 @@ interface DashboardFilters {
   endDate: string;
   year: string;
   month: string;
+  memberId: string;
+}
+
+interface HouseholdMembers {
+  owner: { userId: number; name: string };
+  members: { userId: number; name: string }[];
 }
 
 interface SidebarFiltersProps {
@@ -31,6 +38,16 @@ export default function SidebarFilters({ filters, onFiltersChange, onResetFilter
     queryFn: () => api("/api/accounts"),
   });
 
+  // Membros da casa ativa; o filtro só aparece quando a casa é compartilhada
+  const { user } = useAuth();
+  const householdId = getActiveHouseholdId() ?? user?.id;
+  const { data: household } = useQuery<HouseholdMembers>({
+    queryKey: ["households", householdId, "members"],
+    queryFn: () => api(`/api/households/${householdId}/members`),
+    enabled: !!householdId,
+  });
+  const members = household && household.members.length > 0 ? [household.owner, ...household.members] : [];
+
   const currentYear = new Date().getFullYear();
   const yearOptions = Array.from({ length: 5 }, (_, i) => (currentYear - 2 + i).toString());
   return (
@@ -52,6 +69,23 @@ export default function SidebarFilters({ filters, onFiltersChange, onResetFilter
           </Select>
         </div>
 
+        {members.length > 0 && (
+          <div>
+            <label htmlFor="filter-member" className="block text-sm font-medium text-gray-400 mb-1">Membro</label>
+            <Select value={filters.memberId} onValueChange={(value) => onFiltersChange({ ...filters, memberId: value })}>
+              <SelectTrigger id="filter-member" aria-label="Membro" className="bg-[#020617] border-dark-border text-gray-100">
+                <SelectValue placeholder="Todos" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.userId} value={String(member.userId)}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div className="p-4 bg-[#020617] rounded-lg border border-dark-border/70">
           <div className="flex items-center text-sm font-semibold text-gray-400 mb-3">
             <span>Contas bancárias</span>
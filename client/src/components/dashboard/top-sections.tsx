@@ -11,6 +11,7 @@ interface TopIncomeCategoriesProps {
     endDate: string;
     year: string;
     month: string;
+    memberId?: string;
   };
 }
 
@@ -34,6 +35,7 @@ export function TopIncomeCategories({ filters }: TopIncomeCategoriesProps) {
     if (endIso) params.set("endDate", endIso);
     if (filters.year) params.set("year", filters.year);
     if (filters.month && filters.month !== "all") params.set("month", filters.month);
+    if (filters.memberId && filters.memberId !== "all") params.set("memberId", filters.memberId);
     if (limit && limit !== "all") params.set("limit", limit);
 
     const queryString = params.toString();
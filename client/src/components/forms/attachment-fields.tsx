@@ -0,0 +1,141 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Paperclip, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AttachmentThumbnail } from "@/components/ui/attachment-thumbnails";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { TransactionAttachment } from "@/lib/types";
+import { ATTACHMENT_MAX_BYTES, ATTACHMENT_MIME_TYPES } from "../../../../shared/schema";
+
+const readAsBase64 = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Envia os arquivos escolhidos no formulário depois que a transação foi gravada
+export async function uploadAttachments(transactionId: number, files: File[]) {
+  for (const file of files) {
+    await api(`/api/transactions/${transactionId}/attachments`, {
+      method: "POST",
+      body: JSON.stringify({ fileName: file.name, mimeType: file.type, content: await readAsBase64(file) }),
+    });
+  }
+  if (files.length > 0) {
+    queryClient.invalidateQueries({ queryKey: ["attachments", transactionId] });
+  }
+}
+
+interface AttachmentFieldsProps {
+  // Transação em edição: mostra os anexos já gravados, que podem ser removidos
+  transactionId?: number;
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+}
+
+// Comprovantes e boletos (imagens ou PDF) da transação
+export function AttachmentFields({ transactionId, files, onFilesChange }: AttachmentFieldsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const { data: attachments } = useQuery<TransactionAttachment[]>({
+    queryKey: ["attachments", transactionId],
+    queryFn: () => api(`/api/transactions/${transactionId}/attachments`),
+    enabled: !!transactionId,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (attachment: TransactionAttachment) =>
+      api(`/api/transactions/${attachment.transactionId}/attachments/${attachment.id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["attachments", transactionId] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    },
+    onError: (error) => {
+      toast({ title: t("common.error"), description: (error as Error).message, variant: "destructive" });
+    },
+  });
+
+  const addFiles = (selected: FileList | null) => {
+    if (!selected) return;
+    const accepted: File[] = [];
+    for (const file of Array.from(selected)) {
+      if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type)) {
+        toast({ title: t("common.error"), description: t("attachments.invalidType", { name: file.name }), variant: "destructive" });
+      } else if (file.size > ATTACHMENT_MAX_BYTES) {
+        toast({ title: t("common.error"), description: t("attachments.tooLarge", { name: file.name }), variant: "destructive" });
+      } else {
+        accepted.push(file);
+      }
+    }
+    onFilesChange([...files, ...accepted]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="attachments">{t("attachments.label")}</Label>
+      {attachments && attachments.length > 0 && (
+        <ul className="space-y-1">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2 truncate">
+                <AttachmentThumbnail attachment={attachment} />
+                <span className="truncate">{attachment.fileName}</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title={t("attachments.remove")}
+                onClick={() => {
+                  if (confirm(t("attachments.removeConfirm", { name: attachment.fileName }))) {
+                    deleteMutation.mutate(attachment);
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-sm text-gray-600">
+              <span className="flex items-center gap-2 truncate">
+                <Paperclip className="h-4 w-4" />
+                <span className="truncate">{file.name}</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title={t("attachments.remove")}
+                onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Input
+        id="attachments"
+        type="file"
+        multiple
+        accept={ATTACHMENT_MIME_TYPES.join(",")}
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+      <p className="text-xs text-gray-500">{t("attachments.hint")}</p>
+    </div>
+  );
+}
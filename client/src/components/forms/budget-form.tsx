@@ -0,0 +1,145 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient } from "@/lib/queryClient";
+import { api } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { Budget, Category } from "@/lib/types";
+import { handleApiFormError } from "@/lib/formError";
+
+const createBudgetSchema = (t: (key: string) => string) =>
+  z.object({
+    categoryId: z.string().min(1, t("budgets.validation.categoryRequired")),
+    amount: z.string().refine((value) => parseFloat(value) > 0, t("budgets.validation.amountRequired")),
+    rollover: z.boolean(),
+  });
+
+type BudgetFormData = z.infer<ReturnType<typeof createBudgetSchema>>;
+
+interface BudgetFormProps {
+  initialData?: Budget;
+  // Categorias que já possuem orçamento (não podem receber um segundo)
+  usedCategoryIds?: number[];
+  onSuccess: () => void;
+}
+
+export default function BudgetForm({ initialData, usedCategoryIds = [], onSuccess }: BudgetFormProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["categories", "expense"],
+    queryFn: () => api('/api/categories?type=expense'),
+  });
+
+  const budgetSchema = createBudgetSchema(t);
+
+  const form = useForm<BudgetFormData>({
+    resolver: zodResolver(budgetSchema),
+    defaultValues: {
+      categoryId: initialData ? initialData.categoryId.toString() : "",
+      amount: initialData ? initialData.amount : "",
+      rollover: initialData?.rollover ?? false,
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BudgetFormData) => {
+      if (initialData) {
+        // A categoria de um orçamento existente não muda
+        const payload = { amount: parseFloat(data.amount), rollover: data.rollover };
+        return api(`/api/budgets/${initialData.id}`, { method: 'PUT', body: JSON.stringify(payload) });
+      }
+      const payload = { ...data, amount: parseFloat(data.amount), categoryId: parseInt(data.categoryId) };
+      return api("/api/budgets", { method: 'POST', body: JSON.stringify(payload) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+      toast({ title: t(initialData ? 'budgets.toast.updateSuccess' : 'budgets.toast.createSuccess') });
+      form.reset();
+      onSuccess();
+    },
+    onError: (error) => {
+      const msg = handleApiFormError<BudgetFormData>(error, form.setError, t, { defaultMessageKey: 'budgets.toast.saveError' });
+      toast({ title: t('common.error'), description: msg, variant: 'destructive' });
+    },
+  });
+
+  const onSubmit = (data: BudgetFormData) => {
+    saveMutation.mutate(data);
+  };
+
+  const availableCategories = (categories || []).filter(
+    (category) => category.id === initialData?.categoryId || !usedCategoryIds.includes(category.id),
+  );
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label htmlFor="categoryId">{t('budgets.form.category')}</Label>
+        <Select
+          value={form.watch("categoryId")}
+          onValueChange={(value) => form.setValue("categoryId", value)}
+          disabled={!!initialData}
+        >
+          <SelectTrigger id="categoryId">
+            <SelectValue placeholder={t('budgets.form.categoryPlaceholder')} />
+          </SelectTrigger>
+          <SelectContent>
+            {availableCategories.map((category) => (
+              <SelectItem key={category.id} value={category.id.toString()}>
+                {category.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {form.formState.errors.categoryId && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.categoryId.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="amount">{t('budgets.form.amount')}</Label>
+        <Input
+          id="amount"
+          type="number"
+          step="0.01"
+          min="0.01"
+          {...form.register("amount")}
+          placeholder="0,00"
+        />
+        {form.formState.errors.amount && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.amount.message}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="rollover"
+          checked={form.watch("rollover")}
+          onCheckedChange={(checked) => form.setValue("rollover", checked)}
+        />
+        <Label htmlFor="rollover" className="cursor-pointer">
+          {t('budgets.form.rollover')}
+        </Label>
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? t('common.saving') : (initialData ? t('common.save') : t('common.create'))}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,7 +1,7 @@
 import { useForm } from "react-hook-form";
 import { useState, useEffect } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
@@ -11,11 +11,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { api } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { Category, Transaction } from "@/lib/types";
+import { Account, Category, Transaction } from "@/lib/types";
 import { useTranslation } from "react-i18next";
 import { CategoryColorDot } from "@/components/ui/category-color-dot";
 import "@/components/ui/category-color-dot.css";
 import { CategorySelect } from "@/components/ui/category-select";
+import { AccountSelect } from "@/components/ui/account-select";
+import { RecurrenceFields, RecurrenceScopeSelect, RecurrenceScope, RecurrenceValue, defaultRecurrence } from "@/components/forms/recurrence-fields";
+import { AttachmentFields, uploadAttachments } from "@/components/forms/attachment-fields";
 import { convertToISOFormat, convertFromISOFormat } from "@/lib/date";
 import { handleApiFormError } from "@/lib/formError";
 
@@ -42,11 +45,18 @@ const createExpenseSchema = (t: (key: string) => string, dateFormat: string) =>
     (value) => !value || createDateRegex(dateFormat).test(value),
     { message: t("expenses.validation.dueDateFormat") + ` (${dateFormat})` }
   ).optional().nullable(),
-  categoryId: z.string().min(1, t("expenses.validation.categoryRequired")),
+  // Opcional em despesas avulsas: sem categoria, o servidor aplica as regras de categorização
+  categoryId: z.string(),
+  accountId: z.string().min(1, t("expenses.validation.accountRequired")),
   status: z.enum(["pending", "paid", "overdue"]),
   expenseType: z.enum(["fixed", "variable"]),
   isRecurring: z.boolean().optional(),
-  repeatMonths: z.coerce.number().min(0).max(60).optional().default(0),
+  isInstallment: z.boolean().optional(),
+  installments: z.coerce.number().int().min(2).max(48).optional().default(2),
+  applyToRemaining: z.boolean().optional(),
+}).refine((data) => !data.isInstallment || !!data.categoryId, {
+  message: t("expenses.validation.categoryRequired"),
+  path: ["categoryId"],
 });
 
 type ExpenseFormData = z.infer<ReturnType<typeof createExpenseSchema>>;
@@ -63,6 +73,15 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
   console.log(JSON.stringify(categories, null, 2));
   const { toast } = useToast();
   const { t, i18n } = useTranslation();
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["accounts"],
+    queryFn: () => api("/api/accounts"),
+  });
+
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>(defaultRecurrence);
+  const [recurrenceScope, setRecurrenceScope] = useState<RecurrenceScope>("this");
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
   
   // Estado para armazenar o formato de data preferido pelo usuário
   const initialByLang = (lng: string | undefined) => (lng && lng.startsWith('en')) ? 'YYYY-MM-DD' : 'DD/MM/YYYY';
@@ -168,10 +187,13 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
                  : convertFromISOFormat(new Date(initialData.dueDate).toISOString().split('T')[0], dateFormat)
                : "",
       categoryId: initialData?.categoryId?.toString() || "",
+      accountId: initialData?.accountId?.toString() || "",
       status: (initialData?.status as any) || "pending",
       expenseType: (initialData as any)?.expenseType || "variable",
       isRecurring: initialData?.isRecurring || false,
-      repeatMonths: 0,
+      isInstallment: false,
+      installments: 2,
+      applyToRemaining: false,
     },
   });
 
@@ -212,57 +234,57 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
     }
   }, [dateFormat, form]);
 
+  // A transação já foi gravada: falha no envio de um anexo não é erro do formulário
+  const uploadFiles = (transactionId: number) =>
+    uploadAttachments(transactionId, attachmentFiles).catch((error) => {
+      toast({ title: t('attachments.uploadError'), description: (error as Error).message, variant: 'destructive' });
+    });
+
   const createMutation = useMutation({
     mutationFn: async (data: ExpenseFormData) => {
-      const addMonths = (isoDate: string, monthsToAdd: number) => {
-        const d = new Date(isoDate);
-        const year = d.getUTCFullYear();
-        const month = d.getUTCMonth();
-        const day = d.getUTCDate();
-        const target = new Date(Date.UTC(year, month + monthsToAdd, 1));
-        const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
-        const safeDay = Math.min(day, lastDay);
-        const result = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), safeDay));
-        return result.toISOString().split('T')[0];
-      };
-
       const baseDateISO = convertToISOFormat(data.date, dateFormat);
       const baseDueISO = data.dueDate ? convertToISOFormat(data.dueDate, dateFormat) : null;
 
+      // Compra parcelada: o servidor cria o grupo e uma parcela por mês
+      if (data.isInstallment) {
+        const installmentPayload = {
+          description: data.description,
+          amount: parseFloat(data.amount),
+          installments: data.installments,
+          date: baseDateISO,
+          dueDate: baseDueISO,
+          status: data.status === "paid" ? "paid" : "pending",
+          expenseType: data.expenseType,
+          categoryId: parseInt(data.categoryId),
+          accountId: parseInt(data.accountId),
+        };
+        const result = await api("/api/transactions/installments", { method: 'POST', body: JSON.stringify(installmentPayload) });
+        // Os comprovantes da compra ficam na primeira parcela
+        await uploadFiles(result.transactions[0].id);
+        return result;
+      }
+
       const basePayload = {
         description: data.description,
         amount: parseFloat(data.amount).toString(),
-        categoryId: parseInt(data.categoryId),
+        categoryId: data.categoryId ? parseInt(data.categoryId) : null,
+        accountId: parseInt(data.accountId),
         type: "expense",
         status: data.status,
         expenseType: data.expenseType,
         isRecurring: !!data.isRecurring,
       } as any;
 
-      const firstPayload = {
+      // As próximas ocorrências de despesas recorrentes são geradas pelo servidor
+      const payload = {
         ...basePayload,
         date: baseDateISO,
         dueDate: baseDueISO,
+        recurrence: data.isRecurring ? recurrence : undefined,
       };
 
-      const created = await api("/api/transactions", { method: 'POST', body: JSON.stringify(firstPayload) });
-
-      const repeats = Math.max(0, Number(data.repeatMonths || 0));
-      if (repeats > 0) {
-        const requests: Promise<any>[] = [];
-        for (let i = 1; i <= repeats; i++) {
-          const nextDateISO = addMonths(baseDateISO, i);
-          const nextDueISO = baseDueISO ? addMonths(baseDueISO, i) : null;
-          const payload = {
-            ...basePayload,
-            date: nextDateISO,
-            dueDate: nextDueISO,
-          };
-          requests.push(api("/api/transactions", { method: 'POST', body: JSON.stringify(payload) }));
-        }
-        await Promise.all(requests);
-      }
-
+      const created = await api("/api/transactions", { method: 'POST', body: JSON.stringify(payload) });
+      await uploadFiles(created.id);
       return created;
     },
     onSuccess: () => {
@@ -270,6 +292,8 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
       queryClient.invalidateQueries({ queryKey: ["transactions", "expense"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
       toast({
         title: t('expenses.created'),
         description: t('expenses.createdSuccess'),
@@ -289,18 +313,36 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
         ...data,
         amount: parseFloat(data.amount).toString(),
         categoryId: parseInt(data.categoryId),
+        accountId: parseInt(data.accountId),
         type: "expense",
         date: convertToISOFormat(data.date, dateFormat),
         dueDate: data.dueDate ? convertToISOFormat(data.dueDate, dateFormat) : null,
         expenseType: data.expenseType,
       };
-      return api(`/api/transactions/${initialData?.id}`, { method: 'PUT', body: JSON.stringify(payload) });
+      const scopeParam = initialData?.recurrenceRuleId ? `?scope=${recurrenceScope}` : "";
+      const updated = await api(`/api/transactions/${initialData?.id}${scopeParam}`, { method: 'PUT', body: JSON.stringify(payload) });
+
+      if (data.applyToRemaining && initialData?.installmentGroupId) {
+        await api(`/api/installment-groups/${initialData.installmentGroupId}`, {
+          method: 'PUT',
+          body: JSON.stringify({
+            description: data.description,
+            categoryId: parseInt(data.categoryId),
+            expenseType: data.expenseType,
+            installmentAmount: parseFloat(data.amount),
+          }),
+        });
+      }
+      await uploadFiles(initialData!.id);
+      return updated;
     },
     onSuccess: () => {
       // Atualiza listas de despesas e Relatórios
       queryClient.invalidateQueries({ queryKey: ["transactions", "expense"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
       toast({
         title: t('expenses.updated'),
         description: t('expenses.updatedSuccess'),
@@ -364,6 +406,9 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
           onChange={(value) => form.setValue("categoryId", value)}
           placeholder={t('expenses.selectCategory')}
         />
+        {!initialData && !form.watch("isInstallment") && (
+          <p className="text-xs text-gray-500 mt-1">{t('categorizationRules.autoHint')}</p>
+        )}
         {form.formState.errors.categoryId && (
           <p className="text-sm text-red-500">
             {form.formState.errors.categoryId.message}
@@ -371,6 +416,20 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
         )}
       </div>
 
+      <div>
+        <Label htmlFor="accountId">{t('expenses.account', 'Conta')}</Label>
+        <AccountSelect
+          accounts={accounts || []}
+          value={form.watch("accountId")}
+          onChange={(value) => form.setValue("accountId", value)}
+        />
+        {form.formState.errors.accountId && (
+          <p className="text-sm text-red-500">
+            {form.formState.errors.accountId.message}
+          </p>
+        )}
+      </div>
+
       <div>
         <Label htmlFor="expenseType">{t('expenses.typeLabel')}</Label>
         <Select value={form.watch("expenseType")} onValueChange={(value) => form.setValue("expenseType", value as "fixed" | "variable")}>
@@ -450,20 +509,57 @@ export default function ExpenseFormNew({ initialData, onSuccess, categories }: E
         </Label>
       </div>
 
-      {form.watch("isRecurring") && (
+      {!initialData && (
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="isInstallment"
+            checked={form.watch("isInstallment")}
+            onCheckedChange={(checked) => form.setValue("isInstallment", checked)}
+          />
+          <Label htmlFor="isInstallment" className="cursor-pointer">
+            {t('expenses.installments.toggle')}
+          </Label>
+        </div>
+      )}
+
+      {!initialData && form.watch("isInstallment") && (
         <div>
-          <Label htmlFor="repeatMonths">Repetir por (meses)</Label>
+          <Label htmlFor="installments">{t('expenses.installments.count')}</Label>
           <Input
-            id="repeatMonths"
+            id="installments"
             type="number"
-            min={0}
-            max={60}
-            value={form.watch("repeatMonths") ?? 0}
-            onChange={(e) => form.setValue("repeatMonths", Number(e.target.value))}
+            min={2}
+            max={48}
+            value={form.watch("installments") ?? 2}
+            onChange={(e) => form.setValue("installments", Number(e.target.value))}
           />
+          <p className="text-xs text-gray-500 mt-1">{t('expenses.installments.totalHint')}</p>
         </div>
       )}
 
+      {initialData?.installmentGroupId && (
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="applyToRemaining"
+            checked={form.watch("applyToRemaining")}
+            onCheckedChange={(checked) => form.setValue("applyToRemaining", checked)}
+          />
+          <Label htmlFor="applyToRemaining" className="cursor-pointer">
+            {t('expenses.installments.applyToRemaining')}
+          </Label>
+        </div>
+      )}
+
+      {!initialData && form.watch("isRecurring") && !form.watch("isInstallment") && (
+        <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+      )}
+
+      {initialData?.recurrenceRuleId && (
+        <RecurrenceScopeSelect value={recurrenceScope} onChange={setRecurrenceScope} />
+      )}
+
+      <AttachmentFields transactionId={initialData?.id} files={attachmentFiles} onFilesChange={setAttachmentFiles} />
+
       <div className="flex justify-end space-x-2">
         <Button type="button" variant="outline" onClick={onSuccess}>
           {t('common.cancel')}
@@ -92,7 +92,8 @@ export default function GoalForm({ initialData, onSubmitSuccess }: GoalFormProps
       const payload = {
         ...data,
         targetAmount: parseFloat(data.targetAmount).toString(),
-        currentAmount: parseFloat(data.currentAmount || "0").toString(),
+        // O valor guardado muda só pelas movimentações da meta
+        currentAmount: undefined,
         targetDate: data.targetDate || null,
         monthlyContribution: (data.monthlyContribution ?? 0).toString(),
         annualInterestRate: (data.annualInterestRate ?? 0).toString(),
@@ -153,16 +154,18 @@ export default function GoalForm({ initialData, onSubmitSuccess }: GoalFormProps
         )}
       </div>
 
-      <div>
-        <Label htmlFor="currentAmount">{t("goals.form.currentAmount")}</Label>
-        <Input
-          id="currentAmount"
-          type="number"
-          step="0.01"
-          {...form.register("currentAmount")}
-          placeholder="0"
-        />
-      </div>
+      {!initialData && (
+        <div>
+          <Label htmlFor="currentAmount">{t("goals.form.currentAmount")}</Label>
+          <Input
+            id="currentAmount"
+            type="number"
+            step="0.01"
+            {...form.register("currentAmount")}
+            placeholder="0"
+          />
+        </div>
+      )}
 
       <div>
         <Label htmlFor="targetDate">{t("goals.form.targetDate")}</Label>
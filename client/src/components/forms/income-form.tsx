@@ -1,6 +1,6 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,6 +12,9 @@ import { api } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "react-i18next";
 import { CategoryColorDot } from "@/components/ui/category-color-dot";
+import { AccountSelect } from "@/components/ui/account-select";
+import { RecurrenceFields, RecurrenceScopeSelect, RecurrenceScope, RecurrenceValue, defaultRecurrence } from "@/components/forms/recurrence-fields";
+import { Account } from "@/lib/types";
 import "@/components/ui/category-color-dot.css";
 import { formatDateForInput, parseUserDateInput } from "@/lib/date";
 import { useEffect, useState } from "react";
@@ -61,7 +64,9 @@ const createIncomeSchema = (t: (key: string) => string) => {
     description: z.string().min(1, t("income.validation.descriptionRequired")),
     amount: z.string().min(1, t("income.validation.amountRequired")),
     date: dateSchema,
-    categoryId: z.string().min(1, t("income.validation.categoryRequired")),
+    // Opcional: sem categoria, o servidor aplica as regras de categorização
+    categoryId: z.string(),
+    accountId: z.string().min(1, t("income.validation.accountRequired")),
     status: z.enum(["pending", "received"]),
     isRecurring: z.boolean().optional(),
   });
@@ -83,6 +88,8 @@ interface Transaction {
   status: string;
   categoryId: number;
   isRecurring: boolean;
+  accountId?: number | null;
+  recurrenceRuleId?: number | null;
 }
 
 interface IncomeFormProps {
@@ -94,6 +101,14 @@ interface IncomeFormProps {
 export default function IncomeForm({ initialData, onSuccess, categories }: IncomeFormProps) {
   const { t, i18n } = useTranslation();
   const { toast } = useToast();
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["accounts"],
+    queryFn: () => api("/api/accounts"),
+  });
+
+  const [recurrence, setRecurrence] = useState<RecurrenceValue>(defaultRecurrence);
+  const [recurrenceScope, setRecurrenceScope] = useState<RecurrenceScope>("this");
   
   // Estado para armazenar o formato de data preferido pelo usuário
   const [dateFormat, setDateFormat] = useState<string>('YYYY-MM-DD');
@@ -168,6 +183,7 @@ export default function IncomeForm({ initialData, onSuccess, categories }: Incom
       amount: initialData?.amount || "",
       date: initialData?.date || new Date().toISOString().split('T')[0],
       categoryId: initialData?.categoryId?.toString() || "",
+      accountId: initialData?.accountId?.toString() || "",
       status: (initialData?.status as any) || "pending",
       isRecurring: initialData?.isRecurring || false,
     },
@@ -179,9 +195,11 @@ export default function IncomeForm({ initialData, onSuccess, categories }: Incom
       const payload = {
         ...data,
         amount: parseFloat(data.amount).toString(),
-        categoryId: parseInt(data.categoryId),
+        categoryId: data.categoryId ? parseInt(data.categoryId) : null,
+        accountId: parseInt(data.accountId),
         type: "income",
         date: parseUserDateInput(data.date),
+        recurrence: data.isRecurring ? recurrence : undefined,
       };
       return api("/api/transactions", { method: 'POST', body: JSON.stringify(payload) });
     },
@@ -190,6 +208,7 @@ export default function IncomeForm({ initialData, onSuccess, categories }: Incom
       queryClient.invalidateQueries({ queryKey: ["transactions", "income"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
       toast({
         title: t('income.toast.createSuccess'),
         description: t('income.toast.createSuccessDescription'),
@@ -209,15 +228,18 @@ export default function IncomeForm({ initialData, onSuccess, categories }: Incom
         ...data,
         amount: parseFloat(data.amount).toString(),
         categoryId: parseInt(data.categoryId),
+        accountId: parseInt(data.accountId),
         date: parseUserDateInput(data.date),
       };
-      return api(`/api/transactions/${initialData!.id}`, { method: 'PUT', body: JSON.stringify(payload) });
+      const scopeParam = initialData?.recurrenceRuleId ? `?scope=${recurrenceScope}` : "";
+      return api(`/api/transactions/${initialData!.id}${scopeParam}`, { method: 'PUT', body: JSON.stringify(payload) });
     },
     onSuccess: () => {
       // Atualiza listas locais e Relatórios
       queryClient.invalidateQueries({ queryKey: ["transactions", "income"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
       toast({
         title: t('income.toast.updateSuccess'),
         description: t('income.toast.updateSuccessDescription'),
@@ -289,6 +311,9 @@ export default function IncomeForm({ initialData, onSuccess, categories }: Incom
             ))}
           </SelectContent>
         </Select>
+        {!initialData && (
+          <p className="text-xs text-gray-500 mt-1">{t('categorizationRules.autoHint')}</p>
+        )}
         {form.formState.errors.categoryId && (
           <p className="text-sm text-red-600 mt-1">
             {form.formState.errors.categoryId.message}
@@ -296,6 +321,20 @@ export default function IncomeForm({ initialData, onSuccess, categories }: Incom
         )}
       </div>
 
+      <div>
+        <Label htmlFor="accountId">{t('income.form.account', 'Conta')}</Label>
+        <AccountSelect
+          accounts={accounts || []}
+          value={form.watch("accountId")}
+          onChange={(value) => form.setValue("accountId", value)}
+        />
+        {form.formState.errors.accountId && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.accountId.message}
+          </p>
+        )}
+      </div>
+
       <div>
         <Label htmlFor="date">{t('income.form.date')}</Label>
         <Input
@@ -334,6 +373,14 @@ export default function IncomeForm({ initialData, onSuccess, categories }: Incom
         <Label htmlFor="isRecurring">{t('income.form.recurring')}</Label>
       </div>
 
+      {!initialData && form.watch("isRecurring") && (
+        <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+      )}
+
+      {initialData?.recurrenceRuleId && (
+        <RecurrenceScopeSelect value={recurrenceScope} onChange={setRecurrenceScope} />
+      )}
+
       <div className="flex justify-end space-x-2 pt-4">
         <Button type="submit" disabled={isLoading}>
           {isLoading ? t('common.saving') : initialData ? t('common.update') : t('common.create')}
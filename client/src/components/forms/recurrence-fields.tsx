@@ -0,0 +1,97 @@
+import { useTranslation } from "react-i18next";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type RecurrenceFrequency = "weekly" | "monthly" | "yearly";
+export type RecurrenceScope = "this" | "future" | "all";
+
+export interface RecurrenceValue {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number | null;
+}
+
+export const defaultRecurrence: RecurrenceValue = { frequency: "monthly", interval: 1, count: null };
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceValue;
+  onChange: (value: RecurrenceValue) => void;
+}
+
+// Campos do padrão de recorrência enviados em `recurrence` ao criar transações recorrentes
+export function RecurrenceFields({ value, onChange }: RecurrenceFieldsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <Label htmlFor="recurrenceFrequency">{t('recurrence.frequency')}</Label>
+        <Select
+          value={value.frequency}
+          onValueChange={(frequency) => onChange({ ...value, frequency: frequency as RecurrenceFrequency })}
+        >
+          <SelectTrigger id="recurrenceFrequency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="weekly">{t('recurrence.frequencies.weekly')}</SelectItem>
+            <SelectItem value="monthly">{t('recurrence.frequencies.monthly')}</SelectItem>
+            <SelectItem value="yearly">{t('recurrence.frequencies.yearly')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="recurrenceInterval">
+          {t('recurrence.interval')} ({t(`recurrence.intervalUnits.${value.frequency}`)})
+        </Label>
+        <Input
+          id="recurrenceInterval"
+          type="number"
+          min={1}
+          max={24}
+          value={value.interval}
+          onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+        />
+      </div>
+
+      <div className="col-span-2">
+        <Label htmlFor="recurrenceCount">{t('recurrence.count')}</Label>
+        <Input
+          id="recurrenceCount"
+          type="number"
+          min={1}
+          value={value.count ?? ""}
+          onChange={(e) => onChange({ ...value, count: e.target.value ? Number(e.target.value) : null })}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface RecurrenceScopeSelectProps {
+  value: RecurrenceScope;
+  onChange: (value: RecurrenceScope) => void;
+}
+
+// Escopo da edição de uma ocorrência recorrente (enviado como ?scope=)
+export function RecurrenceScopeSelect({ value, onChange }: RecurrenceScopeSelectProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div>
+      <Label htmlFor="recurrenceScope">{t('recurrence.scope')}</Label>
+      <Select value={value} onValueChange={(scope) => onChange(scope as RecurrenceScope)}>
+        <SelectTrigger id="recurrenceScope">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="this">{t('recurrence.scopes.this')}</SelectItem>
+          <SelectItem value="future">{t('recurrence.scopes.future')}</SelectItem>
+          <SelectItem value="all">{t('recurrence.scopes.all')}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
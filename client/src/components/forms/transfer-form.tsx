@@ -0,0 +1,184 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient } from "@/lib/queryClient";
+import { api } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "react-i18next";
+import { AccountSelect } from "@/components/ui/account-select";
+import { Account } from "@/lib/types";
+import { parseUserDateInput } from "@/lib/date";
+import { handleApiFormError } from "@/lib/formError";
+
+const createTransferSchema = (t: (key: string) => string) =>
+  z
+    .object({
+      description: z.string().min(1, t("transfers.validation.descriptionRequired")),
+      amount: z.string().min(1, t("transfers.validation.amountRequired")),
+      date: z.string().min(1, t("transfers.validation.dateFormat")),
+      accountId: z.string().min(1, t("transfers.validation.sourceRequired")),
+      destinationAccountId: z.string().min(1, t("transfers.validation.destinationRequired")),
+      status: z.enum(["pending", "paid"]),
+    })
+    .refine((data) => data.accountId !== data.destinationAccountId, {
+      message: t("transfers.validation.sameAccount"),
+      path: ["destinationAccountId"],
+    });
+
+type TransferFormData = z.infer<ReturnType<typeof createTransferSchema>>;
+
+interface TransferFormProps {
+  onSuccess: () => void;
+}
+
+export default function TransferForm({ onSuccess }: TransferFormProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["accounts"],
+    queryFn: () => api("/api/accounts"),
+  });
+
+  const transferSchema = createTransferSchema(t);
+
+  const form = useForm<TransferFormData>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: {
+      description: "",
+      amount: "",
+      date: new Date().toISOString().split('T')[0],
+      accountId: "",
+      destinationAccountId: "",
+      status: "paid",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: TransferFormData) => {
+      // Transferências não têm categoria: o servidor movimenta o saldo das duas contas
+      const payload = {
+        ...data,
+        amount: parseFloat(data.amount).toString(),
+        accountId: parseInt(data.accountId),
+        destinationAccountId: parseInt(data.destinationAccountId),
+        type: "transfer",
+        date: parseUserDateInput(data.date),
+      };
+      return api("/api/transactions", { method: 'POST', body: JSON.stringify(payload) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions", "transfer"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      toast({ title: t('transfers.toast.createSuccess') });
+      form.reset();
+      onSuccess();
+    },
+    onError: (error) => {
+      const msg = handleApiFormError<TransferFormData>(error, form.setError, t, { defaultMessageKey: 'transfers.toast.createError' });
+      toast({ title: t('common.error'), description: msg, variant: 'destructive' });
+    },
+  });
+
+  const onSubmit = (data: TransferFormData) => {
+    createMutation.mutate(data);
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div>
+        <Label htmlFor="description">{t('transfers.form.description')}</Label>
+        <Input
+          id="description"
+          {...form.register("description")}
+          placeholder={t('transfers.form.descriptionPlaceholder')}
+        />
+        {form.formState.errors.description && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.description.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="amount">{t('transfers.form.amount')}</Label>
+        <Input
+          id="amount"
+          type="number"
+          step="0.01"
+          min="0.01"
+          {...form.register("amount")}
+          placeholder="0,00"
+        />
+        {form.formState.errors.amount && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.amount.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="accountId">{t('transfers.form.sourceAccount')}</Label>
+        <AccountSelect
+          accounts={accounts || []}
+          value={form.watch("accountId")}
+          onChange={(value) => form.setValue("accountId", value)}
+        />
+        {form.formState.errors.accountId && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.accountId.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="destinationAccountId">{t('transfers.form.destinationAccount')}</Label>
+        <AccountSelect
+          accounts={(accounts || []).filter((account) => account.id.toString() !== form.watch("accountId"))}
+          value={form.watch("destinationAccountId")}
+          onChange={(value) => form.setValue("destinationAccountId", value)}
+        />
+        {form.formState.errors.destinationAccountId && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.destinationAccountId.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="date">{t('transfers.form.date')}</Label>
+        <Input id="date" type="date" {...form.register("date")} />
+        {form.formState.errors.date && (
+          <p className="text-sm text-red-600 mt-1">
+            {form.formState.errors.date.message}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor="status">{t('transfers.form.status')}</Label>
+        <Select value={form.watch("status")} onValueChange={(value) => form.setValue("status", value as any)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">{t('transfers.form.statusPending')}</SelectItem>
+            <SelectItem value="paid">{t('transfers.form.statusPaid')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end space-x-2 pt-4">
+        <Button type="submit" disabled={createMutation.isPending}>
+          {createMutation.isPending ? t('common.saving') : t('common.create')}
+        </Button>
+      </div>
+    </form>
+  );
+}
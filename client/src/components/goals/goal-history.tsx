@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { ArrowDownCircle, ArrowUpCircle, Flag, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AccountSelect } from "@/components/ui/account-select";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency";
+import { formatDate } from "@/lib/date";
+import { Account } from "@/lib/types";
+import type { Goal, GoalContribution } from "../../../../shared/schema";
+
+interface GoalPace {
+  monthlyContribution: number;
+  months: { month: string; planned: number; actual: number }[];
+  plannedTotal: number;
+  actualTotal: number;
+  difference: number;
+  averageMonthly: number;
+}
+
+interface GoalContributionsResponse {
+  contributions: GoalContribution[];
+  pace: GoalPace;
+}
+
+type ContributionType = "deposit" | "withdrawal";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Histórico de movimentações da meta, ritmo real x planejado e lançamento de depósitos/retiradas
+export default function GoalHistory({ goal }: { goal: Goal }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [type, setType] = useState<ContributionType>("deposit");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [note, setNote] = useState("");
+  const [accountId, setAccountId] = useState("");
+  const [reserveAccountId, setReserveAccountId] = useState("");
+
+  const { data } = useQuery<GoalContributionsResponse>({
+    queryKey: ["goals", goal.id, "contributions"],
+    queryFn: () => api(`/api/goals/${goal.id}/contributions`),
+  });
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["accounts"],
+    queryFn: () => api("/api/accounts"),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["goals"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+    if (accountId) {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    }
+  };
+
+  const onError = (error: unknown) => {
+    const errors = error instanceof ApiError ? (error.data?.errors as Record<string, string[]> | undefined) : undefined;
+    const firstError = errors ? Object.values(errors).flat()[0] : undefined;
+    toast({ title: t("common.error"), description: firstError || (error as Error).message, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => api(`/api/goals/${goal.id}/contributions`, {
+      method: "POST",
+      body: JSON.stringify({
+        type,
+        amount,
+        date,
+        note: note || null,
+        accountId: accountId ? Number(accountId) : null,
+        reserveAccountId: accountId && reserveAccountId ? Number(reserveAccountId) : null,
+      }),
+    }),
+    onSuccess: () => {
+      setAmount("");
+      setNote("");
+      invalidate();
+      toast({ title: t("goals.history.added") });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api(`/api/goals/${goal.id}/contributions/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    },
+    onError,
+  });
+
+  const pace = data?.pace;
+  const contributions = [...(data?.contributions ?? [])].reverse();
+  const paceProgress = pace && pace.plannedTotal > 0 ? Math.min((pace.actualTotal / pace.plannedTotal) * 100, 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      {pace && pace.monthlyContribution > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{t("goals.history.pace")}</p>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">{t("goals.history.actual")}: {formatCurrency(pace.actualTotal)}</span>
+            <span className="text-gray-600">{t("goals.history.planned")}: {formatCurrency(pace.plannedTotal)}</span>
+          </div>
+          <Progress value={paceProgress} className="h-2" />
+          <p className={`text-xs ${pace.difference >= 0 ? "text-green-600" : "text-orange-600"}`}>
+            {pace.difference >= 0
+              ? t("goals.history.ahead", { amount: formatCurrency(pace.difference) })
+              : t("goals.history.behind", { amount: formatCurrency(-pace.difference) })}
+            {" · "}
+            {t("goals.history.average", { amount: formatCurrency(pace.averageMonthly) })}
+          </p>
+          <ul className="space-y-1 text-xs text-gray-600">
+            {pace.months.slice(-6).map((month) => (
+              <li key={month.month} className="flex justify-between">
+                <span>{month.month}</span>
+                <span className={month.actual >= month.planned ? "text-green-600" : "text-orange-600"}>
+                  {formatCurrency(month.actual)} / {formatCurrency(month.planned)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form
+        className="space-y-3 border-t pt-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addMutation.mutate();
+        }}
+      >
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="contributionType">{t("goals.history.type")}</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ContributionType)}>
+              <SelectTrigger id="contributionType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="deposit">{t("goals.history.types.deposit")}</SelectItem>
+                <SelectItem value="withdrawal">{t("goals.history.types.withdrawal")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="contributionAmount">{t("goals.history.amount")}</Label>
+            <Input id="contributionAmount" type="number" step="0.01" min="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="contributionDate">{t("goals.history.date")}</Label>
+            <Input id="contributionDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="contributionNote">{t("goals.history.note")}</Label>
+            <Input id="contributionNote" value={note} maxLength={255} onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>{t("goals.history.transfer")}</Label>
+          <div className="grid grid-cols-2 gap-3">
+            <AccountSelect
+              accounts={accounts ?? []}
+              value={accountId}
+              onChange={setAccountId}
+              placeholder={t("goals.history.account")}
+            />
+            <AccountSelect
+              accounts={(accounts ?? []).filter((account) => String(account.id) !== accountId)}
+              value={reserveAccountId}
+              onChange={setReserveAccountId}
+              placeholder={t("goals.history.reserveAccount")}
+            />
+          </div>
+          <p className="text-xs text-gray-500">{t("goals.history.transferHint")}</p>
+        </div>
+        <Button type="submit" className="w-full" disabled={!amount || addMutation.isPending}>
+          {t("goals.history.add")}
+        </Button>
+      </form>
+
+      <div className="space-y-2 border-t pt-4">
+        <p className="text-sm font-medium">{t("goals.history.timeline")}</p>
+        {contributions.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("goals.history.empty")}</p>
+        ) : (
+          <ol className="space-y-2">
+            {contributions.map((contribution) => {
+              const Icon = contribution.type === "withdrawal" ? ArrowUpCircle : contribution.type === "opening" ? Flag : ArrowDownCircle;
+              const color = contribution.type === "withdrawal" ? "text-orange-600" : "text-green-600";
+              return (
+                <li key={contribution.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-2">
+                    <Icon className={`h-4 w-4 ${color}`} />
+                    <span>
+                      {formatDate(contribution.date)} · {t(`goals.history.types.${contribution.type}`)}
+                      {contribution.note && <span className="text-gray-500"> · {contribution.note}</span>}
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className={`font-semibold ${color}`}>
+                      {contribution.type === "withdrawal" ? "-" : "+"}{formatCurrency(parseFloat(contribution.amount))}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={t("goals.history.remove")}
+                      onClick={() => {
+                        if (confirm(t("goals.history.removeConfirm"))) {
+                          deleteMutation.mutate(contribution.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
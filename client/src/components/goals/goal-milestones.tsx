@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { CheckCircle2, Circle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency";
+import { formatDate } from "@/lib/date";
+import type { Goal, GoalMilestone, GoalMilestoneKind } from "../../../../shared/schema";
+
+// Marco com o valor em reais calculado pelo servidor
+type GoalMilestoneWithAmount = GoalMilestone & { amount: number };
+
+// Marcos da meta (percentuais ou valores); atingir um deles gera um alerta
+export default function GoalMilestones({ goal }: { goal: Goal }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [kind, setKind] = useState<GoalMilestoneKind>("percent");
+  const [value, setValue] = useState("");
+
+  const queryKey = ["goals", goal.id, "milestones"];
+  const { data: milestones } = useQuery<GoalMilestoneWithAmount[]>({
+    queryKey,
+    queryFn: () => api(`/api/goals/${goal.id}/milestones`),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (next: { kind: string; value: string | number }[]) =>
+      api(`/api/goals/${goal.id}/milestones`, { method: "PUT", body: JSON.stringify({ milestones: next }) }),
+    onSuccess: (saved: GoalMilestoneWithAmount[]) => {
+      queryClient.setQueryData(queryKey, saved);
+      setValue("");
+    },
+    onError: (error) => {
+      const errors = error instanceof ApiError ? (error.data?.errors as Record<string, string[]> | undefined) : undefined;
+      const firstError = errors ? Object.values(errors).flat()[0] : undefined;
+      toast({ title: t("common.error"), description: firstError || (error as Error).message, variant: "destructive" });
+    },
+  });
+
+  const current = (milestones ?? []).map(({ kind, value }) => ({ kind, value }));
+
+  return (
+    <div className="space-y-4">
+      {milestones && milestones.length === 0 ? (
+        <p className="text-sm text-gray-500">{t("goals.milestones.empty")}</p>
+      ) : (
+        <ul className="space-y-2">
+          {(milestones ?? []).map((milestone) => (
+            <li key={milestone.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2">
+                {milestone.reachedAt
+                  ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  : <Circle className="h-4 w-4 text-gray-400" />}
+                <span>
+                  {milestone.kind === "percent"
+                    ? `${parseFloat(milestone.value)}% · ${formatCurrency(milestone.amount)}`
+                    : formatCurrency(milestone.amount)}
+                  {milestone.reachedAt && (
+                    <span className="text-gray-500"> · {t("goals.milestones.reachedOn", { date: formatDate(milestone.reachedAt) })}</span>
+                  )}
+                </span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                title={t("goals.milestones.remove")}
+                disabled={saveMutation.isPending}
+                onClick={() => saveMutation.mutate(current.filter((item) => !(item.kind === milestone.kind && item.value === milestone.value)))}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="space-y-3 border-t pt-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate([...current, { kind, value }]);
+        }}
+      >
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="milestoneKind">{t("goals.milestones.kind")}</Label>
+            <Select value={kind} onValueChange={(next) => setKind(next as GoalMilestoneKind)}>
+              <SelectTrigger id="milestoneKind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">{t("goals.milestones.kinds.percent")}</SelectItem>
+                <SelectItem value="amount">{t("goals.milestones.kinds.amount")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="milestoneValue">{t("goals.milestones.value")}</Label>
+            <Input
+              id="milestoneValue"
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={kind === "percent" ? 100 : undefined}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button type="submit" className="w-full" disabled={!value || saveMutation.isPending}>
+          {t("goals.milestones.add")}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { TrendingUp } from "lucide-react";
+import { api } from "@/lib/api";
+import { formatCurrency } from "@/lib/currency";
+import { formatDate } from "@/lib/date";
+import i18n from "@/i18n";
+import type { Goal } from "../../../../shared/schema";
+
+// Resposta de GET /api/goals/:id/projection (ver server/projection.ts)
+interface GoalProjectionResponse {
+  remaining: number;
+  monthsToTarget: number | null;
+  estimatedDate: string | null;
+  monthsUntilTargetDate: number | null;
+  requiredMonthlyContribution: number | null;
+}
+
+// Datas YYYY-MM-DD do servidor lidas no fuso local, para o mês não voltar um dia
+const parseDate = (value: string) => new Date(`${value}T00:00:00`);
+
+const formatYearMonth = (date: Date) => {
+  return date.toLocaleDateString(i18n.language || 'pt-BR', { month: 'long', year: 'numeric' });
+};
+
+// Estimativa exibida no cartão da meta, com aporte no fim do mês
+export default function GoalProjection({ goal }: { goal: Goal }) {
+  const { t } = useTranslation();
+
+  const { data: projection } = useQuery<GoalProjectionResponse>({
+    queryKey: ["goals", goal.id, "projection"],
+    queryFn: () => api(`/api/goals/${goal.id}/projection`),
+  });
+
+  const formatDuration = (monthsTotal: number) => {
+    const years = Math.floor(monthsTotal / 12);
+    const months = monthsTotal % 12;
+    const yLabel = years === 1 ? t('goals.yearSingular', { defaultValue: 'ano' }) : t('goals.yearPlural', { defaultValue: 'anos' });
+    const mLabel = months === 1 ? t('goals.monthSingular', { defaultValue: 'mês' }) : t('goals.monthPlural', { defaultValue: 'meses' });
+    if (years === 0) return `${months} ${mLabel}`;
+    if (months === 0) return `${years} ${yLabel}`;
+    return `${years} ${yLabel} e ${months} ${mLabel}`;
+  };
+
+  if (!projection || projection.remaining === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p>
+        <TrendingUp className="h-3 w-3 inline mr-1" />
+        {projection.monthsToTarget === null || !projection.estimatedDate
+          ? t('goals.noEstimate')
+          : t('goals.singleEstimateWithDate', {
+              duration: formatDuration(projection.monthsToTarget),
+              date: formatYearMonth(parseDate(projection.estimatedDate)),
+            })}
+      </p>
+      {goal.targetDate && projection.requiredMonthlyContribution !== null && projection.monthsUntilTargetDate !== 0 && (
+        <p>
+          {t('goals.requiredContribution', {
+            amount: formatCurrency(projection.requiredMonthlyContribution),
+            date: formatDate(goal.targetDate),
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
-import { useMemo, useState } from "react";
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
 import { formatCurrency } from "@/lib/currency";
+import { api } from "@/lib/api";
 import { Line } from "react-chartjs-2";
 import {
   Chart as ChartJS,
@@ -31,12 +33,15 @@ function toFloat(v: string | number, fallback = 0) {
   return isFinite(n) ? n : fallback;
 }
 
-function pow1p(x: number, n: number) {
-  return Math.pow(1 + x, n);
-}
-
-function monthlyRate(annual: number) {
-  return pow1p(annual, 1 / 12) - 1;
+// Resposta de POST /api/simulations (ver server/projection.ts)
+interface Projection {
+  months: { month: number; contributed: number; nominal: number; real: number }[];
+  totalContributed: number;
+  finalNominal: number;
+  finalReal: number;
+  nominalReturn: number;
+  realReturn: number;
+  realAnnualRate: number;
 }
 
 export default function GoalSimulator() {
@@ -49,44 +54,35 @@ export default function GoalSimulator() {
   const [anos, setAnos] = useState<number>(10);
   const [anosText, setAnosText] = useState<string>("10");
   const [idadeAtual, setIdadeAtual] = useState<number>(35);
+  const [momentoAporte, setMomentoAporte] = useState<"start" | "end">("end");
 
-  const taxaNominalAnual = (taxaNominalAA || 0) / 100;
-  const inflacaoAnual = (inflacaoAA || 0) / 100;
-  const rNomM = monthlyRate(taxaNominalAnual);
-  const rInfM = monthlyRate(inflacaoAnual);
-  const rRealAnual = (1 + taxaNominalAnual) / (1 + inflacaoAnual) - 1;
-  const rRealM = monthlyRate(rRealAnual);
-  const meses = Math.max(1, Math.round(anos * 12));
-
-  const { labels, serieNominal, serieReal, totalInvestido, fvNominal, fvReal } = useMemo(() => {
-    const lbls: string[] = [];
-    const sNom: number[] = [];
-    const sReal: number[] = [];
-
-    let fvNom = valorInicial;
-    let fvRealTmp = valorInicial;
-
-    for (let m = 1; m <= meses; m++) {
-      fvNom = fvNom * (1 + rNomM) + aporteMensal;
-      fvRealTmp = fvRealTmp * (1 + rRealM) + aporteMensal; // aporte considerado em valores "reais"
-      lbls.push(`${m}`);
-      sNom.push(fvNom);
-      sReal.push(fvRealTmp);
-    }
+  const meses = Math.min(1200, Math.max(1, Math.round(anos * 12)));
+  const simulacao = {
+    initialAmount: Math.max(0, valorInicial),
+    monthlyContribution: Math.max(0, aporteMensal),
+    annualRate: Math.max(0, taxaNominalAA || 0),
+    annualInflation: Math.min(100, Math.max(0, inflacaoAA || 0)),
+    months: meses,
+    contributionTiming: momentoAporte,
+  };
 
-    const invested = valorInicial + aporteMensal * meses;
-    return {
-      labels: lbls,
-      serieNominal: sNom,
-      serieReal: sReal,
-      totalInvestido: invested,
-      fvNominal: sNom[sNom.length - 1] || valorInicial,
-      fvReal: sReal[sReal.length - 1] || valorInicial,
-    };
-  }, [valorInicial, aporteMensal, meses, rNomM, rRealM]);
+  // O cálculo é feito no servidor; o resultado anterior fica na tela enquanto o novo chega
+  const { data: projecao } = useQuery<Projection>({
+    queryKey: ["simulations", simulacao],
+    queryFn: () => api("/api/simulations", { method: "POST", body: JSON.stringify(simulacao) }),
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+  });
 
-  const retornoNominal = fvNominal - totalInvestido;
-  const retornoReal = fvReal - totalInvestido;
+  const labels = projecao?.months.map((point) => `${point.month}`) ?? [];
+  const serieNominal = projecao?.months.map((point) => point.nominal) ?? [];
+  const serieReal = projecao?.months.map((point) => point.real) ?? [];
+  const totalInvestido = projecao?.totalContributed ?? valorInicial;
+  const fvNominal = projecao?.finalNominal ?? valorInicial;
+  const fvReal = projecao?.finalReal ?? valorInicial;
+  const retornoNominal = projecao?.nominalReturn ?? 0;
+  const retornoReal = projecao?.realReturn ?? 0;
+  const rRealAnual = projecao?.realAnnualRate ?? 0;
 
   const chartData: ChartData<'line', number[], string> = {
     labels,
@@ -206,6 +202,16 @@ export default function GoalSimulator() {
               onChange={(e) => setAporteMensal(toFloat(e.target.value))}
             />
           </div>
+          <div>
+            <Label>Momento do Aporte</Label>
+            <Select value={momentoAporte} onValueChange={(v: any) => setMomentoAporte(v)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="start">Início do mês</SelectItem>
+                <SelectItem value="end">Fim do mês</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           <div>
             <Label>Tempo de Contribuição (anos)</Label>
             <Input
@@ -223,7 +229,7 @@ export default function GoalSimulator() {
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-          <Info label="Taxa Real (a.a.)" value={`${(rRealAnual * 100).toFixed(2)}%`} />
+          <Info label="Taxa Real (a.a.)" value={`${rRealAnual.toFixed(2)}%`} />
           <Info label="Valor Total Investido" value={formatCurrency(totalInvestido)} />
           <Info label="Tempo Total Investido" value={`${Math.floor(anos)} anos${Math.round((anos % 1) * 12) ? ` e ${Math.round((anos % 1) * 12)} meses` : ''}`} />
           <Info label="Idade Atual" value={`${idadeAtual} anos`} />
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api, ApiError } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency";
+import { formatDate } from "@/lib/date";
+import { INVESTMENT_MOVEMENT_TYPES, type Investment, type InvestmentMovement, type InvestmentMovementType } from "../../../../shared/schema";
+
+// Resposta de GET /api/investments/:id/movements (ver server/investments.ts)
+interface InvestmentStatementResponse {
+  movements: (InvestmentMovement & { position: number; costBasis: number })[];
+  summary: {
+    position: number;
+    costBasis: number;
+    applied: number;
+    redeemed: number;
+    interest: number;
+    income: number;
+    fees: number;
+    result: number;
+  };
+  // Valor na curva (renda fixa) ou a própria posição (ver server/valuation.ts)
+  valuation: { method: "accrual" | "position"; value: number; earnings: number; estimated: boolean; missingSeries: "cdi" | "ipca" | null };
+}
+
+// Movimentações que saem da posição aparecem com sinal negativo; rendimentos pagos não mexem na posição
+const OUTFLOW_TYPES: InvestmentMovementType[] = ["redemption", "fee"];
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// Extrato do investimento, com a posição e o custo depois de cada movimentação, e lançamento de novas
+export default function InvestmentStatement({ investment }: { investment: Pick<Investment, "id"> }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [type, setType] = useState<InvestmentMovementType>("application");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [note, setNote] = useState("");
+
+  const { data } = useQuery<InvestmentStatementResponse>({
+    queryKey: ["investments", investment.id, "movements"],
+    queryFn: () => api(`/api/investments/${investment.id}/movements`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["investments"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+  };
+
+  const onError = (error: unknown) => {
+    const errors = error instanceof ApiError ? (error.data?.errors as Record<string, string[]> | undefined) : undefined;
+    const firstError = errors ? Object.values(errors).flat()[0] : undefined;
+    toast({ title: t("common.error"), description: firstError || (error as Error).message, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => api(`/api/investments/${investment.id}/movements`, {
+      method: "POST",
+      body: JSON.stringify({ type, amount, date, note: note || null }),
+    }),
+    onSuccess: () => {
+      setAmount("");
+      setNote("");
+      invalidate();
+      toast({ title: t("investments.statement.addSuccess") });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => api(`/api/investments/${investment.id}/movements/${id}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const summary = data?.summary;
+  const valuation = data?.valuation;
+  const movements = [...(data?.movements ?? [])].reverse();
+
+  return (
+    <div className="space-y-6">
+      {summary && (
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <span className="text-gray-600">{t("investments.position")}</span>
+          <span className="text-right font-semibold">{formatCurrency(summary.position)}</span>
+          {valuation?.missingSeries && (
+            <span className="col-span-2 text-orange-600">{t(`investments.missingSeries.${valuation.missingSeries}`)}</span>
+          )}
+          {valuation?.method === "accrual" && (
+            <>
+              <span className="text-gray-600">
+                {t("investments.currentValue")}
+                {valuation.estimated && <span className="text-gray-400"> ({t("investments.estimated")})</span>}
+              </span>
+              <span className="text-right font-semibold">{formatCurrency(valuation.value)}</span>
+            </>
+          )}
+          <span className="text-gray-600">{t("investments.costBasis")}</span>
+          <span className="text-right">{formatCurrency(summary.costBasis)}</span>
+          <span className="text-gray-600">{t("investments.statement.applied")}</span>
+          <span className="text-right">{formatCurrency(summary.applied)}</span>
+          <span className="text-gray-600">{t("investments.statement.redeemed")}</span>
+          <span className="text-right">{formatCurrency(summary.redeemed)}</span>
+          <span className="text-gray-600">{t("investments.statement.interest")}</span>
+          <span className="text-right">{formatCurrency(summary.interest)}</span>
+          <span className="text-gray-600">{t("investments.statement.income")}</span>
+          <span className="text-right">{formatCurrency(summary.income)}</span>
+          <span className="text-gray-600">{t("investments.statement.fees")}</span>
+          <span className="text-right">{formatCurrency(summary.fees)}</span>
+          <span className="text-gray-600">{t("investments.statement.result")}</span>
+          <span className={`text-right font-semibold ${summary.result >= 0 ? "text-green-600" : "text-red-600"}`}>
+            {formatCurrency(summary.result)}
+          </span>
+        </div>
+      )}
+
+      <form
+        className="space-y-3 border-t pt-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addMutation.mutate();
+        }}
+      >
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="movementType">{t("investments.statement.movementType")}</Label>
+            <Select value={type} onValueChange={(value) => setType(value as InvestmentMovementType)}>
+              <SelectTrigger id="movementType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVESTMENT_MOVEMENT_TYPES.map((movementType) => (
+                  <SelectItem key={movementType} value={movementType}>{t(`investments.statement.types.${movementType}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="movementAmount">{t("investments.statement.amount")}</Label>
+            <Input id="movementAmount" type="number" step="0.01" min="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="movementDate">{t("investments.statement.date")}</Label>
+            <Input id="movementDate" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="movementNote">{t("investments.statement.note")}</Label>
+            <Input id="movementNote" value={note} maxLength={255} onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </div>
+        <Button type="submit" className="w-full" disabled={!amount || addMutation.isPending}>
+          {t("investments.statement.add")}
+        </Button>
+      </form>
+
+      <div className="space-y-2 border-t pt-4">
+        {movements.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("investments.statement.empty")}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium pb-1">{t("investments.statement.date")}</th>
+                <th className="font-medium pb-1">{t("investments.statement.movementType")}</th>
+                <th className="font-medium pb-1 text-right">{t("investments.statement.amount")}</th>
+                <th className="font-medium pb-1 text-right">{t("investments.position")}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => {
+                const outflow = OUTFLOW_TYPES.includes(movement.type as InvestmentMovementType);
+                return (
+                  <tr key={movement.id} className="border-t">
+                    <td className="py-1">{formatDate(movement.date)}</td>
+                    <td className="py-1">
+                      {t(`investments.statement.types.${movement.type}`)}
+                      {movement.note && <span className="text-gray-500"> · {movement.note}</span>}
+                    </td>
+                    <td className={`py-1 text-right font-semibold ${outflow ? "text-orange-600" : "text-green-600"}`}>
+                      {outflow ? "-" : "+"}{formatCurrency(parseFloat(movement.amount))}
+                    </td>
+                    <td className="py-1 text-right">{formatCurrency(movement.position)}</td>
+                    <td className="py-1 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={t("investments.statement.remove")}
+                        onClick={() => {
+                          if (confirm(t("investments.statement.confirmRemove"))) {
+                            deleteMutation.mutate(movement.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,9 @@ import {
   Coins, 
   TrendingUp, 
   Target, 
+  PiggyBank,
+  Upload,
+  Wand2,
   Bell, 
   FileText, 
   Menu,
@@ -25,8 +28,11 @@ const getNavigation = (t: any) => [
   { name: t('sidebar.expenses'), href: "/expenses", icon: CreditCard },
   { name: t('sidebar.income'), href: "/income", icon: Coins },
   { name: t('sidebar.accounts') || 'Contas', href: "/accounts", icon: CreditCard },
+  { name: t('sidebar.import') || 'Importar extrato', href: "/import", icon: Upload },
+  { name: t('sidebar.rules') || 'Regras', href: "/rules", icon: Wand2 },
   { name: t('sidebar.investments'), href: "/investments", icon: TrendingUp },
   { name: t('sidebar.goals'), href: "/goals", icon: Target },
+  { name: t('sidebar.budgets') || 'Orçamentos', href: "/budgets", icon: PiggyBank },
   { name: t('sidebar.alerts'), href: "/alerts", icon: Bell },
   { name: t('sidebar.reports'), href: "/reports", icon: FileText },
   { name: t('sidebar.preferences'), href: "/preferences", icon: Settings },
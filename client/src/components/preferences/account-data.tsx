@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { api, ApiError } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Download, Trash2, Upload } from "lucide-react";
+
+interface MeResponse {
+  user: { id: number; deletionScheduledAt: string | null };
+}
+
+type ImportMode = "merge" | "replace";
+
+interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  entities: Record<string, { created: number; matched: number; deleted: number }>;
+  preferences: "imported" | "kept" | "absent";
+}
+
+// Exportação dos dados e exclusão da conta (LGPD)
+export function AccountData() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { logout } = useAuth();
+  const queryClient = useQueryClient();
+  const [password, setPassword] = useState("");
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  // Substituir os dados atuais pede a senha, como a exclusão da conta
+  const [importPassword, setImportPassword] = useState("");
+  // Relatório da simulação; a importação de fato só é oferecida depois dela
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+  const { data: me } = useQuery<MeResponse>({
+    queryKey: ["auth", "me"],
+    queryFn: () => api("/api/auth/me"),
+  });
+  // Quem entrou só com conta externa precisa definir uma senha antes de excluir a conta
+  const { data: identities } = useQuery<{ hasPassword: boolean }>({
+    queryKey: ["auth", "identities"],
+    queryFn: () => api("/api/auth/identities"),
+  });
+
+  const onError = (error: unknown) => {
+    const errors = error instanceof ApiError ? error.data?.errors : undefined;
+    toast({
+      title: t("common.error", "Erro"),
+      description: errors?.password?.[0] || errors?.bundle?.[0] || (error as Error)?.message,
+      variant: "destructive",
+    });
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: () => api("/api/me/export"),
+    onSuccess: (bundle) => {
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `financeiro-export-${String(bundle.exportedAt).slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) => api("/api/me/import", {
+      method: "POST",
+      body: JSON.stringify({
+        bundle,
+        mode: importMode,
+        dryRun,
+        ...(importMode === "replace" && !dryRun && { password: importPassword }),
+      }),
+    }) as Promise<ImportReport>,
+    onSuccess: (report) => {
+      if (report.dryRun) {
+        setImportReport(report);
+        return;
+      }
+      setBundle(null);
+      setImportReport(null);
+      setImportPassword("");
+      queryClient.invalidateQueries();
+      toast({ title: t("accountData.imported", "Dados importados") });
+    },
+    onError,
+  });
+
+  const readBundle = async (file: File | undefined) => {
+    setImportReport(null);
+    if (!file) {
+      setBundle(null);
+      return;
+    }
+    try {
+      setBundle(JSON.parse(await file.text()));
+    } catch {
+      setBundle(null);
+      toast({ title: t("common.error", "Erro"), description: t("accountData.invalidFile", "O arquivo não é um JSON válido."), variant: "destructive" });
+    }
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api("/api/me", { method: "DELETE", body: JSON.stringify({ password }) }),
+    onSuccess: () => {
+      toast({ title: t("accountData.deletionScheduledToast", "Exclusão da conta agendada") });
+      // Todas as sessões foram encerradas no servidor
+      logout();
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => api("/api/me/cancel-deletion", { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auth", "me"] });
+      toast({ title: t("accountData.deletionCancelled", "Exclusão da conta cancelada") });
+    },
+    onError,
+  });
+
+  const deletionScheduledAt = me?.user.deletionScheduledAt;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{t("accountData.title", "Seus dados")}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {deletionScheduledAt && (
+          <Alert variant="destructive">
+            <AlertDescription className="space-y-2">
+              <p>
+                {t("accountData.deletionScheduled", {
+                  date: new Date(deletionScheduledAt).toLocaleString("pt-BR"),
+                  defaultValue: "A conta e todos os dados serão excluídos em {{date}}.",
+                })}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+                {t("accountData.cancelDeletion", "Cancelar exclusão")}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">
+            {t("accountData.exportDescription", "Baixe um arquivo JSON com todas as suas contas, categorias, transações, metas, investimentos, alertas e preferências.")}
+          </p>
+          <Button variant="outline" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+            <Download className="h-4 w-4 mr-2" />
+            {t("accountData.export", "Exportar dados")}
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <p className="text-sm text-gray-500">
+            {t("accountData.importDescription", "Restaure um arquivo gerado por \"Exportar dados\", inclusive de outro ambiente. Simule antes para ver o que será criado.")}
+          </p>
+          <Input type="file" accept="application/json,.json" onChange={(e) => readBundle(e.target.files?.[0])} />
+          <Select
+            value={importMode}
+            onValueChange={(value) => {
+              setImportMode(value as ImportMode);
+              setImportReport(null);
+            }}
+          >
+            <SelectTrigger className="w-[280px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">{t("accountData.importModes.merge", "Mesclar com os dados atuais")}</SelectItem>
+              <SelectItem value="replace">{t("accountData.importModes.replace", "Substituir os dados atuais")}</SelectItem>
+            </SelectContent>
+          </Select>
+          {importMode === "replace" && importReport && (
+            <>
+              {identities && !identities.hasPassword ? (
+                <p className="text-sm">{t("accountData.replacePasswordRequired", "Defina uma senha em \"Contas vinculadas\" para substituir os dados.")}</p>
+              ) : (
+                <div className="space-y-1">
+                  <Label htmlFor="replaceImportPassword">{t("accountData.currentPassword", "Senha atual")}</Label>
+                  <Input
+                    id="replaceImportPassword"
+                    type="password"
+                    autoComplete="current-password"
+                    className="w-[280px]"
+                    value={importPassword}
+                    onChange={(e) => setImportPassword(e.target.value)}
+                  />
+                </div>
+              )}
+            </>
+          )}
+          {importReport && (
+            <ul className="text-sm space-y-1">
+              {Object.entries(importReport.entities)
+                .filter(([, counts]) => counts.created || counts.matched || counts.deleted)
+                .map(([entity, counts]) => (
+                  <li key={entity}>
+                    {t(`accountData.importEntities.${entity}`, entity)}:{" "}
+                    {t("accountData.importCounts", { ...counts, defaultValue: "{{created}} novos, {{matched}} já existentes, {{deleted}} apagados" })}
+                  </li>
+                ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => importMutation.mutate(true)} disabled={!bundle || importMutation.isPending}>
+              {t("accountData.simulateImport", "Simular importação")}
+            </Button>
+            <Button
+              onClick={() => {
+                const message = importMode === "replace"
+                  ? t("accountData.replaceConfirm", "Substituir todas as contas, categorias, transações, metas e investimentos atuais pelos do arquivo?")
+                  : t("accountData.mergeConfirm", "Importar os dados do arquivo?");
+                if (confirm(message)) importMutation.mutate(false);
+              }}
+              disabled={!importReport || (importMode === "replace" && !importPassword) || importMutation.isPending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {t("accountData.import", "Importar dados")}
+            </Button>
+          </div>
+        </div>
+
+        {!deletionScheduledAt && (
+          <form
+            className="space-y-2 border-t pt-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (confirm(t("accountData.deleteConfirm", "Excluir a conta? Você será desconectado de todos os dispositivos."))) {
+                deleteMutation.mutate();
+              }
+            }}
+          >
+            <p className="text-sm text-gray-500">
+              {t("accountData.deleteDescription", "A exclusão apaga definitivamente a conta e todos os dados após um prazo de carência. Até lá, basta entrar novamente e cancelar.")}
+            </p>
+            {identities && !identities.hasPassword ? (
+              <p className="text-sm">{t("accountData.passwordRequired", "Defina uma senha em \"Contas vinculadas\" para confirmar a exclusão.")}</p>
+            ) : (
+              <>
+                <Label htmlFor="deleteAccountPassword">{t("accountData.currentPassword", "Senha atual")}</Label>
+                <Input
+                  id="deleteAccountPassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                <Button type="submit" variant="destructive" disabled={!password || deleteMutation.isPending}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {t("accountData.delete", "Excluir conta")}
+                </Button>
+              </>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { api } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { LogOut } from "lucide-react";
+
+interface ActiveSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// Resumo legível do User-Agent (navegador e sistema), suficiente para reconhecer o dispositivo
+function describeDevice(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const system = /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  if (!browser && !system) return userAgent;
+  return [browser, system].filter(Boolean).join(" · ");
+}
+
+export function ActiveSessions() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["auth", "sessions"],
+    queryFn: () => api("/api/auth/sessions"),
+  });
+
+  const onError = () => {
+    toast({
+      title: t("common.error", "Erro"),
+      description: t("sessions.revokeError", "Não foi possível encerrar a sessão."),
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => api(`/api/auth/sessions/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auth", "sessions"] });
+      toast({ title: t("sessions.revoked", "Sessão encerrada") });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: () => api("/api/auth/sessions", { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auth", "sessions"] });
+      toast({ title: t("sessions.othersRevoked", "As outras sessões foram encerradas") });
+    },
+    onError,
+  });
+
+  const hasOtherSessions = !!sessions?.some((session) => !session.current);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{t("sessions.title", "Sessões ativas")}</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={!hasOtherSessions || revokeOthersMutation.isPending}
+        >
+          {t("sessions.revokeOthers", "Encerrar as outras sessões")}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p>{t("common.loading", "Carregando...")}</p>
+        ) : !sessions || sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("sessions.empty", "Nenhuma sessão ativa.")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("sessions.device", "Dispositivo")}</TableHead>
+                <TableHead>{t("sessions.ipAddress", "IP")}</TableHead>
+                <TableHead>{t("sessions.lastUsed", "Último acesso")}</TableHead>
+                <TableHead>{t("sessions.createdAt", "Início")}</TableHead>
+                <TableHead className="w-[80px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell title={session.userAgent ?? undefined}>
+                    {describeDevice(session.userAgent) ?? t("sessions.unknownDevice", "Dispositivo desconhecido")}
+                    {session.current && (
+                      <Badge variant="secondary" className="ml-2">{t("sessions.current", "Esta sessão")}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{session.ipAddress ?? "-"}</TableCell>
+                  <TableCell>{new Date(session.lastUsedAt).toLocaleString("pt-BR")}</TableCell>
+                  <TableCell>{new Date(session.createdAt).toLocaleString("pt-BR")}</TableCell>
+                  <TableCell>
+                    {!session.current && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={t("sessions.revoke", "Encerrar sessão")}
+                        onClick={() => revokeMutation.mutate(session.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        <LogOut className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
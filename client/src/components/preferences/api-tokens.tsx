@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { api, ApiError } from "@/lib/api";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "../../../../shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Copy, KeyRound, Trash2 } from "lucide-react";
+
+interface ApiToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// Validades oferecidas na criação; "never" cria um token sem expiração
+const EXPIRY_OPTIONS = ["30", "90", "365", "never"] as const;
+
+export function ApiTokens() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiry, setExpiry] = useState<typeof EXPIRY_OPTIONS[number]>("90");
+  // Exibido uma única vez, logo após a criação
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: apiTokens, isLoading } = useQuery<ApiToken[]>({
+    queryKey: ["auth", "tokens"],
+    queryFn: () => api("/api/auth/tokens"),
+  });
+
+  const onError = (error: unknown) => {
+    const errors = error instanceof ApiError ? (error.data?.errors as Record<string, string[]> | undefined) : undefined;
+    toast({
+      title: t("common.error", "Erro"),
+      description: errors?.name?.[0] || errors?.scopes?.[0] || (error as Error)?.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => api("/api/auth/tokens", {
+      method: "POST",
+      body: JSON.stringify({ name, scopes, expiresInDays: expiry === "never" ? null : Number(expiry) }),
+    }) as Promise<{ token: string; apiToken: ApiToken }>,
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      setName("");
+      setScopes(["read"]);
+      queryClient.invalidateQueries({ queryKey: ["auth", "tokens"] });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => api(`/api/auth/tokens/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auth", "tokens"] });
+      toast({ title: t("apiTokens.revoked", "Token revogado") });
+    },
+    onError,
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((item) => item !== scope)));
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({ title: t("apiTokens.copied", "Token copiado") });
+  };
+
+  const formatDate = (value: string | null, empty: string) => (value ? new Date(value).toLocaleString("pt-BR") : empty);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="h-5 w-5 mr-2" />
+          {t("apiTokens.title", "Tokens de API")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {createdToken ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {t("apiTokens.createdHint", "Copie o token agora: ele não será exibido novamente. Envie-o no cabeçalho Authorization: Bearer <token>.")}
+            </p>
+            <code className="block rounded-md border p-3 font-mono text-sm break-all">{createdToken}</code>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={copyToken}>
+                <Copy className="h-4 w-4 mr-2" />
+                {t("apiTokens.copy", "Copiar")}
+              </Button>
+              <Button onClick={() => setCreatedToken(null)}>{t("apiTokens.done", "Já copiei o token")}</Button>
+            </div>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <p className="text-sm text-gray-500">
+              {t("apiTokens.description", "Tokens de acesso pessoal permitem que scripts usem a API em seu nome, limitados aos escopos escolhidos.")}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="apiTokenName">{t("apiTokens.name", "Nome")}</Label>
+              <Input
+                id="apiTokenName"
+                value={name}
+                maxLength={100}
+                placeholder={t("apiTokens.namePlaceholder", "Ex.: Planilha de lançamentos")}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("apiTokens.scopes", "Escopos")}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {API_TOKEN_SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+                    {t(`apiTokens.scopeLabels.${scope}`, scope)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("apiTokens.expiry", "Validade")}</Label>
+              <Select value={expiry} onValueChange={(value) => setExpiry(value as typeof EXPIRY_OPTIONS[number])}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option === "never"
+                        ? t("apiTokens.neverExpires", "Sem expiração")
+                        : t("apiTokens.expiresInDays", { count: Number(option), defaultValue: "{{count}} dias" })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}>
+              {t("apiTokens.create", "Criar token")}
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p>{t("common.loading", "Carregando...")}</p>
+        ) : !apiTokens || apiTokens.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("apiTokens.empty", "Nenhum token criado.")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("apiTokens.name", "Nome")}</TableHead>
+                <TableHead>{t("apiTokens.scopes", "Escopos")}</TableHead>
+                <TableHead>{t("apiTokens.lastUsed", "Último uso")}</TableHead>
+                <TableHead>{t("apiTokens.expiresAt", "Expira em")}</TableHead>
+                <TableHead className="w-[80px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiTokens.map((apiToken) => (
+                <TableRow key={apiToken.id}>
+                  <TableCell>
+                    {apiToken.name}
+                    <div className="font-mono text-xs text-gray-500">{apiToken.tokenPrefix}…</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {apiToken.scopes.map((scope) => <Badge key={scope} variant="secondary">{scope}</Badge>)}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatDate(apiToken.lastUsedAt, t("apiTokens.neverUsed", "Nunca usado"))}</TableCell>
+                  <TableCell>{formatDate(apiToken.expiresAt, t("apiTokens.neverExpires", "Sem expiração"))}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={t("apiTokens.revoke", "Revogar")}
+                      onClick={() => revokeMutation.mutate(apiToken.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useSearchParams } from "react-router-dom";
+import { api, ApiError, getActiveHouseholdId, setActiveHouseholdId } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { HOUSEHOLD_MEMBER_ROLES, type HouseholdRole } from "../../../../shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { Home, LogOut, Trash2 } from "lucide-react";
+
+type MemberRole = typeof HOUSEHOLD_MEMBER_ROLES[number];
+
+interface Household {
+  ownerId: number;
+  ownerName: string;
+  role: HouseholdRole;
+}
+
+interface HouseholdMember {
+  id: number;
+  userId: number;
+  name: string;
+  email: string;
+  role: MemberRole;
+}
+
+interface HouseholdInvitation {
+  id: number;
+  email: string;
+  role: MemberRole;
+  expiresAt: string;
+}
+
+// Casas compartilhadas: escolha da casa ativa, membros e convites da própria casa
+export function Households() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>("editor");
+  const [activeHouseholdId, setActiveHousehold] = useState(getActiveHouseholdId);
+
+  const { data: households } = useQuery<Household[]>({
+    queryKey: ["households"],
+    queryFn: () => api("/api/households"),
+  });
+
+  const { data: ownHousehold } = useQuery<{ members: HouseholdMember[] }>({
+    queryKey: ["households", user?.id, "members"],
+    queryFn: () => api(`/api/households/${user!.id}/members`),
+    enabled: !!user,
+  });
+
+  const { data: invitations } = useQuery<HouseholdInvitation[]>({
+    queryKey: ["households", "invitations"],
+    queryFn: () => api("/api/households/invitations"),
+  });
+
+  const selectHousehold = (ownerId: number | null) => {
+    setActiveHouseholdId(ownerId);
+    setActiveHousehold(ownerId);
+  };
+
+  // A casa ativa deixou de estar acessível (membro removido): volta para a própria
+  useEffect(() => {
+    if (households && activeHouseholdId && !households.some((household) => household.ownerId === activeHouseholdId)) {
+      selectHousehold(null);
+    }
+  }, [households]);
+
+  const onError = (error: unknown) => {
+    const errors = error instanceof ApiError ? (error.data?.errors as Record<string, string[]> | undefined) : undefined;
+    toast({
+      title: t("common.error", "Erro"),
+      description: errors?.email?.[0] || (error as Error)?.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["households"] });
+
+  const acceptMutation = useMutation({
+    mutationFn: (token: string) => api("/api/households/invitations/accept", { method: "POST", body: JSON.stringify({ token }) }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("households.acceptedToast", "Convite aceito") });
+    },
+    onError,
+  });
+
+  // Link do e-mail de convite (?householdInvite=<token>)
+  useEffect(() => {
+    const token = searchParams.get("householdInvite");
+    if (!token) return;
+    acceptMutation.mutate(token);
+    searchParams.delete("householdInvite");
+    setSearchParams(searchParams, { replace: true });
+  }, []);
+
+  const inviteMutation = useMutation({
+    mutationFn: () => api("/api/households/invitations", { method: "POST", body: JSON.stringify({ email, role }) }),
+    onSuccess: () => {
+      setEmail("");
+      invalidate();
+      toast({ title: t("households.invitedToast", "Convite enviado") });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => api(`/api/households/invitations/${id}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: MemberRole }) =>
+      api(`/api/households/members/${id}`, { method: "PUT", body: JSON.stringify({ role }) }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: number) => api(`/api/households/members/${id}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: (ownerId: number) => api(`/api/households/${ownerId}/membership`, { method: "DELETE" }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const roleLabel = (value: HouseholdRole) => t(`households.roles.${value}`, value);
+  const members = ownHousehold?.members ?? [];
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Home className="h-5 w-5 mr-2" />
+          {t("households.title", "Casas compartilhadas")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">
+            {t("households.description", "Contas, categorias, transações, metas e investimentos exibidos são os da casa ativa.")}
+          </p>
+          <ul className="space-y-2">
+            {households?.map((household) => {
+              const isActive = (activeHouseholdId ?? user?.id) === household.ownerId;
+              return (
+                <li key={household.ownerId} className="flex items-center justify-between gap-2">
+                  <span className="text-sm">
+                    {household.role === "owner" ? t("households.ownHousehold", "Minha casa") : household.ownerName}{" "}
+                    <Badge variant="secondary">{roleLabel(household.role)}</Badge>
+                  </span>
+                  <div className="flex gap-2">
+                    {isActive ? (
+                      <Badge>{t("households.active", "Ativa")}</Badge>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => selectHousehold(household.role === "owner" ? null : household.ownerId)}>
+                        {t("households.open", "Abrir")}
+                      </Button>
+                    )}
+                    {household.role !== "owner" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={t("households.leave", "Sair da casa")}
+                        onClick={() => {
+                          if (confirm(t("households.leaveConfirm", "Sair desta casa? Você deixará de ver os dados dela."))) {
+                            leaveMutation.mutate(household.ownerId);
+                          }
+                        }}
+                      >
+                        <LogOut className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <form
+          className="space-y-2 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            inviteMutation.mutate();
+          }}
+        >
+          <Label htmlFor="householdInviteEmail">{t("households.inviteLabel", "Convidar para a minha casa")}</Label>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              id="householdInviteEmail"
+              type="email"
+              className="max-w-xs"
+              placeholder={t("households.emailPlaceholder", "email@exemplo.com")}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as MemberRole)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOUSEHOLD_MEMBER_ROLES.map((option) => (
+                  <SelectItem key={option} value={option}>{roleLabel(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={!email.trim() || inviteMutation.isPending}>
+              {t("households.invite", "Convidar")}
+            </Button>
+          </div>
+        </form>
+
+        {invitations && invitations.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{t("households.pendingInvitations", "Convites pendentes")}</p>
+            <ul className="space-y-1">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {invitation.email} <Badge variant="secondary">{roleLabel(invitation.role)}</Badge>
+                  </span>
+                  <Button variant="ghost" size="sm" title={t("households.revoke", "Cancelar convite")} onClick={() => revokeMutation.mutate(invitation.id)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {members.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("households.member", "Membro")}</TableHead>
+                <TableHead>{t("households.role", "Papel")}</TableHead>
+                <TableHead className="w-[80px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell>
+                    {member.name}
+                    <div className="text-xs text-gray-500">{member.email}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Select value={member.role} onValueChange={(value) => updateRoleMutation.mutate({ id: member.id, role: value as MemberRole })}>
+                      <SelectTrigger className="w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {HOUSEHOLD_MEMBER_ROLES.map((option) => (
+                          <SelectItem key={option} value={option}>{roleLabel(option)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={t("households.remove", "Remover")}
+                      onClick={() => {
+                        if (confirm(t("households.removeConfirm", "Remover {{name}} da sua casa?", { name: member.name }))) {
+                          removeMutation.mutate(member.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useSearchParams } from "react-router-dom";
+import { api, ApiError } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Link2, Unlink } from "lucide-react";
+
+interface LinkedIdentity {
+  id: number;
+  provider: string;
+  email: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface LinkedAccountsStatus {
+  hasPassword: boolean;
+  providers: { id: string; name: string }[];
+  identities: LinkedIdentity[];
+}
+
+export function LinkedAccounts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<LinkedAccountsStatus>({
+    queryKey: ["auth", "identities"],
+    queryFn: () => api("/api/auth/identities"),
+  });
+
+  // Resultado do vínculo devolvido pelo callback OAuth (?linked=google ou ?linkError=identity_in_use)
+  useEffect(() => {
+    const linked = searchParams.get("linked");
+    const linkError = searchParams.get("linkError");
+    if (!linked && !linkError) return;
+    if (linked) {
+      toast({ title: t("linkedAccounts.linkedToast", "Conta vinculada") });
+    } else {
+      toast({
+        title: t("common.error", "Erro"),
+        description: t(`linkedAccounts.errors.${linkError}`, t("linkedAccounts.errors.oauth", "Não foi possível vincular a conta.")),
+        variant: "destructive",
+      });
+    }
+    searchParams.delete("linked");
+    searchParams.delete("linkError");
+    setSearchParams(searchParams, { replace: true });
+  }, []);
+
+  const onError = (error: unknown) => {
+    const passwordError = error instanceof ApiError ? error.data?.errors?.password?.[0] : undefined;
+    toast({
+      title: t("common.error", "Erro"),
+      description: passwordError || (error as Error)?.message,
+      variant: "destructive",
+    });
+  };
+
+  // O servidor devolve a URL do provedor; o vínculo é concluído no callback, que volta para esta página
+  const linkMutation = useMutation({
+    mutationFn: (provider: string) => api(`/api/auth/identities/${provider}/link`, { method: "POST" }) as Promise<{ url: string }>,
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError,
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (id: number) => api(`/api/auth/identities/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auth", "identities"] });
+      toast({ title: t("linkedAccounts.unlinkedToast", "Conta desvinculada") });
+    },
+    onError,
+  });
+
+  const setPasswordMutation = useMutation({
+    mutationFn: () => api("/api/auth/password", { method: "POST", body: JSON.stringify({ password }) }),
+    onSuccess: () => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["auth", "identities"] });
+      toast({ title: t("linkedAccounts.passwordSet", "Senha definida") });
+    },
+    onError,
+  });
+
+  const providerName = (id: string) => status?.providers.find((provider) => provider.id === id)?.name ?? id;
+  const linkedProviders = new Set(status?.identities.map((identity) => identity.provider));
+  const availableProviders = status?.providers.filter((provider) => !linkedProviders.has(provider.id)) ?? [];
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Link2 className="mr-2 h-5 w-5" />
+          {t("linkedAccounts.title", "Contas vinculadas")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <p>{t("common.loading", "Carregando...")}</p>
+        ) : (
+          <>
+            {status.identities.length === 0 ? (
+              <p className="text-sm text-gray-500">{t("linkedAccounts.empty", "Nenhuma conta externa vinculada.")}</p>
+            ) : (
+              <ul className="space-y-2">
+                {status.identities.map((identity) => (
+                  <li key={identity.id} className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <p className="font-medium">{providerName(identity.provider)}</p>
+                      {identity.email && <p className="text-sm text-gray-500">{identity.email}</p>}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={t("linkedAccounts.unlink", "Desvincular")}
+                      onClick={() => unlinkMutation.mutate(identity.id)}
+                      // Sem senha, a única conta vinculada é a única forma de entrar
+                      disabled={unlinkMutation.isPending || (!status.hasPassword && status.identities.length === 1)}
+                    >
+                      <Unlink className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {availableProviders.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {availableProviders.map((provider) => (
+                  <Button
+                    key={provider.id}
+                    variant="outline"
+                    onClick={() => linkMutation.mutate(provider.id)}
+                    disabled={linkMutation.isPending}
+                  >
+                    {t("linkedAccounts.link", "Vincular {{provider}}", { provider: provider.name })}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {!status.hasPassword && (
+              <form
+                className="space-y-2 border-t pt-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setPasswordMutation.mutate();
+                }}
+              >
+                <p className="text-sm text-gray-500">
+                  {t("linkedAccounts.noPassword", "Sua conta ainda não tem senha. Defina uma para também entrar com e-mail e senha.")}
+                </p>
+                <Label htmlFor="newPassword">{t("linkedAccounts.newPassword", "Nova senha")}</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                <Button type="submit" disabled={!password || setPasswordMutation.isPending}>
+                  {t("linkedAccounts.setPassword", "Definir senha")}
+                </Button>
+              </form>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { api } from "@/lib/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface AuthEvent {
+  id: number;
+  type: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  detail: string | null;
+  createdAt: string;
+}
+
+// Eventos que merecem destaque: alguém pode estar tentando acessar a conta
+const WARNING_EVENTS = new Set(["login_failed", "account_locked"]);
+
+export function SecurityActivity() {
+  const { t } = useTranslation();
+
+  const { data: events, isLoading } = useQuery<AuthEvent[]>({
+    queryKey: ["auth", "events"],
+    queryFn: () => api("/api/auth/events"),
+  });
+
+  const describeDetail = (event: AuthEvent) => {
+    if (!event.detail) return null;
+    return t(`securityActivity.details.${event.detail.split(":")[0]}`, event.detail);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>{t("securityActivity.title", "Atividade de segurança recente")}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p>{t("common.loading", "Carregando...")}</p>
+        ) : !events || events.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("securityActivity.empty", "Nenhuma atividade registrada.")}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("securityActivity.event", "Evento")}</TableHead>
+                <TableHead>{t("securityActivity.date", "Data")}</TableHead>
+                <TableHead>{t("securityActivity.ipAddress", "IP")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell title={event.userAgent ?? undefined} className={WARNING_EVENTS.has(event.type) ? "text-red-600" : undefined}>
+                    {t(`securityActivity.types.${event.type}`, event.type)}
+                    {describeDetail(event) && <span className="text-gray-500"> ({describeDetail(event)})</span>}
+                  </TableCell>
+                  <TableCell>{new Date(event.createdAt).toLocaleString("pt-BR")}</TableCell>
+                  <TableCell>{event.ipAddress ?? "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
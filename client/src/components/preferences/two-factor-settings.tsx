@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { api, ApiError } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/components/ui/use-toast";
+import { Copy, ShieldCheck } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+// Mensagem do primeiro erro de campo devolvido pelo servidor (ex.: senha incorreta, código inválido)
+function fieldError(error: unknown, field: string): string | undefined {
+  return error instanceof ApiError ? (error.data?.errors as Record<string, string[]> | undefined)?.[field]?.[0] : undefined;
+}
+
+export function TwoFactorSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Exibidos uma única vez, logo após a ativação ou a geração de novos códigos
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["auth", "2fa"],
+    queryFn: () => api("/api/auth/2fa"),
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: t("common.error", "Erro"),
+      description: fieldError(error, "password") || fieldError(error, "code") || (error as Error)?.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => api("/api/auth/2fa/setup", { method: "POST", body: JSON.stringify({ password }) }) as Promise<TwoFactorSetup>,
+    onSuccess: (data) => {
+      setSetup(data);
+      setPassword("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => api("/api/auth/2fa/enable", { method: "POST", body: JSON.stringify({ code }) }) as Promise<{ recoveryCodes: string[] }>,
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["auth", "2fa"] });
+      toast({ title: t("twoFactor.enabledToast", "Autenticação em dois fatores ativada") });
+    },
+    onError: (error) => {
+      setCode("");
+      onError(error);
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => api("/api/auth/2fa/disable", { method: "POST", body: JSON.stringify({ password }) }),
+    onSuccess: () => {
+      setPassword("");
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["auth", "2fa"] });
+      toast({ title: t("twoFactor.disabledToast", "Autenticação em dois fatores desativada") });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => api("/api/auth/2fa/recovery-codes", { method: "POST", body: JSON.stringify({ password }) }) as Promise<{ recoveryCodes: string[] }>,
+    onSuccess: (data) => {
+      setPassword("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["auth", "2fa"] });
+    },
+    onError,
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: t("twoFactor.copied", "Códigos copiados") });
+  };
+
+  const passwordInput = (
+    <div className="space-y-2">
+      <Label htmlFor="twoFactorPassword">{t("twoFactor.currentPassword", "Senha atual")}</Label>
+      <Input
+        id="twoFactorPassword"
+        type="password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2" />
+          {t("twoFactor.title", "Autenticação em dois fatores")}
+        </CardTitle>
+        {status && (
+          <Badge variant={status.enabled ? "default" : "secondary"}>
+            {status.enabled ? t("twoFactor.statusEnabled", "Ativa") : t("twoFactor.statusDisabled", "Inativa")}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <p>{t("common.loading", "Carregando...")}</p>
+        ) : recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {t("twoFactor.recoveryCodesHint", "Guarde estes códigos de recuperação em um lugar seguro. Cada um permite entrar uma única vez sem o app autenticador, e eles não serão exibidos novamente.")}
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => <li key={recoveryCode}>{recoveryCode}</li>)}
+            </ul>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={copyRecoveryCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                {t("twoFactor.copy", "Copiar")}
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)}>{t("twoFactor.savedCodes", "Já guardei os códigos")}</Button>
+            </div>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              {t("twoFactor.recoveryCodesRemaining", { count: status.recoveryCodesRemaining, defaultValue: "Códigos de recuperação restantes: {{count}}" })}
+            </p>
+            {passwordInput}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => regenerateMutation.mutate()} disabled={!password || regenerateMutation.isPending}>
+                {t("twoFactor.regenerate", "Gerar novos códigos de recuperação")}
+              </Button>
+              <Button variant="destructive" onClick={() => disableMutation.mutate()} disabled={!password || disableMutation.isPending}>
+                {t("twoFactor.disable", "Desativar")}
+              </Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              {t("twoFactor.scanHint", "Escaneie o QR code com o seu app autenticador (Google Authenticator, Authy, 1Password...) e digite o código gerado.")}
+            </p>
+            <img src={setup.qrCode} alt={setup.otpauthUri} className="h-48 w-48" />
+            <p className="text-sm">
+              {t("twoFactor.manualEntry", "Ou digite a chave manualmente:")}{" "}
+              <code className="font-mono break-all">{setup.secret}</code>
+            </p>
+            <InputOTP maxLength={6} value={code} onChange={setCode} inputMode="numeric" autoComplete="one-time-code">
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button onClick={() => enableMutation.mutate()} disabled={code.length !== 6 || enableMutation.isPending}>
+                {t("twoFactor.confirm", "Confirmar e ativar")}
+              </Button>
+              <Button variant="outline" onClick={() => { setSetup(null); setCode(""); }}>
+                {t("common.cancel", "Cancelar")}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              {t("twoFactor.description", "Além da senha, o login passa a pedir um código do seu app autenticador.")}
+            </p>
+            {passwordInput}
+            <Button onClick={() => setupMutation.mutate()} disabled={!password || setupMutation.isPending}>
+              {t("twoFactor.enable", "Ativar")}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
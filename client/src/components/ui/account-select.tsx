@@ -0,0 +1,33 @@
+import { useTranslation } from "react-i18next";
+import { Account } from "@/lib/types";
+
+interface AccountSelectProps {
+  accounts: Account[];
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+export function AccountSelect({ accounts, value, onChange, placeholder }: AccountSelectProps) {
+  const { t } = useTranslation();
+  const label = placeholder || t('accounts.select', 'Selecione a conta');
+
+  return (
+    <div className="relative">
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex h-10 w-full items-center justify-between rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        aria-label={label}
+      >
+        <option value="">{label}</option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id.toString()}>
+            {account.name}
+            {account.type === "credit_card" ? ` (${t('accounts.creditCard', 'Cartão de crédito')})` : ""}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { FileText, Paperclip } from "lucide-react";
+import { apiBlob } from "@/lib/api";
+import { TransactionAttachment } from "@/lib/types";
+
+const attachmentContentUrl = (attachment: TransactionAttachment) =>
+  `/api/transactions/${attachment.transactionId}/attachments/${attachment.id}/content`;
+
+// Object URL do conteúdo do anexo, revogado quando o componente sai da tela
+function useAttachmentObjectUrl(attachment: TransactionAttachment, enabled: boolean) {
+  const { data: blob } = useQuery<Blob>({
+    queryKey: ["attachments", attachment.id, "content"],
+    queryFn: () => apiBlob(attachmentContentUrl(attachment)),
+    enabled,
+    staleTime: Infinity,
+  });
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  return objectUrl;
+}
+
+// Abre o anexo em outra aba (o conteúdo exige o token, por isso não basta um link direto)
+export async function openAttachment(attachment: TransactionAttachment) {
+  const blob = await apiBlob(attachmentContentUrl(attachment));
+  const url = URL.createObjectURL(blob);
+  window.open(url, "_blank", "noopener");
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+interface AttachmentThumbnailProps {
+  attachment: TransactionAttachment;
+  size?: number;
+}
+
+// Miniatura de imagem; PDFs aparecem como ícone
+export function AttachmentThumbnail({ attachment, size = 32 }: AttachmentThumbnailProps) {
+  const isImage = attachment.mimeType.startsWith("image/");
+  const objectUrl = useAttachmentObjectUrl(attachment, isImage);
+
+  return (
+    <button
+      type="button"
+      title={attachment.fileName}
+      aria-label={attachment.fileName}
+      onClick={() => openAttachment(attachment)}
+      className="flex items-center justify-center overflow-hidden rounded border border-gray-200 bg-gray-50 hover:ring-2 hover:ring-primary"
+      style={{ width: size, height: size }}
+    >
+      {isImage && objectUrl ? (
+        <img src={objectUrl} alt={attachment.fileName} className="h-full w-full object-cover" />
+      ) : isImage ? (
+        <Paperclip className="h-4 w-4 text-gray-400" />
+      ) : (
+        <FileText className="h-4 w-4 text-red-500" />
+      )}
+    </button>
+  );
+}
+
+interface AttachmentThumbnailsProps {
+  attachments?: TransactionAttachment[];
+  max?: number;
+}
+
+// Miniaturas exibidas nas listas de transações; as excedentes viram um contador
+export function AttachmentThumbnails({ attachments, max = 3 }: AttachmentThumbnailsProps) {
+  const { t } = useTranslation();
+  if (!attachments || attachments.length === 0) return null;
+  const hidden = attachments.length - max;
+
+  return (
+    <div className="flex items-center gap-1" aria-label={t("attachments.label", "Anexos")}>
+      {attachments.slice(0, max).map((attachment) => (
+        <AttachmentThumbnail key={attachment.id} attachment={attachment} />
+      ))}
+      {hidden > 0 && <span className="text-xs text-gray-500">+{hidden}</span>}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
 import { queryClient } from '@/lib/queryClient';
+import { api, setActiveHouseholdId } from '@/lib/api';
 import { User } from '../../../shared/schema';
 import { useNavigate } from 'react-router-dom';
 
@@ -54,10 +55,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const logout = () => {
+    // Encerrar a sessão no servidor (revoga o refresh token do cookie); a saída local não depende disso
+    api('/api/auth/logout', { method: 'POST' }).catch((error) => {
+      console.error("Failed to revoke session on logout", error);
+    });
     // Clear any cached data when logging out
     try { queryClient.clear(); } catch (e) { /* noop */ }
     localStorage.removeItem('authToken');
     localStorage.removeItem('user');
+    setActiveHouseholdId(null);
     setToken(null);
     setUser(null);
     navigate('/login');
@@ -12,14 +12,14 @@ export class ApiError extends Error {
   }
 }
 
-// A wrapper for the native fetch function
-export const api = async (url: string, options: RequestInit = {}) => {
-  const token = localStorage.getItem('authToken');
+// Rotas de autenticação cujo 401 significa credencial inválida, e não access token expirado
+const NO_REFRESH_PATHS = ['/api/auth/login', '/api/auth/login/2fa', '/api/auth/register', '/api/auth/refresh', '/api/auth/logout'];
 
-  // Base URL (workaround sem proxy do Vite).
-  // Regra:
-  //  - Se VITE_API_BASE_URL for vazio ou apontar para localhost, usa window.location.origin (mesma origem).
-  //  - Caso contrário, usa VITE_API_BASE_URL.
+// Base URL (workaround sem proxy do Vite).
+// Regra:
+//  - Se VITE_API_BASE_URL for vazio ou apontar para localhost, usa window.location.origin (mesma origem).
+//  - Caso contrário, usa VITE_API_BASE_URL.
+export const resolveApiUrl = (url: string) => {
   const envBase = (import.meta as any).env?.VITE_API_BASE_URL as string | undefined;
   let cleanedBase = envBase ? envBase.replace(/\/+$/, '') : '';
 
@@ -33,26 +33,85 @@ export const api = async (url: string, options: RequestInit = {}) => {
 
   const cleanedPath = (url.startsWith('/') ? url : `/${url}`).replace(/\/{2,}/g, '/');
   const apiUrl = cleanedBase ? `${cleanedBase}${cleanedPath}` : cleanedPath;
-  
+
   console.log(`[API] Base: ${cleanedBase || '(relative)'} | URL: ${apiUrl}`);
+  return { apiUrl, path: cleanedPath };
+};
 
-  const defaultOptions: RequestInit = {
-    headers: {
-      'Content-Type': 'application/json',
-      ...(token && { Authorization: `Bearer ${token}` }),
-    },
-  };
+// Uma única renovação em andamento por vez: requisições paralelas que recebem 401 aguardam a mesma
+let refreshInFlight: Promise<string | null> | null = null;
+
+// Troca o refresh token (cookie httpOnly) por um novo access token; null quando a sessão acabou
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const response = await fetch(resolveApiUrl('/api/auth/refresh').apiUrl, {
+          method: 'POST',
+          credentials: 'include',
+        });
+        if (!response.ok) return null;
+        const data = await response.json();
+        localStorage.setItem('authToken', data.token);
+        localStorage.setItem('user', JSON.stringify(data.user));
+        return data.token as string;
+      } catch (error) {
+        console.error('API Error: Failed to refresh session.', error);
+        return null;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+  return refreshInFlight;
+};
+
+// Casa compartilhada escolhida em Preferências (id do dono). Sem valor, o usuário age na própria casa
+const HOUSEHOLD_STORAGE_KEY = 'householdId';
+
+export const getActiveHouseholdId = (): number | null => {
+  const ownerId = Number(localStorage.getItem(HOUSEHOLD_STORAGE_KEY));
+  return Number.isInteger(ownerId) && ownerId > 0 ? ownerId : null;
+};
 
-  const mergedOptions = {
-    ...defaultOptions,
+// Troca a casa ativa e descarta os dados da casa anterior em cache
+export const setActiveHouseholdId = (ownerId: number | null) => {
+  if (ownerId) {
+    localStorage.setItem(HOUSEHOLD_STORAGE_KEY, String(ownerId));
+  } else {
+    localStorage.removeItem(HOUSEHOLD_STORAGE_KEY);
+  }
+  queryClient.invalidateQueries();
+};
+
+// Envia a requisição autenticada (renovando a sessão se preciso) e lança ApiError nas respostas de erro
+const request = async (url: string, options: RequestInit = {}): Promise<Response> => {
+  const { apiUrl, path } = resolveApiUrl(url);
+  const householdId = getActiveHouseholdId();
+
+  const send = (token: string | null) => fetch(apiUrl, {
+    credentials: 'include',
     ...options,
     headers: {
-      ...defaultOptions.headers,
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(householdId && { 'X-Household-Id': String(householdId) }),
       ...options.headers,
     },
-  };
+  });
+
+  const token = localStorage.getItem('authToken');
+  let response = await send(token);
 
-  const response = await fetch(apiUrl, mergedOptions);
+  // Access token expirado: renova a sessão e repete a requisição uma única vez.
+  // Se outra aba já renovou, basta usar o token que ela gravou.
+  if (response.status === 401 && token && !NO_REFRESH_PATHS.includes(path.split('?')[0])) {
+    const storedToken = localStorage.getItem('authToken');
+    const newToken = storedToken && storedToken !== token ? storedToken : await refreshAccessToken();
+    if (newToken) {
+      response = await send(newToken);
+    }
+  }
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({ message: 'An unknown error occurred' }));
@@ -62,11 +121,18 @@ export const api = async (url: string, options: RequestInit = {}) => {
       // Limpar token e recarregar a página para um novo estado limpo
       localStorage.removeItem('authToken');
       localStorage.removeItem('user');
+      localStorage.removeItem(HOUSEHOLD_STORAGE_KEY);
       queryClient.clear();
       window.location.reload(); // Recarrega a página
     }
     throw new ApiError(errorData.message || `HTTP error! status: ${response.status}`, response.status, errorData);
   }
+  return response;
+};
+
+// A wrapper for the native fetch function
+export const api = async (url: string, options: RequestInit = {}) => {
+  const response = await request(url, options);
 
   // If the response has content, parse it as JSON. Otherwise, return null.
   const contentType = response.headers.get('content-type');
@@ -76,3 +142,9 @@ export const api = async (url: string, options: RequestInit = {}) => {
   
   return null; // For responses like 204 No Content
 };
+
+// Conteúdo binário (anexos): o <img> não envia o token, então o arquivo é baixado aqui e exibido por object URL
+export const apiBlob = async (url: string): Promise<Blob> => {
+  const response = await request(url);
+  return response.blob();
+};
@@ -15,6 +15,23 @@ export interface Transaction {
   categoryId: number;
   isRecurring: boolean;
   expenseType?: string;
+  accountId?: number | null;
+  destinationAccountId?: number | null;
+  installmentGroupId?: number | null;
+  installmentNumber?: number | null;
+  installmentCount?: number | null;
+  recurrenceRuleId?: number | null;
+  recurrenceIndex?: number | null;
+  attachments?: TransactionAttachment[];
+}
+
+export interface TransactionAttachment {
+  id: number;
+  transactionId: number;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
 }
 
 export interface Account {
@@ -23,3 +40,21 @@ export interface Account {
   balance: string;
   type?: string;
 }
+
+export interface Budget {
+  id: number;
+  categoryId: number;
+  amount: string;
+  rollover: boolean;
+}
+
+// Resumo mensal retornado por GET /api/budgets
+export interface BudgetSummary extends Budget {
+  categoryName: string;
+  categoryColor: string;
+  carryOver: number;
+  planned: number;
+  spent: number;
+  remaining: number;
+  percent: number;
+}
@@ -6,7 +6,11 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/components/ui/use-toast";
+import TransferForm from "@/components/forms/transfer-form";
+import CardStatements from "@/components/accounts/card-statements";
+import { Transaction } from "@/lib/types";
 
 interface Account {
   id: number;
@@ -30,6 +34,8 @@ interface CreateAccountInput {
 export default function AccountsPage() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [statementCardId, setStatementCardId] = useState<string>("");
 
   const [form, setForm] = useState<CreateAccountInput>({
     name: "",
@@ -45,6 +51,17 @@ export default function AccountsPage() {
     queryFn: () => api("/api/accounts"),
   });
 
+  const { data: transfers } = useQuery<Transaction[]>({
+    queryKey: ["transactions", "transfer"],
+    queryFn: () => api("/api/transactions?type=transfer"),
+  });
+
+  const accountName = (id?: number | null) =>
+    accounts?.find((account) => account.id === id)?.name ?? "-";
+
+  const creditCards = (accounts || []).filter((account) => account.type === "credit_card");
+  const selectedCardId = statementCardId || (creditCards[0] ? String(creditCards[0].id) : "");
+
   const createMutation = useMutation({
     mutationFn: async (payload: CreateAccountInput) => {
       const body = {
@@ -91,6 +108,24 @@ export default function AccountsPage() {
     },
   });
 
+  const deleteTransferMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return api(`/api/transactions/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      toast({ title: "Transferência removida" });
+      queryClient.invalidateQueries({ queryKey: ["transactions", "transfer"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao remover transferência",
+        description: error?.data?.message || error?.message || "Tente novamente",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
     if (!form.name.trim()) {
@@ -106,6 +141,12 @@ export default function AccountsPage() {
     }
   };
 
+  const handleDeleteTransfer = (id: number) => {
+    if (window.confirm("Tem certeza que deseja excluir esta transferência? Os saldos das contas serão ajustados.")) {
+      deleteTransferMutation.mutate(id);
+    }
+  };
+
   const handleChange = (field: keyof CreateAccountInput, value: string) => {
     setForm((prev) => ({ ...prev, [field]: value }));
   };
@@ -250,6 +291,89 @@ export default function AccountsPage() {
           )}
         </CardContent>
       </Card>
+
+      {creditCards.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Faturas do cartão</CardTitle>
+            <div className="w-64">
+              <Select value={selectedCardId} onValueChange={setStatementCardId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o cartão" />
+                </SelectTrigger>
+                <SelectContent>
+                  {creditCards.map((card) => (
+                    <SelectItem key={card.id} value={String(card.id)}>
+                      {card.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selectedCardId && <CardStatements key={selectedCardId} accountId={Number(selectedCardId)} />}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Transferências</CardTitle>
+          <Dialog open={isTransferOpen} onOpenChange={setIsTransferOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={!accounts || accounts.length < 2}>Nova transferência</Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Nova transferência</DialogTitle>
+              </DialogHeader>
+              <TransferForm onSuccess={() => setIsTransferOpen(false)} />
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          {!transfers || transfers.length === 0 ? (
+            <p>Nenhuma transferência registrada.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Origem</TableHead>
+                  <TableHead>Destino</TableHead>
+                  <TableHead>Valor</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[80px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.map((transfer) => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>{new Date(transfer.date).toLocaleDateString("pt-BR")}</TableCell>
+                    <TableCell>{transfer.description}</TableCell>
+                    <TableCell>{accountName(transfer.accountId)}</TableCell>
+                    <TableCell>{accountName(transfer.destinationAccountId)}</TableCell>
+                    <TableCell>{Number(transfer.amount).toFixed(2)}</TableCell>
+                    <TableCell>{transfer.status === "paid" ? "Realizada" : "Agendada"}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteTransfer(transfer.id)}
+                        disabled={deleteTransferMutation.isPending}
+                      >
+                        Excluir
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -7,7 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { queryClient } from "@/lib/queryClient";
 import { api } from "@/lib/api";
 import { formatDate } from "@/lib/date";
-import { Bell, CheckCircle, AlertTriangle, Clock, Target, TrendingUp, X } from "lucide-react";
+import { Bell, CheckCircle, AlertTriangle, Clock, Target, TrendingUp, PiggyBank, Trophy, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "react-i18next";
 
@@ -83,8 +83,14 @@ export default function Alerts() {
         return AlertTriangle;
       case 'goal_milestone':
         return Target;
+      case 'goal_achieved':
+        return Trophy;
+      case 'goal_behind':
+        return AlertTriangle;
       case 'investment_maturity':
         return TrendingUp;
+      case 'budget':
+        return PiggyBank;
       default:
         return Bell;
     }
@@ -97,9 +103,14 @@ export default function Alerts() {
       case 'overdue':
         return 'text-red-500 bg-red-50';
       case 'goal_milestone':
+      case 'goal_achieved':
         return 'text-green-500 bg-green-50';
+      case 'goal_behind':
+        return 'text-orange-500 bg-orange-50';
       case 'investment_maturity':
         return 'text-blue-500 bg-blue-50';
+      case 'budget':
+        return 'text-purple-500 bg-purple-50';
       default:
         return 'text-gray-500 bg-gray-50';
     }
@@ -113,8 +124,14 @@ export default function Alerts() {
         return t('alerts.types.overdue');
       case 'goal_milestone':
         return t('alerts.types.goalMilestone');
+      case 'goal_achieved':
+        return t('alerts.types.goalAchieved');
+      case 'goal_behind':
+        return t('alerts.types.goalBehind');
       case 'investment_maturity':
         return t('alerts.types.investmentMaturity');
+      case 'budget':
+        return t('alerts.types.budget');
       default:
         return t('alerts.types.general');
     }
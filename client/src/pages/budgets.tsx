@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { queryClient } from "@/lib/queryClient";
+import { api } from "@/lib/api";
+import { formatCurrency } from "@/lib/currency";
+import { Plus, Edit, Trash2, Repeat } from "lucide-react";
+import BudgetForm from "@/components/forms/budget-form";
+import { useToast } from "@/hooks/use-toast";
+import { BudgetSummary } from "@/lib/types";
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const getBudgetProgressColor = (percent: number): string => {
+  if (percent >= 100) return "bg-red-500";
+  if (percent >= 80) return "bg-yellow-500";
+  return "bg-green-500";
+};
+
+export default function Budgets() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [month, setMonth] = useState(currentMonth());
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<BudgetSummary | null>(null);
+
+  const { data: budgets, isLoading } = useQuery<BudgetSummary[]>({
+    queryKey: ["budgets", month],
+    queryFn: () => api(`/api/budgets?month=${month}`),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return api(`/api/budgets/${id}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+      toast({ title: t('budgets.toast.deleteSuccess') });
+    },
+    onError: () => {
+      toast({
+        title: t('common.error'),
+        description: t('budgets.toast.deleteError'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (id: number) => {
+    if (confirm(t('budgets.deleteConfirm'))) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const totalPlanned = budgets ? budgets.reduce((sum, budget) => sum + budget.planned, 0) : 0;
+  const totalSpent = budgets ? budgets.reduce((sum, budget) => sum + budget.spent, 0) : 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200 px-6 py-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">{t('budgets.title')}</h2>
+            <div className="flex space-x-6 mt-2">
+              <span className="text-sm text-gray-600">
+                {t('budgets.totalPlanned')}: <span className="font-semibold text-blue-600">{formatCurrency(totalPlanned)}</span>
+              </span>
+              <span className="text-sm text-gray-600">
+                {t('budgets.totalSpent')}: <span className="font-semibold text-red-600">{formatCurrency(totalSpent)}</span>
+              </span>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <Input
+              type="month"
+              aria-label={t('budgets.month')}
+              value={month}
+              onChange={(e) => setMonth(e.target.value || currentMonth())}
+              className="w-44"
+            />
+            <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+              <DialogTrigger asChild>
+                <Button className="bg-primary hover:bg-primary/90">
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('budgets.new')}
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>{t('budgets.new')}</DialogTitle>
+                </DialogHeader>
+                <BudgetForm
+                  usedCategoryIds={(budgets || []).map((budget) => budget.categoryId)}
+                  onSuccess={() => setIsCreateOpen(false)}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="p-6 flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <CardContent className="p-6">
+                  <Skeleton className="h-24 w-full" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : !budgets ? (
+          <div className="text-center py-12 text-gray-500">{t('budgets.errorLoading')}</div>
+        ) : budgets.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <p className="mb-4">{t('budgets.empty')}</p>
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t('budgets.new')}
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {budgets.map((budget) => (
+              <Card key={budget.id}>
+                <CardHeader className="flex flex-row items-center justify-between pb-3">
+                  <CardTitle className="flex items-center text-base font-semibold">
+                    <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: budget.categoryColor }} />
+                    {budget.categoryName}
+                    {budget.rollover && <Repeat className="ml-2 h-4 w-4 text-gray-400" />}
+                  </CardTitle>
+                  <div className="flex space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingBudget(budget)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(budget.id)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-500">
+                      {formatCurrency(budget.spent)} / {formatCurrency(budget.planned)}
+                    </span>
+                    <Badge className={`text-xs font-medium text-white ${getBudgetProgressColor(budget.percent)}`}>
+                      {Math.round(budget.percent)}%
+                    </Badge>
+                  </div>
+                  <Progress value={Math.min(budget.percent, 100)} className="h-2" />
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-500">
+                      {budget.remaining >= 0 ? t('budgets.remaining') : t('budgets.overspent')}
+                    </span>
+                    <span className={budget.remaining >= 0 ? "font-medium text-green-600" : "font-medium text-red-600"}>
+                      {formatCurrency(Math.abs(budget.remaining))}
+                    </span>
+                  </div>
+                  {budget.carryOver > 0 && (
+                    <p className="text-xs text-gray-500">
+                      {t('budgets.carryOver')}: {formatCurrency(budget.carryOver)}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Edit dialog */}
+      <Dialog open={!!editingBudget} onOpenChange={(open) => !open && setEditingBudget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t('budgets.edit')}</DialogTitle>
+          </DialogHeader>
+          {editingBudget && (
+            <BudgetForm initialData={editingBudget} onSuccess={() => setEditingBudget(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
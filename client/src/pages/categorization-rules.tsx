@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CategorySelect } from "@/components/ui/category-select";
+import { queryClient } from "@/lib/queryClient";
+import { api } from "@/lib/api";
+import { formatCurrency } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Play, Trash2, Lightbulb } from "lucide-react";
+import { Category } from "@/lib/types";
+
+interface CategorizationRule {
+  id: number;
+  categoryId: number;
+  descriptionContains: string | null;
+  amountEquals: string | null;
+  priority: number;
+}
+
+interface RuleSuggestion {
+  descriptionContains: string;
+  categoryId: number;
+  categoryName: string;
+  matches: number;
+}
+
+const emptyRule = { categoryId: "", descriptionContains: "", amountEquals: "", priority: "0" };
+
+export default function CategorizationRules() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [newRule, setNewRule] = useState(emptyRule);
+  // Sem marcar, as regras só preenchem transações sem categoria e não desfazem escolhas manuais
+  const [overwriteCategories, setOverwriteCategories] = useState(false);
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["categories"],
+    queryFn: () => api("/api/categories"),
+  });
+
+  const { data: rules, isLoading } = useQuery<CategorizationRule[]>({
+    queryKey: ["categorization-rules"],
+    queryFn: () => api("/api/categorization-rules"),
+  });
+
+  const { data: suggestions } = useQuery<RuleSuggestion[]>({
+    queryKey: ["categorization-rules", "suggestions"],
+    queryFn: () => api("/api/categorization-rules/suggestions"),
+  });
+
+  const showError = (error: any, fallbackKey: string) => {
+    const fieldErrors = error?.data?.errors as Record<string, string[]> | undefined;
+    const firstFieldError = fieldErrors ? Object.values(fieldErrors).flat()[0] : undefined;
+    toast({
+      title: t('common.error'),
+      description: firstFieldError || error?.data?.message || t(fallbackKey),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (rule: { categoryId: number; descriptionContains: string | null; amountEquals: number | null; priority: number }) => {
+      return api("/api/categorization-rules", { method: 'POST', body: JSON.stringify(rule) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categorization-rules"] });
+      toast({ title: t('categorizationRules.toast.createSuccess') });
+      setNewRule(emptyRule);
+    },
+    onError: (error) => showError(error, 'categorizationRules.toast.createError'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return api(`/api/categorization-rules/${id}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categorization-rules"] });
+      toast({ title: t('categorizationRules.toast.deleteSuccess') });
+    },
+    onError: (error) => showError(error, 'categorizationRules.toast.deleteError'),
+  });
+
+  // Conta antes quantas transações mudariam e pede confirmação; sem mudanças (ou sem confirmação) nada é gravado
+  const applyMutation = useMutation({
+    mutationFn: async (ruleId?: number) => {
+      const apply = (dryRun: boolean) => api("/api/categorization-rules/apply", {
+        method: 'POST',
+        body: JSON.stringify({ ruleId, overwrite: overwriteCategories, dryRun }),
+      }) as Promise<{ updated: number }>;
+      const preview = await apply(true);
+      if (preview.updated === 0 || !confirm(t('categorizationRules.applyConfirm', { count: preview.updated }))) {
+        return null;
+      }
+      return apply(false);
+    },
+    onSuccess: (data) => {
+      if (!data) return;
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["categorization-rules", "suggestions"] });
+      toast({ title: t('categorizationRules.toast.applySuccess', { count: data.updated }) });
+    },
+    onError: (error) => showError(error, 'categorizationRules.toast.applyError'),
+  });
+
+  const handleCreate = () => {
+    if (!newRule.categoryId) {
+      toast({ title: t('categorizationRules.validation.categoryRequired'), variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      categoryId: parseInt(newRule.categoryId),
+      descriptionContains: newRule.descriptionContains.trim() || null,
+      amountEquals: newRule.amountEquals ? parseFloat(newRule.amountEquals) : null,
+      priority: parseInt(newRule.priority) || 0,
+    });
+  };
+
+  const handleDelete = (id: number) => {
+    if (confirm(t('categorizationRules.deleteConfirm'))) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const categoryName = (id: number) => categories?.find((category) => category.id === id)?.name ?? "-";
+
+  const describeRule = (rule: CategorizationRule) => {
+    const conditions: string[] = [];
+    if (rule.descriptionContains) {
+      conditions.push(t('categorizationRules.conditions.description', { value: rule.descriptionContains }));
+    }
+    if (rule.amountEquals) {
+      conditions.push(t('categorizationRules.conditions.amount', { value: formatCurrency(parseFloat(rule.amountEquals)) }));
+    }
+    return conditions.join(` ${t('categorizationRules.conditions.and')} `);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">{t('categorizationRules.title')}</h1>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="overwrite-categories"
+              checked={overwriteCategories}
+              onCheckedChange={(checked) => setOverwriteCategories(checked === true)}
+            />
+            <Label htmlFor="overwrite-categories">{t('categorizationRules.overwrite')}</Label>
+          </div>
+          <Button variant="outline" onClick={() => applyMutation.mutate(undefined)} disabled={applyMutation.isPending || !rules?.length}>
+            <Play className="h-4 w-4 mr-2" />
+            {t('categorizationRules.applyAll')}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('categorizationRules.new')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="descriptionContains">{t('categorizationRules.form.descriptionContains')}</Label>
+              <Input
+                id="descriptionContains"
+                value={newRule.descriptionContains}
+                onChange={(e) => setNewRule({ ...newRule, descriptionContains: e.target.value })}
+                placeholder="UBER"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="amountEquals">{t('categorizationRules.form.amountEquals')}</Label>
+              <Input
+                id="amountEquals"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={newRule.amountEquals}
+                onChange={(e) => setNewRule({ ...newRule, amountEquals: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('categorizationRules.form.category')}</Label>
+              <CategorySelect
+                categories={categories || []}
+                value={newRule.categoryId}
+                onChange={(value) => setNewRule({ ...newRule, categoryId: value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="priority">{t('categorizationRules.form.priority')}</Label>
+              <Input
+                id="priority"
+                type="number"
+                min="0"
+                value={newRule.priority}
+                onChange={(e) => setNewRule({ ...newRule, priority: e.target.value })}
+              />
+            </div>
+          </div>
+          <Button className="mt-4" onClick={handleCreate} disabled={createMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('common.create')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('categorizationRules.listTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p>{t('common.loading')}</p>
+          ) : !rules || rules.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('categorizationRules.empty')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('categorizationRules.columns.conditions')}</TableHead>
+                  <TableHead>{t('categorizationRules.columns.category')}</TableHead>
+                  <TableHead>{t('categorizationRules.columns.priority')}</TableHead>
+                  <TableHead className="w-[120px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>{describeRule(rule)}</TableCell>
+                    <TableCell>{categoryName(rule.categoryId)}</TableCell>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell className="space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={t('categorizationRules.applyOne')}
+                        onClick={() => applyMutation.mutate(rule.id)}
+                        disabled={applyMutation.isPending}
+                      >
+                        <Play className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {suggestions && suggestions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Lightbulb className="h-5 w-5 mr-2 text-yellow-500" />
+              {t('categorizationRules.suggestionsTitle')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {suggestions.map((suggestion) => (
+                <li key={`${suggestion.descriptionContains}-${suggestion.categoryId}`} className="flex items-center justify-between text-sm">
+                  <span>
+                    {t('categorizationRules.suggestion', {
+                      description: suggestion.descriptionContains,
+                      category: suggestion.categoryName,
+                      count: suggestion.matches,
+                    })}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={createMutation.isPending}
+                    onClick={() => createMutation.mutate({
+                      categoryId: suggestion.categoryId,
+                      descriptionContains: suggestion.descriptionContains,
+                      amountEquals: null,
+                      priority: 0,
+                    })}
+                  >
+                    {t('categorizationRules.acceptSuggestion')}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
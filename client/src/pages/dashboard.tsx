@@ -15,6 +15,7 @@ import KPIHero from "@/components/dashboard/kpi-hero";
 import { TopIncomeCategories, CategoryKPIsGrid } from "@/components/dashboard/top-sections";
 import ExpenseChart from "@/components/dashboard/expense-chart";
 import BalanceChart from "@/components/dashboard/balance-chart";
+import BudgetsProgress from "@/components/dashboard/budgets-progress";
 
 export default function Dashboard() {
   const [period, setPeriod] = useState("current-month");
@@ -24,6 +25,7 @@ export default function Dashboard() {
     endDate: "",
     year: new Date().getFullYear().toString(),
     month: "all",
+    memberId: "all",
   });
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const { t } = useTranslation();
@@ -127,6 +129,7 @@ export default function Dashboard() {
     if (endIso) params.set("endDate", endIso);
     if (filters.year) params.set("year", filters.year);
     if (filters.month && filters.month !== "all") params.set("month", filters.month);
+    if (filters.memberId && filters.memberId !== "all") params.set("memberId", filters.memberId);
 
     const queryString = params.toString();
     return queryString ? `/api/reports/charts?${queryString}` : "/api/reports/charts";
@@ -185,6 +188,7 @@ export default function Dashboard() {
             endDate: "",
             year: new Date().getFullYear().toString(),
             month: "all",
+            memberId: "all",
           })
         }
       />
@@ -395,6 +399,9 @@ export default function Dashboard() {
             />
           </div>
 
+          {/* Monthly budgets (planned x spent) */}
+          <BudgetsProgress />
+
           {/* Keep existing recent transactions list below */}
           <RecentTransactions filters={filters} />
         </div>
@@ -10,8 +10,9 @@ import { api } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 import { Category, Transaction } from "@/lib/types";
 import { formatDate } from "@/lib/date";
-import { Plus, Edit, Trash2, CreditCard, Filter } from "lucide-react";
+import { Plus, Edit, Trash2, CreditCard, Filter, XCircle } from "lucide-react";
 import ExpenseFormNew from "@/components/forms/expense-form-new";
+import { AttachmentThumbnails } from "@/components/ui/attachment-thumbnails";
 import { formatCurrency } from "@/lib/currency";
 import { useTranslation } from "react-i18next";
 import "@/styles/category-colors.css";
@@ -50,12 +51,15 @@ export default function Expenses() {
 
   const deleteExpenseMutation = useMutation({
     
-    mutationFn: (id: number) => api(`/api/transactions/${id}`, { method: 'DELETE' }),
+    mutationFn: ({ id, scope }: { id: number; scope?: "this" | "future" }) =>
+      api(`/api/transactions/${id}${scope ? `?scope=${scope}` : ""}`, { method: 'DELETE' }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["transactions", "expense"] });
       // Atualiza Relatórios (usa key "/api/transactions")
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
       toast({
         title: t('expenses.deleteSuccess.title'),
         description: t('expenses.deleteSuccess.description'),
@@ -81,6 +85,8 @@ export default function Expenses() {
       // Atualiza Relatórios (usa key "/api/transactions")
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
       toast({
         title: t('expenses.statusUpdate.title'),
         description: t('expenses.statusUpdate.description'),
@@ -95,6 +101,25 @@ export default function Expenses() {
     },
   });
 
+  const cancelInstallmentsMutation = useMutation({
+    mutationFn: (groupId: number) => api(`/api/installment-groups/${groupId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions", "expense"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["budgets"] });
+      toast({ title: t('expenses.installments.cancelSuccess') });
+    },
+    onError: () => {
+      toast({
+        title: t('common.error'),
+        description: t('expenses.installments.cancelError'),
+        variant: "destructive",
+      });
+    },
+  });
+
   const isLoading = expensesLoading || categoriesLoading;
 
   if (isLoading) {
@@ -222,9 +247,17 @@ export default function Expenses() {
     updateStatusMutation.mutate({ id: expense.id, status: newStatus });
   };
 
-  const handleDelete = (id: number) => {
+  const handleDelete = (expense: Transaction) => {
     if (confirm(t('expenses.confirmDelete'))) {
-      deleteExpenseMutation.mutate(id);
+      // Em despesas recorrentes, pergunta se as próximas ocorrências também devem ser removidas
+      const scope = expense.recurrenceRuleId && confirm(t('recurrence.confirmDeleteFuture')) ? "future" : "this";
+      deleteExpenseMutation.mutate({ id: expense.id, scope });
+    }
+  };
+
+  const handleCancelInstallments = (groupId: number) => {
+    if (confirm(t('expenses.installments.confirmCancel'))) {
+      cancelInstallmentsMutation.mutate(groupId);
     }
   };
 
@@ -369,7 +402,14 @@ export default function Expenses() {
                           className={`category-indicator category-color-${expense.categoryId}`}
                         />
                         <div>
-                          <h3 className="font-medium text-gray-900">{expense.description}</h3>
+                          <h3 className="font-medium text-gray-900">
+                            {expense.description}
+                            {expense.installmentNumber && expense.installmentCount && (
+                              <span className="ml-2 text-sm font-normal text-gray-500">
+                                {expense.installmentNumber}/{expense.installmentCount}
+                              </span>
+                            )}
+                          </h3>
                           <div className="flex items-center space-x-4 text-sm text-gray-500">
                             <span>{formatDate(expense.date)}</span>
                             <span>{getCategoryName(expense.categoryId)}</span>
@@ -393,6 +433,7 @@ export default function Expenses() {
                                 {t('expenses.recurring')}
                               </Badge>
                             )}
+                            <AttachmentThumbnails attachments={expense.attachments} />
                           </div>
                         </div>
                       </div>
@@ -420,11 +461,23 @@ export default function Expenses() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+
+                        {expense.installmentGroupId && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={t('expenses.installments.cancelRemaining')}
+                            onClick={() => handleCancelInstallments(expense.installmentGroupId!)}
+                            className="text-orange-600 hover:text-orange-700"
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        )}
                         
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleDelete(expense.id)}
+                          onClick={() => handleDelete(expense)}
                           className="text-red-600 hover:text-red-700"
                         >
                           <Trash2 className="h-4 w-4" />
@@ -4,28 +4,34 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { queryClient } from "@/lib/queryClient";
 import { api } from "@/lib/api";
 import { formatCurrency } from "@/lib/currency";
 import { formatDate } from "@/lib/date";
-import { Plus, Target, Edit, Trash2, TrendingUp } from "lucide-react";
+import { Plus, Target, Edit, Trash2, History, Flag, Archive, ArchiveRestore } from "lucide-react";
 import GoalForm from "@/components/forms/goal-form";
 import { useToast } from "@/hooks/use-toast";
 import type { Goal } from "../../../shared/schema"; // Importar o tipo Goal compartilhado
-import i18n from "@/i18n";
 import GoalSimulator from "@/components/goals/goal-simulator";
+import GoalHistory from "@/components/goals/goal-history";
+import GoalProjection from "@/components/goals/goal-projection";
+import GoalMilestones from "@/components/goals/goal-milestones";
 
 export default function Goals() {
   const { t } = useTranslation();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [historyGoal, setHistoryGoal] = useState<Goal | null>(null);
+  const [milestonesGoal, setMilestonesGoal] = useState<Goal | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const { toast } = useToast();
 
   const { data: goals, isLoading } = useQuery<Goal[]>({
-    queryKey: ["goals"],
-    queryFn: () => api('/api/goals'),
+    queryKey: showArchived ? ["goals", "archived"] : ["goals"],
+    queryFn: () => api(showArchived ? '/api/goals?archived=true' : '/api/goals'),
   });
 
   const deleteGoalMutation = useMutation({
@@ -49,15 +55,27 @@ export default function Goals() {
     },
   });
 
+  // Metas arquivadas saem da lista e do painel, mas mantêm movimentações e marcos
+  const archiveGoalMutation = useMutation({
+    mutationFn: async ({ id, archived }: { id: number; archived: boolean }) => {
+      return api(`/api/goals/${id}/${archived ? 'archive' : 'restore'}`, { method: 'POST' });
+    },
+    onSuccess: (_goal, { archived }) => {
+      queryClient.invalidateQueries({ queryKey: ["goals"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      toast({ title: archived ? t('goals.archiveSuccess') : t('goals.restoreSuccess') });
+    },
+    onError: (error) => {
+      toast({ title: t('common.error'), description: (error as Error).message, variant: "destructive" });
+    },
+  });
+
+  // O servidor registra o depósito e recalcula o saldo da meta
   const addFundsMutation = useMutation({
     mutationFn: async ({ id, amount }: { id: number; amount: number }) => {
-      const goal = goals?.find(g => g.id === id);
-      if (!goal) throw new Error(t('goals.notFound'));
-      
-      const newAmount = parseFloat(goal.currentAmount) + amount;
-      return api(`/api/goals/${id}`, { 
-        method: 'PUT', 
-        body: JSON.stringify({ currentAmount: newAmount.toString() })
+      return api(`/api/goals/${id}/contributions`, {
+        method: 'POST',
+        body: JSON.stringify({ type: 'deposit', amount })
       });
     },
     onSuccess: () => {
@@ -91,85 +109,6 @@ export default function Goals() {
     return "bg-gray-300";
   };
 
-  const addMonths = (date: Date, months: number) => {
-    const d = new Date(date);
-    d.setMonth(d.getMonth() + months);
-    return d;
-  };
-
-  const formatYearMonth = (date: Date) => {
-    return date.toLocaleDateString(i18n.language || 'pt-BR', { month: 'long', year: 'numeric' });
-  };
-
-  const formatDuration = (monthsTotal: number) => {
-    const years = Math.floor(monthsTotal / 12);
-    const months = monthsTotal % 12;
-    const yLabel = years === 1 ? t('goals.yearSingular', { defaultValue: 'ano' }) : t('goals.yearPlural', { defaultValue: 'anos' });
-    const mLabel = months === 1 ? t('goals.monthSingular', { defaultValue: 'mês' }) : t('goals.monthPlural', { defaultValue: 'meses' });
-    if (years === 0) return `${months} ${mLabel}`;
-    if (months === 0) return `${years} ${yLabel}`;
-    return `${years} ${yLabel} e ${months} ${mLabel}`;
-  };
-
-  const calculateTimeToGoal = (goal: Goal, contributionAtStart: boolean = false): { text: string; eta: Date | null; monthsNeeded: number | null } => {
-    const P = parseFloat(goal.currentAmount || '0'); // principal atual
-    const T = parseFloat(goal.targetAmount || '0');  // valor alvo
-    const C = parseFloat(goal.monthlyContribution || '0'); // aporte mensal
-    const annual = parseFloat(goal.annualInterestRate || '0'); // taxa % a.a.
-    const r = (annual / 100) / 12; // taxa mensal
-
-    const remaining = T - P;
-    if (remaining <= 0) return { text: t('goals.achieved'), eta: new Date(), monthsNeeded: 0 };
-
-    let monthsNeeded: number | null = null;
-
-    if (r > 0) {
-      // Resolver P*(1+r)^n + C*(((1+r)^n - 1)/r) >= T
-      // Se aporte no início do mês, a série de pagamentos tem um fator a mais de (1+r): C*(1+r)*(((1+r)^n - 1)/r)
-      // Equivalentemente, substitui C por C*(1+r) na fórmula do fim do mês.
-      const Ceff = contributionAtStart ? C * (1 + r) : C;
-      // Seja X=(1+r)^n => X*(P + Ceff/r) - Ceff/r >= T => X >= (T + Ceff/r) / (P + Ceff/r)
-      const denom = P + (Ceff / r);
-      const numer = T + (Ceff / r);
-      if (denom > 0 && numer > 0) {
-        const X = numer / denom;
-        if (X <= 1) {
-          monthsNeeded = 0;
-        } else {
-          monthsNeeded = Math.ceil(Math.log(X) / Math.log(1 + r));
-        }
-      } else if (P > 0) {
-        // Fallback: apenas crescimento do principal
-        monthsNeeded = Math.ceil(Math.log(T / P) / Math.log(1 + r));
-      }
-    } else {
-      // Sem juros: T <= P + C*n  => n >= (T-P)/C
-      const Ceff = contributionAtStart ? C : C; // sem juros não muda
-      if (Ceff > 0) {
-        monthsNeeded = Math.ceil(remaining / Ceff);
-      }
-    }
-
-    // Se não foi possível calcular (ex.: C<=0 e P==0 com r==0), retornar mensagem localizada
-    if (monthsNeeded === null || !isFinite(monthsNeeded) || monthsNeeded < 0) {
-      return { text: t('goals.noEstimate'), eta: null, monthsNeeded: null };
-    }
-
-    // Mantemos um texto genérico interno, mas o UI usará apenas a duração.
-    const text = '';
-
-    // ETA date: add monthsNeeded to current month, then choose day
-    const base = addMonths(new Date(), monthsNeeded);
-    const eta = new Date(base);
-    if (contributionAtStart) {
-      eta.setDate(1);
-    } else {
-      // last day of month
-      eta.setMonth(eta.getMonth() + 1, 0);
-    }
-    return { text, eta, monthsNeeded };
-  };
-
   const handleDelete = (id: number) => {
     if (confirm(t('goals.deleteConfirm'))) {
       deleteGoalMutation.mutate(id);
@@ -230,38 +169,48 @@ export default function Goals() {
             </div>
           </div>
           
-          <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-primary hover:bg-primary/90">
-                <Plus className="h-4 w-4 mr-2" />
-                {t('goals.newGoal')}
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-md">
-              <DialogHeader>
-                <DialogTitle>{t('goals.newGoal')}</DialogTitle>
-              </DialogHeader>
-              <GoalForm
-                isOpen={isCreateOpen}
-                onClose={() => setIsCreateOpen(false)}
-                onSubmitSuccess={() => {
-                  setIsCreateOpen(false);
-                  queryClient.invalidateQueries({ queryKey: ["goals"] });
-                  queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
-                }}
-              />
-            </DialogContent>
-          </Dialog>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+              {showArchived ? <Target className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+              {showArchived ? t('goals.showActive') : t('goals.showArchived')}
+            </Button>
+            <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+              <DialogTrigger asChild>
+                <Button className="bg-primary hover:bg-primary/90">
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('goals.newGoal')}
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>{t('goals.newGoal')}</DialogTitle>
+                </DialogHeader>
+                <GoalForm
+                  isOpen={isCreateOpen}
+                  onClose={() => setIsCreateOpen(false)}
+                  onSubmitSuccess={() => {
+                    setIsCreateOpen(false);
+                    queryClient.invalidateQueries({ queryKey: ["goals"] });
+                    queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </header>
 
       {/* Content */}
       <div className="p-6 flex-1 overflow-y-auto">
         {/* Goal Simulator */}
-        <div className="mb-6">
-          <GoalSimulator />
-        </div>
-        {!goals || goals.length === 0 ? (
+        {!showArchived && (
+          <div className="mb-6">
+            <GoalSimulator />
+          </div>
+        )}
+        {showArchived && (!goals || goals.length === 0) ? (
+          <p className="text-center text-gray-500 py-12">{t('goals.noArchived')}</p>
+        ) : !goals || goals.length === 0 ? (
           <Card className="max-w-md mx-auto">
             <CardContent className="text-center py-12">
               <Target className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -282,7 +231,7 @@ export default function Goals() {
             {goals.map((goal) => {
               const progress = calculateProgress(goal.currentAmount, goal.targetAmount);
               const progressColor = getProgressColor(progress);
-              const isCompleted = progress >= 100;
+              const isCompleted = goal.status === 'achieved' || progress >= 100;
               
               return (
                 <Card key={goal.id} className={`${isCompleted ? 'ring-2 ring-green-500' : ''}`}>
@@ -291,23 +240,62 @@ export default function Goals() {
                       <CardTitle className="text-lg flex items-center">
                         <Target className="h-5 w-5 mr-2" />
                         {goal.name}
+                        {goal.status === 'achieved' && (
+                          <Badge className="ml-2 bg-green-100 text-green-700 hover:bg-green-100">{t('goals.status.achieved')}</Badge>
+                        )}
                       </CardTitle>
                       <div className="flex space-x-1">
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => setEditingGoal(goal)}
+                          title={t('goals.history.title')}
+                          onClick={() => setHistoryGoal(goal)}
                         >
-                          <Edit className="h-4 w-4" />
+                          <History className="h-4 w-4" />
                         </Button>
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleDelete(goal.id)}
-                          className="text-red-600 hover:text-red-700"
+                          title={t('goals.milestones.title')}
+                          onClick={() => setMilestonesGoal(goal)}
                         >
-                          <Trash2 className="h-4 w-4" />
+                          <Flag className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingGoal(goal)}
+                        >
+                          <Edit className="h-4 w-4" />
                         </Button>
+                        {goal.archivedAt ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={t('goals.restore')}
+                            onClick={() => archiveGoalMutation.mutate({ id: goal.id, archived: false })}
+                          >
+                            <ArchiveRestore className="h-4 w-4" />
+                          </Button>
+                        ) : goal.status === 'achieved' ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={t('goals.archive')}
+                            onClick={() => archiveGoalMutation.mutate({ id: goal.id, archived: true })}
+                          >
+                            <Archive className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(goal.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </CardHeader>
@@ -359,26 +347,7 @@ export default function Goals() {
                     
                     <div className="pt-2 border-t">
                       <div className="text-xs text-gray-500 mb-3">
-                        {(() => {
-                          // Usamos cenário padrão (fim do mês) para uma única estimativa simples
-                          const res = calculateTimeToGoal(goal, false);
-                          if (res.monthsNeeded === null) {
-                            return (
-                              <p>
-                                <TrendingUp className="h-3 w-3 inline mr-1" />
-                                {t('goals.noEstimate')}
-                              </p>
-                            );
-                          }
-                          const duration = formatDuration(res.monthsNeeded);
-                          const dateLabel = res.eta ? formatYearMonth(res.eta) : '';
-                          return (
-                            <p>
-                              <TrendingUp className="h-3 w-3 inline mr-1" />
-                              {t('goals.singleEstimateWithDate', { duration, date: dateLabel })}
-                            </p>
-                          );
-                        })()}
+                        <GoalProjection goal={goal} />
                       </div>
                       
                       {!isCompleted && (
@@ -409,6 +378,30 @@ export default function Goals() {
         )}
       </div>
 
+      {/* Milestones Dialog */}
+      {milestonesGoal && (
+        <Dialog open={!!milestonesGoal} onOpenChange={() => setMilestonesGoal(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{t('goals.milestones.title')}: {milestonesGoal.name}</DialogTitle>
+            </DialogHeader>
+            <GoalMilestones goal={milestonesGoal} />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* History Dialog */}
+      {historyGoal && (
+        <Dialog open={!!historyGoal} onOpenChange={() => setHistoryGoal(null)}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{t('goals.history.title')}: {historyGoal.name}</DialogTitle>
+            </DialogHeader>
+            <GoalHistory goal={historyGoal} />
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Edit Dialog */}
       {editingGoal && (
         <Dialog open={!!editingGoal} onOpenChange={() => setEditingGoal(null)}>
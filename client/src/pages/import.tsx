@@ -0,0 +1,464 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AccountSelect } from "@/components/ui/account-select";
+import { CategorySelect } from "@/components/ui/category-select";
+import { queryClient } from "@/lib/queryClient";
+import { api } from "@/lib/api";
+import { formatCurrency } from "@/lib/currency";
+import { formatDate } from "@/lib/date";
+import { useToast } from "@/hooks/use-toast";
+import { Upload, Undo2 } from "lucide-react";
+import { Account, Category } from "@/lib/types";
+
+type ImportFormat = "ofx" | "csv";
+
+interface ImportPreviewRow {
+  date: string;
+  description: string;
+  amount: string;
+  type: "income" | "expense";
+  externalId: string | null;
+  duplicateOf: number | null;
+  // Categoria sugerida pelas regras de categorização
+  categoryId: number | null;
+}
+
+interface ImportBatch {
+  id: number;
+  accountId: number;
+  format: ImportFormat;
+  fileName: string | null;
+  transactionCount: number;
+  status: "committed" | "undone";
+  createdAt: string;
+}
+
+// Linha da pré-visualização com a escolha do usuário
+interface SelectableRow extends Omit<ImportPreviewRow, "categoryId"> {
+  selected: boolean;
+  categoryId: string;
+}
+
+const CSV_PRESETS = ["nubank", "nubank_card", "itau", "inter", "custom"] as const;
+
+const defaultCustomLayout = {
+  delimiter: ";",
+  hasHeader: true,
+  dateColumn: "",
+  descriptionColumn: "",
+  amountColumn: "",
+  dateFormat: "DD/MM/YYYY" as const,
+  decimalSeparator: "," as const,
+  invertSign: false,
+};
+
+// Extratos de bancos brasileiros muitas vezes vêm em Windows-1252 em vez de UTF-8
+async function readStatementFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("windows-1252").decode(buffer);
+  }
+}
+
+export default function ImportPage() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [accountId, setAccountId] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("ofx");
+  const [layout, setLayout] = useState<(typeof CSV_PRESETS)[number]>("nubank");
+  const [customLayout, setCustomLayout] = useState(defaultCustomLayout);
+  const [file, setFile] = useState<File | null>(null);
+  const [defaultExpenseCategory, setDefaultExpenseCategory] = useState("");
+  const [defaultIncomeCategory, setDefaultIncomeCategory] = useState("");
+  const [rows, setRows] = useState<SelectableRow[] | null>(null);
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["accounts"],
+    queryFn: () => api("/api/accounts"),
+  });
+
+  const { data: expenseCategories } = useQuery<Category[]>({
+    queryKey: ["categories", "expense"],
+    queryFn: () => api('/api/categories?type=expense'),
+  });
+
+  const { data: incomeCategories } = useQuery<Category[]>({
+    queryKey: ["categories", "income"],
+    queryFn: () => api('/api/categories?type=income'),
+  });
+
+  const { data: batches } = useQuery<ImportBatch[]>({
+    queryKey: ["import", "batches"],
+    queryFn: () => api("/api/import/batches"),
+  });
+
+  const invalidateTransactions = () => {
+    queryClient.invalidateQueries({ queryKey: ["import", "batches"] });
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+    queryClient.invalidateQueries({ queryKey: ["accounts"] });
+    queryClient.invalidateQueries({ queryKey: ["budgets"] });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error(t('import.validation.fileRequired'));
+      const content = await readStatementFile(file);
+      const payload = {
+        accountId: parseInt(accountId),
+        format,
+        fileName: file.name,
+        content,
+        layout: format === "csv" && layout !== "custom" ? layout : null,
+        csvLayout: format === "csv" && layout === "custom" ? customLayout : null,
+      };
+      return api("/api/import", { method: 'POST', body: JSON.stringify(payload) }) as Promise<{ rows: ImportPreviewRow[] }>;
+    },
+    onSuccess: (data) => {
+      // Possíveis duplicatas começam desmarcadas
+      setRows(data.rows.map((row) => ({
+        ...row,
+        selected: row.duplicateOf === null,
+        categoryId: row.categoryId?.toString() ?? (row.type === "income" ? defaultIncomeCategory : defaultExpenseCategory),
+      })));
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('import.toast.previewError'),
+        description: error?.data?.message || error?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (selectedRows: SelectableRow[]) => {
+      const payload = {
+        accountId: parseInt(accountId),
+        format,
+        fileName: file?.name ?? null,
+        rows: selectedRows.map((row) => ({
+          date: row.date,
+          description: row.description,
+          amount: row.amount,
+          type: row.type,
+          externalId: row.externalId,
+          categoryId: parseInt(row.categoryId),
+        })),
+      };
+      return api("/api/import/confirm", { method: 'POST', body: JSON.stringify(payload) });
+    },
+    onSuccess: () => {
+      invalidateTransactions();
+      toast({ title: t('import.toast.confirmSuccess') });
+      setRows(null);
+      setFile(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('import.toast.confirmError'),
+        description: error?.data?.message || error?.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (batchId: number) => {
+      return api(`/api/import/batches/${batchId}`, { method: 'DELETE' });
+    },
+    onSuccess: () => {
+      invalidateTransactions();
+      toast({ title: t('import.toast.undoSuccess') });
+    },
+    onError: () => {
+      toast({ title: t('common.error'), description: t('import.toast.undoError'), variant: "destructive" });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<SelectableRow>) => {
+    setRows((current) => current && current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handlePreview = () => {
+    if (!accountId) {
+      toast({ title: t('import.validation.accountRequired'), variant: "destructive" });
+      return;
+    }
+    if (!file) {
+      toast({ title: t('import.validation.fileRequired'), variant: "destructive" });
+      return;
+    }
+    previewMutation.mutate();
+  };
+
+  const handleConfirm = () => {
+    const selectedRows = (rows || []).filter((row) => row.selected);
+    if (selectedRows.some((row) => !row.categoryId)) {
+      toast({ title: t('import.validation.categoryRequired'), variant: "destructive" });
+      return;
+    }
+    confirmMutation.mutate(selectedRows);
+  };
+
+  const handleUndo = (batchId: number) => {
+    if (confirm(t('import.undoConfirm'))) {
+      undoMutation.mutate(batchId);
+    }
+  };
+
+  const selectedCount = rows ? rows.filter((row) => row.selected).length : 0;
+  const accountName = (id: number) => accounts?.find((account) => account.id === id)?.name ?? "-";
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">{t('import.title')}</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('import.fileTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label>{t('import.account')}</Label>
+              <AccountSelect accounts={accounts || []} value={accountId} onChange={setAccountId} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('import.format')}</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ImportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ofx">OFX</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {format === "csv" && (
+              <div className="space-y-1">
+                <Label>{t('import.layout')}</Label>
+                <Select value={layout} onValueChange={(value) => setLayout(value as (typeof CSV_PRESETS)[number])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_PRESETS.map((preset) => (
+                      <SelectItem key={preset} value={preset}>{t(`import.layouts.${preset}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {format === "csv" && layout === "custom" && (
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-1">
+                <Label>{t('import.custom.dateColumn')}</Label>
+                <Input value={customLayout.dateColumn} onChange={(e) => setCustomLayout({ ...customLayout, dateColumn: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t('import.custom.descriptionColumn')}</Label>
+                <Input value={customLayout.descriptionColumn} onChange={(e) => setCustomLayout({ ...customLayout, descriptionColumn: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t('import.custom.amountColumn')}</Label>
+                <Input value={customLayout.amountColumn} onChange={(e) => setCustomLayout({ ...customLayout, amountColumn: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t('import.custom.delimiter')}</Label>
+                <Input maxLength={1} value={customLayout.delimiter} onChange={(e) => setCustomLayout({ ...customLayout, delimiter: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>{t('import.custom.dateFormat')}</Label>
+                <Select
+                  value={customLayout.dateFormat}
+                  onValueChange={(value) => setCustomLayout({ ...customLayout, dateFormat: value as typeof customLayout.dateFormat })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="DD/MM/YYYY">DD/MM/AAAA</SelectItem>
+                    <SelectItem value="YYYY-MM-DD">AAAA-MM-DD</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{t('import.custom.decimalSeparator')}</Label>
+                <Select
+                  value={customLayout.decimalSeparator}
+                  onValueChange={(value) => setCustomLayout({ ...customLayout, decimalSeparator: value as typeof customLayout.decimalSeparator })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=",">1.234,56</SelectItem>
+                    <SelectItem value=".">1,234.56</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center space-x-2 pt-6">
+                <Switch
+                  id="hasHeader"
+                  checked={customLayout.hasHeader}
+                  onCheckedChange={(checked) => setCustomLayout({ ...customLayout, hasHeader: checked })}
+                />
+                <Label htmlFor="hasHeader">{t('import.custom.hasHeader')}</Label>
+              </div>
+              <div className="flex items-center space-x-2 pt-6">
+                <Switch
+                  id="invertSign"
+                  checked={customLayout.invertSign}
+                  onCheckedChange={(checked) => setCustomLayout({ ...customLayout, invertSign: checked })}
+                />
+                <Label htmlFor="invertSign">{t('import.custom.invertSign')}</Label>
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="statementFile">{t('import.file')}</Label>
+              <Input
+                id="statementFile"
+                type="file"
+                accept={format === "ofx" ? ".ofx" : ".csv,.txt"}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('import.defaultExpenseCategory')}</Label>
+              <CategorySelect categories={expenseCategories || []} value={defaultExpenseCategory} onChange={setDefaultExpenseCategory} />
+            </div>
+            <div className="space-y-1">
+              <Label>{t('import.defaultIncomeCategory')}</Label>
+              <CategorySelect categories={incomeCategories || []} value={defaultIncomeCategory} onChange={setDefaultIncomeCategory} />
+            </div>
+          </div>
+
+          <Button onClick={handlePreview} disabled={previewMutation.isPending}>
+            <Upload className="h-4 w-4 mr-2" />
+            {previewMutation.isPending ? t('common.loading') : t('import.preview')}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {rows && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{t('import.previewTitle', { count: rows.length })}</CardTitle>
+            <div className="space-x-2">
+              <Button variant="outline" onClick={() => setRows(null)}>{t('common.cancel')}</Button>
+              <Button onClick={handleConfirm} disabled={selectedCount === 0 || confirmMutation.isPending}>
+                {t('import.confirm', { count: selectedCount })}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('import.emptyFile')}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]"></TableHead>
+                    <TableHead>{t('import.columns.date')}</TableHead>
+                    <TableHead>{t('import.columns.description')}</TableHead>
+                    <TableHead>{t('import.columns.amount')}</TableHead>
+                    <TableHead>{t('import.columns.category')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow key={index} className={row.selected ? "" : "opacity-60"}>
+                      <TableCell>
+                        <Checkbox checked={row.selected} onCheckedChange={(checked) => updateRow(index, { selected: checked === true })} />
+                      </TableCell>
+                      <TableCell>{formatDate(row.date)}</TableCell>
+                      <TableCell>
+                        {row.description}
+                        {row.duplicateOf !== null && (
+                          <Badge className="ml-2 bg-yellow-100 text-yellow-800 text-xs">{t('import.duplicate')}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className={row.type === "income" ? "text-green-600" : "text-red-600"}>
+                        {row.type === "income" ? "+" : "-"}{formatCurrency(parseFloat(row.amount))}
+                      </TableCell>
+                      <TableCell className="min-w-[200px]">
+                        <CategorySelect
+                          categories={(row.type === "income" ? incomeCategories : expenseCategories) || []}
+                          value={row.categoryId}
+                          onChange={(value) => updateRow(index, { categoryId: value })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('import.historyTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!batches || batches.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('import.noHistory')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('import.columns.date')}</TableHead>
+                  <TableHead>{t('import.file')}</TableHead>
+                  <TableHead>{t('import.account')}</TableHead>
+                  <TableHead>{t('import.columns.transactions')}</TableHead>
+                  <TableHead className="w-[140px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell>{new Date(batch.createdAt).toLocaleString("pt-BR")}</TableCell>
+                    <TableCell>{batch.fileName || batch.format.toUpperCase()}</TableCell>
+                    <TableCell>{accountName(batch.accountId)}</TableCell>
+                    <TableCell>{batch.transactionCount}</TableCell>
+                    <TableCell>
+                      {batch.status === "undone" ? (
+                        <Badge className="bg-gray-100 text-gray-700 text-xs">{t('import.undone')}</Badge>
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => handleUndo(batch.id)} disabled={undoMutation.isPending}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          {t('import.undo')}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -22,6 +22,8 @@ interface Transaction {
   status: string;
   categoryId: number;
   isRecurring: boolean;
+  accountId?: number | null;
+  recurrenceRuleId?: number | null;
 }
 
 interface Category {
@@ -47,14 +49,15 @@ export default function Income() {
   });
 
   const deleteIncomeMutation = useMutation({
-    mutationFn: async (id: number) => {
-      return api(`/api/transactions/${id}`, { method: 'DELETE' });
+    mutationFn: async ({ id, scope }: { id: number; scope?: "this" | "future" }) => {
+      return api(`/api/transactions/${id}${scope ? `?scope=${scope}` : ""}`, { method: 'DELETE' });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["transactions", "income"] });
       // Atualiza Relatórios (usa key "/api/transactions")
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
       toast({
         title: t('income.deleteSuccess.title'),
         description: t('income.deleteSuccess.description'),
@@ -78,6 +81,7 @@ export default function Income() {
       // Atualiza Relatórios (usa key "/api/transactions")
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
       toast({
         title: t('income.statusUpdate.title'),
         description: t('income.statusUpdate.description'),
@@ -192,9 +196,11 @@ export default function Income() {
     updateStatusMutation.mutate({ id: income.id, status: newStatus });
   };
 
-  const handleDelete = (id: number) => {
+  const handleDelete = (income: Transaction) => {
     if (confirm(t('income.confirmDelete'))) {
-      deleteIncomeMutation.mutate(id);
+      // Em receitas recorrentes, pergunta se as próximas ocorrências também devem ser removidas
+      const scope = income.recurrenceRuleId && confirm(t('recurrence.confirmDeleteFuture')) ? "future" : "this";
+      deleteIncomeMutation.mutate({ id: income.id, scope });
     }
   };
 
@@ -325,7 +331,7 @@ export default function Income() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleDelete(income.id)}
+                          onClick={() => handleDelete(income)}
                           className="text-red-600 hover:text-red-700"
                         >
                           <Trash2 className="h-4 w-4" />
@@ -13,29 +13,47 @@ import { queryClient } from "@/lib/queryClient";
 import { api } from "@/lib/api";
 import { formatCurrency } from "@/lib/currency";
 import { formatDate } from "@/lib/date";
-import { Plus, TrendingUp, Calculator, DollarSign, Calendar, Pencil, Trash2 } from "lucide-react";
+import { Plus, TrendingUp, Calculator, DollarSign, Calendar, Pencil, Trash2, ScrollText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useTranslation } from "react-i18next";
 import { handleApiFormError } from "@/lib/formError";
+import InvestmentStatement from "@/components/investments/investment-statement";
+import { ACCRUAL_INVESTMENT_TYPES, DAY_COUNT_BASES, INVESTMENT_INDEXERS } from "../../../shared/schema";
 
 interface Investment {
   id: number;
   name: string;
   type: string;
   amount: string;
+  costBasis: string | null;
   interestRate: string;
+  indexer: string;
+  dayCountBasis: string;
   startDate: string;
   maturityDate?: string;
+  // Valor atual calculado pelo servidor (ver server/valuation.ts)
+  valuation: {
+    method: 'accrual' | 'position';
+    value: number;
+    costBasis: number;
+    earnings: number;
+    estimated: boolean;
+    missingSeries: 'cdi' | 'ipca' | null;
+  };
 }
 
+const isAccrualType = (type: string) => (ACCRUAL_INVESTMENT_TYPES as readonly string[]).includes(type);
+
+// Resumo anual devolvido por POST /api/simulations
 interface SimulationResult {
   year: number;
-  amount: number;
-  totalContributed: number;
-  totalReturn: number;
+  contributed: number;
+  nominal: number;
+  real: number;
+  interest: number;
 }
 
 const investmentSchema = z.object({
@@ -43,6 +61,8 @@ const investmentSchema = z.object({
   type: z.string().min(1, "Type is required"),
   amount: z.string().min(1, "Amount is required"),
   interestRate: z.string().min(1, "Interest rate is required"),
+  indexer: z.enum(INVESTMENT_INDEXERS),
+  dayCountBasis: z.enum(DAY_COUNT_BASES),
   startDate: z.string().min(1, "Start date is required"),
   maturityDate: z.string().optional(),
 });
@@ -62,6 +82,7 @@ export default function Investments() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingInvestment, setEditingInvestment] = useState<Investment | null>(null);
+  const [statementInvestment, setStatementInvestment] = useState<Investment | null>(null);
   const [simulationResults, setSimulationResults] = useState<SimulationResult[]>([]);
   const { toast } = useToast();
 
@@ -77,6 +98,8 @@ export default function Investments() {
       type: "",
       amount: "",
       interestRate: "",
+      indexer: "prefixado",
+      dayCountBasis: "business_252",
       startDate: new Date().toISOString().split('T')[0],
       maturityDate: "",
     },
@@ -126,15 +149,15 @@ export default function Investments() {
   const simulateInvestmentMutation = useMutation({
     mutationFn: async (data: SimulationFormData) => {
       const payload = {
-        amount: parseFloat(data.amount),
-        interestRate: parseFloat(data.interestRate),
-        years: parseInt(data.years),
+        initialAmount: parseFloat(data.amount),
+        annualRate: parseFloat(data.interestRate),
+        months: parseInt(data.years) * 12,
         monthlyContribution: parseFloat(data.monthlyContribution || "0"),
       };
-      return api('/api/investments/simulate', { method: 'POST', body: JSON.stringify(payload) });
+      return api('/api/simulations', { method: 'POST', body: JSON.stringify(payload) });
     },
-    onSuccess: (response) => {
-      setSimulationResults(response);
+    onSuccess: (response: { years: SimulationResult[] }) => {
+      setSimulationResults(response.years);
       toast({
         title: t('investments.simulationSuccess.title'),
         description: t('investments.simulationSuccess.description'),
@@ -171,9 +194,10 @@ export default function Investments() {
   const updateInvestmentMutation = useMutation({
     mutationFn: async (data: InvestmentFormData) => {
       if (!editingInvestment) throw new Error("No investment selected for editing");
+      // A posição muda só pelas movimentações do extrato
       const payload = {
         ...data,
-        amount: parseFloat(data.amount).toString(),
+        amount: undefined,
         interestRate: parseFloat(data.interestRate).toString(),
         maturityDate: data.maturityDate || null,
       };
@@ -217,7 +241,18 @@ export default function Investments() {
   };
 
   const totalInvestments = investments ? 
-    investments.reduce((sum, inv) => sum + parseFloat(inv.amount), 0) : 0;
+    investments.reduce((sum, inv) => sum + inv.valuation.value, 0) : 0;
+
+  // A taxa significa coisas diferentes conforme o indexador (ver shared/schema.ts)
+  const rateLabel = (type: string, indexer: string) =>
+    isAccrualType(type) ? t(`investments.rateLabels.${indexer}`) : `${t('investments.interestRate')} (% a.a.)`;
+
+  const rateDisplay = (investment: Investment) => {
+    const rate = parseFloat(investment.interestRate).toFixed(2);
+    return isAccrualType(investment.type)
+      ? t(`investments.rateDisplay.${investment.indexer}`, { rate })
+      : `${rate}% a.a.`;
+  };
 
   const onCreateSubmit = (data: InvestmentFormData) => {
     createInvestmentMutation.mutate(data);
@@ -234,6 +269,8 @@ export default function Investments() {
       type: investment.type,
       amount: investment.amount.toString(), 
       interestRate: investment.interestRate.toString(), 
+      indexer: investment.indexer as InvestmentFormData["indexer"],
+      dayCountBasis: investment.dayCountBasis as InvestmentFormData["dayCountBasis"],
       startDate: investment.startDate ? new Date(investment.startDate).toISOString().split('T')[0] : '',
       maturityDate: investment.maturityDate ? new Date(investment.maturityDate).toISOString().split('T')[0] : '',
     });
@@ -358,8 +395,39 @@ export default function Investments() {
                   )}
                 </div>
 
+                {isAccrualType(investmentForm.watch("type")) && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="indexer">{t('investments.indexer')}</Label>
+                      <Select value={investmentForm.watch("indexer")} onValueChange={(value) => investmentForm.setValue("indexer", value as InvestmentFormData["indexer"])}>
+                        <SelectTrigger id="indexer">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {INVESTMENT_INDEXERS.map((indexer) => (
+                            <SelectItem key={indexer} value={indexer}>{t(`investments.indexers.${indexer}`)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="dayCountBasis">{t('investments.dayCountBasis')}</Label>
+                      <Select value={investmentForm.watch("dayCountBasis")} onValueChange={(value) => investmentForm.setValue("dayCountBasis", value as InvestmentFormData["dayCountBasis"])}>
+                        <SelectTrigger id="dayCountBasis">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DAY_COUNT_BASES.map((basis) => (
+                            <SelectItem key={basis} value={basis}>{t(`investments.dayCountBases.${basis}`)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
                 <div>
-                  <Label htmlFor="interestRate">{t('investments.interestRate')} (% a.a.)</Label>
+                  <Label htmlFor="interestRate">{rateLabel(investmentForm.watch("type"), investmentForm.watch("indexer"))}</Label>
                   <Input
                     id="interestRate"
                     type="number"
@@ -451,24 +519,39 @@ export default function Investments() {
                     )}
                   </div>
 
-                  <div>
-                    <Label htmlFor="edit-amount">{t('investments.amount')}</Label>
-                    <Input
-                      id="edit-amount"
-                      type="number"
-                      step="0.01"
-                      {...editInvestmentForm.register("amount")}
-                      placeholder="0,00"
-                    />
-                    {editInvestmentForm.formState.errors.amount && (
-                      <p className="text-sm text-red-600 dark:text-red-400 mt-1">
-                        {editInvestmentForm.formState.errors.amount.message}
-                      </p>
-                    )}
-                  </div>
+                  {isAccrualType(editInvestmentForm.watch("type")) && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="edit-indexer">{t('investments.indexer')}</Label>
+                        <Select value={editInvestmentForm.watch("indexer")} onValueChange={(value) => editInvestmentForm.setValue("indexer", value as InvestmentFormData["indexer"])}>
+                          <SelectTrigger id="edit-indexer">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVESTMENT_INDEXERS.map((indexer) => (
+                              <SelectItem key={indexer} value={indexer}>{t(`investments.indexers.${indexer}`)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="edit-dayCountBasis">{t('investments.dayCountBasis')}</Label>
+                        <Select value={editInvestmentForm.watch("dayCountBasis")} onValueChange={(value) => editInvestmentForm.setValue("dayCountBasis", value as InvestmentFormData["dayCountBasis"])}>
+                          <SelectTrigger id="edit-dayCountBasis">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DAY_COUNT_BASES.map((basis) => (
+                              <SelectItem key={basis} value={basis}>{t(`investments.dayCountBases.${basis}`)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
 
                   <div>
-                    <Label htmlFor="edit-interestRate">{t('investments.interestRate')} (% a.a.)</Label>
+                    <Label htmlFor="edit-interestRate">{rateLabel(editInvestmentForm.watch("type"), editInvestmentForm.watch("indexer"))}</Label>
                     <Input
                       id="edit-interestRate"
                       type="number"
@@ -567,11 +650,27 @@ export default function Investments() {
                           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-x-4 gap-y-1 text-sm text-gray-600">
                             <div className="flex items-center">
                               <DollarSign className="h-4 w-4 mr-1 text-gray-500" />
-                              <span>{t('investments.amount')}: {formatCurrency(parseFloat(investment.amount))}</span>
+                              <span>
+                                {t('investments.currentValue')}: <span className="font-semibold">{formatCurrency(investment.valuation.value)}</span>
+                                {investment.valuation.estimated && <span className="text-gray-400"> ({t('investments.estimated')})</span>}
+                                {investment.valuation.missingSeries && (
+                                  <span className="text-orange-600"> ({t(`investments.missingSeries.${investment.valuation.missingSeries}`)})</span>
+                                )}
+                              </span>
+                            </div>
+                            <div className="flex items-center">
+                              <DollarSign className="h-4 w-4 mr-1 text-gray-500" />
+                              <span>{t('investments.costBasis')}: {formatCurrency(investment.valuation.costBasis)}</span>
                             </div>
                             <div className="flex items-center">
                               <TrendingUp className="h-4 w-4 mr-1 text-gray-500" />
-                              <span>{t('investments.interestRate')}: {parseFloat(investment.interestRate).toFixed(2)}% a.a.</span>
+                              <span className={investment.valuation.earnings >= 0 ? 'text-green-600' : 'text-red-600'}>
+                                {t('investments.earnings')}: {formatCurrency(investment.valuation.earnings)}
+                              </span>
+                            </div>
+                            <div className="flex items-center">
+                              <TrendingUp className="h-4 w-4 mr-1 text-gray-500" />
+                              <span>{t('investments.interestRate')}: {rateDisplay(investment)}</span>
                             </div>
                             <div className="flex items-center">
                               <Calendar className="h-4 w-4 mr-1 text-gray-500" />
@@ -587,6 +686,9 @@ export default function Investments() {
                         </div>
                         {/* Botões de Ação */}
                         <div className="flex items-center space-x-1 ml-4 flex-shrink-0">
+                          <Button variant="ghost" size="icon" className="text-gray-500 hover:text-blue-600" onClick={() => setStatementInvestment(investment)} aria-label={t('investments.statement.open')} title={t('investments.statement.open')}>
+                            <ScrollText className="h-4 w-4" />
+                          </Button>
                           <Button variant="ghost" size="icon" className="text-gray-500 hover:text-blue-600" onClick={() => handleEdit(investment)} aria-label={t('investments.editInvestment')}>
                             <Pencil className="h-4 w-4" />
                           </Button>
@@ -602,6 +704,15 @@ export default function Investments() {
             </Card>
           </TabsContent>
 
+          <Dialog open={statementInvestment !== null} onOpenChange={(isOpen) => !isOpen && setStatementInvestment(null)}>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{t('investments.statement.title')}: {statementInvestment?.name}</DialogTitle>
+              </DialogHeader>
+              {statementInvestment && <InvestmentStatement investment={statementInvestment} />}
+            </DialogContent>
+          </Dialog>
+
           <TabsContent value="simulator" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
@@ -694,15 +805,15 @@ export default function Investments() {
                           <div>
                             <p className="font-medium">{t('investments.year')} {result.year}</p>
                             <p className="text-sm text-gray-600 dark:text-gray-300">
-                              {t('investments.totalInterest')}: {formatCurrency(result.totalReturn)}
+                              {t('investments.totalInterest')}: {formatCurrency(result.interest)}
                             </p>
                           </div>
                           <div className="text-right">
                             <p className="font-semibold text-lg">
-                              {formatCurrency(result.amount)}
+                              {formatCurrency(result.nominal)}
                             </p>
                             <p className="text-sm text-gray-600 dark:text-gray-300">
-                              {t('investments.totalInvested')}: {formatCurrency(result.totalContributed)}
+                              {t('investments.totalInvested')}: {formatCurrency(result.contributed)}
                             </p>
                           </div>
                         </div>
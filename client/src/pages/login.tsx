@@ -1,30 +1,55 @@
 import { useForm } from 'react-hook-form';
-import { useEffect, useState } from 'react';
+import { useEffect, useState, type FormEvent } from 'react';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useMutation } from "@tanstack/react-query";
-import { Link } from "react-router-dom";
-import { api, ApiError } from "@/lib/api";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useSearchParams } from "react-router-dom";
+import { api, ApiError, resolveApiUrl } from "@/lib/api";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTranslation } from "react-i18next";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { handleApiFormError } from "@/lib/formError";
 import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 
 type LoginFormValues = {
   email: string;
   password: string;
 };
 
+interface OAuthProvider {
+  id: string;
+  name: string;
+}
+
 export default function LoginPage() {
   const { t } = useTranslation();
   const { login } = useAuth();
   const [loginError, setLoginError] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Com 2FA ativa, a senha (ou a conta externa) devolve um desafio e o login continua na segunda etapa
+  const [challengeToken, setChallengeToken] = useState<string | null>(() => searchParams.get('twoFactor'));
+  // Falha do login externo devolvida pelo callback (ex.: oauth_email_in_use)
+  const [oauthError] = useState<string | null>(() => searchParams.get('error'));
+
+  const { data: providers = [] } = useQuery<OAuthProvider[]>({
+    queryKey: ['auth', 'providers'],
+    queryFn: () => api('/api/auth/providers'),
+  });
+
+  // O desafio e o erro vindos do callback OAuth não devem ficar na URL
+  useEffect(() => {
+    if (searchParams.has('twoFactor') || searchParams.has('error')) {
+      searchParams.delete('twoFactor');
+      searchParams.delete('error');
+      setSearchParams(searchParams, { replace: true });
+    }
+  }, []);
 
   // Restaurar erro persistido (se houver) para evitar sumiço por remount
   useEffect(() => {
@@ -75,6 +100,10 @@ export default function LoginPage() {
       // Limpar erro persistente após sucesso
       setLoginError(null);
       sessionStorage.removeItem('loginError');
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        return;
+      }
       toast.success(t('auth.loginSuccess'));
       login(data.token, data.user); // Navega automaticamente para o dashboard
     },
@@ -103,6 +132,10 @@ export default function LoginPage() {
     mutation.mutate(data);
   };
 
+  if (challengeToken) {
+    return <TwoFactorStep challengeToken={challengeToken} onCancel={() => setChallengeToken(null)} />;
+  }
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
       <Card className="w-full max-w-md">
@@ -138,30 +171,32 @@ export default function LoginPage() {
               </Link>
             </div>
           </form>
-          {/* Acesso via OAuth Google */}
-          <div className="my-2">
-            <Separator className="my-4" />
-            <Button
-              type="button"
-              variant="outline"
-              className="w-full"
-              onClick={() => {
-                const envBase = (import.meta as any).env?.VITE_API_BASE_URL as string | undefined;
-                let cleanedBase = envBase ? envBase.replace(/\/+$/, '') : '';
-                if (!cleanedBase || /localhost(:\d+)?$/i.test(cleanedBase)) {
-                  if (typeof window !== 'undefined' && window.location?.origin) {
-                    cleanedBase = window.location.origin.replace(/\/+$/, '');
-                  } else {
-                    cleanedBase = '';
-                  }
-                }
-                const url = `${cleanedBase}/api/auth/google`;
-                window.location.href = url;
-              }}
-            >
-              {t('auth.continueWithGoogle', 'Continuar com Google')}
-            </Button>
-          </div>
+          {oauthError && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {t(`auth.oauthErrors.${oauthError}`, t('auth.oauthErrors.oauth', 'Não foi possível entrar com a conta externa.'))}
+              </AlertDescription>
+            </Alert>
+          )}
+          {/* Acesso via provedores OAuth configurados no servidor */}
+          {providers.length > 0 && (
+            <div className="my-2 space-y-2">
+              <Separator className="my-4" />
+              {providers.map((provider) => (
+                <Button
+                  key={provider.id}
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    window.location.href = resolveApiUrl(`/api/auth/oauth/${provider.id}`).apiUrl;
+                  }}
+                >
+                  {t('auth.continueWith', 'Continuar com {{provider}}', { provider: provider.name })}
+                </Button>
+              ))}
+            </div>
+          )}
         </CardContent>
         <CardFooter className="flex justify-center">
           <p className="text-sm text-muted-foreground">
@@ -175,3 +210,101 @@ export default function LoginPage() {
     </div>
   );
 }
+
+// Segunda etapa do login: código de 6 dígitos do app autenticador ou um código de recuperação
+function TwoFactorStep({ challengeToken, onCancel }: { challengeToken: string; onCancel: () => void }) {
+  const { t } = useTranslation();
+  const { login } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      return api('/api/auth/login/2fa', {
+        method: 'POST',
+        body: JSON.stringify({ challengeToken, code }),
+      });
+    },
+    onSuccess: (data) => {
+      toast.success(t('auth.loginSuccess'));
+      login(data.token, data.user);
+    },
+    onError: (error) => {
+      const fieldErrors = error instanceof ApiError ? error.data?.errors as Record<string, string[]> | undefined : undefined;
+      setCodeError(fieldErrors?.code?.[0] || t('twoFactor.login.invalidCode', 'Código inválido.'));
+      setCode('');
+    },
+  });
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setCodeError(null);
+    mutation.mutate();
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setCodeError(null);
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">{t('twoFactor.login.title', 'Verificação em duas etapas')}</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? t('twoFactor.login.recoveryDescription', 'Digite um dos seus códigos de recuperação.')
+              : t('twoFactor.login.description', 'Digite o código de 6 dígitos do seu app autenticador.')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={onSubmit} className="space-y-4">
+            {codeError && (
+              <Alert variant="destructive">
+                <AlertDescription>{codeError}</AlertDescription>
+              </Alert>
+            )}
+            {useRecoveryCode ? (
+              <div className="space-y-2">
+                <Label htmlFor="recoveryCode">{t('twoFactor.login.recoveryCode', 'Código de recuperação')}</Label>
+                <Input
+                  id="recoveryCode"
+                  autoComplete="off"
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus inputMode="numeric" autoComplete="one-time-code">
+                  <InputOTPGroup>
+                    {Array.from({ length: 6 }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+            <Button type="submit" className="w-full" disabled={mutation.isPending || !code.trim()}>
+              {mutation.isPending ? t('twoFactor.login.verifying', 'Verificando...') : t('twoFactor.login.submit', 'Verificar')}
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter className="flex justify-between">
+          <Button type="button" variant="link" className="px-0" onClick={toggleMode}>
+            {useRecoveryCode
+              ? t('twoFactor.login.useAuthenticator', 'Usar o app autenticador')
+              : t('twoFactor.login.useRecoveryCode', 'Usar um código de recuperação')}
+          </Button>
+          <Button type="button" variant="link" className="px-0" onClick={onCancel}>
+            {t('twoFactor.login.back', 'Voltar')}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -69,9 +69,18 @@ export default function Reports() {
   const { t } = useTranslation();
   const [period, setPeriod] = useState("current-month");
 
+  // Os períodos do relatório e o comparativo mensal cobrem no máximo o ano corrente
+  // e os últimos 6 meses, então não é preciso buscar o histórico inteiro
+  const now = new Date();
+  const reportStart = new Date(Math.min(
+    new Date(now.getFullYear(), 0, 1).getTime(),
+    new Date(now.getFullYear(), now.getMonth() - 5, 1).getTime(),
+  ));
+  const reportStartIso = reportStart.toISOString().split('T')[0];
+
   const { data: transactions, isLoading: transactionsLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
-    queryFn: () => api("/api/transactions")
+    queryKey: ["/api/transactions", "reports", reportStartIso],
+    queryFn: () => api(`/api/transactions?startDate=${reportStartIso}&sortOrder=desc`)
   });
 
   const { data: categories, isLoading: categoriesLoading } = useQuery<Category[]>({
@@ -0,0 +1,109 @@
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { api, ApiError } from '@/lib/api';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+type ResetForm = { password: string; confirmPassword: string };
+
+export default function ResetPasswordPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const schema = z.object({
+    password: z.string().min(8, { message: t('reset.passwordMin', 'A senha deve ter pelo menos 8 caracteres') }),
+    confirmPassword: z.string(),
+  }).refine((data) => data.password === data.confirmPassword, {
+    message: t('reset.passwordMismatch', 'As senhas não conferem'),
+    path: ['confirmPassword'],
+  });
+
+  const { register, handleSubmit, formState: { errors }, setError } = useForm<ResetForm>({
+    resolver: zodResolver(schema),
+    mode: 'onSubmit',
+    reValidateMode: 'onSubmit',
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: ResetForm) => {
+      return api('/api/auth/reset-password', {
+        method: 'POST',
+        body: JSON.stringify({ token, password: data.password }),
+      });
+    },
+    onSuccess: () => {
+      toast.success(t('reset.success', 'Senha redefinida. Entre com a nova senha.'));
+      navigate('/login', { replace: true });
+    },
+    onError: (error: unknown) => {
+      const fieldErrors = error instanceof ApiError ? error.data?.errors as Record<string, string[]> | undefined : undefined;
+      if (fieldErrors?.password?.[0]) {
+        setError('password', { type: 'server', message: fieldErrors.password[0] });
+        return;
+      }
+      if (fieldErrors?.token) {
+        toast.error(t('reset.invalidLink', 'Link de redefinição inválido ou expirado.'));
+        return;
+      }
+      toast.error(t('reset.error', 'Não foi possível redefinir a senha.'));
+    },
+  });
+
+  const onSubmit = (data: ResetForm) => mutation.mutate(data);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{t('reset.title', 'Redefinir senha')}</CardTitle>
+          <CardDescription>{t('reset.description', 'Escolha uma nova senha para a sua conta.')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <Alert variant="destructive">
+              <AlertDescription>{t('reset.invalidLink', 'Link de redefinição inválido ou expirado.')}</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">{t('reset.password', 'Nova senha')}</Label>
+                <Input id="password" type="password" autoComplete="new-password" {...register('password')} />
+                {errors.password && (
+                  <Alert variant="destructive"><AlertDescription>{errors.password.message}</AlertDescription></Alert>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">{t('reset.confirmPassword', 'Confirmar nova senha')}</Label>
+                <Input id="confirmPassword" type="password" autoComplete="new-password" {...register('confirmPassword')} />
+                {errors.confirmPassword && (
+                  <Alert variant="destructive"><AlertDescription>{errors.confirmPassword.message}</AlertDescription></Alert>
+                )}
+              </div>
+              <Button type="submit" className="w-full" disabled={mutation.isPending}>
+                {mutation.isPending ? t('reset.saving', 'Salvando...') : t('reset.submit', 'Redefinir senha')}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <p className="text-sm text-muted-foreground">
+            <Link to="/forgot-password" className="text-primary hover:underline">{t('reset.requestNewLink', 'Solicitar novo link')}</Link>
+            {" · "}
+            <Link to="/login" className="text-primary hover:underline">{t('auth.login', 'Login')}</Link>
+          </p>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
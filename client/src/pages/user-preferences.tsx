@@ -6,6 +6,13 @@ import { useToast } from "@/components/ui/use-toast";
 import { PageHeader } from "@/components/page-header";
 import { useTranslation } from "react-i18next";
 import { useUserPreferences } from "@/hooks/use-user-preferences";
+import { ActiveSessions } from "@/components/preferences/active-sessions";
+import { LinkedAccounts } from "@/components/preferences/linked-accounts";
+import { ApiTokens } from "@/components/preferences/api-tokens";
+import { AccountData } from "@/components/preferences/account-data";
+import { Households } from "@/components/preferences/households";
+import { TwoFactorSettings } from "@/components/preferences/two-factor-settings";
+import { SecurityActivity } from "@/components/preferences/security-activity";
 
 export default function UserPreferences() {
   // Inicializar i18n
@@ -158,6 +165,20 @@ export default function UserPreferences() {
           </form>
         </CardContent>
       </Card>
+
+      <TwoFactorSettings />
+
+      <LinkedAccounts />
+
+      <ActiveSessions />
+
+      <ApiTokens />
+
+      <SecurityActivity />
+
+      <Households />
+
+      <AccountData />
     </div>
   );
 }
@@ -1,6 +1,10 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
+import { storage } from './storage.js';
+import { getRequiredScope, parseScopes } from './scopes.js';
+import { resolveHousehold } from './households.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-default-secret-key';
 
@@ -18,22 +22,108 @@ export const comparePassword = (password: string, hash: string) => {
   return bcrypt.compare(password, hash);
 };
 
+// Function to generate an opaque random token (e.g. password reset links)
+export const generateToken = () => {
+  return crypto.randomBytes(32).toString('hex');
+};
+
+// Function to hash an opaque token before storing it; only the hash is persisted
+export const hashToken = (token: string) => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Personal API tokens carry a fixed prefix, so protect can tell them apart from a JWT (and secret scanners can spot them)
+export const API_TOKEN_PREFIX = 'fin_pat_';
+// Characters of the plain token kept for display (prefix plus the first random characters)
+export const API_TOKEN_DISPLAY_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export const generateApiToken = () => {
+  return `${API_TOKEN_PREFIX}${generateToken()}`;
+};
+
+// Access tokens are short-lived; the session is kept alive by the refresh token cookie
+export const ACCESS_TOKEN_TTL = '15m';
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+export const REFRESH_COOKIE_NAME = 'refresh_token';
+// Auth cookies are only sent to the auth endpoints (refresh/logout/OAuth callback), never to the rest of the API
+const AUTH_COOKIE_PATH = '/api/auth';
+
 // Function to create a JWT
-export const createJWT = (user: { id: number; username: string; email: string }) => {
+// sv (session version) must match users.session_version; resetting the password bumps it
+// sid identifies the login session, so revoking the session also invalidates its access tokens
+export const createJWT = (user: { id: number; username: string; email: string; sessionVersion?: number }, sessionId: number) => {
   const token = jwt.sign(
     {
       id: user.id,
       username: user.username,
-      email: user.email
+      email: user.email,
+      sv: user.sessionVersion ?? 0,
+      sid: sessionId
     },
     JWT_SECRET,
-    { expiresIn: '1d' } // Token expires in 1 day
+    { expiresIn: ACCESS_TOKEN_TTL }
   );
   return token;
 };
 
+// Two-step login: after the password check, a short-lived token identifies the user who still owes the second factor.
+// It carries no sid, so protect never accepts it as an access token.
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+export const createTwoFactorChallenge = (userId: number) => {
+  return jwt.sign({ id: userId, purpose: '2fa' }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+};
+
+// Function to read the user id from a two-factor challenge; null when expired or not a challenge
+export const verifyTwoFactorChallenge = (token: string): number | null => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { id?: number; purpose?: string };
+    return payload.purpose === '2fa' && payload.id ? payload.id : null;
+  } catch {
+    return null;
+  }
+};
+
+// Function to read a cookie from the request
+const readCookie = (req: Request, cookieName: string): string | undefined => {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === cookieName) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+};
+
+// Function to read the refresh token from the request cookies
+export const getRefreshCookie = (req: Request): string | undefined => {
+  return readCookie(req, REFRESH_COOKIE_NAME);
+};
+
+// Function to store the refresh token in an httpOnly cookie (unreachable from JavaScript)
+export const setRefreshCookie = (res: Response, token: string, expiresAt: Date) => {
+  res.cookie(REFRESH_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: AUTH_COOKIE_PATH,
+    expires: expiresAt,
+  });
+};
+
+export const clearRefreshCookie = (res: Response) => {
+  res.clearCookie(REFRESH_COOKIE_NAME, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: AUTH_COOKIE_PATH,
+  });
+};
+
 // Middleware to protect routes
-export const protect = (req: Request, res: Response, next: NextFunction) => {
+export const protect = async (req: Request, res: Response, next: NextFunction) => {
   const bearer = req.headers.authorization;
 
   if (!bearer || !bearer.startsWith('Bearer ')) {
@@ -46,12 +136,112 @@ export const protect = (req: Request, res: Response, next: NextFunction) => {
     return res.status(401).json({ message: 'Unauthorized: Invalid token format' });
   }
 
+  if (token.startsWith(API_TOKEN_PREFIX)) {
+    return authenticateApiToken(req, res, next, token);
+  }
+
+  let payload: { id: number; username: string; email: string; sv?: number; sid?: number };
   try {
-    const payload = jwt.verify(token, JWT_SECRET) as { id: number; username: string; email: string };
-    (req as any).user = payload; // Attach user payload to the request object
-    next();
+    payload = jwt.verify(token, JWT_SECRET) as typeof payload;
   } catch (e) {
     console.error('Token verification error:', e);
     return res.status(401).json({ message: 'Unauthorized: Invalid token' });
   }
+
+  if (!payload.sid) {
+    return res.status(401).json({ message: 'Unauthorized: Session expired' });
+  }
+
+  try {
+    // Tokens issued before the last password reset, or whose session was revoked, are no longer valid
+    const [user, session] = await Promise.all([
+      storage.getUser(payload.id),
+      storage.getSessionById(payload.sid),
+    ]);
+    if (!user || (payload.sv ?? 0) !== user.sessionVersion) {
+      return res.status(401).json({ message: 'Unauthorized: Session expired' });
+    }
+    if (!session || session.userId !== user.id || session.revokedAt) {
+      return res.status(401).json({ message: 'Unauthorized: Session expired' });
+    }
+  } catch (e) {
+    console.error('Session verification error:', e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+
+  (req as any).user = payload; // Attach user payload to the request object
+  return resolveHousehold(req, res, next);
+};
+
+// API tokens skip sessions entirely: the token must exist, be unexpired and hold the scope the route requires
+const authenticateApiToken = async (req: Request, res: Response, next: NextFunction, token: string) => {
+  const requiredScope = getRequiredScope(req.method, req.baseUrl + req.path);
+  try {
+    const apiToken = await storage.getApiTokenByHash(hashToken(token));
+    if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) {
+      return res.status(401).json({ message: 'Unauthorized: Invalid token' });
+    }
+    if (!requiredScope) {
+      return res.status(403).json({ message: 'Forbidden: API tokens cannot access this endpoint' });
+    }
+    const scopes = parseScopes(apiToken.scopes);
+    if (!scopes.includes(requiredScope)) {
+      return res.status(403).json({ message: `Forbidden: token lacks the ${requiredScope} scope` });
+    }
+    const user = await storage.getUser(apiToken.userId);
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized: Invalid token' });
+    }
+    await storage.touchApiToken(apiToken.id);
+    (req as any).user = { id: user.id, username: user.username, email: user.email, apiTokenId: apiToken.id, scopes };
+  } catch (e) {
+    console.error('API token verification error:', e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+  return resolveHousehold(req, res, next);
+};
+
+// OAuth: state, nonce and PKCE verifier travel in a signed, short-lived cookie between the redirect to the
+// provider and the callback. userId is present when an authenticated user is linking a new identity.
+const OAUTH_STATE_COOKIE_NAME = 'oauth_state';
+const OAUTH_STATE_TTL_MINUTES = 10;
+
+export interface OAuthStatePayload {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  userId?: number;
+}
+
+export const setOAuthStateCookie = (res: Response, payload: OAuthStatePayload) => {
+  const token = jwt.sign({ ...payload, purpose: 'oauth_state' }, JWT_SECRET, { expiresIn: `${OAUTH_STATE_TTL_MINUTES}m` });
+  res.cookie(OAUTH_STATE_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // lax: the cookie must be sent on the top-level redirect back from the provider
+    sameSite: 'lax',
+    path: AUTH_COOKIE_PATH,
+    maxAge: OAUTH_STATE_TTL_MINUTES * 60 * 1000,
+  });
+};
+
+export const readOAuthStateCookie = (req: Request): OAuthStatePayload | null => {
+  const token = readCookie(req, OAUTH_STATE_COOKIE_NAME);
+  if (!token) return null;
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as OAuthStatePayload & { purpose?: string };
+    return payload.purpose === 'oauth_state' ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearOAuthStateCookie = (res: Response) => {
+  res.clearCookie(OAUTH_STATE_COOKIE_NAME, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: AUTH_COOKIE_PATH,
+  });
 };
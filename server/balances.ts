@@ -0,0 +1,37 @@
+import type { Transaction } from '../shared/schema.js';
+
+// Movimentação dos saldos das contas pelas transações. O storage aplica estes efeitos ao criar,
+// alterar e excluir transações: numa alteração, desfaz os efeitos da versão anterior e aplica os da nova.
+
+// Status que indicam que a transação já movimentou dinheiro na conta
+export const SETTLED_STATUSES = ['paid', 'received'];
+
+export type BalanceEffect = { accountId: number | null; delta: number };
+
+// Efeitos (com sinal) de uma transação sobre os saldos das contas vinculadas.
+// Receitas recebidas somam e despesas pagas subtraem; transferências saem da origem e entram no destino.
+// Transações pendentes não movimentam saldo.
+export function getBalanceEffects(
+  transaction: Pick<Transaction, 'type' | 'status' | 'amount' | 'accountId' | 'destinationAccountId'>,
+): BalanceEffect[] {
+  if (!SETTLED_STATUSES.includes(transaction.status)) return [];
+  const amount = parseFloat(transaction.amount);
+  if (Number.isNaN(amount)) return [];
+  switch (transaction.type) {
+    case 'income':
+      return [{ accountId: transaction.accountId, delta: amount }];
+    case 'expense':
+      return [{ accountId: transaction.accountId, delta: -amount }];
+    case 'transfer':
+      return [
+        { accountId: transaction.accountId, delta: -amount },
+        { accountId: transaction.destinationAccountId, delta: amount },
+      ];
+    default:
+      return [];
+  }
+}
+
+export function reverseEffects(effects: BalanceEffect[]): BalanceEffect[] {
+  return effects.map(({ accountId, delta }) => ({ accountId, delta: -delta }));
+}
@@ -0,0 +1,51 @@
+import { type CategorizationRule } from "../shared/schema.js";
+
+// Dados da transação considerados pelas regras
+export interface CategorizableTransaction {
+  description: string;
+  amount: string | number;
+  type: string;
+}
+
+// Regra acompanhada do tipo (receita/despesa) da categoria de destino
+export type CategorizationRuleWithType = CategorizationRule & { categoryType: string };
+
+// Maiúsculas, sem acentos e sem pontuação, para comparar descrições de bancos diferentes
+export function normalizeDescription(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, ' ')
+    .trim();
+}
+
+export function matchesRule(rule: CategorizationRuleWithType, transaction: CategorizableTransaction): boolean {
+  if (rule.categoryType !== transaction.type) return false;
+  if (rule.descriptionContains) {
+    const pattern = normalizeDescription(rule.descriptionContains);
+    if (!pattern || !normalizeDescription(transaction.description).includes(pattern)) return false;
+  }
+  if (rule.amountEquals !== null) {
+    const amount = typeof transaction.amount === 'number' ? transaction.amount : parseFloat(transaction.amount);
+    if (Math.abs(amount - parseFloat(rule.amountEquals)) >= 0.005) return false;
+  }
+  return !!rule.descriptionContains || rule.amountEquals !== null;
+}
+
+// Primeira regra (já ordenada por prioridade) que casa com a transação
+export function findMatchingRule(
+  rules: CategorizationRuleWithType[],
+  transaction: CategorizableTransaction,
+): CategorizationRuleWithType | undefined {
+  return rules.find((rule) => matchesRule(rule, transaction));
+}
+
+// Chave que agrupa descrições do mesmo estabelecimento para sugerir regras:
+// as duas primeiras palavras sem números (ex.: "UBER *TRIP 1234" → "UBER TRIP")
+export function getSuggestionKey(description: string): string | null {
+  const words = normalizeDescription(description)
+    .split(' ')
+    .filter((word) => word.length > 2 && !/\d/.test(word));
+  return words.length > 0 ? words.slice(0, 2).join(' ') : null;
+}
@@ -0,0 +1,73 @@
+import type { RecurrenceRule } from '../shared/schema.js';
+
+// Aritmética de datas de faturas, parcelas, recorrências e orçamentos. As colunas DATE chegam como
+// meia-noite UTC (a conexão usa timezone 'Z'), então tudo aqui usa Date.UTC e os getters getUTC*:
+// o resultado não depende do fuso do servidor.
+
+// Data sem horário, limitando o dia ao último dia do mês (ex.: fechamento dia 31 em fevereiro)
+function clampedDate(year: number, month: number, day: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)));
+}
+
+export function startOfDay(value: Date | string): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addDays(value: Date | string, days: number): Date {
+  const date = startOfDay(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+}
+
+export function addMonths(value: Date | string, months: number): Date {
+  const date = new Date(value);
+  return clampedDate(date.getUTCFullYear(), date.getUTCMonth() + months, date.getUTCDate());
+}
+
+// Meses desde o ano zero, para comparar e percorrer meses
+export function monthIndex(value: Date | string): number {
+  const date = new Date(value);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+// Primeiro dia do mês (month de 1 a 12)
+export function startOfMonth(year: number, month: number): Date {
+  return new Date(Date.UTC(year, month - 1, 1));
+}
+
+// Data da ocorrência de índice `index` (0 = data inicial) de uma regra de recorrência
+export function getOccurrenceDate(
+  rule: Pick<RecurrenceRule, 'frequency' | 'interval' | 'dayOfMonth' | 'startDate'>,
+  index: number,
+): Date {
+  const start = startOfDay(rule.startDate);
+  if (index === 0) return start;
+  const step = rule.interval * index;
+  switch (rule.frequency) {
+    case 'weekly':
+      return addDays(start, 7 * step);
+    case 'yearly':
+      return clampedDate(start.getUTCFullYear() + step, start.getUTCMonth(), start.getUTCDate());
+    default:
+      return clampedDate(start.getUTCFullYear(), start.getUTCMonth() + step, rule.dayOfMonth ?? start.getUTCDate());
+  }
+}
+
+// Ciclo de fatura que contém a data informada. Compras feitas até o dia de fechamento (inclusive)
+// entram na fatura que fecha naquele mês; depois dele, na fatura do mês seguinte.
+// O vencimento cai no mesmo mês do fechamento quando dueDay > closingDay, senão no mês seguinte.
+export function getStatementCycle(closingDay: number, dueDay: number | null, value: Date | string) {
+  const date = startOfDay(value);
+  let closingDate = clampedDate(date.getUTCFullYear(), date.getUTCMonth(), closingDay);
+  if (date > closingDate) {
+    closingDate = clampedDate(date.getUTCFullYear(), date.getUTCMonth() + 1, closingDay);
+  }
+  const previousClosing = clampedDate(closingDate.getUTCFullYear(), closingDate.getUTCMonth() - 1, closingDay);
+  const periodStart = addDays(previousClosing, 1);
+  const effectiveDueDay = dueDay ?? closingDay;
+  const dueMonth = effectiveDueDay > closingDay ? closingDate.getUTCMonth() : closingDate.getUTCMonth() + 1;
+  const dueDate = clampedDate(closingDate.getUTCFullYear(), dueMonth, effectiveDueDay);
+  return { periodStart, closingDate, dueDate };
+}
@@ -74,14 +74,16 @@ async function testDatabaseConnection() {
   }
 }
 
-// Testa a conexão imediatamente
-testDatabaseConnection().catch(error => {
-  console.error('Erro crítico durante o teste de conexão inicial em db.ts (este erro será relançado):', error);
-  // Em vez de process.exit(1), vamos relançar o erro.
-  // Se isso acontecer durante a carga inicial do módulo e não for pego, Node.js terminará
-  // com um erro de promessa não tratada, o que é mais informativo.
-  throw error;
-});
+// Testa a conexão imediatamente (exceto nos testes automatizados, que não usam banco)
+if (process.env.NODE_ENV !== 'test') {
+  testDatabaseConnection().catch(error => {
+    console.error('Erro crítico durante o teste de conexão inicial em db.ts (este erro será relançado):', error);
+    // Em vez de process.exit(1), vamos relançar o erro.
+    // Se isso acontecer durante a carga inicial do módulo e não for pego, Node.js terminará
+    // com um erro de promessa não tratada, o que é mais informativo.
+    throw error;
+  });
+}
 
 // Configura o Drizzle ORM
 const db = drizzle(connection, { 
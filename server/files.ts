@@ -0,0 +1,74 @@
+import { mkdir, readFile, writeFile, unlink } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+
+// Armazenamento de arquivos plugável (anexos de transações). As chaves são geradas aqui e gravadas no
+// banco; quem chama nunca monta caminhos a partir de dados do usuário.
+export interface FileStore {
+  put(content: Buffer, extension: string): Promise<string>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[0-9a-f-]{36}\.[a-z0-9]+$/;
+
+// Grava cada arquivo em UPLOAD_DIR (padrão: ./tmp/uploads), em subpastas pelos dois primeiros caracteres da chave
+class LocalFileStore implements FileStore {
+  constructor(private directory: string) {}
+
+  private resolve(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Chave de arquivo inválida: ${key}`);
+    }
+    return path.join(this.directory, key.slice(0, 2), key);
+  }
+
+  async put(content: Buffer, extension: string): Promise<string> {
+    const key = `${randomUUID()}.${extension}`;
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, content);
+    return key;
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return null;
+      throw e;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.resolve(key));
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') throw e;
+    }
+  }
+}
+
+// FILE_STORE=local; outros destinos (S3 etc.) entram como novas implementações de FileStore
+export function createFileStore(): FileStore {
+  const kind = process.env.FILE_STORE || 'local';
+  switch (kind) {
+    case 'local':
+      return new LocalFileStore(process.env.UPLOAD_DIR || path.resolve('tmp', 'uploads'));
+    default:
+      throw new Error(`FILE_STORE inválido: ${kind}`);
+  }
+}
+
+export const fileStore = createFileStore();
+
+// Remoção de arquivos cujos registros já foram apagados: uma falha não desfaz a exclusão, só fica no log
+export async function removeStoredFiles(keys: string[]): Promise<void> {
+  for (const key of keys) {
+    try {
+      await fileStore.delete(key);
+    } catch (e) {
+      console.error(`[files] Falha ao remover ${key}:`, e);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import type { Goal, GoalContribution, GoalMilestone } from '../shared/schema.js';
+import { projectGoal, type GoalProjection } from './projection.js';
+
+// Ritmo de uma meta: o que foi guardado em cada mês comparado ao aporte mensal planejado.
+// O saldo inicial ("opening") não conta como aporte; retiradas descontam do mês em que ocorreram.
+
+export interface GoalPaceMonth {
+  month: string; // YYYY-MM
+  planned: number;
+  actual: number;
+}
+
+export interface GoalPace {
+  monthlyContribution: number;
+  months: GoalPaceMonth[];
+  plannedTotal: number;
+  actualTotal: number;
+  // Positivo quando os aportes estão acima do planejado
+  difference: number;
+  averageMonthly: number;
+}
+
+const monthKey = (value: Date | string) => new Date(value).toISOString().slice(0, 7);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Meses de firstMonth até lastMonth, inclusive, no formato YYYY-MM
+function monthRange(firstMonth: string, lastMonth: string): string[] {
+  const months: string[] = [];
+  let [year, month] = firstMonth.split('-').map(Number);
+  const [lastYear, lastMonthNumber] = lastMonth.split('-').map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonthNumber)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+// Os meses vão da criação da meta (ou do primeiro aporte, se anterior) até o mês de `now`
+export function getGoalPace(
+  goal: Pick<Goal, 'monthlyContribution' | 'createdAt'>,
+  contributions: Pick<GoalContribution, 'type' | 'amount' | 'date'>[],
+  now: Date = new Date(),
+): GoalPace {
+  const monthlyContribution = parseFloat(goal.monthlyContribution || '0');
+  const movements = contributions.filter((contribution) => contribution.type !== 'opening');
+
+  const firstMonth = [goal.createdAt, ...movements.map((contribution) => contribution.date)]
+    .map(monthKey)
+    .reduce((earliest, month) => (month < earliest ? month : earliest));
+  const lastMonth = monthKey(now);
+
+  const actualByMonth = new Map<string, number>();
+  for (const contribution of movements) {
+    const signed = contribution.type === 'withdrawal' ? -parseFloat(contribution.amount) : parseFloat(contribution.amount);
+    const month = monthKey(contribution.date);
+    actualByMonth.set(month, (actualByMonth.get(month) ?? 0) + signed);
+  }
+
+  const months = (firstMonth <= lastMonth ? monthRange(firstMonth, lastMonth) : []).map((month) => ({
+    month,
+    planned: monthlyContribution,
+    actual: round(actualByMonth.get(month) ?? 0),
+  }));
+  const plannedTotal = round(monthlyContribution * months.length);
+  const actualTotal = round(months.reduce((sum, month) => sum + month.actual, 0));
+
+  return {
+    monthlyContribution,
+    months,
+    plannedTotal,
+    actualTotal,
+    difference: round(actualTotal - plannedTotal),
+    averageMonthly: months.length > 0 ? round(actualTotal / months.length) : 0,
+  };
+}
+
+// Valor que o saldo precisa alcançar para o marco ser atingido
+export function milestoneAmount(milestone: Pick<GoalMilestone, 'kind' | 'value'>, targetAmount: number): number {
+  return milestone.kind === 'percent' ? round((targetAmount * parseFloat(milestone.value)) / 100) : parseFloat(milestone.value);
+}
+
+// Projeção da meta quando, no ritmo atual, ela não chega ao valor alvo até a data alvo; null se está em dia
+// (ou se a meta não tem data alvo, já foi alcançada ou está arquivada)
+export function getPaceShortfall(
+  goal: Pick<Goal, 'currentAmount' | 'targetAmount' | 'monthlyContribution' | 'annualInterestRate' | 'targetDate' | 'status' | 'archivedAt'>,
+  now: Date = new Date(),
+): GoalProjection | null {
+  if (!goal.targetDate || goal.status === 'achieved' || goal.archivedAt) return null;
+  const projection = projectGoal(goal, {}, now);
+  if (projection.remaining === 0) return null;
+  const behind = projection.monthsToTarget === null || projection.monthsToTarget > (projection.monthsUntilTargetDate ?? 0);
+  return behind ? projection : null;
+}
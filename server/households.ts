@@ -0,0 +1,70 @@
+import type { Request, Response, NextFunction } from 'express';
+import { storage } from './storage.js';
+import type { HouseholdRole } from '../shared/schema.js';
+
+// Casas compartilhadas: o cabeçalho X-Household-Id escolhe a casa (o id do dono) em que a requisição age.
+// Sem o cabeçalho, ou com o próprio id, o usuário age na própria casa como dono.
+
+export const HOUSEHOLD_HEADER = 'x-household-id';
+
+// Recursos com dados financeiros, identificados pelo primeiro segmento depois de /api (ver scopes.ts).
+// Autenticação, /api/me, preferências e a gestão das casas são sempre do próprio usuário.
+const HOUSEHOLD_RESOURCES = new Set([
+  'transactions',
+  'installment-groups',
+  'import',
+  'accounts',
+  'categories',
+  'categorization-rules',
+  'budgets',
+  'goals',
+  'investments',
+  'alerts',
+  'dashboard',
+  'reports',
+]);
+
+const READ_METHODS = new Set(['GET', 'HEAD']);
+
+export interface HouseholdContext {
+  ownerId: number;
+  role: HouseholdRole;
+}
+
+export function isHouseholdRoute(path: string): boolean {
+  const [, prefix, resource] = path.replace(/\/+$/, '').split('/');
+  return prefix === 'api' && HOUSEHOLD_RESOURCES.has(resource);
+}
+
+// Chamado pelo protect depois de identificar o usuário: define req.household ou recusa a requisição
+export const resolveHousehold = async (req: Request, res: Response, next: NextFunction) => {
+  const userId: number = (req as any).user.id;
+  const header = req.headers[HOUSEHOLD_HEADER];
+  const ownerId = header === undefined ? userId : Number(header);
+
+  if (ownerId === userId || !isHouseholdRoute(req.baseUrl + req.path)) {
+    const household: HouseholdContext = { ownerId: userId, role: 'owner' };
+    (req as any).household = household;
+    return next();
+  }
+  if (!Number.isInteger(ownerId) || ownerId <= 0) {
+    return res.status(400).json({ message: 'Invalid household' });
+  }
+
+  try {
+    const membership = await storage.getHouseholdMembership(ownerId, userId);
+    if (!membership) {
+      return res.status(403).json({ message: 'Forbidden: not a member of this household' });
+    }
+    const role = membership.role as HouseholdRole;
+    if (role === 'viewer' && !READ_METHODS.has(req.method.toUpperCase())) {
+      return res.status(403).json({ message: 'Forbidden: read-only access to this household' });
+    }
+    const household: HouseholdContext = { ownerId, role };
+    (req as any).household = household;
+  } catch (e) {
+    console.error('Household resolution error:', e);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+  next();
+};
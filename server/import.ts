@@ -0,0 +1,217 @@
+import { type CsvLayout, type Transaction } from "../shared/schema.js";
+import { normalizeDescription } from "./categorization.js";
+import { startOfDay } from "./dates.js";
+
+// Linha lida do extrato, ainda não gravada
+export interface ParsedImportRow {
+  date: Date;
+  description: string;
+  amount: string;
+  type: 'income' | 'expense';
+  externalId: string | null;
+}
+
+// Critérios de duplicidade: mesmo valor e tipo, até 3 dias de diferença e descrição parecida (ou mesmo FITID)
+export const IMPORT_DUPLICATE_WINDOW_DAYS = 3;
+const IMPORT_DUPLICATE_SIMILARITY = 0.5;
+
+// Arquivo em formato inesperado (ex.: OFX sem transações, CSV sem as colunas do layout)
+export class ImportParseError extends Error {}
+
+// Layouts de CSV exportados pelos bancos mais comuns
+export const CSV_LAYOUTS: Record<string, CsvLayout> = {
+  // Extrato da conta: Data,Valor,Identificador,Descrição
+  nubank: {
+    delimiter: ',',
+    hasHeader: true,
+    dateColumn: 'Data',
+    descriptionColumn: 'Descrição',
+    amountColumn: 'Valor',
+    idColumn: 'Identificador',
+    dateFormat: 'DD/MM/YYYY',
+    decimalSeparator: '.',
+    invertSign: false,
+  },
+  // Fatura do cartão: date,title,amount (compras positivas)
+  nubank_card: {
+    delimiter: ',',
+    hasHeader: true,
+    dateColumn: 'date',
+    descriptionColumn: 'title',
+    amountColumn: 'amount',
+    idColumn: null,
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    invertSign: true,
+  },
+  // Extrato sem cabeçalho: data;lançamento;valor
+  itau: {
+    delimiter: ';',
+    hasHeader: false,
+    dateColumn: '0',
+    descriptionColumn: '1',
+    amountColumn: '2',
+    idColumn: null,
+    dateFormat: 'DD/MM/YYYY',
+    decimalSeparator: ',',
+    invertSign: false,
+  },
+  // Extrato com linhas de identificação antes do cabeçalho: Data Lançamento;Histórico;Descrição;Valor;Saldo
+  inter: {
+    delimiter: ';',
+    hasHeader: true,
+    dateColumn: 'Data Lançamento',
+    descriptionColumn: 'Descrição',
+    amountColumn: 'Valor',
+    idColumn: null,
+    dateFormat: 'DD/MM/YYYY',
+    decimalSeparator: ',',
+    invertSign: false,
+  },
+};
+
+function toRow(date: Date, description: string, amount: number, externalId: string | null): ParsedImportRow | null {
+  if (Number.isNaN(date.getTime()) || Number.isNaN(amount) || amount === 0 || !description) return null;
+  return {
+    date,
+    description,
+    amount: Math.abs(amount).toFixed(2),
+    type: amount < 0 ? 'expense' : 'income',
+    externalId,
+  };
+}
+
+// OFX 1.x (SGML, sem tags de fechamento nos campos) e 2.x (XML)
+export function parseOfx(content: string): ParsedImportRow[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi);
+  if (!blocks) {
+    throw new ImportParseError('Nenhuma transação encontrada no arquivo OFX');
+  }
+
+  const field = (block: string, tag: string): string | null => {
+    const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+    return match ? match[1].trim() : null;
+  };
+
+  const rows: ParsedImportRow[] = [];
+  for (const block of blocks) {
+    // DTPOSTED: AAAAMMDD[HHMMSS[.XXX]][[-3:BRT]]
+    const posted = field(block, 'DTPOSTED') ?? '';
+    const date = new Date(Date.UTC(Number(posted.slice(0, 4)), Number(posted.slice(4, 6)) - 1, Number(posted.slice(6, 8))));
+    const amount = parseFloat((field(block, 'TRNAMT') ?? '').replace(',', '.'));
+    const description = field(block, 'MEMO') || field(block, 'NAME') || '';
+    const row = toRow(date, description, amount, field(block, 'FITID') || null);
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+// Separa uma linha de CSV respeitando campos entre aspas
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      if (quoted && line[index + 1] === '"') {
+        current += '"';
+        index++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseCsvDate(value: string, format: CsvLayout['dateFormat']): Date {
+  const parts = value.split(/[/-]/).map(Number);
+  if (parts.length < 3) return new Date(NaN);
+  const [year, month, day] = format === 'YYYY-MM-DD' ? parts : [parts[2], parts[1], parts[0]];
+  // Meia-noite UTC, como as colunas DATE lidas do banco
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function parseCsvAmount(value: string, decimalSeparator: CsvLayout['decimalSeparator']): number {
+  let normalized = value.replace(/R\$|\s/g, '');
+  normalized = decimalSeparator === ','
+    ? normalized.replace(/\./g, '').replace(',', '.')
+    : normalized.replace(/,/g, '');
+  return parseFloat(normalized);
+}
+
+export function parseCsv(content: string, layout: CsvLayout): ParsedImportRow[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim().length > 0);
+  const columns = [layout.dateColumn, layout.descriptionColumn, layout.amountColumn];
+
+  let headerIndex = -1;
+  let resolve: (column: string) => number = (column) => Number(column);
+  if (layout.hasHeader) {
+    // O cabeçalho pode vir depois de linhas de identificação da conta (ex.: Inter)
+    headerIndex = lines.findIndex((line) => {
+      const header = splitCsvLine(line, layout.delimiter);
+      return columns.every((column) => header.includes(column));
+    });
+    if (headerIndex === -1) {
+      throw new ImportParseError(`Cabeçalho do CSV não encontrado (esperado: ${columns.join(', ')})`);
+    }
+    const header = splitCsvLine(lines[headerIndex], layout.delimiter);
+    resolve = (column) => header.indexOf(column);
+  }
+
+  const dateIndex = resolve(layout.dateColumn);
+  const descriptionIndex = resolve(layout.descriptionColumn);
+  const amountIndex = resolve(layout.amountColumn);
+  const idIndex = layout.idColumn ? resolve(layout.idColumn) : -1;
+
+  const rows: ParsedImportRow[] = [];
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line, layout.delimiter);
+    const amount = parseCsvAmount(cells[amountIndex] ?? '', layout.decimalSeparator);
+    const row = toRow(
+      parseCsvDate(cells[dateIndex] ?? '', layout.dateFormat),
+      cells[descriptionIndex] ?? '',
+      layout.invertSign ? -amount : amount,
+      idIndex >= 0 ? cells[idIndex] || null : null,
+    );
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+function descriptionTokens(value: string): Set<string> {
+  return new Set(normalizeDescription(value).split(' ').filter((token) => token.length > 1));
+}
+
+// Coeficiente de Dice entre as palavras das descrições (0 = nada em comum, 1 = iguais)
+export function descriptionSimilarity(a: string, b: string): number {
+  const tokensA = descriptionTokens(a);
+  const tokensB = descriptionTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+// Transação já gravada na conta que corresponde à linha do extrato, se houver
+export function findImportDuplicate<T extends Pick<Transaction, 'id' | 'type' | 'amount' | 'date' | 'description' | 'externalId'>>(
+  row: ParsedImportRow,
+  existing: T[],
+): T | undefined {
+  const windowMs = IMPORT_DUPLICATE_WINDOW_DAYS * 24 * 3600 * 1000;
+  return existing.find((transaction) => {
+    if (row.externalId && transaction.externalId === row.externalId) return true;
+    if (transaction.type !== row.type || parseFloat(transaction.amount) !== parseFloat(row.amount)) return false;
+    const distance = Math.abs(startOfDay(transaction.date).getTime() - startOfDay(row.date).getTime());
+    return distance <= windowMs && descriptionSimilarity(transaction.description, row.description) >= IMPORT_DUPLICATE_SIMILARITY;
+  });
+}
@@ -20,6 +20,7 @@ process.on('unhandledRejection', (reason, promise) => {
 
 import express, { type Request, Response, NextFunction, Express } from "express";
 import { registerRoutes } from "./routes.js";
+import { storage, getRecurrenceHorizon } from "./storage.js";
 import { setupVite, serveStatic } from "./vite.js";
 import { connection } from "./db.js";
 import http from 'http';
@@ -27,6 +28,13 @@ import http from 'http';
 // Express configuration
 const app: Express = express();
 
+// Atrás de proxy reverso, req.ip deve vir do X-Forwarded-For (sessões, limitação de login e auditoria).
+// TRUST_PROXY aceita o número de proxies ou a lista de endereços confiáveis do Express.
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy);
+}
+
 // Configuration to ensure UTF-8 characters are handled correctly
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
@@ -37,7 +45,7 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   if (req.path.startsWith('/api')) {
     res.header('Access-Control-Allow-Origin', FRONTEND_ORIGIN);
     res.header('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Household-Id');
     res.header('Access-Control-Allow-Credentials', 'true');
     if (req.method === 'OPTIONS') {
       return res.sendStatus(204);
@@ -103,6 +111,30 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
   });
 });
 
+// Runs `run` right away and then every `envVar` minutes (default `defaultMinutes`). A tick is skipped
+// while the previous run is still going, and failures are logged without stopping the scheduler.
+function startScheduler(name: string, envVar: string, defaultMinutes: number, run: () => Promise<void>) {
+  const intervalMinutes = Number(process.env[envVar]) || defaultMinutes;
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      console.error(`❌ ${name} scheduler failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMinutes * 60 * 1000);
+  // Do not keep the process alive only because of the scheduler
+  timer.unref();
+  return timer;
+}
+
 // Function to initialize the server
 async function startServer() {
   try {
@@ -136,11 +168,30 @@ async function startServer() {
     server.listen(port, () => {
       console.log(`🚀 Server running at http://localhost:${port}`);
     });
+
+    // Recurrence: materializes upcoming occurrences as pending transactions up to RECURRENCE_HORIZON_DAYS ahead
+    const recurrenceTimer = startScheduler('Recurrence', 'RECURRENCE_INTERVAL_MINUTES', 60, async () => {
+      const created = await storage.materializeRecurringTransactions(getRecurrenceHorizon());
+      if (created > 0) console.log(`🔁 Recurrence scheduler created ${created} pending transaction(s)`);
+    });
+    // Account deletion: erases accounts whose deletion grace period has ended
+    const accountDeletionTimer = startScheduler('Account deletion', 'ACCOUNT_DELETION_INTERVAL_MINUTES', 60, async () => {
+      const erased = await storage.purgeScheduledAccountDeletions();
+      if (erased > 0) console.log(`🗑️ Account deletion scheduler erased ${erased} account(s)`);
+    });
+    // Goal pace: alerts (at most once a month per goal) about active goals that will miss their target date
+    const goalPaceTimer = startScheduler('Goal pace', 'GOAL_PACE_INTERVAL_MINUTES', 60, async () => {
+      const created = await storage.checkGoalPace();
+      if (created > 0) console.log(`🎯 Goal pace scheduler created ${created} alert(s)`);
+    });
     
     // Configure graceful shutdown
     const gracefulShutdown = (signal?: string) => {
       console.log(`
 🛑 Shutting down server... Signal received: ${signal || 'N/A (direct call or unknown error)'}`);
+      clearInterval(recurrenceTimer);
+      clearInterval(accountDeletionTimer);
+      clearInterval(goalPaceTimer);
       // Add a small delay to ensure logs are processed before exit
       setTimeout(() => {
       server.close((err) => {
@@ -0,0 +1,93 @@
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+
+// Séries de índices usadas na marcação dos investimentos pós-fixados, lidas de um CSV local
+// (INDEX_SERIES_PATH, padrão ./server/data/indices.csv, gerado por `npm run indices:update`)
+// com as colunas date, series e value:
+//   cdi:  taxa DI anualizada base 252, em % a.a., por dia útil (SGS 4389 do Banco Central)
+//   ipca: variação mensal em %, com a data em qualquer dia do mês (SGS 433)
+// Aceita vírgula ou ponto e vírgula como separador (com ponto e vírgula, vírgula decimal) e datas
+// YYYY-MM-DD ou DD/MM/YYYY, como na exportação do SGS.
+
+export interface IndexSeries {
+  cdi: Map<string, number>; // YYYY-MM-DD -> % a.a.
+  ipca: Map<string, number>; // YYYY-MM -> % no mês
+}
+
+// Linha do CSV que não pôde ser lida
+export class IndexSeriesError extends Error {}
+
+export const emptyIndexSeries = (): IndexSeries => ({ cdi: new Map(), ipca: new Map() });
+
+function parseSeriesDate(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) ?? /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = value.includes('/') ? [match[3], match[2], match[1]] : [match[1], match[2], match[3]];
+  return `${year}-${month}-${day}`;
+}
+
+export function parseIndexSeries(content: string): IndexSeries {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const delimiter = lines[0]?.includes(';') ? ';' : ',';
+  const header = (lines[0] ?? '').split(delimiter).map((column) => column.trim().toLowerCase());
+  const columns = { date: header.indexOf('date'), series: header.indexOf('series'), value: header.indexOf('value') };
+  if (columns.date === -1 || columns.series === -1 || columns.value === -1) {
+    throw new IndexSeriesError('Cabeçalho do CSV de índices deve ter as colunas date, series e value');
+  }
+
+  const series = emptyIndexSeries();
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return;
+    const cells = line.split(delimiter).map((cell) => cell.trim());
+    const date = parseSeriesDate(cells[columns.date] ?? '');
+    const raw = cells[columns.value] ?? '';
+    const value = parseFloat(delimiter === ';' ? raw.replace(',', '.') : raw);
+    const name = (cells[columns.series] ?? '').toLowerCase();
+    if (!date || Number.isNaN(value) || (name !== 'cdi' && name !== 'ipca')) {
+      throw new IndexSeriesError(`Linha ${index + 2} inválida no CSV de índices: ${line}`);
+    }
+    if (name === 'cdi') series.cdi.set(date, value);
+    else series.ipca.set(date.slice(0, 7), value);
+  });
+  return series;
+}
+
+export const indexSeriesPath = () => process.env.INDEX_SERIES_PATH || path.resolve('server', 'data', 'indices.csv');
+
+// CSV no formato lido por parseIndexSeries: vírgula, datas YYYY-MM-DD e o IPCA no primeiro dia do mês
+export function formatIndexSeries(series: IndexSeries): string {
+  const byDate = ([a]: [string, number], [b]: [string, number]) => a.localeCompare(b);
+  const lines = [
+    'date,series,value',
+    ...[...series.cdi].sort(byDate).map(([date, value]) => `${date},cdi,${value}`),
+    ...[...series.ipca].sort(byDate).map(([month, value]) => `${month}-01,ipca,${value}`),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+let cached: { path: string; mtimeMs: number; series: IndexSeries } | null = null;
+
+// Relê o arquivo só quando ele muda. Sem arquivo, ou com um arquivo inválido, as séries ficam vazias
+// e os investimentos pós-fixados voltam a valer a posição registrada.
+export async function loadIndexSeries(): Promise<IndexSeries> {
+  const filePath = indexSeriesPath();
+  let mtimeMs: number;
+  try {
+    ({ mtimeMs } = await stat(filePath));
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+    return emptyIndexSeries();
+  }
+  if (cached && cached.path === filePath && cached.mtimeMs === mtimeMs) return cached.series;
+
+  let series: IndexSeries;
+  try {
+    series = parseIndexSeries(await readFile(filePath, 'utf8'));
+  } catch (e) {
+    // O erro é registrado uma vez por versão do arquivo
+    console.error(`[indices] Erro ao ler ${filePath}:`, (e as Error).message);
+    series = emptyIndexSeries();
+  }
+  cached = { path: filePath, mtimeMs, series };
+  return series;
+}
@@ -0,0 +1,95 @@
+import type { Investment, InvestmentMovement } from '../shared/schema.js';
+
+// Posição e custo de um investimento a partir das movimentações, em ordem de data.
+// Aplicações somam à posição e ao custo; juros somam só à posição; taxas descontam da posição;
+// rendimentos pagos (cupons, dividendos) saem do investimento e não mudam a posição.
+// Resgates reduzem o custo na mesma proporção da posição (custo médio).
+
+export interface InvestmentStatementEntry extends InvestmentMovement {
+  // Posição e custo logo depois da movimentação
+  position: number;
+  costBasis: number;
+}
+
+export interface InvestmentSummary {
+  position: number;
+  costBasis: number;
+  applied: number;
+  redeemed: number;
+  interest: number;
+  income: number;
+  fees: number;
+  // Ganho total: posição + resgates + rendimentos pagos - aplicações
+  result: number;
+}
+
+export interface InvestmentStatement {
+  entries: InvestmentStatementEntry[];
+  summary: InvestmentSummary;
+  // Primeira movimentação que deixa a posição negativa (resgate ou taxa maior que a posição na data)
+  overdrawn: InvestmentStatementEntry | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const byDate = (a: Pick<InvestmentMovement, 'date' | 'id'>, b: Pick<InvestmentMovement, 'date' | 'id'>) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime() || a.id - b.id;
+
+export function buildInvestmentStatement(movements: InvestmentMovement[]): InvestmentStatement {
+  const totals = { applied: 0, redeemed: 0, interest: 0, income: 0, fees: 0 };
+  let position = 0;
+  let costBasis = 0;
+  let overdrawn: InvestmentStatementEntry | null = null;
+
+  const entries = [...movements].sort(byDate).map((movement) => {
+    const amount = parseFloat(movement.amount);
+    switch (movement.type) {
+      case 'application':
+        position += amount;
+        costBasis += amount;
+        totals.applied += amount;
+        break;
+      case 'redemption':
+        costBasis = position > 0 ? costBasis * Math.max(0, 1 - amount / position) : 0;
+        position -= amount;
+        totals.redeemed += amount;
+        break;
+      case 'interest':
+        position += amount;
+        totals.interest += amount;
+        break;
+      case 'income':
+        totals.income += amount;
+        break;
+      case 'fee':
+        position -= amount;
+        totals.fees += amount;
+        break;
+    }
+    const entry = { ...movement, position: round(position), costBasis: round(costBasis) };
+    if (!overdrawn && entry.position < 0) overdrawn = entry;
+    return entry;
+  });
+
+  return {
+    entries,
+    summary: {
+      position: round(position),
+      costBasis: round(costBasis),
+      applied: round(totals.applied),
+      redeemed: round(totals.redeemed),
+      interest: round(totals.interest),
+      income: round(totals.income),
+      fees: round(totals.fees),
+      result: round(position + totals.redeemed + totals.income - totals.applied),
+    },
+    overdrawn,
+  };
+}
+
+// Investimento anterior às movimentações: a posição guardada conta como uma única aplicação
+export function summarizeLegacyInvestment(investment: Pick<Investment, 'amount' | 'costBasis'>): InvestmentSummary {
+  const position = round(parseFloat(investment.amount));
+  const costBasis = investment.costBasis === null ? position : round(parseFloat(investment.costBasis));
+  return { position, costBasis, applied: costBasis, redeemed: 0, interest: 0, income: 0, fees: 0, result: round(position - costBasis) };
+}
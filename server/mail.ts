@@ -0,0 +1,75 @@
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Transporte de e-mail plugável: SMTP em produção, arquivo ou console em desenvolvimento
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Financeiro <no-reply@localhost>';
+
+class SmtpMailTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD || '' }
+      : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Grava cada mensagem como .eml em MAIL_DIR (padrão: ./tmp/mail) para inspeção local
+class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+    const content = [
+      `From: ${MAIL_FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+    await writeFile(path.join(this.directory, fileName), content, 'utf8');
+    console.log(`[mail] Mensagem para ${message.to} gravada em ${path.join(this.directory, fileName)}`);
+  }
+}
+
+class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] Para: ${message.to}\n[mail] Assunto: ${message.subject}\n${message.text}`);
+  }
+}
+
+// MAIL_TRANSPORT=smtp|file|console; sem valor, usa SMTP quando SMTP_HOST estiver definido
+export function createMailTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (kind) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_DIR || path.resolve('tmp', 'mail'));
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`MAIL_TRANSPORT inválido: ${kind}`);
+  }
+}
+
+export const mailer = createMailTransport();
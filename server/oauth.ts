@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// Login por provedores OpenID Connect (Google e qualquer outro que publique /.well-known/openid-configuration).
+// Fluxo authorization code com PKCE; a conta externa é identificada por (provider, sub), nunca pelo e-mail.
+
+export class OAuthError extends Error {}
+
+export interface OidcProviderConfig {
+  // Identificador usado nas rotas e em user_identities.provider (ex.: "google")
+  id: string;
+  // Nome exibido nos botões
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string[];
+  // Parâmetros extras da URL de autorização (ex.: prompt=select_account)
+  authorizationParams?: Record<string, string>;
+}
+
+// Dados da conta externa após a troca do código
+export interface OAuthProfile {
+  provider: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+// Valores gerados no início do login e conferidos no callback
+export interface OAuthRequestSecrets {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+const randomUrlSafe = () => crypto.randomBytes(32).toString('base64url');
+
+export function generateOAuthRequestSecrets(): OAuthRequestSecrets {
+  return { state: randomUrlSafe(), nonce: randomUrlSafe(), codeVerifier: randomUrlSafe() };
+}
+
+export class OidcProvider {
+  private discovery: Promise<OidcDiscovery> | null = null;
+
+  constructor(readonly config: OidcProviderConfig) {}
+
+  get id() {
+    return this.config.id;
+  }
+
+  get name() {
+    return this.config.name;
+  }
+
+  // O documento de descoberta é buscado uma vez; em caso de falha, a próxima tentativa busca de novo
+  private discover(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      const url = `${this.config.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+      this.discovery = fetch(url)
+        .then(async (response) => {
+          if (!response.ok) throw new OAuthError(`Falha na descoberta OIDC de ${this.id}: HTTP ${response.status}`);
+          return response.json() as Promise<OidcDiscovery>;
+        })
+        .catch((error) => {
+          this.discovery = null;
+          throw error;
+        });
+    }
+    return this.discovery;
+  }
+
+  async buildAuthorizationUrl(secrets: OAuthRequestSecrets): Promise<string> {
+    const { authorization_endpoint } = await this.discover();
+    const url = new URL(authorization_endpoint);
+    const params: Record<string, string> = {
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scopes.join(' '),
+      state: secrets.state,
+      nonce: secrets.nonce,
+      code_challenge: crypto.createHash('sha256').update(secrets.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+      ...this.config.authorizationParams,
+    };
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  // Troca o código pelo ID token. O token vem direto do token endpoint via TLS, então basta validar
+  // emissor, audiência, validade e nonce (OIDC Core 3.1.3.7), sem conferir a assinatura.
+  async fetchProfile(code: string, secrets: Pick<OAuthRequestSecrets, 'nonce' | 'codeVerifier'>): Promise<OAuthProfile> {
+    const discovery = await this.discover();
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        code_verifier: secrets.codeVerifier,
+      }),
+    });
+    if (!response.ok) {
+      throw new OAuthError(`Falha ao trocar o código em ${this.id}: HTTP ${response.status}`);
+    }
+
+    const { id_token: idToken } = await response.json() as { id_token?: string };
+    const claims = idToken ? jwt.decode(idToken) : null;
+    if (!claims || typeof claims === 'string') {
+      throw new OAuthError(`Resposta de ${this.id} sem ID token`);
+    }
+
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== discovery.issuer) throw new OAuthError(`Emissor inesperado no ID token de ${this.id}`);
+    if (!audience.includes(this.config.clientId)) throw new OAuthError(`Audiência inesperada no ID token de ${this.id}`);
+    if (!claims.exp || claims.exp * 1000 < Date.now()) throw new OAuthError(`ID token de ${this.id} expirado`);
+    if (claims.nonce !== secrets.nonce) throw new OAuthError(`Nonce inválido no ID token de ${this.id}`);
+    if (!claims.sub) throw new OAuthError(`ID token de ${this.id} sem subject`);
+
+    return {
+      provider: this.id,
+      subject: String(claims.sub),
+      email: typeof claims.email === 'string' ? claims.email : null,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : null,
+    };
+  }
+}
+
+// Provedores configurados por variáveis de ambiente:
+//  - Google: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET e GOOGLE_CALLBACK_URL (como antes)
+//  - Outros: OIDC_PROVIDERS=id1,id2 e, para cada um, OIDC_<ID>_ISSUER, OIDC_<ID>_CLIENT_ID,
+//    OIDC_<ID>_CLIENT_SECRET, OIDC_<ID>_NAME e OIDC_<ID>_CALLBACK_URL (opcionais os dois últimos)
+export function loadOAuthProviders(env: NodeJS.ProcessEnv = process.env): Map<string, OidcProvider> {
+  const providers = new Map<string, OidcProvider>();
+  const callbackBase = (env.OAUTH_CALLBACK_BASE_URL || 'http://localhost:3001').replace(/\/+$/, '');
+
+  if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+    providers.set('google', new OidcProvider({
+      id: 'google',
+      name: 'Google',
+      issuer: 'https://accounts.google.com',
+      clientId: env.GOOGLE_CLIENT_ID,
+      clientSecret: env.GOOGLE_CLIENT_SECRET,
+      redirectUri: env.GOOGLE_CALLBACK_URL || `${callbackBase}/api/auth/google/callback`,
+      scopes: ['openid', 'email', 'profile'],
+      authorizationParams: { prompt: 'select_account' },
+    }));
+  } else {
+    console.warn('[OAuth] GOOGLE_CLIENT_ID/GOOGLE_CLIENT_SECRET não configurados. Fluxo Google desativado.');
+  }
+
+  const ids = (env.OIDC_PROVIDERS || '').split(',').map((id) => id.trim().toLowerCase()).filter(Boolean);
+  for (const id of ids) {
+    const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const issuer = env[`${prefix}ISSUER`];
+    const clientId = env[`${prefix}CLIENT_ID`];
+    const clientSecret = env[`${prefix}CLIENT_SECRET`];
+    if (!issuer || !clientId || !clientSecret) {
+      console.warn(`[OAuth] Provedor ${id} ignorado: defina ${prefix}ISSUER, ${prefix}CLIENT_ID e ${prefix}CLIENT_SECRET.`);
+      continue;
+    }
+    providers.set(id, new OidcProvider({
+      id,
+      name: env[`${prefix}NAME`] || id,
+      issuer,
+      clientId,
+      clientSecret,
+      redirectUri: env[`${prefix}CALLBACK_URL`] || `${callbackBase}/api/auth/oauth/${id}/callback`,
+      scopes: ['openid', 'email', 'profile'],
+    }));
+  }
+
+  return providers;
+}
+
+export const oauthProviders = loadOAuthProviders();
@@ -0,0 +1,188 @@
+import type { Goal, ContributionTiming } from '../shared/schema.js';
+
+// Projeções de acúmulo usadas pelas metas, pelo simulador e pela simulação de investimentos.
+// As taxas chegam em % ao ano (efetiva) e são convertidas para a taxa mensal equivalente;
+// o aporte entra no início ou no fim de cada mês e os juros compõem mensalmente.
+
+// Limite de 100 anos para as buscas de prazo
+export const MAX_PROJECTION_MONTHS = 1200;
+
+export interface ProjectionInput {
+  initialAmount: number;
+  monthlyContribution: number;
+  annualRate: number; // % a.a.
+  annualInflation?: number; // % a.a.
+  months: number;
+  contributionTiming?: ContributionTiming;
+}
+
+export interface ProjectionMonth {
+  month: number;
+  contributed: number;
+  nominal: number;
+  // Valor nominal trazido a valores de hoje pela inflação informada
+  real: number;
+}
+
+export interface ProjectionYear {
+  year: number;
+  contributed: number;
+  nominal: number;
+  real: number;
+  interest: number;
+}
+
+export interface Projection {
+  months: ProjectionMonth[];
+  years: ProjectionYear[];
+  totalContributed: number;
+  finalNominal: number;
+  finalReal: number;
+  nominalReturn: number;
+  realReturn: number;
+  realAnnualRate: number; // % a.a.
+}
+
+export interface GoalProjection {
+  remaining: number;
+  monthsToTarget: number | null;
+  // Último dia do mês (aporte no fim) ou primeiro dia (aporte no início) em que a meta é alcançada
+  estimatedDate: string | null;
+  monthsUntilTargetDate: number | null;
+  // Aporte mensal necessário para chegar ao valor alvo na data alvo
+  requiredMonthlyContribution: number | null;
+  projection: Projection;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function monthlyRate(annualPercent: number): number {
+  return Math.pow(1 + annualPercent / 100, 1 / 12) - 1;
+}
+
+// Um mês: aporte no início rende juros no próprio mês, aporte no fim não
+function step(balance: number, contribution: number, rate: number, timing: ContributionTiming): number {
+  return timing === 'start' ? (balance + contribution) * (1 + rate) : balance * (1 + rate) + contribution;
+}
+
+export function project(input: ProjectionInput): Projection {
+  const timing = input.contributionTiming ?? 'end';
+  const rate = monthlyRate(input.annualRate);
+  const inflation = monthlyRate(input.annualInflation ?? 0);
+
+  const months: ProjectionMonth[] = [];
+  let balance = input.initialAmount;
+  let contributed = input.initialAmount;
+  for (let month = 1; month <= input.months; month++) {
+    balance = step(balance, input.monthlyContribution, rate, timing);
+    contributed += input.monthlyContribution;
+    months.push({
+      month,
+      contributed: round(contributed),
+      nominal: round(balance),
+      real: round(balance / Math.pow(1 + inflation, month)),
+    });
+  }
+
+  const years: ProjectionYear[] = months
+    .filter((point) => point.month % 12 === 0 || point.month === input.months)
+    .map((point) => ({
+      year: Math.ceil(point.month / 12),
+      contributed: point.contributed,
+      nominal: point.nominal,
+      real: point.real,
+      interest: round(point.nominal - point.contributed),
+    }));
+
+  const last = months[months.length - 1];
+  const finalNominal = last?.nominal ?? round(input.initialAmount);
+  const finalReal = last?.real ?? round(input.initialAmount);
+  const totalContributed = last?.contributed ?? round(input.initialAmount);
+
+  return {
+    months,
+    years,
+    totalContributed,
+    finalNominal,
+    finalReal,
+    nominalReturn: round(finalNominal - totalContributed),
+    realReturn: round(finalReal - totalContributed),
+    realAnnualRate: round(((1 + input.annualRate / 100) / (1 + (input.annualInflation ?? 0) / 100) - 1) * 10000) / 100,
+  };
+}
+
+// Meses até o saldo alcançar o alvo; null quando não alcança dentro de MAX_PROJECTION_MONTHS
+export function monthsToTarget(input: Omit<ProjectionInput, 'months' | 'annualInflation'> & { targetAmount: number }): number | null {
+  const timing = input.contributionTiming ?? 'end';
+  const rate = monthlyRate(input.annualRate);
+  let balance = input.initialAmount;
+  for (let month = 0; month <= MAX_PROJECTION_MONTHS; month++) {
+    if (balance >= input.targetAmount - 0.005) return month;
+    const next = step(balance, input.monthlyContribution, rate, timing);
+    if (next <= balance) return null;
+    balance = next;
+  }
+  return null;
+}
+
+// Aporte mensal que leva initialAmount a targetAmount em `months` meses (0 quando os juros já bastam)
+export function requiredMonthlyContribution(
+  input: Omit<ProjectionInput, 'months' | 'monthlyContribution' | 'annualInflation'> & { targetAmount: number; months: number },
+): number | null {
+  if (input.months <= 0) return null;
+  const rate = monthlyRate(input.annualRate);
+  const growth = Math.pow(1 + rate, input.months);
+  const annuity = rate === 0 ? input.months : ((growth - 1) / rate) * (input.contributionTiming === 'start' ? 1 + rate : 1);
+  const missing = input.targetAmount - input.initialAmount * growth;
+  if (missing <= 0) return 0;
+  // Arredonda para cima para não ficar centavos abaixo do alvo
+  return Math.ceil((missing / annuity) * 100) / 100;
+}
+
+// Meses inteiros entre o mês de `from` e o mês de `to`
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+}
+
+export function projectGoal(
+  goal: Pick<Goal, 'currentAmount' | 'targetAmount' | 'monthlyContribution' | 'annualInterestRate' | 'targetDate'>,
+  options: { contributionTiming?: ContributionTiming; annualInflation?: number } = {},
+  now: Date = new Date(),
+): GoalProjection {
+  const timing = options.contributionTiming ?? 'end';
+  const initialAmount = parseFloat(goal.currentAmount || '0');
+  const targetAmount = parseFloat(goal.targetAmount || '0');
+  const monthlyContribution = parseFloat(goal.monthlyContribution || '0');
+  const annualRate = parseFloat(goal.annualInterestRate || '0');
+
+  const months = monthsToTarget({ initialAmount, monthlyContribution, annualRate, contributionTiming: timing, targetAmount });
+  let estimatedDate: string | null = null;
+  if (months !== null) {
+    const eta = timing === 'start'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + months, 1))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + months + 1, 0));
+    estimatedDate = eta.toISOString().split('T')[0];
+  }
+
+  const targetDate = goal.targetDate ? new Date(goal.targetDate) : null;
+  const monthsUntilTargetDate = targetDate ? Math.max(0, monthsBetween(now, targetDate)) : null;
+  const required = monthsUntilTargetDate !== null
+    ? requiredMonthlyContribution({ initialAmount, annualRate, contributionTiming: timing, targetAmount, months: monthsUntilTargetDate })
+    : null;
+
+  return {
+    remaining: round(Math.max(0, targetAmount - initialAmount)),
+    monthsToTarget: months,
+    estimatedDate,
+    monthsUntilTargetDate,
+    requiredMonthlyContribution: required,
+    projection: project({
+      initialAmount,
+      monthlyContribution,
+      annualRate,
+      annualInflation: options.annualInflation,
+      contributionTiming: timing,
+      months: Math.min(months ?? monthsUntilTargetDate ?? 12, MAX_PROJECTION_MONTHS),
+    }),
+  };
+}
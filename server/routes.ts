@@ -1,98 +1,32 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage.js";
-import { insertUserSchema, insertTransactionSchema, updateTransactionSchema, insertGoalSchema, insertInvestmentSchema, updateInvestmentSchema, insertCategorySchema, insertAlertSchema, insertUserPreferencesSchema, updateUserPreferencesSchema, insertAccountSchema } from "../shared/schema.js";
+import { storage, BundleImportError, GoalContributionError, InvestmentMovementError } from "./storage.js";
+import { CSV_LAYOUTS, ImportParseError, parseCsv, parseOfx } from "./import.js";
+import { insertUserSchema, resetPasswordSchema, setPasswordSchema, confirmPasswordSchema, twoFactorCodeSchema, twoFactorLoginSchema, insertTransactionSchema, updateTransactionSchema, transactionListQuerySchema, DEFAULT_TRANSACTION_PAGE_SIZE, insertGoalSchema, updateGoalSchema, insertGoalContributionSchema, goalProjectionQuerySchema, goalListQuerySchema, goalMilestonesSchema, simulationInputSchema, insertInvestmentSchema, updateInvestmentSchema, insertInvestmentMovementSchema, insertCategorySchema, updateCategorySchema, insertAlertSchema, insertUserPreferencesSchema, updateUserPreferencesSchema, insertAccountSchema, payCardStatementSchema, insertInstallmentPurchaseSchema, updateInstallmentGroupSchema, recurrenceInputSchema, recurrenceScopeSchema, insertBudgetSchema, updateBudgetSchema, importPreviewSchema, confirmImportSchema, insertCategorizationRuleSchema, updateCategorizationRuleSchema, applyCategorizationRulesSchema, type AuthEventType, type User, createApiTokenSchema, type ApiToken, importUserDataSchema, inviteHouseholdMemberSchema, updateHouseholdMemberSchema, acceptHouseholdInvitationSchema, HOUSEHOLD_INVITATION_TTL_DAYS, type HouseholdInvitation, uploadAttachmentSchema, ATTACHMENT_MAX_PER_TRANSACTION, type AttachmentMimeType, type TransactionAttachment, type Investment } from "../shared/schema.js";
 import { z } from "zod";
-import { hashPassword, comparePassword, createJWT, protect } from "./auth.js";
-import passport from "passport";
-import { Strategy as GoogleStrategy, Profile as GoogleProfile } from "passport-google-oauth20";
+import { hashPassword, comparePassword, createJWT, generateToken, hashToken, protect, REFRESH_TOKEN_TTL_DAYS, getRefreshCookie, setRefreshCookie, clearRefreshCookie, createTwoFactorChallenge, verifyTwoFactorChallenge, setOAuthStateCookie, readOAuthStateCookie, clearOAuthStateCookie, generateApiToken, API_TOKEN_DISPLAY_LENGTH } from "./auth.js";
+import { parseScopes } from "./scopes.js";
+import { generateTotpSecret, verifyTotp, buildOtpauthUri, generateRecoveryCodes, normalizeRecoveryCode } from "./totp.js";
+import QRCode from "qrcode";
+import { ACCOUNT_THROTTLE, IP_THROTTLE, REGISTER_LIMIT_PER_HOUR, THROTTLE_WINDOW_MINUTES, getRetryAfterSeconds, isLockedOut } from "./throttle.js";
+import { mailer } from "./mail.js";
+import { fileStore } from "./files.js";
+import { getGoalPace, milestoneAmount } from "./goals.js";
+import { project, projectGoal } from "./projection.js";
+import { buildInvestmentStatement, summarizeLegacyInvestment } from "./investments.js";
+import { loadIndexSeries } from "./indices.js";
+import { valueInvestment, type InvestmentValuation } from "./valuation.js";
+import { oauthProviders, generateOAuthRequestSecrets, type OAuthProfile } from "./oauth.js";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // ================================
-  // Passport Google OAuth
-  // ================================
-  app.use(passport.initialize());
-  const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || "";
-  const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET || "";
-  const GOOGLE_CALLBACK_URL = process.env.GOOGLE_CALLBACK_URL || "http://localhost:3001/api/auth/google/callback";
   const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || 'http://localhost:5174';
   const USE_HASH_ROUTER = (process.env.USE_HASH_ROUTER || 'false').toLowerCase() === 'true';
 
-  if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
-    console.warn('[OAuth] GOOGLE_CLIENT_ID/GOOGLE_CLIENT_SECRET não configurados. Fluxo Google desativado.');
-  } else {
-    passport.use(new GoogleStrategy({
-      clientID: GOOGLE_CLIENT_ID,
-      clientSecret: GOOGLE_CLIENT_SECRET,
-      callbackURL: GOOGLE_CALLBACK_URL
-    }, async (_accessToken, _refreshToken, profile: GoogleProfile, done) => {
-      try {
-        const email = profile.emails && profile.emails[0]?.value;
-        const name = profile.displayName || 'Google User';
-        const googleId = profile.id;
-        if (!email) {
-          return done(new Error('Email não disponível pelo Google'), undefined);
-        }
-
-        let user = await storage.getUserByEmail(email);
-        if (!user) {
-          const usernameBase = email.split('@')[0]?.replace(/[^a-zA-Z0-9_\-\.]/g, '') || `google_${googleId}`;
-          const username = usernameBase.length > 2 ? usernameBase : `google_${googleId}`;
-          const randomPassword = `google_${googleId}_${Date.now()}`;
-          const hashedPassword = await hashPassword(randomPassword);
-          // Criar usuário + preferências + categorias padrão similar ao cadastro
-          user = await storage.runInTransaction(async (tx) => {
-            const newUser = await storage.createUser({
-              email,
-              name,
-              username,
-              password: hashedPassword,
-            }, tx);
-            await storage.createUserPreferences({ userId: newUser.id }, tx);
-            const defaultCategories = await storage.getDefaultCategories();
-            if (defaultCategories.length > 0) {
-              const userCategories = defaultCategories.map(cat => ({
-                ...cat,
-                userId: newUser.id,
-                id: undefined as any,
-                createdAt: new Date(),
-                updatedAt: new Date(),
-              }));
-              await storage.createManyCategories(userCategories, tx);
-            }
-            return newUser;
-          });
-        }
-        return done(null, user);
-      } catch (err) {
-        return done(err as any, undefined);
-      }
-    }));
-  
-    // Rota para iniciar OAuth
-    app.get('/api/auth/google', passport.authenticate('google', {
-      scope: ['profile', 'email'],
-      prompt: 'select_account'
-    }));
-
-    // Callback do Google -> emitir JWT e redirecionar para o frontend (com logs de erro)
-    app.get('/api/auth/google/callback', (req, res, next) => {
-      passport.authenticate('google', { session: false }, (err, user, info) => {
-        if (err || !user) {
-          console.error('[OAuth] Google callback error:', err || info);
-          if (err && (err as any).data) {
-            console.error('[OAuth] Error data:', (err as any).data);
-          }
-          const failureUrl = `${FRONTEND_ORIGIN}/#/login?error=oauth`;
-          return res.redirect(302, failureUrl);
-        }
-        const token = createJWT({ id: (user as any).id, username: (user as any).username, email: (user as any).email });
-        const callbackPath = USE_HASH_ROUTER ? '/#/oauth/callback' : '/oauth/callback';
-        const redirectUrl = `${FRONTEND_ORIGIN}${callbackPath}?token=${encodeURIComponent(token)}`;
-        return res.redirect(302, redirectUrl);
-      })(req, res, next);
-    });
-  }
+  // URL de uma página do frontend (redirecionamentos do OAuth), respeitando o modo hash router
+  const frontendUrl = (path: string, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams(params).toString();
+    return `${FRONTEND_ORIGIN}${USE_HASH_ROUTER ? '/#' : ''}${path}${query ? `?${query}` : ''}`;
+  };
 
   function formatRelativeDueDate(dueDateInput: string | Date): string {
     // Ensure dueDateInput is parsed as UTC midnight for accurate day-level comparison
@@ -126,21 +60,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return `Overdue by ${Math.abs(diffDays)} days`;
     }
   }
-  const DEMO_USER_ID = 1; // For demo purposes, using fixed user ID
-  
-  // Helper function to get user ID from JWT token or use DEMO_USER_ID as fallback
+  // ID do dono dos dados em que a requisição age: o usuário autenticado pelo middleware protect ou, nas rotas
+  // financeiras com o cabeçalho X-Household-Id, o dono da casa compartilhada (ver households.ts).
+  // Não há mais fallback para um usuário demo: uma rota que chegue aqui sem token é um erro de configuração
+  // e não pode agir em nome de ninguém.
   const getUserIdFromRequest = (req: any): number => {
-    // If user is authenticated (protect middleware was used), use the user ID from token
     if (req.user && req.user.id) {
-      console.log(`[getUserIdFromRequest] Using authenticated user ID: ${req.user.id}`);
-      return req.user.id;
+      const userId: number = req.household?.ownerId ?? req.user.id;
+      console.log(`[getUserIdFromRequest] Using authenticated user ID: ${userId}`);
+      return userId;
     }
-    
-    // If there is no authenticated user, use the demo user ID
-    console.log(`[getUserIdFromRequest] No authenticated user, using demo ID: ${DEMO_USER_ID}`);
-    return DEMO_USER_ID;
+    throw new Error('getUserIdFromRequest chamado em rota sem o middleware protect');
+  }
+
+  // Usuário autenticado, mesmo quando age na casa de outro: registrado como autor das transações
+  const getMemberIdFromRequest = (req: any): number => {
+    if (req.user && req.user.id) return req.user.id;
+    throw new Error('getMemberIdFromRequest chamado em rota sem o middleware protect');
   }
 
+  // A chave do arquivo no armazenamento não sai do servidor
+  const serializeAttachment = ({ storageKey: _storageKey, ...attachment }: TransactionAttachment) => attachment;
+
+  const ATTACHMENT_EXTENSIONS: Record<AttachmentMimeType, string> = {
+    "image/jpeg": "jpg",
+    "image/png": "png",
+    "image/webp": "webp",
+    "application/pdf": "pdf",
+  };
+
+  // Confere os primeiros bytes do arquivo com o tipo declarado pelo navegador
+  const matchesFileSignature = (content: Buffer, mimeType: AttachmentMimeType): boolean => {
+    switch (mimeType) {
+      case "image/jpeg":
+        return content.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]));
+      case "image/png":
+        return content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+      case "image/webp":
+        return content.subarray(0, 4).toString("latin1") === "RIFF" && content.subarray(8, 12).toString("latin1") === "WEBP";
+      case "application/pdf":
+        return content.subarray(0, 5).toString("latin1") === "%PDF-";
+    }
+  };
+
+  // Filtro ?memberId= dos painéis: só as transações lançadas por aquele membro (as sem autor são do dono)
+  const filterByMember = <T extends { createdBy: number | null }>(req: Request, items: T[]): T[] => {
+    const memberId = Number(req.query.memberId);
+    if (!Number.isInteger(memberId) || memberId <= 0) return items;
+    const ownerId = getUserIdFromRequest(req);
+    return items.filter((item) => (item.createdBy ?? ownerId) === memberId);
+  };
+
+  // Retorna o primeiro campo de conta (origem/destino) que não pertence ao usuário, ou null se todos forem válidos
+  const findInvalidAccountField = async (
+    userId: number,
+    data: { accountId?: number | null; destinationAccountId?: number | null },
+  ): Promise<'accountId' | 'destinationAccountId' | null> => {
+    for (const field of ['accountId', 'destinationAccountId'] as const) {
+      const accountId = data[field];
+      if (accountId === undefined || accountId === null) continue;
+      const account = await storage.getAccountById(accountId, userId);
+      if (!account) return field;
+    }
+    return null;
+  };
+
+  // Categoria informada que não pertence ao usuário (ou ao dono da casa); ausente é válida
+  const isInvalidCategory = async (userId: number, categoryId: number | null | undefined): Promise<boolean> => {
+    if (categoryId === undefined || categoryId === null) return false;
+    const userCategories = await storage.getCategories(userId);
+    return !userCategories.some((category) => category.id === categoryId);
+  };
+
+  // Valor atual de cada investimento: na curva para a renda fixa, na posição registrada para os demais
+  const valueInvestments = async (investments: Investment[]): Promise<(Investment & { valuation: InvestmentValuation })[]> => {
+    const [series, movements] = await Promise.all([
+      loadIndexSeries(),
+      storage.getInvestmentMovementsForList(investments.map((investment) => investment.id)),
+    ]);
+    return investments.map((investment) => ({
+      ...investment,
+      valuation: valueInvestment(investment, movements.filter((movement) => movement.investmentId === investment.id), series),
+    }));
+  };
+
+  // Abre uma sessão para o usuário (dispositivo e IP da requisição), grava o refresh token no cookie
+  // e devolve o access token de curta duração
+  const startSession = async (req: Request, res: Response, user: { id: number; username: string; email: string; sessionVersion?: number }): Promise<string> => {
+    const refreshToken = generateToken();
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const session = await storage.createSession({
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: req.get('user-agent')?.slice(0, 255) || null,
+      ipAddress: req.ip || null,
+      expiresAt,
+    });
+    setRefreshCookie(res, refreshToken, expiresAt);
+    return createJWT(user, session.id);
+  };
+
+  // Segundo fator do login: código TOTP (ainda não usado) ou um código de recuperação não consumido.
+  // Devolve o meio usado, ou null quando o código não confere.
+  const verifySecondFactor = async (user: { id: number; totpSecret: string | null }, code: string): Promise<'totp' | 'recovery_code' | null> => {
+    const step = user.totpSecret ? verifyTotp(user.totpSecret, code) : null;
+    if (step !== null) {
+      return (await storage.consumeTotpStep(user.id, step)) ? 'totp' : null;
+    }
+    if (/^\d+$/.test(code.trim())) return null;
+    return (await storage.consumeRecoveryCode(user.id, hashToken(normalizeRecoveryCode(code)))) ? 'recovery_code' : null;
+  };
+
+  const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+  // Registra um evento em auth_events; uma falha na gravação é logada, mas não interrompe a autenticação
+  const recordAuthEvent = async (req: Request, type: AuthEventType, data: { userId?: number | null; email?: string | null; detail?: string | null } = {}) => {
+    try {
+      await storage.createAuthEvent({
+        userId: data.userId ?? null,
+        type,
+        email: data.email ? normalizeEmail(data.email) : null,
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent')?.slice(0, 255) || null,
+        detail: data.detail ?? null,
+      });
+    } catch (error) {
+      console.error(`[auth_events] Falha ao registrar ${type}:`, (error as Error).message);
+    }
+  };
+
+  // Espera exigida antes de uma nova tentativa de login para o e-mail e o IP da requisição (o maior dos dois)
+  const getLoginThrottle = async (req: Request, email: string): Promise<{ retryAfter: number; locked: boolean }> => {
+    const since = new Date(Date.now() - THROTTLE_WINDOW_MINUTES * 60 * 1000);
+    const [accountStats, ipStats] = await Promise.all([
+      storage.getLoginFailureStats({ email: normalizeEmail(email) }, since),
+      req.ip ? storage.getLoginFailureStats({ ipAddress: req.ip }, since) : { count: 0, lastFailureAt: null },
+    ]);
+    return {
+      retryAfter: Math.max(getRetryAfterSeconds(accountStats, ACCOUNT_THROTTLE), getRetryAfterSeconds(ipStats, IP_THROTTLE)),
+      locked: isLockedOut(accountStats, ACCOUNT_THROTTLE) || isLockedOut(ipStats, IP_THROTTLE),
+    };
+  };
+
+  const sendThrottled = (res: Response, throttle: { retryAfter: number; locked: boolean }) => {
+    res.set('Retry-After', String(throttle.retryAfter));
+    const message = throttle.locked
+      ? `Acesso temporariamente bloqueado por excesso de tentativas. Tente novamente em ${Math.ceil(throttle.retryAfter / 60)} minuto(s).`
+      : `Muitas tentativas. Aguarde ${throttle.retryAfter} segundo(s) e tente novamente.`;
+    return res.status(429).json({ message, retryAfter: throttle.retryAfter });
+  };
+
+  // Registra a falha de login e, quando ela atinge o limite da conta, o bloqueio
+  const recordLoginFailure = async (req: Request, email: string, userId: number | null, detail?: string) => {
+    await recordAuthEvent(req, 'login_failed', { userId, email, detail });
+    if (!userId) return;
+    const since = new Date(Date.now() - THROTTLE_WINDOW_MINUTES * 60 * 1000);
+    const stats = await storage.getLoginFailureStats({ email: normalizeEmail(email) }, since);
+    if (stats.count === ACCOUNT_THROTTLE.lockoutThreshold) {
+      console.warn(`[POST /api/auth/login] Conta ${userId} bloqueada por excesso de tentativas.`);
+      await recordAuthEvent(req, 'account_locked', { userId, email });
+    }
+  };
+
   // =================================================================
   // ACCOUNTS ROUTES (BANK / CREDIT CARD)
   // =================================================================
@@ -188,7 +269,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid account ID" });
       }
 
-      const success = await storage.deleteAccount(id);
+      const success = await storage.deleteAccount(id, getUserIdFromRequest(req));
       if (!success) {
         return res.status(404).json({ message: "Account not found" });
       }
@@ -201,6 +282,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/accounts/:id/statements", protect, async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+
+      const account = await storage.getAccountById(id, userId);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      if (account.type !== "credit_card") {
+        return res.status(400).json({ message: "Statements are only available for credit card accounts" });
+      }
+
+      const overview = await storage.getCardStatements(account);
+      return res.json(overview);
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/accounts/:id/statements] Error:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to fetch statements" });
+    }
+  });
+
+  app.post("/api/accounts/:id/statements/:statementId/pay", protect, async (req, res) => {
+    console.log(`[POST /api/accounts/${req.params.id}/statements/${req.params.statementId}/pay] Início da requisição`);
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      const statementId = parseInt(req.params.statementId, 10);
+      if (Number.isNaN(id) || Number.isNaN(statementId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+
+      const statement = await storage.getCardStatementById(statementId, userId);
+      if (!statement || statement.accountId !== id) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+
+      const validatedData = payCardStatementSchema.parse(req.body);
+      const sourceAccount = await storage.getAccountById(validatedData.sourceAccountId, userId);
+      if (!sourceAccount || sourceAccount.id === id) {
+        return res.status(400).json({ message: "Invalid data", errors: { sourceAccountId: ["Conta inválida"] } });
+      }
+
+      const paid = await storage.payCardStatement(statementId, userId, sourceAccount.id, validatedData.date ?? new Date(), getMemberIdFromRequest(req));
+      if (!paid) {
+        return res.status(409).json({ message: "Statement is already paid or has nothing to pay" });
+      }
+      return res.json(paid);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/accounts/:id/statements/:statementId/pay] Error:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to pay statement" });
+    }
+  });
+
   // =================================================================
   // AUTHENTICATION ROUTES
   // =================================================================
@@ -228,6 +370,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const validatedData = insertUserSchema.parse(req.body);
 
+      // Limite de cadastros por IP
+      if (req.ip) {
+        const registrations = await storage.countAuthEvents('register', req.ip, new Date(Date.now() - 60 * 60 * 1000));
+        if (registrations >= REGISTER_LIMIT_PER_HOUR) {
+          console.warn(`[POST /api/auth/register] Limite de cadastros atingido para o IP ${req.ip}`);
+          res.set('Retry-After', String(60 * 60));
+          return res.status(429).json({ message: "Muitos cadastros a partir deste endereço. Tente novamente mais tarde." });
+        }
+      }
+
       console.log("[POST /api/auth/register] Verificando se usuário existe...");
       const existingUser = await storage.getUserByEmail(validatedData.email);
       if (existingUser) {
@@ -315,7 +467,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log("[POST /api/auth/register] Transação concluída. Usuário e dados iniciais criados.");
 
       console.log("[POST /api/auth/register] Criando token JWT...");
-      const token = createJWT(newUser);
+      await recordAuthEvent(req, 'register', { userId: newUser.id, email: newUser.email });
+      const token = await startSession(req, res, newUser);
       console.log("[POST /api/auth/register] Token JWT criado.");
 
       res.status(201).json({ token, user: { id: newUser.id, name: newUser.name, email: newUser.email, username: newUser.username } });
@@ -348,17 +501,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { email, password } = loginSchema.parse(req.body);
 
+      // Espera progressiva e bloqueio temporário valem antes de conferir a senha
+      const throttle = await getLoginThrottle(req, email);
+      if (throttle.retryAfter > 0) {
+        return sendThrottled(res, throttle);
+      }
+
       const user = await storage.getUserByEmail(email);
       if (!user) {
+        await recordLoginFailure(req, email, null);
         return res.status(401).json({ message: "Credenciais inválidas." });
       }
 
-      const isValid = await comparePassword(password, user.password);
+      // Contas criadas por login externo não têm senha até o usuário definir uma
+      const isValid = user.password !== null && await comparePassword(password, user.password);
       if (!isValid) {
+        await recordLoginFailure(req, email, user.id);
         return res.status(401).json({ message: "Credenciais inválidas." });
       }
 
-      const token = createJWT(user);
+      // Com 2FA ativa a sessão só é aberta depois do segundo fator (POST /api/auth/login/2fa)
+      if (user.totpEnabled) {
+        return res.json({ twoFactorRequired: true, challengeToken: createTwoFactorChallenge(user.id) });
+      }
+
+      await recordAuthEvent(req, 'login_success', { userId: user.id, email: user.email });
+      const token = await startSession(req, res, user);
       res.json({ token, user: { id: user.id, name: user.name, email: user.email, username: user.username } });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -370,271 +538,1195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Retorna o usuário autenticado a partir do JWT
-  app.get('/api/auth/me', protect, async (req, res) => {
+  // Segunda etapa do login com 2FA
+  app.post("/api/auth/login/2fa", async (req, res) => {
     try {
-      const authUser = (req as any).user as { id: number };
-      const user = await storage.getUser(authUser.id);
-      if (!user) {
-        return res.status(404).json({ message: 'User not found' });
+      const { challengeToken, code } = twoFactorLoginSchema.parse(req.body);
+      const userId = verifyTwoFactorChallenge(challengeToken);
+      const user = userId ? await storage.getUser(userId) : null;
+      if (!user || !user.totpEnabled) {
+        return res.status(401).json({ message: "Login expirado. Entre novamente." });
       }
-      return res.json({ user: { id: user.id, name: user.name, email: user.email, username: user.username } });
-    } catch (err) {
-      console.error('[/api/auth/me] error:', (err as Error).message);
-      return res.status(500).json({ message: 'Internal server error' });
-    }
-  });
 
-  // Forgot Password (stub)
-  const forgotSchema = z.object({
-    email: z.string().email({ message: "Email inválido" })
-  });
-  app.post("/api/auth/forgot-password", async (req, res) => {
-    try {
-      const { email } = forgotSchema.parse(req.body);
-      // Log de auditoria simples (não vazar se e-mail existe)
-      console.log(`[POST /api/auth/forgot-password] Solicitação recebida para: ${email}`);
+      // O segundo fator conta para o mesmo limite de tentativas da conta
+      const throttle = await getLoginThrottle(req, user.email);
+      if (throttle.retryAfter > 0) {
+        return sendThrottled(res, throttle);
+      }
 
-      // TODO: Implementar geração de token, persistir e enviar e-mail
-      // Para agora, responder de forma neutra, sempre 200
-      return res.status(200).json({
-        message: "Se o e-mail existir, enviaremos instruções de recuperação."
-      });
+      const method = await verifySecondFactor(user, code);
+      if (!method) {
+        await recordLoginFailure(req, user.email, user.id, 'two_factor');
+        return res.status(400).json({ message: "Código inválido.", errors: { code: ["Código inválido."] } });
+      }
+
+      await recordAuthEvent(req, 'login_success', { userId: user.id, email: user.email, detail: method });
+      const token = await startSession(req, res, user);
+      res.json({ token, user: { id: user.id, name: user.name, email: user.email, username: user.username } });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Dados inválidos", errors: error.flatten().fieldErrors });
       }
       const err = error as Error;
-      console.error('[POST /api/auth/forgot-password] Erro:', err.message, err.stack);
-      return res.status(200).json({
-        // Mesmo em erro interno, responder neutro para não vazar informação
-        message: "Se o e-mail existir, enviaremos instruções de recuperação."
-      });
+      console.error('[POST /api/auth/login/2fa] Erro:', err.message, err.stack);
+      res.status(500).json({ message: "Falha ao fazer login." });
     }
   });
 
+  // Renova o access token a partir do refresh token do cookie; o refresh token é trocado a cada uso
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const refreshToken = getRefreshCookie(req);
+      if (!refreshToken) {
+        return res.status(401).json({ message: "Sessão expirada." });
+      }
 
-  // Rotas de inicialização/admin removidas
+      const newRefreshToken = generateToken();
+      const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+      const session = await storage.rotateSessionToken(hashToken(refreshToken), hashToken(newRefreshToken), expiresAt);
+      const user = session ? await storage.getUser(session.userId) : null;
+      if (!session || !user) {
+        clearRefreshCookie(res);
+        return res.status(401).json({ message: "Sessão expirada." });
+      }
 
-  // Categories routes (mantida apenas a implementação completa mais abaixo)
+      setRefreshCookie(res, newRefreshToken, expiresAt);
+      const token = createJWT(user, session.id);
+      res.json({ token, user: { id: user.id, name: user.name, email: user.email, username: user.username } });
+    } catch (error) {
+      const err = error as Error;
+      console.error('[POST /api/auth/refresh] Erro:', err.message, err.stack);
+      res.status(500).json({ message: "Falha ao renovar a sessão." });
+    }
+  });
 
-  // Transactions routes
-  app.get("/api/transactions", protect, async (req, res) => {
-    console.log("[GET /api/transactions] Início da requisição", req.query);
+  // Encerra a sessão do cookie no servidor; funciona mesmo com o access token já expirado
+  app.post("/api/auth/logout", async (req, res) => {
     try {
-      const { type, startDate, endDate, upcoming } = req.query;
-      let transactions;
+      const refreshToken = getRefreshCookie(req);
+      if (refreshToken) {
+        const session = await storage.revokeSessionByToken(hashToken(refreshToken));
+        if (session) {
+          await recordAuthEvent(req, 'logout', { userId: session.userId });
+        }
+      }
+      clearRefreshCookie(res);
+      res.json({ message: "Sessão encerrada." });
+    } catch (error) {
+      const err = error as Error;
+      console.error('[POST /api/auth/logout] Erro:', err.message, err.stack);
+      res.status(500).json({ message: "Falha ao encerrar a sessão." });
+    }
+  });
 
-      console.log('[GET /api/transactions] Parâmetros recebidos:', { type, startDate, endDate, upcoming });
+  // Sessões ativas do usuário; "current" marca a sessão da própria requisição
+  app.get("/api/auth/sessions", protect, async (req, res) => {
+    try {
+      console.log("[GET /api/auth/sessions] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const currentSessionId = (req as any).user.sid as number;
+      const activeSessions = await storage.getActiveSessions(userId);
+      res.json(activeSessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.id === currentSessionId,
+      })));
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/auth/sessions] Erro ao buscar sessões:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
 
+  // Encerra todas as sessões do usuário, exceto a atual
+  app.delete("/api/auth/sessions", protect, async (req, res) => {
+    try {
+      console.log("[DELETE /api/auth/sessions] Início da requisição");
       const userId = getUserIdFromRequest(req);
-      console.log(`[GET /api/transactions] Usando ID de usuário: ${userId}`);
+      const revoked = await storage.revokeOtherSessions(userId, (req as any).user.sid);
+      if (revoked > 0) {
+        await recordAuthEvent(req, 'session_revoked', { userId, detail: 'others' });
+      }
+      res.json({ revoked });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/auth/sessions] Erro ao encerrar sessões:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
 
-      const transactionType = type ? String(type) : undefined;
-      
-      if (upcoming) {
-        const days = parseInt(upcoming as string) || 7;
-        transactions = await storage.getUpcomingTransactions(userId, days);
-      } else if (startDate && endDate) {
-        const start = new Date(startDate as string);
-        const end = new Date(endDate as string);
-
-        // Quando vierem período E tipo, aplicar os dois filtros
-        const allInRange = await storage.getTransactionsByDateRange(userId, start, end);
-        transactions = transactionType
-          ? allInRange.filter((tx) => tx.type === transactionType)
-          : allInRange;
-      } else if (transactionType) {
-        console.log(`[GET /api/transactions] Buscando transações do tipo: ${transactionType}`);
-        transactions = await storage.getTransactionsByType(userId, transactionType);
-      } else {
-        transactions = await storage.getTransactions(userId);
+  app.delete("/api/auth/sessions/:id", protect, async (req, res) => {
+    try {
+      console.log("[DELETE /api/auth/sessions/:id] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid session ID" });
       }
 
-      console.log(`[GET /api/transactions] Retornando ${transactions.length} transações`);
-      // Exemplo: logar os primeiros 2 itens para debug rápido
-      if (transactions.length > 0) {
-        console.log('[GET /api/transactions] Exemplo de transação:', JSON.stringify(transactions[0], null, 2));
+      const revoked = await storage.revokeSession(id, userId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
       }
-      res.json(transactions);
+      await recordAuthEvent(req, 'session_revoked', { userId, detail: `session:${id}` });
+      if (id === (req as any).user.sid) {
+        clearRefreshCookie(res);
+      }
+      res.json({ message: "Session revoked successfully" });
     } catch (error) {
       const err = error as Error;
-      console.error('[GET /api/transactions] Erro ao buscar transações:', err.message, err.stack);
-      console.log(`[GET /api/transactions] Fim da requisição com erro`);
-      res.status(500).json({ 
-        message: "Failed to fetch transactions",
-        error: process.env.NODE_ENV === 'development' ? err.message : undefined
-      });
+      console.error("[DELETE /api/auth/sessions/:id] Erro ao encerrar sessão:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to revoke session" });
     }
   });
 
-  app.post("/api/transactions", protect, async (req, res) => {
-    console.log("[POST /api/transactions] Início da requisição");
+  // Atividade de segurança recente do usuário (auth_events)
+  const AUTH_EVENTS_LIMIT = 50;
+  app.get("/api/auth/events", protect, async (req, res) => {
     try {
+      console.log("[GET /api/auth/events] Início da requisição");
       const userId = getUserIdFromRequest(req);
-      const validatedData = insertTransactionSchema.parse({
-        ...req.body,
-        userId: userId
+      const events = await storage.getRecentAuthEvents(userId, AUTH_EVENTS_LIMIT);
+      res.json(events.map((event) => ({
+        id: event.id,
+        type: event.type,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        detail: event.detail,
+        createdAt: event.createdAt,
+      })));
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/auth/events] Erro ao buscar atividade de segurança:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch security activity" });
+    }
+  });
+
+  // =================================================================
+  // PERSONAL API TOKENS
+  // =================================================================
+
+  // Nunca devolve o hash; o token em claro só aparece na resposta da criação
+  const serializeApiToken = (apiToken: ApiToken) => ({
+    id: apiToken.id,
+    name: apiToken.name,
+    tokenPrefix: apiToken.tokenPrefix,
+    scopes: parseScopes(apiToken.scopes),
+    expiresAt: apiToken.expiresAt,
+    lastUsedAt: apiToken.lastUsedAt,
+    createdAt: apiToken.createdAt,
+  });
+
+  app.get("/api/auth/tokens", protect, async (req, res) => {
+    try {
+      console.log("[GET /api/auth/tokens] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const apiTokens = await storage.getApiTokens(userId);
+      res.json(apiTokens.map(serializeApiToken));
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/auth/tokens] Erro ao buscar tokens de API:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/auth/tokens", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/auth/tokens] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+
+      const token = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId,
+        name,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH),
+        scopes: Array.from(new Set(scopes)).join(','),
+        expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
       });
-      console.log(`[POST /api/transactions] Usando ID de usuário: ${userId}`);
-      
-      const transaction = await storage.createTransaction(validatedData);
-      console.log(`[POST /api/transactions] Transação criada com sucesso (id=${transaction.id})`);
-      console.log("[POST /api/transactions] Fim da requisição");
-      res.status(201).json(transaction);
+      await recordAuthEvent(req, 'api_token_created', { userId, detail: `token:${apiToken.id}` });
+      res.status(201).json({ token, apiToken: serializeApiToken(apiToken) });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        console.log("[POST /api/transactions] Fim da requisição com erro de validação");
-        res.status(400).json({ 
-          message: "Invalid data", 
-          errors: error.errors 
-        });
-      } else {
-        const err = error as Error;
-        console.error('[POST /api/transactions] Erro ao criar transação:', err.message);
-        console.log("[POST /api/transactions] Fim da requisição com erro");
-        res.status(500).json({ 
-          message: "Failed to create transaction",
-          error: process.env.NODE_ENV === 'development' ? (err.message || 'unknown') : undefined
-        });
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
       }
+      const err = error as Error;
+      console.error("[POST /api/auth/tokens] Erro ao criar token de API:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to create API token" });
     }
   });
 
-  app.put("/api/transactions/:id", async (req, res) => {
-    console.log(`[PUT /api/transactions/${req.params.id}] Início da requisição`);
-    console.log(`[PUT /api/transactions/${req.params.id}] Received body:`, JSON.stringify(req.body, null, 2));
+  app.delete("/api/auth/tokens/:id", protect, async (req, res) => {
     try {
+      console.log("[DELETE /api/auth/tokens/:id] Início da requisição");
+      const userId = getUserIdFromRequest(req);
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        console.error(`[PUT /api/transactions/${req.params.id}] Invalid ID received: ${req.params.id}`);
-        return res.status(400).json({ message: "Invalid transaction ID format" });
+        return res.status(400).json({ message: "Invalid API token ID" });
       }
 
-      const validatedData = updateTransactionSchema.parse(req.body);
-      console.log(`[PUT /api/transactions/${req.params.id}] Validated data:`, JSON.stringify(validatedData, null, 2));
-
-      const transaction = await storage.updateTransaction(id, validatedData);
-      
-      if (!transaction) {
-        console.log(`[PUT /api/transactions/${req.params.id}] Transaction with ID ${id} not found for update.`);
-        return res.status(404).json({ message: "Transaction not found" });
+      const deleted = await storage.deleteApiToken(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "API token not found" });
       }
-      
-      console.log(`[PUT /api/transactions/${req.params.id}] Transação atualizada com sucesso: ${transaction}`);
-      console.log(`[PUT /api/transactions/${req.params.id}] Fim da requisição`);
-      res.json(transaction);
+      await recordAuthEvent(req, 'api_token_revoked', { userId, detail: `token:${id}` });
+      res.json({ message: "API token revoked successfully" });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        console.error(`[PUT /api/transactions/${req.params.id}] Zod validation error:`, JSON.stringify(error.errors, null, 2));
-        console.log(`[PUT /api/transactions/${req.params.id}] Fim da requisição com erro de validação`);
-        res.status(400).json({ message: "Invalid data", errors: error.errors });
-      } else {
-        const err = error as Error;
-        console.error(`[PUT /api/transactions/${req.params.id}] Error updating transaction:`, err.message, err.stack);
-        console.log(`[PUT /api/transactions/${req.params.id}] Fim da requisição com erro`);
-        res.status(500).json({ 
-          message: "Failed to update transaction",
-          error: process.env.NODE_ENV === 'development' ? err.message : undefined
-        });
-      }
+      const err = error as Error;
+      console.error("[DELETE /api/auth/tokens/:id] Erro ao revogar token de API:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to revoke API token" });
     }
   });
 
-  app.delete("/api/transactions/:id", async (req, res) => {
-    console.log(`[DELETE /api/transactions/${req.params.id}] Início da requisição`);
+  // =================================================================
+  // TWO-FACTOR AUTHENTICATION (TOTP)
+  // =================================================================
+
+  const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Financeiro';
+
+  // Ativar, desativar ou gerar novos códigos exige a senha atual, mesmo com sessão válida
+  const findUserByPassword = async (userId: number, password: string) => {
+    const user = await storage.getUser(userId);
+    if (!user || user.password === null || !(await comparePassword(password, user.password))) return null;
+    return user;
+  };
+
+  const invalidPasswordResponse = { message: "Senha incorreta.", errors: { password: ["Senha incorreta."] } };
+
+  app.get("/api/auth/2fa", protect, async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteTransaction(id);
-      
-      if (!success) {
-        console.log(`[DELETE /api/transactions/${req.params.id}] Transação com ID ${id} não encontrada para exclusão.`);
-        return res.status(404).json({ message: "Transaction not found" });
+      console.log("[GET /api/auth/2fa] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
-      
-      console.log(`[DELETE /api/transactions/${req.params.id}] Transação excluída com sucesso.`);
-      console.log(`[DELETE /api/transactions/${req.params.id}] Fim da requisição`);
-      res.json({ success: true });
+      res.json({
+        enabled: user.totpEnabled,
+        recoveryCodesRemaining: user.totpEnabled ? await storage.countRemainingRecoveryCodes(userId) : 0,
+      });
     } catch (error) {
-      console.log(`[DELETE /api/transactions/${req.params.id}] Fim da requisição com erro`);
-      res.status(500).json({ message: "Failed to delete transaction" });
+      const err = error as Error;
+      console.error("[GET /api/auth/2fa] Erro ao buscar status da 2FA:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
     }
   });
 
-  // Goals routes
-  app.get("/api/goals", protect, async (req, res) => {
-    console.log("[GET /api/goals] Início da requisição");
+  // Gera um novo segredo (pendente até a confirmação em /enable) e o QR code para o app autenticador
+  app.post("/api/auth/2fa/setup", protect, async (req, res) => {
     try {
+      console.log("[POST /api/auth/2fa/setup] Início da requisição");
       const userId = getUserIdFromRequest(req);
-      console.log(`[GET /api/goals] Fetching goals for user ID: ${userId}`);
-      const goals = await storage.getGoals(userId);
-      console.log(`[GET /api/goals] Successfully fetched ${goals.length} goals`);
-      console.log(`[GET /api/goals] Fim da requisição`);
-      if (goals.length > 0) {
-        console.log('[GET /api/goals] Exemplo de meta:', JSON.stringify(goals[0], null, 2));
+      const { password } = confirmPasswordSchema.parse(req.body);
+      const user = await findUserByPassword(userId, password);
+      if (!user) {
+        return res.status(400).json(invalidPasswordResponse);
       }
-      res.json(goals);
+      if (user.totpEnabled) {
+        return res.status(400).json({ message: "A autenticação em dois fatores já está ativa." });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.setPendingTotpSecret(userId, secret);
+      const otpauthUri = buildOtpauthUri(secret, user.email, TOTP_ISSUER);
+      const qrCode = await QRCode.toDataURL(otpauthUri);
+      res.json({ secret, otpauthUri, qrCode });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
       const err = error as Error;
-      console.error(`[GET /api/goals] Error fetching goals:`, err.message, err.stack);
-      console.log(`[GET /api/goals] Fim da requisição com erro`);
+      console.error("[POST /api/auth/2fa/setup] Erro ao iniciar a 2FA:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Confirma o segredo com um código do app e devolve os códigos de recuperação (exibidos uma única vez)
+  app.post("/api/auth/2fa/enable", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/auth/2fa/enable] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (user.totpEnabled) {
+        return res.status(400).json({ message: "A autenticação em dois fatores já está ativa." });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "Inicie a configuração da autenticação em dois fatores antes de confirmá-la." });
+      }
+
+      const step = verifyTotp(user.totpSecret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Código inválido.", errors: { code: ["Código inválido."] } });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTotp(userId, step, recoveryCodes.map(hashToken));
+      await recordAuthEvent(req, 'two_factor_enabled', { userId });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/auth/2fa/enable] Erro ao ativar a 2FA:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/auth/2fa/disable] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { password } = confirmPasswordSchema.parse(req.body);
+      const user = await findUserByPassword(userId, password);
+      if (!user) {
+        return res.status(400).json(invalidPasswordResponse);
+      }
+
+      await storage.disableTotp(userId);
+      await recordAuthEvent(req, 'two_factor_disabled', { userId });
+      res.json({ message: "Autenticação em dois fatores desativada." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/auth/2fa/disable] Erro ao desativar a 2FA:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Substitui todos os códigos de recuperação (os anteriores deixam de valer)
+  app.post("/api/auth/2fa/recovery-codes", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/auth/2fa/recovery-codes] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { password } = confirmPasswordSchema.parse(req.body);
+      const user = await findUserByPassword(userId, password);
+      if (!user) {
+        return res.status(400).json(invalidPasswordResponse);
+      }
+      if (!user.totpEnabled) {
+        return res.status(400).json({ message: "A autenticação em dois fatores não está ativa." });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(userId, recoveryCodes.map(hashToken));
+      await recordAuthEvent(req, 'recovery_codes_regenerated', { userId });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/auth/2fa/recovery-codes] Erro ao gerar códigos:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to generate recovery codes" });
+    }
+  });
+
+  // Retorna o usuário autenticado a partir do JWT
+  app.get('/api/auth/me', protect, async (req, res) => {
+    try {
+      const authUser = (req as any).user as { id: number };
+      const user = await storage.getUser(authUser.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      return res.json({ user: { id: user.id, name: user.name, email: user.email, username: user.username, deletionScheduledAt: user.deletionScheduledAt } });
+    } catch (err) {
+      console.error('[/api/auth/me] error:', (err as Error).message);
+      return res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Forgot Password: gera um link de uso único e envia por e-mail
+  const PASSWORD_RESET_TTL_MINUTES = 60;
+  const forgotSchema = z.object({
+    email: z.string().email({ message: "Email inválido" })
+  });
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotSchema.parse(req.body);
+      // Log de auditoria simples (não vazar se e-mail existe)
+      console.log(`[POST /api/auth/forgot-password] Solicitação recebida para: ${email}`);
+
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        // Apenas o hash do token fica no banco; o token em claro só existe no link enviado
+        const token = generateToken();
+        const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+        await storage.createPasswordResetToken(user.id, hashToken(token), expiresAt);
+
+        const resetPath = USE_HASH_ROUTER ? '/#/reset-password' : '/reset-password';
+        const resetUrl = `${FRONTEND_ORIGIN}${resetPath}?token=${encodeURIComponent(token)}`;
+        await mailer.send({
+          to: user.email,
+          subject: "Redefinição de senha",
+          text: [
+            `Olá, ${user.name}.`,
+            "",
+            "Recebemos um pedido para redefinir a sua senha. Para escolher uma nova senha, acesse:",
+            resetUrl,
+            "",
+            `O link vale por ${PASSWORD_RESET_TTL_MINUTES} minutos e só pode ser usado uma vez.`,
+            "Se você não fez este pedido, ignore este e-mail; sua senha continua a mesma.",
+          ].join("\n"),
+        });
+      }
+
+      // Resposta sempre neutra para não revelar se o e-mail está cadastrado
+      return res.status(200).json({
+        message: "Se o e-mail existir, enviaremos instruções de recuperação."
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error('[POST /api/auth/forgot-password] Erro:', err.message, err.stack);
+      return res.status(200).json({
+        // Mesmo em erro interno, responder neutro para não vazar informação
+        message: "Se o e-mail existir, enviaremos instruções de recuperação."
+      });
+    }
+  });
+
+  // Reset Password: consome o token enviado por e-mail e encerra as sessões existentes
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const hashedPassword = await hashPassword(password);
+      const user = await storage.resetPasswordWithToken(hashToken(token), hashedPassword);
+      if (!user) {
+        return res.status(400).json({
+          message: "Link de redefinição inválido ou expirado.",
+          errors: { token: ["Link de redefinição inválido ou expirado."] },
+        });
+      }
+
+      await recordAuthEvent(req, 'password_changed', { userId: user.id, email: user.email, detail: 'reset' });
+      console.log(`[POST /api/auth/reset-password] Senha redefinida para o usuário ${user.id}`);
+      return res.status(200).json({ message: "Senha redefinida com sucesso." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error('[POST /api/auth/reset-password] Erro:', err.message, err.stack);
+      return res.status(500).json({ message: "Falha ao redefinir a senha." });
+    }
+  });
+
+
+  // =================================================================
+  // OAUTH / OPENID CONNECT (ver server/oauth.ts)
+  // =================================================================
+
+  // A conta externa é encontrada pelo subject do provedor. Um e-mail já cadastrado nunca é vinculado
+  // automaticamente: o dono da conta precisa entrar e vincular o provedor em Preferências.
+  const loginWithOAuthProfile = async (profile: OAuthProfile): Promise<{ user?: User; error?: string }> => {
+    const identity = await storage.getIdentity(profile.provider, profile.subject);
+    if (identity) {
+      await storage.touchIdentity(identity.id);
+      const user = await storage.getUser(identity.userId);
+      return user ? { user } : { error: 'oauth' };
+    }
+
+    if (!profile.email || !profile.emailVerified) {
+      return { error: 'oauth_email_unverified' };
+    }
+    if (await storage.getUserByEmail(profile.email)) {
+      return { error: 'oauth_email_in_use' };
+    }
+
+    const usernameBase = profile.email.split('@')[0]?.replace(/[^a-zA-Z0-9_\-\.]/g, '') || profile.provider;
+    const user = await storage.createOAuthUser({
+      email: profile.email,
+      name: profile.name || usernameBase,
+      // Sufixo derivado do subject: dois e-mails com o mesmo prefixo não colidem no username
+      username: `${usernameBase}_${hashToken(`${profile.provider}:${profile.subject}`).slice(0, 6)}`,
+    }, { provider: profile.provider, subject: profile.subject });
+    return { user };
+  };
+
+  // Provedores configurados, para os botões da tela de login e de Preferências
+  app.get('/api/auth/providers', (_req, res) => {
+    res.json(Array.from(oauthProviders.values(), (provider) => ({ id: provider.id, name: provider.name })));
+  });
+
+  // Inicia o login: guarda state, nonce e code verifier no cookie assinado e redireciona ao provedor.
+  // /api/auth/google continua valendo para não quebrar links e callbacks já configurados.
+  app.get(['/api/auth/google', '/api/auth/oauth/:provider'], async (req, res) => {
+    const provider = oauthProviders.get(req.params.provider ?? 'google');
+    if (!provider) {
+      return res.redirect(302, frontendUrl('/login', { error: 'oauth' }));
+    }
+    try {
+      const secrets = generateOAuthRequestSecrets();
+      const url = await provider.buildAuthorizationUrl(secrets);
+      setOAuthStateCookie(res, { provider: provider.id, ...secrets });
+      res.redirect(302, url);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[OAuth] Falha ao iniciar login com ${provider.id}:`, err.message);
+      res.redirect(302, frontendUrl('/login', { error: 'oauth' }));
+    }
+  });
+
+  app.get(['/api/auth/google/callback', '/api/auth/oauth/:provider/callback'], async (req, res) => {
+    const providerId = req.params.provider ?? 'google';
+    const provider = oauthProviders.get(providerId);
+    const oauthState = readOAuthStateCookie(req);
+    clearOAuthStateCookie(res);
+    const linking = Boolean(oauthState?.userId);
+    const fail = (error: string) => res.redirect(302, linking
+      ? frontendUrl('/preferences', { linkError: error })
+      : frontendUrl('/login', { error }));
+
+    const { code, state } = req.query;
+    if (!provider || !oauthState || oauthState.provider !== providerId || typeof state !== 'string' || state !== oauthState.state) {
+      console.warn(`[OAuth] Callback de ${providerId} com state ausente ou inválido`);
+      return fail('oauth');
+    }
+    if (typeof code !== 'string') {
+      // Usuário cancelou no provedor (ou o provedor devolveu um erro)
+      return fail('oauth');
+    }
+
+    try {
+      const profile = await provider.fetchProfile(code, oauthState);
+
+      // Vínculo pedido em Preferências pelo usuário autenticado
+      if (oauthState.userId) {
+        const existing = await storage.getIdentity(profile.provider, profile.subject);
+        if (existing && existing.userId !== oauthState.userId) {
+          return fail('identity_in_use');
+        }
+        if (!existing) {
+          await storage.createIdentity({ userId: oauthState.userId, provider: profile.provider, subject: profile.subject, email: profile.email });
+          await recordAuthEvent(req, 'oauth_linked', { userId: oauthState.userId, email: profile.email, detail: profile.provider });
+        }
+        return res.redirect(302, frontendUrl('/preferences', { linked: profile.provider }));
+      }
+
+      const { user, error } = await loginWithOAuthProfile(profile);
+      if (!user) {
+        console.warn(`[OAuth] Login com ${providerId} recusado: ${error}`);
+        return fail(error ?? 'oauth');
+      }
+
+      await recordAuthEvent(req, 'oauth_login', { userId: user.id, email: user.email, detail: profile.provider });
+      if (user.totpEnabled) {
+        // Com 2FA ativa, o login externo também exige o segundo fator na tela de login
+        return res.redirect(302, frontendUrl('/login', { twoFactor: createTwoFactorChallenge(user.id) }));
+      }
+      const token = await startSession(req, res, user);
+      res.redirect(302, frontendUrl('/oauth/callback', { token }));
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[OAuth] Falha no callback de ${providerId}:`, err.message);
+      fail('oauth');
+    }
+  });
+
+  // Contas externas vinculadas e se o usuário já tem senha
+  app.get("/api/auth/identities", protect, async (req, res) => {
+    try {
+      console.log("[GET /api/auth/identities] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const identities = await storage.getUserIdentities(userId);
+      res.json({
+        hasPassword: user.password !== null,
+        providers: Array.from(oauthProviders.values(), (provider) => ({ id: provider.id, name: provider.name })),
+        identities: identities.map((identity) => ({
+          id: identity.id,
+          provider: identity.provider,
+          email: identity.email,
+          createdAt: identity.createdAt,
+          lastUsedAt: identity.lastUsedAt,
+        })),
+      });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/auth/identities] Erro ao buscar contas vinculadas:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch linked accounts" });
+    }
+  });
+
+  // Devolve a URL do provedor; o cookie de state leva o usuário, e o callback cria o vínculo
+  app.post("/api/auth/identities/:provider/link", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/auth/identities/:provider/link] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const provider = oauthProviders.get(req.params.provider);
+      if (!provider) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+      const secrets = generateOAuthRequestSecrets();
+      const url = await provider.buildAuthorizationUrl(secrets);
+      setOAuthStateCookie(res, { provider: provider.id, ...secrets, userId });
+      res.json({ url });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[POST /api/auth/identities/:provider/link] Erro ao iniciar vínculo:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to start account linking" });
+    }
+  });
+
+  app.delete("/api/auth/identities/:id", protect, async (req, res) => {
+    try {
+      console.log("[DELETE /api/auth/identities/:id] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid identity ID" });
+      }
+
+      const [user, identities] = await Promise.all([storage.getUser(userId), storage.getUserIdentities(userId)]);
+      const identity = identities.find((candidate) => candidate.id === id);
+      if (!user || !identity) {
+        return res.status(404).json({ message: "Identity not found" });
+      }
+      // Sem senha, a última conta externa é a única forma de entrar
+      if (user.password === null && identities.length === 1) {
+        return res.status(400).json({ message: "Defina uma senha antes de desvincular a única forma de acesso à conta." });
+      }
+
+      await storage.deleteIdentity(id, userId);
+      await recordAuthEvent(req, 'oauth_unlinked', { userId, email: user.email, detail: identity.provider });
+      res.json({ message: "Identity unlinked successfully" });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/auth/identities/:id] Erro ao desvincular conta:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to unlink account" });
+    }
+  });
+
+  // Define a senha de quem só entrava por conta externa; trocar uma senha existente continua sendo pela redefinição
+  app.post("/api/auth/password", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/auth/password] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { password } = setPasswordSchema.parse(req.body);
+      const updated = await storage.setPassword(userId, await hashPassword(password));
+      if (!updated) {
+        return res.status(400).json({ message: "A conta já possui uma senha. Use \"Esqueci minha senha\" para trocá-la." });
+      }
+      await recordAuthEvent(req, 'password_changed', { userId, detail: 'set' });
+      res.json({ message: "Senha definida com sucesso." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/auth/password] Erro ao definir senha:", err.message, err.stack);
+      res.status(500).json({ message: "Falha ao definir a senha." });
+    }
+  });
+
+  // Rotas de inicialização/admin removidas
+
+  // Categories routes (mantida apenas a implementação completa mais abaixo)
+
+  // Transactions routes
+  app.get("/api/transactions", protect, async (req, res) => {
+    console.log("[GET /api/transactions] Início da requisição", req.query);
+    try {
+      const parsed = transactionListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten().fieldErrors });
+      }
+      const query = parsed.data;
+
+      const userId = getUserIdFromRequest(req);
+      console.log(`[GET /api/transactions] Usando ID de usuário: ${userId}`, query);
+
+      const { data: page, total } = await storage.listTransactions(userId, query);
+      console.log(`[GET /api/transactions] Retornando ${page.length} de ${total} transações`);
+
+      // Anexos de cada transação, para as miniaturas das listagens
+      const attachments = await storage.getTransactionAttachmentsForList(page.map((transaction) => transaction.id));
+      const transactions = page.map((transaction) => ({
+        ...transaction,
+        attachments: attachments.filter((attachment) => attachment.transactionId === transaction.id).map(serializeAttachment),
+      }));
+
+      // Sem page/pageSize mantém o formato antigo (lista completa) usado pelos painéis
+      if (!query.page && !query.pageSize) {
+        return res.json(transactions);
+      }
+      res.json({
+        data: transactions,
+        total,
+        page: query.page ?? 1,
+        pageSize: query.pageSize ?? DEFAULT_TRANSACTION_PAGE_SIZE,
+      });
+    } catch (error) {
+      const err = error as Error;
+      console.error('[GET /api/transactions] Erro ao buscar transações:', err.message, err.stack);
+      console.log(`[GET /api/transactions] Fim da requisição com erro`);
       res.status(500).json({ 
-        message: "Failed to fetch goals",
+        message: "Failed to fetch transactions",
         error: process.env.NODE_ENV === 'development' ? err.message : undefined
       });
     }
   });
 
-  app.post("/api/goals", protect, async (req, res) => {
-    console.log("[POST /api/goals] Início da requisição");
-    console.log(`[POST /api/goals] Received body:`, JSON.stringify(req.body, null, 2));
+  app.post("/api/transactions", protect, async (req, res) => {
+    console.log("[POST /api/transactions] Início da requisição");
     try {
       const userId = getUserIdFromRequest(req);
-      const validatedData = insertGoalSchema.parse({
+      const validatedData = insertTransactionSchema.parse({
         ...req.body,
         userId: userId
       });
-      console.log(`[POST /api/goals] Usando ID de usuário: ${userId}`);
-      console.log(`[POST /api/goals] Validated data:`, JSON.stringify(validatedData, null, 2));
+      console.log(`[POST /api/transactions] Usando ID de usuário: ${userId}`);
 
-      const goal = await storage.createGoal(validatedData);
-      console.log(`[POST /api/goals] Meta criada com sucesso: ${goal}`);
-      console.log("[POST /api/goals] Fim da requisição");
-      res.json(goal);
+      const invalidAccountField = await findInvalidAccountField(userId, validatedData);
+      if (invalidAccountField) {
+        console.log("[POST /api/transactions] Fim da requisição com conta inválida");
+        return res.status(400).json({ message: "Invalid data", errors: { [invalidAccountField]: ["Conta inválida"] } });
+      }
+      if (await isInvalidCategory(userId, validatedData.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+      }
+
+      // Receitas e despesas sem categoria dependem de uma regra de categorização que case
+      if (validatedData.type !== "transfer" && !validatedData.categoryId) {
+        const [ruleCategoryId] = await storage.categorizeByRules(userId, [validatedData]);
+        if (!ruleCategoryId) {
+          return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria é obrigatória"] } });
+        }
+      }
+      
+      // Padrão da recorrência (opcional; mensal quando ausente)
+      const recurrence = validatedData.isRecurring && req.body.recurrence
+        ? recurrenceInputSchema.parse(req.body.recurrence)
+        : undefined;
+
+      const transaction = await storage.createTransaction({ ...validatedData, createdBy: getMemberIdFromRequest(req) }, recurrence);
+      console.log(`[POST /api/transactions] Transação criada com sucesso (id=${transaction.id})`);
+      console.log("[POST /api/transactions] Fim da requisição");
+      res.status(201).json(transaction);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        console.error(`[POST /api/goals] Zod validation error:`, JSON.stringify(error.errors, null, 2));
-        console.log("[POST /api/goals] Fim da requisição com erro de validação");
+        console.log("[POST /api/transactions] Fim da requisição com erro de validação");
         res.status(400).json({ 
           message: "Invalid data", 
           errors: error.errors 
         });
       } else {
         const err = error as Error;
-        console.error('[POST /api/goals] Error creating goal:', err.message, err.stack);
-        console.log("[POST /api/goals] Fim da requisição com erro");
+        console.error('[POST /api/transactions] Erro ao criar transação:', err.message);
+        console.log("[POST /api/transactions] Fim da requisição com erro");
         res.status(500).json({ 
-          message: "Failed to create goal",
-          error: process.env.NODE_ENV === 'development' ? err.message : undefined
+          message: "Failed to create transaction",
+          error: process.env.NODE_ENV === 'development' ? (err.message || 'unknown') : undefined
         });
       }
     }
   });
 
-  app.put("/api/goals/:id", async (req, res) => {
-    console.log(`[PUT /api/goals/${req.params.id}] Início da requisição`);
-    console.log(`[PUT /api/goals/${req.params.id}] Received body:`, JSON.stringify(req.body, null, 2));
+  app.post("/api/transactions/installments", protect, async (req, res) => {
+    console.log("[POST /api/transactions/installments] Início da requisição");
     try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        console.error(`[PUT /api/goals/${req.params.id}] Invalid ID received: ${req.params.id}`);
-        return res.status(400).json({ message: "Invalid goal ID format" });
-      }
+      const userId = getUserIdFromRequest(req);
+      const validatedData = insertInstallmentPurchaseSchema.parse({
+        ...req.body,
+        userId,
+      });
 
-      const validatedData = insertGoalSchema.partial().parse(req.body);
-      console.log(`[PUT /api/goals/${req.params.id}] Validated data:`, JSON.stringify(validatedData, null, 2));
+      const invalidAccountField = await findInvalidAccountField(userId, validatedData);
+      if (invalidAccountField) {
+        return res.status(400).json({ message: "Invalid data", errors: { [invalidAccountField]: ["Conta inválida"] } });
+      }
+      if (await isInvalidCategory(userId, validatedData.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+      }
 
-      const goal = await storage.updateGoal(id, validatedData);
+      const result = await storage.createInstallmentPurchase(validatedData, getMemberIdFromRequest(req));
+      console.log(`[POST /api/transactions/installments] Parcelamento criado (grupo=${result.group.id}, parcelas=${result.transactions.length})`);
+      return res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/transactions/installments] Erro ao criar parcelamento:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to create installment purchase" });
+    }
+  });
+
+  app.put("/api/installment-groups/:id", protect, async (req, res) => {
+    console.log(`[PUT /api/installment-groups/${req.params.id}] Início da requisição`);
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid installment group ID" });
+      }
+
+      const group = await storage.getInstallmentGroupById(id, userId);
+      if (!group) {
+        return res.status(404).json({ message: "Installment group not found" });
+      }
+      if (group.status === "cancelled") {
+        return res.status(409).json({ message: "Installment group is cancelled" });
+      }
+
+      const validatedData = updateInstallmentGroupSchema.parse(req.body);
+      if (await isInvalidCategory(userId, validatedData.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+      }
+      const remaining = await storage.updateInstallmentGroup(id, userId, validatedData);
+      return res.json(remaining);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[PUT /api/installment-groups/:id] Erro ao atualizar parcelamento:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to update installment group" });
+    }
+  });
+
+  app.delete("/api/installment-groups/:id", protect, async (req, res) => {
+    console.log(`[DELETE /api/installment-groups/${req.params.id}] Início da requisição`);
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid installment group ID" });
+      }
+
+      const group = await storage.getInstallmentGroupById(id, userId);
+      if (!group) {
+        return res.status(404).json({ message: "Installment group not found" });
+      }
+
+      await storage.cancelInstallmentGroup(id, userId);
+      return res.json({ success: true });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/installment-groups/:id] Erro ao cancelar parcelamento:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to cancel installment group" });
+    }
+  });
+
+  app.put("/api/transactions/:id", protect, async (req, res) => {
+    console.log(`[PUT /api/transactions/${req.params.id}] Início da requisição`);
+    console.log(`[PUT /api/transactions/${req.params.id}] Received body:`, JSON.stringify(req.body, null, 2));
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        console.error(`[PUT /api/transactions/${req.params.id}] Invalid ID received: ${req.params.id}`);
+        return res.status(400).json({ message: "Invalid transaction ID format" });
+      }
+
+      const validatedData = updateTransactionSchema.parse(req.body);
+      console.log(`[PUT /api/transactions/${req.params.id}] Validated data:`, JSON.stringify(validatedData, null, 2));
+      // Escopo para ocorrências recorrentes: "this" (padrão), "future" ou "all"
+      const scope = recurrenceScopeSchema.parse(req.query.scope);
+      const recurrence = req.body.recurrence ? recurrenceInputSchema.parse(req.body.recurrence) : undefined;
+      if (recurrence && scope !== 'future') {
+        return res.status(400).json({
+          message: "Invalid data",
+          errors: { recurrence: ["Alterações no padrão de recorrência exigem o escopo 'future'"] },
+        });
+      }
+
+      const userId = getUserIdFromRequest(req);
+      const existing = await storage.getTransactionById(id, userId);
+      if (!existing) {
+        console.log(`[PUT /api/transactions/${req.params.id}] Transaction with ID ${id} not found for update.`);
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      const invalidAccountField = await findInvalidAccountField(userId, validatedData);
+      if (invalidAccountField) {
+        console.log(`[PUT /api/transactions/${req.params.id}] Fim da requisição com conta inválida`);
+        return res.status(400).json({ message: "Invalid data", errors: { [invalidAccountField]: ["Conta inválida"] } });
+      }
+      if (await isInvalidCategory(userId, validatedData.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+      }
+      const nextAccountId = validatedData.accountId ?? existing.accountId;
+      const nextDestinationId = validatedData.destinationAccountId !== undefined ? validatedData.destinationAccountId : existing.destinationAccountId;
+      if ((validatedData.type ?? existing.type) === 'transfer' && (!nextDestinationId || nextDestinationId === nextAccountId)) {
+        return res.status(400).json({
+          message: "Invalid data",
+          errors: { destinationAccountId: ["Informe uma conta de destino diferente da conta de origem"] },
+        });
+      }
+
+      const transaction = await storage.updateRecurringTransaction(id, userId, validatedData, scope, recurrence);
+      
+      if (!transaction) {
+        console.log(`[PUT /api/transactions/${req.params.id}] Transaction with ID ${id} not found for update.`);
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      console.log(`[PUT /api/transactions/${req.params.id}] Transação atualizada com sucesso: ${transaction}`);
+      console.log(`[PUT /api/transactions/${req.params.id}] Fim da requisição`);
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error(`[PUT /api/transactions/${req.params.id}] Zod validation error:`, JSON.stringify(error.errors, null, 2));
+        console.log(`[PUT /api/transactions/${req.params.id}] Fim da requisição com erro de validação`);
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        const err = error as Error;
+        console.error(`[PUT /api/transactions/${req.params.id}] Error updating transaction:`, err.message, err.stack);
+        console.log(`[PUT /api/transactions/${req.params.id}] Fim da requisição com erro`);
+        res.status(500).json({ 
+          message: "Failed to update transaction",
+          error: process.env.NODE_ENV === 'development' ? err.message : undefined
+        });
+      }
+    }
+  });
+
+  app.delete("/api/transactions/:id", protect, async (req, res) => {
+    console.log(`[DELETE /api/transactions/${req.params.id}] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID format" });
+      }
+      const userId = getUserIdFromRequest(req);
+      const scope = recurrenceScopeSchema.parse(req.query.scope);
+      const success = await storage.deleteRecurringTransaction(id, userId, scope);
+      
+      if (!success) {
+        console.log(`[DELETE /api/transactions/${req.params.id}] Transação com ID ${id} não encontrada para exclusão.`);
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      console.log(`[DELETE /api/transactions/${req.params.id}] Transação excluída com sucesso.`);
+      console.log(`[DELETE /api/transactions/${req.params.id}] Fim da requisição`);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      console.log(`[DELETE /api/transactions/${req.params.id}] Fim da requisição com erro`);
+      res.status(500).json({ message: "Failed to delete transaction" });
+    }
+  });
+
+  // Anexos (comprovantes, boletos) das transações. O arquivo é servido por /content com o tipo gravado no upload.
+  app.get("/api/transactions/:id/attachments", protect, async (req, res) => {
+    console.log(`[GET /api/transactions/${req.params.id}/attachments] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID format" });
+      }
+      const transaction = await storage.getTransactionById(id, getUserIdFromRequest(req));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const attachments = await storage.getTransactionAttachments(id);
+      res.json(attachments.map(serializeAttachment));
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GET /api/transactions/${req.params.id}/attachments] Erro ao listar anexos:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/transactions/:id/attachments", protect, async (req, res) => {
+    console.log(`[POST /api/transactions/${req.params.id}/attachments] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid transaction ID format" });
+      }
+      const userId = getUserIdFromRequest(req);
+      const transaction = await storage.getTransactionById(id, userId);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const { fileName, mimeType, content } = uploadAttachmentSchema.parse(req.body);
+      const existing = await storage.getTransactionAttachments(id);
+      if (existing.length >= ATTACHMENT_MAX_PER_TRANSACTION) {
+        return res.status(400).json({
+          message: "Invalid data",
+          errors: { content: [`Limite de ${ATTACHMENT_MAX_PER_TRANSACTION} anexos por transação atingido`] },
+        });
+      }
+
+      const buffer = Buffer.from(content, "base64");
+      if (!matchesFileSignature(buffer, mimeType)) {
+        return res.status(400).json({ message: "Invalid data", errors: { content: ["O conteúdo não corresponde ao tipo do arquivo"] } });
+      }
+      const storageKey = await fileStore.put(buffer, ATTACHMENT_EXTENSIONS[mimeType]);
+      try {
+        const attachment = await storage.createTransactionAttachment({
+          transactionId: id,
+          userId,
+          fileName,
+          mimeType,
+          size: buffer.length,
+          storageKey,
+          createdBy: getMemberIdFromRequest(req),
+        });
+        console.log(`[POST /api/transactions/${req.params.id}/attachments] Anexo ${attachment.id} criado (${buffer.length} bytes)`);
+        res.status(201).json(serializeAttachment(attachment));
+      } catch (error) {
+        // Sem o registro, o arquivo gravado ficaria órfão
+        await fileStore.delete(storageKey).catch(() => {});
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error(`[POST /api/transactions/${req.params.id}/attachments] Erro ao anexar arquivo:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to upload attachment" });
+    }
+  });
+
+  app.get("/api/transactions/:id/attachments/:attachmentId/content", protect, async (req, res) => {
+    console.log(`[GET /api/transactions/${req.params.id}/attachments/${req.params.attachmentId}/content] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      const attachmentId = parseInt(req.params.attachmentId);
+      if (isNaN(id) || isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      const transaction = await storage.getTransactionById(id, getUserIdFromRequest(req));
+      const attachment = transaction && await storage.getTransactionAttachmentById(attachmentId, id);
+      const content = attachment && await fileStore.get(attachment.storageKey);
+      if (!attachment || !content) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res.setHeader("Content-Type", attachment.mimeType);
+      res.setHeader("Content-Length", content.length);
+      res.setHeader("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.end(content);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GET /api/transactions/${req.params.id}/attachments/${req.params.attachmentId}/content] Erro ao ler anexo:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch attachment" });
+    }
+  });
+
+  app.delete("/api/transactions/:id/attachments/:attachmentId", protect, async (req, res) => {
+    console.log(`[DELETE /api/transactions/${req.params.id}/attachments/${req.params.attachmentId}] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      const attachmentId = parseInt(req.params.attachmentId);
+      if (isNaN(id) || isNaN(attachmentId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      const transaction = await storage.getTransactionById(id, getUserIdFromRequest(req));
+      const deleted = transaction && await storage.deleteTransactionAttachment(attachmentId, id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[DELETE /api/transactions/${req.params.id}/attachments/${req.params.attachmentId}] Erro ao excluir anexo:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Goals routes
+  app.get("/api/goals", protect, async (req, res) => {
+    console.log("[GET /api/goals] Início da requisição");
+    try {
+      const parsed = goalListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten().fieldErrors });
+      }
+      const userId = getUserIdFromRequest(req);
+      console.log(`[GET /api/goals] Fetching goals for user ID: ${userId}`);
+      const goals = await storage.getGoals(userId, parsed.data);
+      console.log(`[GET /api/goals] Successfully fetched ${goals.length} goals`);
+      console.log(`[GET /api/goals] Fim da requisição`);
+      if (goals.length > 0) {
+        console.log('[GET /api/goals] Exemplo de meta:', JSON.stringify(goals[0], null, 2));
+      }
+      res.json(goals);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GET /api/goals] Error fetching goals:`, err.message, err.stack);
+      console.log(`[GET /api/goals] Fim da requisição com erro`);
+      res.status(500).json({ 
+        message: "Failed to fetch goals",
+        error: process.env.NODE_ENV === 'development' ? err.message : undefined
+      });
+    }
+  });
+
+  app.post("/api/goals", protect, async (req, res) => {
+    console.log("[POST /api/goals] Início da requisição");
+    console.log(`[POST /api/goals] Received body:`, JSON.stringify(req.body, null, 2));
+    try {
+      const userId = getUserIdFromRequest(req);
+      const validatedData = insertGoalSchema.parse({
+        ...req.body,
+        userId: userId
+      });
+      console.log(`[POST /api/goals] Usando ID de usuário: ${userId}`);
+      console.log(`[POST /api/goals] Validated data:`, JSON.stringify(validatedData, null, 2));
+
+      const goal = await storage.createGoal(validatedData);
+      console.log(`[POST /api/goals] Meta criada com sucesso: ${goal}`);
+      console.log("[POST /api/goals] Fim da requisição");
+      res.json(goal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error(`[POST /api/goals] Zod validation error:`, JSON.stringify(error.errors, null, 2));
+        console.log("[POST /api/goals] Fim da requisição com erro de validação");
+        res.status(400).json({ 
+          message: "Invalid data", 
+          errors: error.errors 
+        });
+      } else {
+        const err = error as Error;
+        console.error('[POST /api/goals] Error creating goal:', err.message, err.stack);
+        console.log("[POST /api/goals] Fim da requisição com erro");
+        res.status(500).json({ 
+          message: "Failed to create goal",
+          error: process.env.NODE_ENV === 'development' ? err.message : undefined
+        });
+      }
+    }
+  });
+
+  app.put("/api/goals/:id", protect, async (req, res) => {
+    console.log(`[PUT /api/goals/${req.params.id}] Início da requisição`);
+    console.log(`[PUT /api/goals/${req.params.id}] Received body:`, JSON.stringify(req.body, null, 2));
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        console.error(`[PUT /api/goals/${req.params.id}] Invalid ID received: ${req.params.id}`);
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+
+      const userId = getUserIdFromRequest(req);
+      const validatedData = updateGoalSchema.parse(req.body);
+      console.log(`[PUT /api/goals/${req.params.id}] Validated data:`, JSON.stringify(validatedData, null, 2));
+
+      const goal = await storage.updateGoal(id, userId, validatedData);
       
       if (!goal) {
         console.log(`[PUT /api/goals/${req.params.id}] Goal with ID ${id} not found for update.`);
@@ -646,41 +1738,584 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(goal);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        console.error(`[PUT /api/goals/${req.params.id}] Zod validation error:`, JSON.stringify(error.errors, null, 2));
-        console.log(`[PUT /api/goals/${req.params.id}] Fim da requisição com erro de validação`);
-        res.status(400).json({ 
-          message: "Invalid data", 
-          errors: error.errors 
-        });
-      } else {
-        const err = error as Error;
-        console.error(`[PUT /api/goals/${req.params.id}] Error updating goal:`, err.message, err.stack);
-        console.log(`[PUT /api/goals/${req.params.id}] Fim da requisição com erro`);
-        res.status(500).json({ 
-          message: "Failed to update goal",
-          error: process.env.NODE_ENV === 'development' ? err.message : undefined
-        });
+        console.error(`[PUT /api/goals/${req.params.id}] Zod validation error:`, JSON.stringify(error.errors, null, 2));
+        console.log(`[PUT /api/goals/${req.params.id}] Fim da requisição com erro de validação`);
+        res.status(400).json({ 
+          message: "Invalid data", 
+          errors: error.errors 
+        });
+      } else {
+        const err = error as Error;
+        console.error(`[PUT /api/goals/${req.params.id}] Error updating goal:`, err.message, err.stack);
+        console.log(`[PUT /api/goals/${req.params.id}] Fim da requisição com erro`);
+        res.status(500).json({ 
+          message: "Failed to update goal",
+          error: process.env.NODE_ENV === 'development' ? err.message : undefined
+        });
+      }
+    }
+  });
+
+  app.delete("/api/goals/:id", protect, async (req, res) => {
+    console.log(`[DELETE /api/goals/${req.params.id}] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+      const userId = getUserIdFromRequest(req);
+      const existing = await storage.getGoalById(id, userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      // Metas alcançadas guardam o histórico: são arquivadas em vez de excluídas
+      if (existing.status === 'achieved') {
+        return res.status(409).json({ message: "Achieved goals are archived instead of deleted" });
+      }
+      const success = await storage.deleteGoal(id, userId);
+      
+      if (!success) {
+        console.log(`[DELETE /api/goals/${req.params.id}] Meta com ID ${id} não encontrada para exclusão.`);
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      
+      console.log(`[DELETE /api/goals/${req.params.id}] Meta excluída com sucesso.`);
+      console.log(`[DELETE /api/goals/${req.params.id}] Fim da requisição`);
+      res.json({ success: true });
+    } catch (error) {
+      console.log(`[DELETE /api/goals/${req.params.id}] Fim da requisição com erro`);
+      res.status(500).json({ message: "Failed to delete goal" });
+    }
+  });
+
+  // Arquivar tira a meta da lista e do painel sem apagar movimentações e marcos; restaurar desfaz
+  const setGoalArchived = (archived: boolean) => async (req: Request, res: Response) => {
+    const route = `[POST /api/goals/${req.params.id}/${archived ? 'archive' : 'restore'}]`;
+    console.log(`${route} Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+      const goal = await storage.archiveGoal(id, getUserIdFromRequest(req), archived);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      res.json(goal);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`${route} Erro ao ${archived ? 'arquivar' : 'restaurar'} meta:`, err.message, err.stack);
+      res.status(500).json({ message: archived ? "Failed to archive goal" : "Failed to restore goal" });
+    }
+  };
+  app.post("/api/goals/:id/archive", protect, setGoalArchived(true));
+  app.post("/api/goals/:id/restore", protect, setGoalArchived(false));
+
+  // Marcos da meta, com o valor em reais que cada um representa
+  app.get("/api/goals/:id/milestones", protect, async (req, res) => {
+    console.log(`[GET /api/goals/${req.params.id}/milestones] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+      const goal = await storage.getGoalById(id, getUserIdFromRequest(req));
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      const milestones = await storage.getGoalMilestones(id);
+      res.json(milestones.map((milestone) => ({ ...milestone, amount: milestoneAmount(milestone, parseFloat(goal.targetAmount)) })));
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GET /api/goals/${req.params.id}/milestones] Erro ao buscar marcos:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch goal milestones" });
+    }
+  });
+
+  app.put("/api/goals/:id/milestones", protect, async (req, res) => {
+    console.log(`[PUT /api/goals/${req.params.id}/milestones] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+      const { milestones } = goalMilestonesSchema.parse(req.body);
+      const userId = getUserIdFromRequest(req);
+      const saved = await storage.setGoalMilestones(id, userId, milestones);
+      if (!saved) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      const goal = await storage.getGoalById(id, userId);
+      res.json(saved.map((milestone) => ({ ...milestone, amount: milestoneAmount(milestone, parseFloat(goal?.targetAmount ?? '0')) })));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error(`[PUT /api/goals/${req.params.id}/milestones] Erro ao salvar marcos:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to save goal milestones" });
+    }
+  });
+
+  // Estimativa de quando a meta será alcançada e aporte necessário para cumprir a data alvo
+  app.get("/api/goals/:id/projection", protect, async (req, res) => {
+    console.log(`[GET /api/goals/${req.params.id}/projection] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+      const parsed = goalProjectionQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data", errors: parsed.error.flatten().fieldErrors });
+      }
+      const goal = await storage.getGoalById(id, getUserIdFromRequest(req));
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      res.json(projectGoal(goal, parsed.data));
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GET /api/goals/${req.params.id}/projection] Erro ao calcular projeção:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to project goal" });
+    }
+  });
+
+  // Movimentações da meta (depósitos e retiradas) e o ritmo em relação ao aporte mensal planejado
+  app.get("/api/goals/:id/contributions", protect, async (req, res) => {
+    console.log(`[GET /api/goals/${req.params.id}/contributions] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+      const goal = await storage.getGoalById(id, getUserIdFromRequest(req));
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      const contributions = await storage.getGoalContributions(id);
+      res.json({ contributions, pace: getGoalPace(goal, contributions) });
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GET /api/goals/${req.params.id}/contributions] Erro ao buscar movimentações:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch goal contributions" });
+    }
+  });
+
+  app.post("/api/goals/:id/contributions", protect, async (req, res) => {
+    console.log(`[POST /api/goals/${req.params.id}/contributions] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid goal ID format" });
+      }
+      const userId = getUserIdFromRequest(req);
+      const validatedData = insertGoalContributionSchema.parse(req.body);
+      const invalidAccount = await findInvalidAccountField(userId, {
+        accountId: validatedData.accountId,
+        destinationAccountId: validatedData.reserveAccountId,
+      });
+      if (invalidAccount) {
+        const field = invalidAccount === 'accountId' ? 'accountId' : 'reserveAccountId';
+        return res.status(400).json({ message: "Invalid data", errors: { [field]: ["Conta inválida"] } });
+      }
+
+      const result = await storage.addGoalContribution(id, userId, validatedData, getMemberIdFromRequest(req));
+      if (!result) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      console.log(`[POST /api/goals/${req.params.id}/contributions] Movimentação ${result.contribution.id} registrada`);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      if (error instanceof GoalContributionError) {
+        return res.status(400).json({ message: error.message, errors: { amount: [error.message] } });
+      }
+      const err = error as Error;
+      console.error(`[POST /api/goals/${req.params.id}/contributions] Erro ao registrar movimentação:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to add goal contribution" });
+    }
+  });
+
+  app.delete("/api/goals/:id/contributions/:contributionId", protect, async (req, res) => {
+    console.log(`[DELETE /api/goals/${req.params.id}/contributions/${req.params.contributionId}] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      const contributionId = parseInt(req.params.contributionId);
+      if (isNaN(id) || isNaN(contributionId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      const goal = await storage.deleteGoalContribution(contributionId, id, getUserIdFromRequest(req));
+      if (!goal) {
+        return res.status(404).json({ message: "Goal contribution not found" });
+      }
+      res.json(goal);
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[DELETE /api/goals/${req.params.id}/contributions/${req.params.contributionId}] Erro ao excluir movimentação:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to delete goal contribution" });
+    }
+  });
+
+  // =================================================================
+  // IMPORT ROUTES (OFX / CSV)
+  // =================================================================
+
+  // Lê o arquivo e devolve a pré-visualização com as possíveis duplicatas; nada é gravado
+  app.post("/api/import", protect, async (req, res) => {
+    console.log("[POST /api/import] Início da requisição");
+    try {
+      const userId = getUserIdFromRequest(req);
+      const validatedData = importPreviewSchema.parse(req.body);
+
+      const invalidAccountField = await findInvalidAccountField(userId, validatedData);
+      if (invalidAccountField) {
+        return res.status(400).json({ message: "Invalid data", errors: { [invalidAccountField]: ["Conta inválida"] } });
+      }
+
+      let rows;
+      if (validatedData.format === "ofx") {
+        rows = parseOfx(validatedData.content);
+      } else {
+        const layout = validatedData.csvLayout ?? CSV_LAYOUTS[validatedData.layout ?? ""];
+        if (!layout) {
+          return res.status(400).json({ message: "Invalid data", errors: { layout: ["Layout de CSV desconhecido"] } });
+        }
+        rows = parseCsv(validatedData.content, layout);
+      }
+
+      const preview = await storage.previewImport(userId, validatedData.accountId, rows);
+      console.log(`[POST /api/import] ${preview.length} linhas lidas, ${preview.filter((row) => row.duplicateOf).length} possíveis duplicatas`);
+      return res.json({ rows: preview });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      if (error instanceof ImportParseError) {
+        return res.status(400).json({ message: error.message, errors: { content: [error.message] } });
+      }
+      const err = error as Error;
+      console.error("[POST /api/import] Erro ao ler arquivo:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to read import file" });
+    }
+  });
+
+  // Grava as linhas confirmadas na pré-visualização como um lote
+  app.post("/api/import/confirm", protect, async (req, res) => {
+    console.log("[POST /api/import/confirm] Início da requisição");
+    try {
+      const userId = getUserIdFromRequest(req);
+      const validatedData = confirmImportSchema.parse(req.body);
+
+      const invalidAccountField = await findInvalidAccountField(userId, validatedData);
+      if (invalidAccountField) {
+        return res.status(400).json({ message: "Invalid data", errors: { [invalidAccountField]: ["Conta inválida"] } });
+      }
+      // Linhas sem categoria recebem a das regras do usuário
+      const uncategorized = validatedData.rows.filter((row) => !row.categoryId);
+      const ruleCategories = await storage.categorizeByRules(userId, uncategorized);
+      uncategorized.forEach((row, index) => {
+        row.categoryId = ruleCategories[index];
+      });
+      if (validatedData.rows.some((row) => !row.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria é obrigatória"] } });
+      }
+      const userCategoryIds = new Set((await storage.getCategories(userId)).map((category) => category.id));
+      if (validatedData.rows.some((row) => !userCategoryIds.has(row.categoryId!))) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+      }
+
+      const result = await storage.commitImport(userId, validatedData, getMemberIdFromRequest(req));
+      console.log(`[POST /api/import/confirm] Lote ${result.batch.id} importado com ${result.transactions.length} transações`);
+      return res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/import/confirm] Erro ao importar:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to import transactions" });
+    }
+  });
+
+  app.get("/api/import/batches", protect, async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const batches = await storage.getImportBatches(userId);
+      return res.json(batches);
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/import/batches] Erro ao buscar importações:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to fetch import batches" });
+    }
+  });
+
+  // Desfaz a importação inteira
+  app.delete("/api/import/batches/:id", protect, async (req, res) => {
+    console.log(`[DELETE /api/import/batches/${req.params.id}] Início da requisição`);
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid import batch ID" });
+      }
+
+      const batch = await storage.getImportBatchById(id, userId);
+      if (!batch) {
+        return res.status(404).json({ message: "Import batch not found" });
+      }
+      if (batch.status === "undone") {
+        return res.status(409).json({ message: "Import batch already undone" });
+      }
+
+      await storage.undoImportBatch(id, userId);
+      return res.json({ success: true });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/import/batches/:id] Erro ao desfazer importação:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to undo import batch" });
+    }
+  });
+
+  // =================================================================
+  // CATEGORIZATION RULES ROUTES
+  // =================================================================
+
+  app.get("/api/categorization-rules", protect, async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const rules = await storage.getCategorizationRules(userId);
+      return res.json(rules);
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/categorization-rules] Erro ao buscar regras:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to fetch categorization rules" });
+    }
+  });
+
+  // Regras sugeridas a partir das categorias escolhidas manualmente
+  app.get("/api/categorization-rules/suggestions", protect, async (req, res) => {
+    try {
+      const userId = getUserIdFromRequest(req);
+      const suggestions = await storage.suggestCategorizationRules(userId);
+      return res.json(suggestions);
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/categorization-rules/suggestions] Erro ao sugerir regras:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to suggest categorization rules" });
+    }
+  });
+
+  app.post("/api/categorization-rules", protect, async (req, res) => {
+    console.log("[POST /api/categorization-rules] Início da requisição");
+    try {
+      const userId = getUserIdFromRequest(req);
+      const validatedData = insertCategorizationRuleSchema.parse({ ...req.body, userId });
+
+      const userCategories = await storage.getCategories(userId);
+      if (!userCategories.some((category) => category.id === validatedData.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+      }
+
+      const rule = await storage.createCategorizationRule(validatedData);
+      return res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/categorization-rules] Erro ao criar regra:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to create categorization rule" });
+    }
+  });
+
+  // Reaplica as regras (ou só a regra ruleId) às transações existentes; ver applyCategorizationRulesSchema
+  app.post("/api/categorization-rules/apply", protect, async (req, res) => {
+    console.log("[POST /api/categorization-rules/apply] Início da requisição");
+    try {
+      const userId = getUserIdFromRequest(req);
+      const options = applyCategorizationRulesSchema.parse(req.body ?? {});
+      if (options.ruleId !== undefined && !(await storage.getCategorizationRuleById(options.ruleId, userId))) {
+        return res.status(404).json({ message: "Categorization rule not found" });
+      }
+
+      const updated = await storage.applyCategorizationRules(userId, options);
+      console.log(`[POST /api/categorization-rules/apply] ${updated} transações ${options.dryRun ? "seriam recategorizadas" : "recategorizadas"}`);
+      return res.json({ updated, dryRun: options.dryRun });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/categorization-rules/apply] Erro ao aplicar regras:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to apply categorization rules" });
+    }
+  });
+
+  app.put("/api/categorization-rules/:id", protect, async (req, res) => {
+    console.log(`[PUT /api/categorization-rules/${req.params.id}] Início da requisição`);
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid categorization rule ID" });
+      }
+
+      const rule = await storage.getCategorizationRuleById(id, userId);
+      if (!rule) {
+        return res.status(404).json({ message: "Categorization rule not found" });
+      }
+
+      const validatedData = updateCategorizationRuleSchema.parse(req.body);
+      if (validatedData.categoryId !== undefined) {
+        const userCategories = await storage.getCategories(userId);
+        if (!userCategories.some((category) => category.id === validatedData.categoryId)) {
+          return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+        }
+      }
+      const merged = { ...rule, ...validatedData };
+      if (!merged.descriptionContains && !merged.amountEquals) {
+        return res.status(400).json({ message: "Invalid data", errors: { descriptionContains: ["Informe ao menos uma condição (descrição ou valor)"] } });
+      }
+
+      const updated = await storage.updateCategorizationRule(id, userId, validatedData);
+      return res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[PUT /api/categorization-rules/:id] Erro ao atualizar regra:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to update categorization rule" });
+    }
+  });
+
+  app.delete("/api/categorization-rules/:id", protect, async (req, res) => {
+    console.log(`[DELETE /api/categorization-rules/${req.params.id}] Início da requisição`);
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid categorization rule ID" });
+      }
+
+      const rule = await storage.getCategorizationRuleById(id, userId);
+      if (!rule) {
+        return res.status(404).json({ message: "Categorization rule not found" });
+      }
+
+      await storage.deleteCategorizationRule(id, userId);
+      return res.json({ success: true });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/categorization-rules/:id] Erro ao excluir regra:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to delete categorization rule" });
+    }
+  });
+
+  // Budgets routes
+  // ?month=YYYY-MM (padrão: mês corrente) — retorna planejado x gasto de cada orçamento no mês
+  app.get("/api/budgets", protect, async (req, res) => {
+    console.log("[GET /api/budgets] Início da requisição");
+    try {
+      const userId = getUserIdFromRequest(req);
+      const now = new Date();
+      let year = now.getUTCFullYear();
+      let month = now.getUTCMonth() + 1;
+      if (req.query.month !== undefined) {
+        const match = /^(\d{4})-(\d{2})$/.exec(String(req.query.month));
+        if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+          return res.status(400).json({ message: "Invalid month, expected YYYY-MM" });
+        }
+        year = Number(match[1]);
+        month = Number(match[2]);
+      }
+      const summaries = await storage.getBudgetSummaries(userId, year, month);
+      return res.json(summaries);
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/budgets] Erro ao buscar orçamentos:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to fetch budgets" });
+    }
+  });
+
+  app.post("/api/budgets", protect, async (req, res) => {
+    console.log("[POST /api/budgets] Início da requisição");
+    try {
+      const userId = getUserIdFromRequest(req);
+      const validatedData = insertBudgetSchema.parse({ ...req.body, userId });
+
+      // Apenas categorias de despesa do próprio usuário, com um orçamento por categoria
+      const expenseCategories = await storage.getCategoriesByType(userId, "expense");
+      if (!expenseCategories.some((category) => category.id === validatedData.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Categoria inválida"] } });
+      }
+      const existing = await storage.getBudgets(userId);
+      if (existing.some((budget) => budget.categoryId === validatedData.categoryId)) {
+        return res.status(400).json({ message: "Invalid data", errors: { categoryId: ["Esta categoria já possui orçamento"] } });
+      }
+
+      const budget = await storage.createBudget(validatedData);
+      return res.status(201).json(budget);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/budgets] Erro ao criar orçamento:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to create budget" });
+    }
+  });
+
+  app.put("/api/budgets/:id", protect, async (req, res) => {
+    console.log(`[PUT /api/budgets/${req.params.id}] Início da requisição`);
+    try {
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid budget ID" });
+      }
+
+      const budget = await storage.getBudgetById(id, userId);
+      if (!budget) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+
+      const validatedData = updateBudgetSchema.parse(req.body);
+      const updated = await storage.updateBudget(id, userId, validatedData);
+      return res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
       }
+      const err = error as Error;
+      console.error("[PUT /api/budgets/:id] Erro ao atualizar orçamento:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to update budget" });
     }
   });
 
-  app.delete("/api/goals/:id", async (req, res) => {
-    console.log(`[DELETE /api/goals/${req.params.id}] Início da requisição`);
+  app.delete("/api/budgets/:id", protect, async (req, res) => {
+    console.log(`[DELETE /api/budgets/${req.params.id}] Início da requisição`);
     try {
-      const id = parseInt(req.params.id);
-      const success = await storage.deleteGoal(id);
-      
-      if (!success) {
-        console.log(`[DELETE /api/goals/${req.params.id}] Meta com ID ${id} não encontrada para exclusão.`);
-        return res.status(404).json({ message: "Goal not found" });
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid budget ID" });
       }
-      
-      console.log(`[DELETE /api/goals/${req.params.id}] Meta excluída com sucesso.`);
-      console.log(`[DELETE /api/goals/${req.params.id}] Fim da requisição`);
-      res.json({ success: true });
+
+      const budget = await storage.getBudgetById(id, userId);
+      if (!budget) {
+        return res.status(404).json({ message: "Budget not found" });
+      }
+
+      await storage.deleteBudget(id, userId);
+      return res.json({ success: true });
     } catch (error) {
-      console.log(`[DELETE /api/goals/${req.params.id}] Fim da requisição com erro`);
-      res.status(500).json({ message: "Failed to delete goal" });
+      const err = error as Error;
+      console.error("[DELETE /api/budgets/:id] Erro ao excluir orçamento:", err.message, err.stack);
+      return res.status(500).json({ message: "Failed to delete budget" });
     }
   });
 
@@ -690,7 +2325,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = getUserIdFromRequest(req);
       console.log(`[GET /api/investments] Fetching investments for user ID: ${userId}`);
-      const investments = await storage.getInvestments(userId);
+      const investments = await valueInvestments(await storage.getInvestments(userId));
       console.log(`[GET /api/investments] Retornando ${investments.length} investimentos`);
       console.log(`[GET /api/investments] Fim da requisição`);
       if (investments.length > 0) {
@@ -728,7 +2363,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/investments/:id", async (req, res) => {
+  app.delete("/api/investments/:id", protect, async (req, res) => {
     console.log(`[DELETE /api/investments/${req.params.id}] Início da requisição`);
     try {
       const id = parseInt(req.params.id);
@@ -737,7 +2372,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid investment ID format" });
       }
 
-      const success = await storage.deleteInvestment(id); 
+      const userId = getUserIdFromRequest(req);
+      const success = await storage.deleteInvestment(id, userId);
       
       if (!success) {
         console.log(`[DELETE /api/investments/${req.params.id}] Investimento com ID ${id} não encontrado ou falha ao excluir.`);
@@ -758,7 +2394,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
-  app.put("/api/investments/:id", async (req, res) => {
+  app.put("/api/investments/:id", protect, async (req, res) => {
     console.log(`[PUT /api/investments/${req.params.id}] Início da requisição`);
     console.log(`[PUT /api/investments/${req.params.id}] Received body:`, JSON.stringify(req.body, null, 2));
     try {
@@ -771,7 +2407,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = updateInvestmentSchema.parse(req.body);
       console.log(`[PUT /api/investments/${req.params.id}] Validated data:`, JSON.stringify(validatedData, null, 2));
       
-      const updatedInvestment = await storage.updateInvestment(id, validatedData);
+      const userId = getUserIdFromRequest(req);
+      const updatedInvestment = await storage.updateInvestment(id, userId, validatedData);
 
       if (!updatedInvestment) {
         console.log(`[PUT /api/investments/${req.params.id}] Investment with ID ${id} not found for update.`);
@@ -797,6 +2434,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Extrato do investimento: movimentações com a posição e o custo depois de cada uma, e o resumo
+  app.get("/api/investments/:id/movements", protect, async (req, res) => {
+    console.log(`[GET /api/investments/${req.params.id}/movements] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid investment ID format" });
+      }
+      const investment = await storage.getInvestmentById(id, getUserIdFromRequest(req));
+      if (!investment) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+      const [movements, series] = await Promise.all([storage.getInvestmentMovements(id), loadIndexSeries()]);
+      const { entries, summary } = buildInvestmentStatement(movements);
+      res.json({
+        movements: entries,
+        summary: movements.length > 0 ? summary : summarizeLegacyInvestment(investment),
+        valuation: valueInvestment(investment, movements, series),
+      });
+    } catch (error) {
+      const err = error as Error;
+      console.error(`[GET /api/investments/${req.params.id}/movements] Erro ao buscar movimentações:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch investment movements" });
+    }
+  });
+
+  app.post("/api/investments/:id/movements", protect, async (req, res) => {
+    console.log(`[POST /api/investments/${req.params.id}/movements] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid investment ID format" });
+      }
+      const validatedData = insertInvestmentMovementSchema.parse(req.body);
+      const result = await storage.addInvestmentMovement(id, getUserIdFromRequest(req), validatedData, getMemberIdFromRequest(req));
+      if (!result) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+      console.log(`[POST /api/investments/${req.params.id}/movements] Movimentação ${result.movement.id} registrada`);
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      if (error instanceof InvestmentMovementError) {
+        return res.status(400).json({ message: error.message, errors: { amount: [error.message] } });
+      }
+      const err = error as Error;
+      console.error(`[POST /api/investments/${req.params.id}/movements] Erro ao registrar movimentação:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to add investment movement" });
+    }
+  });
+
+  app.delete("/api/investments/:id/movements/:movementId", protect, async (req, res) => {
+    console.log(`[DELETE /api/investments/${req.params.id}/movements/${req.params.movementId}] Início da requisição`);
+    try {
+      const id = parseInt(req.params.id);
+      const movementId = parseInt(req.params.movementId);
+      if (isNaN(id) || isNaN(movementId)) {
+        return res.status(400).json({ message: "Invalid ID format" });
+      }
+      const investment = await storage.deleteInvestmentMovement(movementId, id, getUserIdFromRequest(req));
+      if (!investment) {
+        return res.status(404).json({ message: "Investment movement not found" });
+      }
+      res.json(investment);
+    } catch (error) {
+      // A exclusão deixaria um resgate ou taxa posterior sem posição
+      if (error instanceof InvestmentMovementError) {
+        return res.status(409).json({ message: error.message });
+      }
+      const err = error as Error;
+      console.error(`[DELETE /api/investments/${req.params.id}/movements/${req.params.movementId}] Erro ao excluir movimentação:`, err.message, err.stack);
+      res.status(500).json({ message: "Failed to delete investment movement" });
+    }
+  });
+
   // Alerts routes
   app.get("/api/alerts", protect, async (req, res) => {
     console.log("[GET /api/alerts] Início da requisição");
@@ -815,7 +2529,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`[GET /api/alerts] Fim da requisição`);
       for (const alert of alerts) {
         if (alert.referenceType === 'transaction' && alert.referenceId !== null) {
-          const transaction = await storage.getTransactionById(alert.referenceId);
+          const transaction = await storage.getTransactionById(alert.referenceId, userId);
           if (transaction && transaction.dueDate) {
             // A mensagem do alerta já é definida em storage.ts e inclui a descrição.
             // A linha abaixo foi removida para evitar sobrescrever a mensagem detalhada:
@@ -860,7 +2574,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`[PUT /api/alerts/${req.params.id}/read] Início da requisição`);
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.markAlertAsRead(id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid alert ID format" });
+      }
+      const userId = getUserIdFromRequest(req);
+      const success = await storage.markAlertAsRead(id, userId);
       
       if (!success) {
         console.log(`[PUT /api/alerts/${req.params.id}/read] Alerta com ID ${id} não encontrado.`);
@@ -889,7 +2607,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid alert ID format" });
       }
 
-      const success = await storage.deleteAlert(id);
+      const userId = getUserIdFromRequest(req);
+      const success = await storage.deleteAlert(id, userId);
 
       if (!success) {
         console.log(`[DELETE /api/alerts/${req.params.id}] Alerta com ID ${id} não encontrado ou falha ao excluir.`);
@@ -920,8 +2639,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = getUserIdFromRequest(req);
       console.log(`[GET /api/reports/charts] Usando ID de usuário: ${userId}`);
       
-      // Obter todas as transações do usuário
-      const allTransactions = await storage.getTransactions(userId);
+      // Obter todas as transações do usuário (ou só as lançadas pelo membro filtrado)
+      const allTransactions = filterByMember(req, await storage.getTransactions(userId));
       console.log(`[GET /api/reports/charts] Fetched ${allTransactions.length} transactions.`);
       console.log('[GET /api/reports/charts] First transaction sample:', allTransactions.length > 0 ? JSON.stringify(allTransactions[0]) : 'No transactions');
 
@@ -1067,10 +2786,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const limitParam = parseInt((req.query?.limit as string) || "");
       const limit = Number.isFinite(limitParam) && limitParam > 0 ? limitParam : undefined;
 
-      const [allTransactions, allCategories] = await Promise.all([
+      const [userTransactions, allCategories] = await Promise.all([
         storage.getTransactions(userId),
         storage.getCategories(userId),
       ]);
+      const allTransactions = filterByMember(req, userTransactions);
 
       if (!allTransactions || allTransactions.length === 0) {
         return res.json({ items: [], hasData: false });
@@ -1154,11 +2874,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`[GET /api/dashboard/summary] Usando ID de usuário: ${userId}`);
       
       console.log('[GET /api/dashboard/summary] Fetching monthly transactions...');
-      const monthlyTransactions = await storage.getTransactionsByDateRange(userId, new Date(startOfMonth), new Date(endOfMonth));
+      const monthlyTransactions = filterByMember(req, await storage.getTransactionsByDateRange(userId, new Date(startOfMonth), new Date(endOfMonth)));
       console.log(`[GET /api/dashboard/summary] Fetched ${monthlyTransactions.length} monthly transactions.`);
 
       console.log('[GET /api/dashboard/summary] Fetching all transactions...');
-      const allTransactions = await storage.getTransactions(userId);
+      const allTransactions = filterByMember(req, await storage.getTransactions(userId));
       console.log(`[GET /api/dashboard/summary] Fetched ${allTransactions.length} total transactions.`);
 
       console.log('[GET /api/dashboard/summary] Fetching goals...');
@@ -1166,9 +2886,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`[GET /api/dashboard/summary] Fetched ${goals.length} goals.`);
 
       console.log('[GET /api/dashboard/summary] Fetching investments...');
-      const investments = await storage.getInvestments(userId) || [];
+      const investments = await valueInvestments(await storage.getInvestments(userId) || []);
       console.log(`[GET /api/investments] Retornando ${investments.length} investimentos`);
       console.log(`[GET /api/dashboard/summary] Fetched ${investments.length} investments.`);
+      // Renda fixa pelo valor na curva, não pelo principal aplicado
+      const investedValue = Math.round(investments.reduce((sum, investment) => sum + investment.valuation.value, 0) * 100) / 100;
 
       // Verificar se há transações antes de calcular
       if (allTransactions.length === 0) {
@@ -1177,7 +2899,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           currentBalance: 0,
           monthlyIncome: 0,
           monthlyExpenses: 0,
-          totalInvestments: investments.length > 0 ? investments.reduce((sum: number, i: any) => sum + parseFloat(i.amount), 0) : 0,
+          totalInvestments: investedValue,
           goalsCount: goals.length,
           transactionsCount: 0,
           hasTransactions: false
@@ -1210,9 +2932,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`[GET /api/dashboard/summary] Calculated current balance: ${currentBalance}`);
 
       console.log('[GET /api/dashboard/summary] Calculating total investments...');
-      const totalInvestments = investments.length > 0 ?
-        investments.reduce((sum: number, i: any) => sum + parseFloat(i.amount), 0)
-        : 0;
+      const totalInvestments = investedValue;
       console.log(`[GET /api/dashboard/summary] Calculated total investments: ${totalInvestments}`);
 
       const summaryData = {
@@ -1348,10 +3068,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", protect, async (req, res) => {
     console.log("[POST /api/categories] Início da requisição");
     try {
-      const validatedData = insertCategorySchema.parse(req.body);
+      const userId = getUserIdFromRequest(req);
+      const validatedData = insertCategorySchema.parse({ ...req.body, userId });
       
       // Adicionar campos de data automaticamente
       const categoryData = {
@@ -1384,7 +3105,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/categories/:id", async (req, res) => {
+  app.put("/api/categories/:id", protect, async (req, res) => {
     console.log(`[PUT /api/categories/${req.params.id}] Início da requisição`);
     try {
       const id = parseInt(req.params.id);
@@ -1393,8 +3114,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid category ID format" });
       }
 
-      const validatedData = insertCategorySchema.partial().parse(req.body);
-      const category = await storage.updateCategory(id, validatedData);
+      const userId = getUserIdFromRequest(req);
+      const validatedData = updateCategorySchema.parse(req.body);
+      const category = await storage.updateCategory(id, userId, validatedData);
       
       if (!category) {
         console.log(`[PUT /api/categories/${req.params.id}] Category with ID ${id} not found for update.`);
@@ -1420,11 +3142,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", protect, async (req, res) => {
     console.log(`[DELETE /api/categories/${req.params.id}] Início da requisição`);
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteCategory(id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid category ID format" });
+      }
+      const userId = getUserIdFromRequest(req);
+      const success = await storage.deleteCategory(id, userId);
       
       if (!success) {
         console.log(`[DELETE /api/categories/${req.params.id}] Categoria com ID ${id} não encontrada para exclusão.`);
@@ -1448,9 +3174,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/user/preferences", protect, async (req, res) => {
     console.log("[GET /api/user/preferences] Início da requisição");
     try {
-      // Em uma aplicação real, obter o ID do usuário do token JWT
-      // Para este exemplo, estamos usando o DEMO_USER_ID
-      const userId = DEMO_USER_ID;
+      const userId = getUserIdFromRequest(req);
       
       const preferences = await storage.getUserPreferences(userId);
       
@@ -1486,9 +3210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/user/preferences", protect, async (req, res) => {
     console.log("[PUT /api/user/preferences] Início da requisição");
     try {
-      // Em uma aplicação real, obter o ID do usuário do token JWT
-      // Para este exemplo, estamos usando o DEMO_USER_ID
-      const userId = DEMO_USER_ID;
+      const userId = getUserIdFromRequest(req);
       
       const validatedData = updateUserPreferencesSchema.parse(req.body);
       console.log(`[PUT /api/user/preferences] Dados validados: ${JSON.stringify(validatedData)}`);
@@ -1517,34 +3239,361 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Investment simulation route
-  app.post("/api/investments/simulate", async (req, res) => {
+  // =================================================================
+  // HOUSEHOLDS: casas compartilhadas entre usuários
+  // =================================================================
+
+  // Nunca devolve o hash; o token em claro só vai no e-mail do convite
+  const serializeHouseholdInvitation = ({ tokenHash: _tokenHash, ...invitation }: HouseholdInvitation) => invitation;
+
+  // A própria casa primeiro, depois as casas das quais o usuário é membro
+  app.get("/api/households", protect, async (req, res) => {
     try {
-      const { amount, interestRate, years, monthlyContribution } = req.body;
-      
-      const principal = parseFloat(amount) || 0;
-      const rate = parseFloat(interestRate) / 100;
-      const periods = parseInt(years) || 1;
-      const monthly = parseFloat(monthlyContribution) || 0;
+      console.log("[GET /api/households] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const [user, memberships] = await Promise.all([
+        storage.getUser(userId),
+        storage.getHouseholdMemberships(userId),
+      ]);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json([{ ownerId: user.id, ownerName: user.name, role: "owner" }, ...memberships]);
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/households] Erro ao buscar casas:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch households" });
+    }
+  });
 
-      const results = [];
-      let currentAmount = principal;
-      
-      for (let year = 1; year <= periods; year++) {
-        // Add monthly contributions
-        currentAmount += monthly * 12;
-        // Apply compound interest
-        currentAmount = currentAmount * (1 + rate);
-        
-        results.push({
-          year,
-          amount: Math.round(currentAmount * 100) / 100,
-          totalContributed: principal + (monthly * 12 * year),
-          totalReturn: Math.round((currentAmount - principal - (monthly * 12 * year)) * 100) / 100
-        });
+  // Dono e membros de uma casa, visíveis a todos que têm acesso a ela (filtro por membro dos painéis)
+  app.get("/api/households/:ownerId/members", protect, async (req, res) => {
+    try {
+      console.log(`[GET /api/households/${req.params.ownerId}/members] Início da requisição`);
+      const userId = getUserIdFromRequest(req);
+      const ownerId = parseInt(req.params.ownerId, 10);
+      if (Number.isNaN(ownerId)) {
+        return res.status(400).json({ message: "Invalid household ID" });
+      }
+      if (ownerId !== userId && !(await storage.getHouseholdMembership(ownerId, userId))) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+
+      const [owner, members] = await Promise.all([
+        storage.getUser(ownerId),
+        storage.getHouseholdMembers(ownerId),
+      ]);
+      if (!owner) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      res.json({ owner: { userId: owner.id, name: owner.name, email: owner.email, role: "owner" }, members });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/households/:ownerId/members] Erro ao buscar membros:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch household members" });
+    }
+  });
+
+  app.get("/api/households/invitations", protect, async (req, res) => {
+    try {
+      console.log("[GET /api/households/invitations] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const invitations = await storage.getPendingHouseholdInvitations(userId);
+      res.json(invitations.map(serializeHouseholdInvitation));
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/households/invitations] Erro ao buscar convites:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to fetch household invitations" });
+    }
+  });
+
+  // Convida alguém para a própria casa; o link de aceite é enviado por e-mail
+  app.post("/api/households/invitations", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/households/invitations] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { email, role } = inviteHouseholdMemberSchema.parse(req.body);
+      const owner = await storage.getUser(userId);
+      if (!owner) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (owner.email.toLowerCase() === email) {
+        return res.status(400).json({ message: "Invalid data", errors: { email: ["Você já é o dono desta casa"] } });
+      }
+
+      const token = generateToken();
+      const invitation = await storage.createHouseholdInvitation({
+        ownerId: userId,
+        email,
+        role,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + HOUSEHOLD_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      });
+      await mailer.send({
+        to: email,
+        subject: `${owner.name} convidou você para uma casa compartilhada`,
+        text: [
+          "Olá.",
+          "",
+          `${owner.name} convidou você para acompanhar as finanças da casa como ${role === "editor" ? "editor" : "leitor"}.`,
+          "Para aceitar, entre com a conta deste e-mail (ou crie uma) e acesse:",
+          frontendUrl('/preferences', { householdInvite: token }),
+          "",
+          `O convite vale por ${HOUSEHOLD_INVITATION_TTL_DAYS} dias e só pode ser usado uma vez.`,
+        ].join("\n"),
+      });
+      res.status(201).json(serializeHouseholdInvitation(invitation));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/households/invitations] Erro ao convidar membro:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to create household invitation" });
+    }
+  });
+
+  app.post("/api/households/invitations/accept", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/households/invitations/accept] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { token } = acceptHouseholdInvitationSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const member = await storage.acceptHouseholdInvitation(hashToken(token), user);
+      if (!member) {
+        return res.status(400).json({ message: "Convite inválido, expirado ou enviado para outro e-mail" });
+      }
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[POST /api/households/invitations/accept] Erro ao aceitar convite:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to accept household invitation" });
+    }
+  });
+
+  app.delete("/api/households/invitations/:id", protect, async (req, res) => {
+    try {
+      console.log(`[DELETE /api/households/invitations/${req.params.id}] Início da requisição`);
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid invitation ID" });
+      }
+      const deleted = await storage.deleteHouseholdInvitation(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.json({ message: "Invitation revoked successfully" });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/households/invitations/:id] Erro ao revogar convite:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to revoke household invitation" });
+    }
+  });
+
+  // Só o dono altera o papel de um membro da própria casa
+  app.put("/api/households/members/:id", protect, async (req, res) => {
+    try {
+      console.log(`[PUT /api/households/members/${req.params.id}] Início da requisição`);
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid member ID" });
+      }
+      const { role } = updateHouseholdMemberSchema.parse(req.body);
+      const member = await storage.updateHouseholdMemberRole(id, userId, role);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[PUT /api/households/members/:id] Erro ao alterar membro:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to update household member" });
+    }
+  });
+
+  app.delete("/api/households/members/:id", protect, async (req, res) => {
+    try {
+      console.log(`[DELETE /api/households/members/${req.params.id}] Início da requisição`);
+      const userId = getUserIdFromRequest(req);
+      const id = parseInt(req.params.id, 10);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid member ID" });
+      }
+      const deleted = await storage.deleteHouseholdMember(id, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json({ message: "Member removed successfully" });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/households/members/:id] Erro ao remover membro:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to remove household member" });
+    }
+  });
+
+  // O membro sai da casa de outro usuário
+  app.delete("/api/households/:ownerId/membership", protect, async (req, res) => {
+    try {
+      console.log(`[DELETE /api/households/${req.params.ownerId}/membership] Início da requisição`);
+      const userId = getUserIdFromRequest(req);
+      const ownerId = parseInt(req.params.ownerId, 10);
+      if (Number.isNaN(ownerId)) {
+        return res.status(400).json({ message: "Invalid household ID" });
+      }
+      const left = await storage.leaveHousehold(ownerId, userId);
+      if (!left) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      res.json({ message: "Left household successfully" });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[DELETE /api/households/:ownerId/membership] Erro ao sair da casa:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to leave household" });
+    }
+  });
+
+  // =================================================================
+  // MY DATA (LGPD): exportação, importação e exclusão da conta
+  // =================================================================
+
+  const ACCOUNT_DELETION_GRACE_DAYS = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 7;
+
+  // Pacote JSON com todos os dados do usuário, baixado como arquivo
+  app.get("/api/me/export", protect, async (req, res) => {
+    try {
+      console.log("[GET /api/me/export] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const bundle = await storage.exportUserData(userId);
+      if (!bundle) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const filename = `financeiro-export-${bundle.exportedAt.slice(0, 10)}.json`;
+      res.set('Content-Disposition', `attachment; filename="${filename}"`);
+      res.json(bundle);
+    } catch (error) {
+      const err = error as Error;
+      console.error("[GET /api/me/export] Erro ao exportar dados:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  // Recria os dados de um pacote gerado por /api/me/export (restauração ou migração entre ambientes)
+  app.post("/api/me/import", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/me/import] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { bundle, mode, dryRun } = importUserDataSchema.parse(req.body);
+      // Substituir apaga todos os dados financeiros: exige a senha, como a exclusão da conta
+      if (mode === "replace" && !dryRun) {
+        const { password } = confirmPasswordSchema.parse(req.body);
+        if (!(await findUserByPassword(userId, password))) {
+          return res.status(400).json(invalidPasswordResponse);
+        }
+      }
+      const report = await storage.importUserData(userId, bundle, mode, dryRun);
+      console.log(`[POST /api/me/import] Pacote ${dryRun ? 'simulado' : 'importado'} em modo ${mode}`);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      if (error instanceof BundleImportError) {
+        return res.status(400).json({ message: error.message, errors: { bundle: [error.message] } });
+      }
+      const err = error as Error;
+      console.error("[POST /api/me/import] Erro ao importar dados:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to import data" });
+    }
+  });
+
+  // Agenda a exclusão da conta; até o fim do prazo o usuário pode entrar de novo e cancelar
+  app.delete("/api/me", protect, async (req, res) => {
+    try {
+      console.log("[DELETE /api/me] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const { password } = confirmPasswordSchema.parse(req.body);
+      const user = await findUserByPassword(userId, password);
+      if (!user) {
+        return res.status(400).json(invalidPasswordResponse);
+      }
+
+      const deletionScheduledAt = new Date(Date.now() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+      await storage.scheduleAccountDeletion(userId, deletionScheduledAt);
+      await recordAuthEvent(req, 'account_deletion_scheduled', { userId, email: user.email });
+      clearRefreshCookie(res);
+      res.json({ message: "Exclusão da conta agendada.", deletionScheduledAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
+      }
+      const err = error as Error;
+      console.error("[DELETE /api/me] Erro ao agendar exclusão da conta:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to schedule account deletion" });
+    }
+  });
+
+  app.post("/api/me/cancel-deletion", protect, async (req, res) => {
+    try {
+      console.log("[POST /api/me/cancel-deletion] Início da requisição");
+      const userId = getUserIdFromRequest(req);
+      const cancelled = await storage.cancelAccountDeletion(userId);
+      if (!cancelled) {
+        return res.status(404).json({ message: "No account deletion scheduled" });
+      }
+      await recordAuthEvent(req, 'account_deletion_cancelled', { userId });
+      res.json({ message: "Exclusão da conta cancelada." });
+    } catch (error) {
+      const err = error as Error;
+      console.error("[POST /api/me/cancel-deletion] Erro ao cancelar exclusão da conta:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to cancel account deletion" });
+    }
+  });
+
+  // Simulação de acúmulo (simulador das metas e aba de simulação dos investimentos)
+  app.post("/api/simulations", protect, async (req, res) => {
+    console.log("[POST /api/simulations] Início da requisição");
+    try {
+      const input = simulationInputSchema.parse(req.body);
+      res.json(project(input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.flatten().fieldErrors });
       }
+      const err = error as Error;
+      console.error("[POST /api/simulations] Erro ao simular:", err.message, err.stack);
+      res.status(500).json({ message: "Failed to simulate" });
+    }
+  });
+
+  // Formato antigo (resumo anual) mantido para clientes existentes; o cálculo é o de /api/simulations
+  app.post("/api/investments/simulate", async (req, res) => {
+    try {
+      const { amount, interestRate, years, monthlyContribution } = req.body;
+      const projection = project({
+        initialAmount: parseFloat(amount) || 0,
+        monthlyContribution: parseFloat(monthlyContribution) || 0,
+        annualRate: parseFloat(interestRate) || 0,
+        months: Math.min(Math.max(parseInt(years) || 1, 1), 100) * 12,
+      });
 
-      res.json(results);
+      res.json(projection.years.map((point) => ({
+        year: point.year,
+        amount: point.nominal,
+        totalContributed: point.contributed,
+        totalReturn: point.interest,
+      })));
     } catch (error) {
       res.status(500).json({ message: "Failed to simulate investment" });
     }
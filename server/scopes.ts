@@ -0,0 +1,46 @@
+import type { ApiTokenScope } from '../shared/schema.js';
+
+// Escopo de token de API exigido por uma rota. Consultas (GET) exigem "read"; alterações exigem o
+// ":write" do recurso, identificado pelo primeiro segmento depois de /api.
+
+const WRITE_SCOPE_BY_RESOURCE: Record<string, ApiTokenScope> = {
+  'transactions': 'transactions:write',
+  'installment-groups': 'transactions:write',
+  'import': 'transactions:write',
+  'accounts': 'accounts:write',
+  'categories': 'categories:write',
+  'categorization-rules': 'categories:write',
+  'budgets': 'budgets:write',
+  'goals': 'goals:write',
+  'investments': 'investments:write',
+  'alerts': 'alerts:write',
+  // Simulações só calculam, nada é gravado
+  'simulations': 'read',
+};
+
+// Com token de API, das rotas de autenticação só a identificação do dono do token é liberada:
+// tokens, sessões, senha e 2FA continuam exigindo o login no navegador
+const API_TOKEN_AUTH_ALLOWLIST = new Set(['GET /api/auth/me']);
+
+// Preferências e os dados da própria conta (/api/me: exportação, importação e exclusão) ficam só com o
+// login no navegador, inclusive para consulta: a exportação traz a atividade de segurança e as contas vinculadas
+const API_TOKEN_BLOCKED_RESOURCES = new Set(['user', 'me']);
+
+// Devolve o escopo exigido, ou null quando a rota não aceita token de API
+export function getRequiredScope(method: string, path: string): ApiTokenScope | null {
+  const normalizedPath = path.replace(/\/+$/, '');
+  const [, prefix, resource] = normalizedPath.split('/');
+  if (prefix !== 'api' || !resource) return null;
+
+  const upperMethod = method.toUpperCase();
+  if (resource === 'auth') {
+    return API_TOKEN_AUTH_ALLOWLIST.has(`${upperMethod} ${normalizedPath}`) ? 'read' : null;
+  }
+  if (API_TOKEN_BLOCKED_RESOURCES.has(resource)) return null;
+  if (upperMethod === 'GET' || upperMethod === 'HEAD') return 'read';
+  return WRITE_SCOPE_BY_RESOURCE[resource] ?? null;
+}
+
+export function parseScopes(scopes: string): ApiTokenScope[] {
+  return scopes.split(',').filter(Boolean) as ApiTokenScope[];
+}
@@ -0,0 +1,50 @@
+// Baixa do SGS do Banco Central as séries da marcação na curva (CDI e IPCA, ver server/indices.ts)
+// e grava o CSV em INDEX_SERIES_PATH (padrão ./server/data/indices.csv).
+// Uso: npm run indices:update -- [data inicial YYYY-MM-DD, padrão 2015-01-01]
+// Rode de novo (ex.: diariamente, por cron) para trazer os dias novos; o servidor relê o arquivo quando ele muda.
+import { rename, writeFile } from 'fs/promises';
+import { addDays, addMonths, startOfDay } from '../dates.js';
+import { emptyIndexSeries, formatIndexSeries, indexSeriesPath } from '../indices.js';
+
+const SGS_SERIES = { cdi: 4389, ipca: 433 } as const;
+// O SGS recusa consultas de séries diárias com mais de 10 anos
+const MONTHS_PER_REQUEST = 120;
+
+const sgsDate = (date: Date) => date.toISOString().slice(0, 10).split('-').reverse().join('/');
+
+// Valores da série entre as datas, com a data já em YYYY-MM-DD
+async function fetchSgsSeries(code: number, from: Date, to: Date): Promise<[string, number][]> {
+  const values: [string, number][] = [];
+  for (let start = from; start <= to; start = addMonths(start, MONTHS_PER_REQUEST)) {
+    const end = new Date(Math.min(addDays(addMonths(start, MONTHS_PER_REQUEST), -1).getTime(), to.getTime()));
+    const url = `https://api.bcb.gov.br/dados/serie/bcdata.sgs.${code}/dados?formato=json&dataInicial=${sgsDate(start)}&dataFinal=${sgsDate(end)}`;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`SGS ${code}: HTTP ${response.status} em ${url}`);
+    const rows: { data: string; valor: string }[] = await response.json();
+    for (const row of rows) {
+      values.push([row.data.split('/').reverse().join('-'), parseFloat(row.valor)]);
+    }
+  }
+  return values;
+}
+
+async function updateIndices() {
+  const from = startOfDay(process.argv[2] ?? '2015-01-01');
+  if (Number.isNaN(from.getTime())) throw new Error(`Data inicial inválida: ${process.argv[2]}`);
+  const to = startOfDay(new Date());
+
+  const series = emptyIndexSeries();
+  for (const [date, value] of await fetchSgsSeries(SGS_SERIES.cdi, from, to)) series.cdi.set(date, value);
+  for (const [date, value] of await fetchSgsSeries(SGS_SERIES.ipca, from, to)) series.ipca.set(date.slice(0, 7), value);
+
+  // Grava num arquivo temporário e troca de uma vez, para o servidor não ler um CSV pela metade
+  const filePath = indexSeriesPath();
+  await writeFile(`${filePath}.tmp`, formatIndexSeries(series));
+  await rename(`${filePath}.tmp`, filePath);
+  console.log(`Séries gravadas em ${filePath}: ${series.cdi.size} dias de CDI e ${series.ipca.size} meses de IPCA.`);
+}
+
+updateIndices().catch((error) => {
+  console.error('Erro ao atualizar as séries de índices:', error);
+  process.exit(1);
+});
@@ -1,37 +1,276 @@
 import { 
   users,
+  passwordResetTokens,
+  recoveryCodes,
+  authEvents,
+  sessions,
+  userIdentities,
+  apiTokens,
+  householdMembers,
+  householdInvitations,
   categories,
   transactions,
+  transactionAttachments,
   goals,
+  goalContributions,
+  goalMilestones,
   investments,
+  investmentMovements,
   alerts,
   userPreferences,
   accounts,
+  cardStatements,
+  installmentGroups,
+  recurrenceRules,
+  budgets,
+  importBatches,
+  categorizationRules,
   type User,
   type InsertUser,
+  type Session,
+  type UserIdentity,
+  type ApiToken,
+  type HouseholdMember,
+  type HouseholdInvitation,
+  type HouseholdRole,
+  type AuthEvent,
+  type AuthEventType,
   type Category,
   type InsertCategory,
   type Transaction,
   type InsertTransaction,
+  type TransactionAttachment,
   type Goal,
   type InsertGoal,
+  type GoalContribution,
+  type ValidatedInsertGoalContribution,
+  type GoalMilestone,
+  type ValidatedGoalMilestones,
+  DEFAULT_GOAL_MILESTONE_PERCENTS,
   type Investment,
   type InsertInvestment,
+  type InvestmentMovement,
+  type ValidatedInsertInvestmentMovement,
   type Alert,
   type InsertAlert,
   type UserPreference,
   type InsertUserPreference,
   type Account,
   type InsertAccount,
+  type CardStatement,
+  type InstallmentGroup,
+  type RecurrenceRule,
+  type RecurrenceScope,
+  type ValidatedRecurrenceInput,
+  type ValidatedInsertInstallmentPurchase,
+  type ValidatedUpdateInstallmentGroup,
+  type Budget,
+  type ValidatedInsertBudget,
+  type ValidatedUpdateBudget,
+  type ImportBatch,
+  type ValidatedConfirmImport,
+  type TransactionListQuery,
+  DEFAULT_TRANSACTION_PAGE_SIZE,
+  type CategorizationRule,
+  USER_EXPORT_FORMAT,
+  USER_EXPORT_VERSION,
+  type ValidatedInsertCategorizationRule,
+  type ValidatedUpdateCategorizationRule,
+  type ApplyCategorizationRulesOptions,
+  type ValidatedUserExportBundle,
+  type UserDataImportMode,
 } from "../shared/schema.js";
 import { db } from "./db.js";
-import { eq, and, desc, asc, gte, lte } from "drizzle-orm";
+import { eq, and, or, ne, desc, asc, gt, gte, lte, lt, sql, like, isNull, isNotNull, inArray, notInArray, type SQL } from "drizzle-orm";
 import { type MySqlTransaction } from 'drizzle-orm/mysql-core';
 import bcrypt from 'bcrypt';
+import { findImportDuplicate, IMPORT_DUPLICATE_WINDOW_DAYS, type ParsedImportRow } from './import.js';
+import { type FailureStats } from './throttle.js';
+import { removeStoredFiles } from './files.js';
+import { getPaceShortfall, milestoneAmount } from './goals.js';
+import { buildInvestmentStatement } from './investments.js';
+import { addDays, addMonths, getOccurrenceDate, getStatementCycle, monthIndex, startOfDay, startOfMonth } from './dates.js';
+import {
+  findMatchingRule,
+  getSuggestionKey,
+  type CategorizableTransaction,
+  type CategorizationRuleWithType,
+} from './categorization.js';
+import { getBalanceEffects, reverseEffects, SETTLED_STATUSES, type BalanceEffect } from './balances.js';
 
 // Tipagem para o cliente de transação do Drizzle
 type TransactionClient = MySqlTransaction<any, any, any, any>;
 
+// Transações lançadas por um membro da casa; as sem autor (createdBy nulo) são do dono
+function memberCondition(ownerId: number, memberId: number): SQL {
+  return memberId === ownerId
+    ? or(eq(transactions.createdBy, memberId), isNull(transactions.createdBy))!
+    : eq(transactions.createdBy, memberId);
+}
+
+export type CardStatementSummary = CardStatement & { total: number; transactions: Transaction[] };
+
+export interface CardStatementsOverview {
+  accountId: number;
+  creditLimit: number;
+  usedCredit: number;
+  availableCredit: number;
+  statements: CardStatementSummary[];
+}
+
+// Até quando o agendador materializa ocorrências futuras (RECURRENCE_HORIZON_DAYS, padrão 90 dias)
+export function getRecurrenceHorizon(from: Date = new Date()): Date {
+  const days = Number(process.env.RECURRENCE_HORIZON_DAYS) || 90;
+  return addDays(from, days);
+}
+
+// Campos da transação copiados para a regra e propagados nas edições "future"/"all"
+const RECURRENCE_TEMPLATE_FIELDS = ['description', 'amount', 'categoryId', 'accountId', 'destinationAccountId', 'expenseType'] as const;
+
+// Divide o total em parcelas com 2 casas decimais; a diferença de arredondamento fica na primeira
+function splitInstallments(total: number, count: number): number[] {
+  const totalCents = Math.round(total * 100);
+  const baseCents = Math.floor(totalCents / count);
+  return Array.from({ length: count }, (_, index) =>
+    (index === 0 ? totalCents - baseCents * (count - 1) : baseCents) / 100,
+  );
+}
+
+// Valor da fatura: compras somam e estornos (receitas no cartão) abatem
+function getStatementTotal(statementTransactions: Transaction[]): number {
+  const total = statementTransactions.reduce((sum, transaction) => {
+    const amount = parseFloat(transaction.amount) || 0;
+    return transaction.type === 'income' ? sum - amount : sum + amount;
+  }, 0);
+  return Math.round(total * 100) / 100;
+}
+
+export type BudgetSummary = Budget & {
+  categoryName: string;
+  categoryColor: string;
+  // Sobra acumulada dos meses anteriores (apenas quando rollover está ativo)
+  carryOver: number;
+  planned: number;
+  spent: number;
+  remaining: number;
+  percent: number;
+};
+
+// Percentuais do orçamento que geram alerta, do maior para o menor
+const BUDGET_ALERT_THRESHOLDS = [100, 80];
+
+// Linha da pré-visualização da importação; duplicateOf aponta a transação já existente equivalente
+// e categoryId traz a categoria sugerida pelas regras do usuário
+export type ImportPreviewRow = ParsedImportRow & { duplicateOf: number | null; categoryId: number | null };
+
+export interface CategorizationRuleSuggestion {
+  descriptionContains: string;
+  categoryId: number;
+  categoryName: string;
+  matches: number;
+}
+
+// Uma regra é sugerida quando ao menos 3 transações parecidas usam a mesma categoria em 80% dos casos
+const RULE_SUGGESTION_MIN_MATCHES = 3;
+const RULE_SUGGESTION_MIN_SHARE = 0.8;
+
+export interface TransactionPage {
+  data: Transaction[];
+  // Total de transações que atendem aos filtros, independente da página
+  total: number;
+}
+
+// Curingas do LIKE (% e _) digitados na busca devem ser tratados como texto
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Janela em que a reapresentação do refresh token anterior é tratada como renovação concorrente
+const SESSION_ROTATION_GRACE_MS = 30 * 1000;
+
+// Todos os dados do usuário, sem credenciais (senha, segredo TOTP, hashes de tokens e sessões)
+export interface UserDataExport {
+  format: typeof USER_EXPORT_FORMAT;
+  version: typeof USER_EXPORT_VERSION;
+  exportedAt: string;
+  profile: Pick<User, 'username' | 'name' | 'email' | 'createdAt'>;
+  preferences: UserPreference | null;
+  accounts: Account[];
+  cardStatements: CardStatement[];
+  categories: Category[];
+  categorizationRules: CategorizationRule[];
+  recurrenceRules: RecurrenceRule[];
+  installmentGroups: InstallmentGroup[];
+  importBatches: ImportBatch[];
+  transactions: Transaction[];
+  budgets: Budget[];
+  goals: Goal[];
+  goalMilestones: GoalMilestone[];
+  goalContributions: GoalContribution[];
+  investments: Investment[];
+  investmentMovements: InvestmentMovement[];
+  alerts: Alert[];
+  linkedAccounts: Pick<UserIdentity, 'provider' | 'email' | 'createdAt'>[];
+  authEvents: AuthEvent[];
+}
+
+// Membro de uma casa, com os dados do usuário para exibição
+export interface HouseholdMemberSummary {
+  id: number;
+  userId: number;
+  name: string;
+  email: string;
+  role: HouseholdRole;
+  createdAt: Date;
+}
+
+// Casa de outro usuário da qual o usuário é membro
+export interface HouseholdMembershipSummary {
+  ownerId: number;
+  ownerName: string;
+  role: HouseholdRole;
+}
+
+// Pacote inconsistente (ex.: transação apontando para uma conta que não veio no arquivo)
+export class BundleImportError extends Error {}
+
+// Movimentação de meta inválida (ex.: retirada maior que o saldo)
+export class GoalContributionError extends Error {}
+
+// Movimentação de investimento inválida (ex.: resgate maior que a posição na data)
+export class InvestmentMovementError extends Error {}
+
+// Desfaz a transação de uma importação em dryRun depois de calcular o relatório
+class DryRunRollback extends Error {}
+
+// Entidades de um pacote exportado, na ordem em que são importadas
+export const BUNDLE_ENTITIES = [
+  'categories',
+  'accounts',
+  'cardStatements',
+  'recurrenceRules',
+  'installmentGroups',
+  'importBatches',
+  'categorizationRules',
+  'budgets',
+  'transactions',
+  'goals',
+  'goalMilestones',
+  'goalContributions',
+  'investments',
+  'investmentMovements',
+  'alerts',
+] as const;
+export type BundleEntity = typeof BUNDLE_ENTITIES[number];
+
+// created: inseridos; matched: já existiam (merge) e foram reaproveitados; deleted: apagados antes (replace)
+export interface BundleImportReport {
+  mode: UserDataImportMode;
+  dryRun: boolean;
+  entities: Record<BundleEntity, { created: number; matched: number; deleted: number }>;
+  preferences: 'imported' | 'kept' | 'absent';
+}
+
 // Renomeando a interface para evitar conflito com a interface Storage do DOM
 export interface IAppStorage {
   runInTransaction<T>(callback: (tx: TransactionClient) => Promise<T>): Promise<T>;
@@ -39,41 +278,142 @@ export interface IAppStorage {
   getUser(id: number): Promise<User | null>;
   getUserByEmail(email: string): Promise<User | null>;
   createUser(user: InsertUser, tx?: TransactionClient): Promise<User>;
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  resetPasswordWithToken(tokenHash: string, hashedPassword: string): Promise<User | undefined>;
+  createSession(session: { userId: number; refreshTokenHash: string; userAgent: string | null; ipAddress: string | null; expiresAt: Date }): Promise<Session>;
+  getSessionById(id: number): Promise<Session | undefined>;
+  rotateSessionToken(tokenHash: string, newTokenHash: string, expiresAt: Date): Promise<Session | undefined>;
+  getActiveSessions(userId: number): Promise<Session[]>;
+  revokeSession(id: number, userId: number): Promise<boolean>;
+  revokeSessionByToken(tokenHash: string): Promise<Session | undefined>;
+  revokeOtherSessions(userId: number, currentSessionId: number): Promise<number>;
+  setPendingTotpSecret(userId: number, secret: string): Promise<void>;
+  enableTotp(userId: number, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  disableTotp(userId: number): Promise<void>;
+  consumeTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[], tx?: TransactionClient): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRemainingRecoveryCodes(userId: number): Promise<number>;
+  createAuthEvent(event: { userId: number | null; type: AuthEventType; email?: string | null; ipAddress?: string | null; userAgent?: string | null; detail?: string | null }): Promise<void>;
+  getLoginFailureStats(filter: { email: string } | { ipAddress: string }, since: Date): Promise<FailureStats>;
+  countAuthEvents(type: AuthEventType, ipAddress: string, since: Date): Promise<number>;
+  getRecentAuthEvents(userId: number, limit: number): Promise<AuthEvent[]>;
+  getIdentity(provider: string, subject: string): Promise<UserIdentity | undefined>;
+  getUserIdentities(userId: number): Promise<UserIdentity[]>;
+  createIdentity(identity: { userId: number; provider: string; subject: string; email: string | null }, tx?: TransactionClient): Promise<UserIdentity>;
+  deleteIdentity(id: number, userId: number): Promise<boolean>;
+  touchIdentity(id: number): Promise<void>;
+  createOAuthUser(user: { email: string; name: string; username: string }, identity: { provider: string; subject: string }): Promise<User>;
+  setPassword(userId: number, hashedPassword: string): Promise<boolean>;
+  createApiToken(token: { userId: number; name: string; tokenHash: string; tokenPrefix: string; scopes: string; expiresAt: Date | null }): Promise<ApiToken>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokens(userId: number): Promise<ApiToken[]>;
+  deleteApiToken(id: number, userId: number): Promise<boolean>;
+  touchApiToken(id: number): Promise<void>;
+  getHouseholdMembership(ownerId: number, userId: number): Promise<HouseholdMember | undefined>;
+  getHouseholdMembers(ownerId: number): Promise<HouseholdMemberSummary[]>;
+  getHouseholdMemberships(userId: number): Promise<HouseholdMembershipSummary[]>;
+  updateHouseholdMemberRole(id: number, ownerId: number, role: HouseholdRole): Promise<HouseholdMember | undefined>;
+  deleteHouseholdMember(id: number, ownerId: number): Promise<boolean>;
+  leaveHousehold(ownerId: number, userId: number): Promise<boolean>;
+  createHouseholdInvitation(invitation: { ownerId: number; email: string; role: HouseholdRole; tokenHash: string; expiresAt: Date }): Promise<HouseholdInvitation>;
+  getPendingHouseholdInvitations(ownerId: number): Promise<HouseholdInvitation[]>;
+  deleteHouseholdInvitation(id: number, ownerId: number): Promise<boolean>;
+  acceptHouseholdInvitation(tokenHash: string, user: Pick<User, 'id' | 'email'>): Promise<HouseholdMember | undefined>;
+  exportUserData(userId: number): Promise<UserDataExport | undefined>;
+  scheduleAccountDeletion(userId: number, deleteAt: Date): Promise<void>;
+  cancelAccountDeletion(userId: number): Promise<boolean>;
+  purgeScheduledAccountDeletions(now?: Date): Promise<number>;
+  importUserData(userId: number, bundle: ValidatedUserExportBundle, mode: UserDataImportMode, dryRun: boolean): Promise<BundleImportReport>;
   getCategories(userId: number): Promise<Category[]>;
   getDefaultCategories(): Promise<Category[]>;
   createManyCategories(categories: InsertCategory[], tx?: TransactionClient): Promise<void>;
   createCategory(category: InsertCategory): Promise<Category>;
-  updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category | undefined>;
-  deleteCategory(id: number): Promise<boolean>;
+  updateCategory(id: number, userId: number, category: Partial<InsertCategory>): Promise<Category | undefined>;
+  deleteCategory(id: number, userId: number): Promise<boolean>;
   getTransactions(userId: number): Promise<Transaction[]>;
   getTransactionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<Transaction[]>;
-  getTransactionsByType(userId: number, type: string): Promise<Transaction[]>;
-  getUpcomingTransactions(userId: number, days: number): Promise<Transaction[]>;
-  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
-  updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
-  deleteTransaction(id: number): Promise<boolean>;
-  getTransactionById(id: number): Promise<Transaction | undefined>;
-  getGoals(userId: number): Promise<Goal[]>;
+  listTransactions(userId: number, query: TransactionListQuery): Promise<TransactionPage>;
+  createTransaction(transaction: InsertTransaction, recurrence?: ValidatedRecurrenceInput): Promise<Transaction>;
+  updateTransaction(id: number, userId: number, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
+  deleteTransaction(id: number, userId: number): Promise<boolean>;
+  getTransactionById(id: number, userId: number): Promise<Transaction | undefined>;
+  getTransactionAttachments(transactionId: number): Promise<TransactionAttachment[]>;
+  getTransactionAttachmentsForList(transactionIds: number[]): Promise<TransactionAttachment[]>;
+  getTransactionAttachmentById(id: number, transactionId: number): Promise<TransactionAttachment | undefined>;
+  createTransactionAttachment(attachment: { transactionId: number; userId: number; fileName: string; mimeType: string; size: number; storageKey: string; createdBy: number | null }): Promise<TransactionAttachment>;
+  deleteTransactionAttachment(id: number, transactionId: number): Promise<TransactionAttachment | undefined>;
+  getGoals(userId: number, options?: { archived?: boolean }): Promise<Goal[]>;
+  getGoalById(id: number, userId: number): Promise<Goal | undefined>;
+  archiveGoal(id: number, userId: number, archived: boolean): Promise<Goal | undefined>;
+  getGoalMilestones(goalId: number): Promise<GoalMilestone[]>;
+  setGoalMilestones(goalId: number, userId: number, milestones: ValidatedGoalMilestones): Promise<GoalMilestone[] | undefined>;
+  checkGoalPace(now?: Date): Promise<number>;
+  getGoalContributions(goalId: number): Promise<GoalContribution[]>;
+  addGoalContribution(goalId: number, userId: number, contribution: ValidatedInsertGoalContribution, createdBy?: number | null): Promise<{ goal: Goal; contribution: GoalContribution } | undefined>;
+  deleteGoalContribution(id: number, goalId: number, userId: number): Promise<Goal | undefined>;
   createGoal(goal: InsertGoal): Promise<Goal>;
-  updateGoal(id: number, goal: Partial<InsertGoal>): Promise<Goal | undefined>;
-  deleteGoal(id: number): Promise<boolean>;
+  updateGoal(id: number, userId: number, goal: Partial<InsertGoal>): Promise<Goal | undefined>;
+  deleteGoal(id: number, userId: number): Promise<boolean>;
   getInvestments(userId: number): Promise<Investment[]>;
+  getInvestmentById(id: number, userId: number): Promise<Investment | undefined>;
   createInvestment(investment: InsertInvestment): Promise<Investment>;
-  updateInvestment(id: number, investment: Partial<InsertInvestment>): Promise<Investment | undefined>;
-  deleteInvestment(id: number): Promise<boolean>;
+  updateInvestment(id: number, userId: number, investment: Partial<InsertInvestment>): Promise<Investment | undefined>;
+  deleteInvestment(id: number, userId: number): Promise<boolean>;
+  getInvestmentMovements(investmentId: number): Promise<InvestmentMovement[]>;
+  getInvestmentMovementsForList(investmentIds: number[]): Promise<InvestmentMovement[]>;
+  addInvestmentMovement(investmentId: number, userId: number, movement: ValidatedInsertInvestmentMovement, createdBy?: number | null): Promise<{ investment: Investment; movement: InvestmentMovement } | undefined>;
+  deleteInvestmentMovement(id: number, investmentId: number, userId: number): Promise<Investment | undefined>;
   getAlerts(userId: number): Promise<Alert[]>;
   getUnreadAlerts(userId: number): Promise<Alert[]>;
   createAlert(alert: InsertAlert): Promise<Alert>;
-  markAlertAsRead(id: number): Promise<boolean>;
-  deleteAlert(id: number): Promise<boolean>;
+  hasAlertSince(userId: number, referenceType: string, referenceId: number, since: Date): Promise<boolean>;
+  markAlertAsRead(id: number, userId: number): Promise<boolean>;
+  deleteAlert(id: number, userId: number): Promise<boolean>;
   getUserPreferences(userId: number): Promise<UserPreference | undefined>;
   createUserPreferences(preferences: Omit<InsertUserPreference, 'id' | 'createdAt' | 'updatedAt'>, tx?: TransactionClient): Promise<UserPreference>;
   createOrUpdateUserPreferences(userId: number, preferences: Partial<InsertUserPreference>): Promise<UserPreference>;
   getCategoriesByType(userId: number, type: string): Promise<Category[]>;
   initializeSampleData(): Promise<{ success: boolean; userId?: number; message?: string }>;
   getAccounts(userId: number): Promise<Account[]>;
+  getAccountById(id: number, userId: number): Promise<Account | undefined>;
   createAccount(account: InsertAccount): Promise<Account>;
-  deleteAccount(id: number): Promise<boolean>;
+  deleteAccount(id: number, userId: number): Promise<boolean>;
+  getCardStatements(account: Account): Promise<CardStatementsOverview>;
+  getCardStatementById(id: number, userId: number): Promise<CardStatement | undefined>;
+  payCardStatement(statementId: number, userId: number, sourceAccountId: number, date: Date, createdBy?: number | null): Promise<CardStatementSummary | undefined>;
+  createInstallmentPurchase(purchase: ValidatedInsertInstallmentPurchase, createdBy?: number | null): Promise<{ group: InstallmentGroup; transactions: Transaction[] }>;
+  getInstallmentGroupById(id: number, userId: number): Promise<InstallmentGroup | undefined>;
+  updateInstallmentGroup(id: number, userId: number, changes: ValidatedUpdateInstallmentGroup): Promise<Transaction[] | undefined>;
+  cancelInstallmentGroup(id: number, userId: number): Promise<boolean>;
+  materializeRecurringTransactions(until: Date, ruleId?: number): Promise<number>;
+  updateRecurringTransaction(
+    id: number,
+    userId: number,
+    changes: Partial<InsertTransaction>,
+    scope: RecurrenceScope,
+    recurrence?: ValidatedRecurrenceInput,
+  ): Promise<Transaction | undefined>;
+  deleteRecurringTransaction(id: number, userId: number, scope: RecurrenceScope): Promise<boolean>;
+  previewImport(userId: number, accountId: number, rows: ParsedImportRow[]): Promise<ImportPreviewRow[]>;
+  commitImport(userId: number, data: ValidatedConfirmImport, createdBy?: number | null): Promise<{ batch: ImportBatch; transactions: Transaction[] }>;
+  getImportBatches(userId: number): Promise<ImportBatch[]>;
+  getImportBatchById(id: number, userId: number): Promise<ImportBatch | undefined>;
+  undoImportBatch(id: number, userId: number): Promise<boolean>;
+  getCategorizationRules(userId: number): Promise<CategorizationRule[]>;
+  getCategorizationRuleById(id: number, userId: number): Promise<CategorizationRule | undefined>;
+  createCategorizationRule(rule: ValidatedInsertCategorizationRule): Promise<CategorizationRule>;
+  updateCategorizationRule(id: number, userId: number, rule: ValidatedUpdateCategorizationRule): Promise<CategorizationRule | undefined>;
+  deleteCategorizationRule(id: number, userId: number): Promise<boolean>;
+  categorizeByRules(userId: number, items: CategorizableTransaction[]): Promise<(number | null)[]>;
+  applyCategorizationRules(userId: number, options: ApplyCategorizationRulesOptions): Promise<number>;
+  suggestCategorizationRules(userId: number): Promise<CategorizationRuleSuggestion[]>;
+  getBudgets(userId: number): Promise<Budget[]>;
+  getBudgetById(id: number, userId: number): Promise<Budget | undefined>;
+  getBudgetSummaries(userId: number, year: number, month: number): Promise<BudgetSummary[]>;
+  createBudget(budget: ValidatedInsertBudget): Promise<Budget>;
+  updateBudget(id: number, userId: number, budget: ValidatedUpdateBudget): Promise<Budget | undefined>;
+  deleteBudget(id: number, userId: number): Promise<boolean>;
 }
 
 class DatabaseStorage implements IAppStorage {
@@ -106,6 +446,903 @@ class DatabaseStorage implements IAppStorage {
     return newUser;
   }
 
+  // Um novo pedido de redefinição substitui os links anteriores ainda não usados
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.delete(passwordResetTokens).where(and(
+      eq(passwordResetTokens.userId, userId),
+      isNull(passwordResetTokens.usedAt),
+    ));
+    await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt, createdAt: new Date() });
+  }
+
+  // Consome o token (uso único, marcado no mesmo UPDATE que o valida) e troca a senha.
+  // Incrementar sessionVersion invalida todos os JWTs emitidos antes da redefinição; as sessões e os tokens de API são encerrados.
+  async resetPasswordWithToken(tokenHash: string, hashedPassword: string): Promise<User | undefined> {
+    return this.runInTransaction(async (tx) => {
+      const now = new Date();
+      const tokenFilter = and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now),
+      );
+      const result = await tx.update(passwordResetTokens).set({ usedAt: now }).where(tokenFilter);
+      if (result[0].affectedRows !== 1) return undefined;
+
+      const [token] = await tx.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+      await tx.update(users)
+        .set({ password: hashedPassword, sessionVersion: sql`${users.sessionVersion} + 1`, updatedAt: now })
+        .where(eq(users.id, token.userId));
+      await tx.update(sessions)
+        .set({ revokedAt: now })
+        .where(and(eq(sessions.userId, token.userId), isNull(sessions.revokedAt)));
+      // Tokens de API criados antes da redefinição também deixam de valer
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, token.userId));
+      const [user] = await tx.select().from(users).where(eq(users.id, token.userId));
+      return user;
+    });
+  }
+
+  async createSession(session: { userId: number; refreshTokenHash: string; userAgent: string | null; ipAddress: string | null; expiresAt: Date }): Promise<Session> {
+    const now = new Date();
+    const result = await db.insert(sessions).values({ ...session, createdAt: now, lastUsedAt: now });
+    const [created] = await db.select().from(sessions).where(eq(sessions.id, result[0].insertId));
+    return created;
+  }
+
+  async getSessionById(id: number): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  // Troca o refresh token da sessão (o UPDATE condicional garante que cada token seja aceito uma única vez).
+  // Um token já rotacionado que volta a ser apresentado indica cópia do cookie: a sessão é encerrada,
+  // exceto logo após a troca, quando é só outra aba que renovou ao mesmo tempo.
+  async rotateSessionToken(tokenHash: string, newTokenHash: string, expiresAt: Date): Promise<Session | undefined> {
+    const now = new Date();
+    const result = await db.update(sessions)
+      .set({ refreshTokenHash: newTokenHash, previousTokenHash: tokenHash, lastUsedAt: now, expiresAt })
+      .where(and(
+        eq(sessions.refreshTokenHash, tokenHash),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, now),
+      ));
+    if (result[0].affectedRows === 1) {
+      const [session] = await db.select().from(sessions).where(eq(sessions.refreshTokenHash, newTokenHash));
+      return session;
+    }
+
+    const [reused] = await db.select().from(sessions).where(eq(sessions.previousTokenHash, tokenHash));
+    if (reused && !reused.revokedAt && now.getTime() - reused.lastUsedAt.getTime() > SESSION_ROTATION_GRACE_MS) {
+      console.warn(`[sessions] Refresh token reutilizado na sessão ${reused.id}; sessão encerrada.`);
+      await db.update(sessions).set({ revokedAt: now }).where(eq(sessions.id, reused.id));
+    }
+    return undefined;
+  }
+
+  async getActiveSessions(userId: number): Promise<Session[]> {
+    return db.select()
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date()),
+      ))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async revokeSession(id: number, userId: number): Promise<boolean> {
+    const result = await db.update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+    return result[0].affectedRows > 0;
+  }
+
+  async revokeSessionByToken(tokenHash: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions)
+      .where(and(eq(sessions.refreshTokenHash, tokenHash), isNull(sessions.revokedAt)));
+    if (!session) return undefined;
+    await db.update(sessions).set({ revokedAt: new Date() }).where(eq(sessions.id, session.id));
+    return session;
+  }
+
+  async revokeOtherSessions(userId: number, currentSessionId: number): Promise<number> {
+    const result = await db.update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.userId, userId), ne(sessions.id, currentSessionId), isNull(sessions.revokedAt)));
+    return result[0].affectedRows;
+  }
+
+  // Guarda um novo segredo ainda não confirmado; a 2FA só passa a valer em enableTotp
+  async setPendingTotpSecret(userId: number, secret: string): Promise<void> {
+    await db.update(users)
+      .set({ totpSecret: secret, totpEnabled: false, totpLastUsedStep: null, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // Ativa a 2FA com o código que confirmou o segredo (já consumido) e um conjunto novo de códigos de recuperação
+  async enableTotp(userId: number, step: number, recoveryCodeHashes: string[]): Promise<void> {
+    await this.runInTransaction(async (tx) => {
+      await tx.update(users)
+        .set({ totpEnabled: true, totpLastUsedStep: step, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      await this.replaceRecoveryCodes(userId, recoveryCodeHashes, tx);
+    });
+  }
+
+  async disableTotp(userId: number): Promise<void> {
+    await this.runInTransaction(async (tx) => {
+      await tx.update(users)
+        .set({ totpSecret: null, totpEnabled: false, totpLastUsedStep: null, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    });
+  }
+
+  // Aceita o passo apenas se for posterior ao último usado (UPDATE condicional: dois logins com o mesmo código não passam)
+  async consumeTotpStep(userId: number, step: number): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(
+        eq(users.id, userId),
+        sql`(${users.totpLastUsedStep} IS NULL OR ${users.totpLastUsedStep} < ${step})`,
+      ));
+    return result[0].affectedRows === 1;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[], tx?: TransactionClient): Promise<void> {
+    const dbClient = tx || db;
+    await dbClient.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      const now = new Date();
+      await dbClient.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash, createdAt: now })));
+    }
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await db.update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt),
+      ));
+    return result[0].affectedRows > 0;
+  }
+
+  async countRemainingRecoveryCodes(userId: number): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return Number(row?.count ?? 0);
+  }
+
+  async createAuthEvent(event: { userId: number | null; type: AuthEventType; email?: string | null; ipAddress?: string | null; userAgent?: string | null; detail?: string | null }): Promise<void> {
+    await db.insert(authEvents).values({ ...event, createdAt: new Date() });
+  }
+
+  // Falhas de login desde "since", por e-mail ou por IP. Para o e-mail, um login bem-sucedido zera a contagem.
+  async getLoginFailureStats(filter: { email: string } | { ipAddress: string }, since: Date): Promise<FailureStats> {
+    let start = since;
+    let keyCondition: SQL;
+    if ('email' in filter) {
+      keyCondition = eq(authEvents.email, filter.email);
+      const [lastSuccess] = await db.select({ createdAt: sql<Date | null>`max(${authEvents.createdAt})` })
+        .from(authEvents)
+        .where(and(keyCondition, eq(authEvents.type, 'login_success')));
+      if (lastSuccess?.createdAt && new Date(lastSuccess.createdAt) > start) {
+        start = new Date(lastSuccess.createdAt);
+      }
+    } else {
+      keyCondition = eq(authEvents.ipAddress, filter.ipAddress);
+    }
+
+    const [row] = await db.select({
+      count: sql<number>`count(*)`,
+      lastFailureAt: sql<Date | null>`max(${authEvents.createdAt})`,
+    })
+      .from(authEvents)
+      .where(and(keyCondition, eq(authEvents.type, 'login_failed'), gt(authEvents.createdAt, start)));
+    return {
+      count: Number(row?.count ?? 0),
+      lastFailureAt: row?.lastFailureAt ? new Date(row.lastFailureAt) : null,
+    };
+  }
+
+  async countAuthEvents(type: AuthEventType, ipAddress: string, since: Date): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)` })
+      .from(authEvents)
+      .where(and(eq(authEvents.type, type), eq(authEvents.ipAddress, ipAddress), gt(authEvents.createdAt, since)));
+    return Number(row?.count ?? 0);
+  }
+
+  async getRecentAuthEvents(userId: number, limit: number): Promise<AuthEvent[]> {
+    return db.select()
+      .from(authEvents)
+      .where(eq(authEvents.userId, userId))
+      .orderBy(desc(authEvents.createdAt), desc(authEvents.id))
+      .limit(limit);
+  }
+
+  async getIdentity(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await db.select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return identity;
+  }
+
+  async getUserIdentities(userId: number): Promise<UserIdentity[]> {
+    return db.select()
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId))
+      .orderBy(asc(userIdentities.createdAt));
+  }
+
+  async createIdentity(identity: { userId: number; provider: string; subject: string; email: string | null }, tx?: TransactionClient): Promise<UserIdentity> {
+    const dbClient = tx || db;
+    const now = new Date();
+    const result = await dbClient.insert(userIdentities).values({ ...identity, createdAt: now, lastUsedAt: now });
+    const [created] = await dbClient.select().from(userIdentities).where(eq(userIdentities.id, result[0].insertId));
+    if (!created) {
+      throw new Error("Failed to retrieve identity after creation.");
+    }
+    return created;
+  }
+
+  async deleteIdentity(id: number, userId: number): Promise<boolean> {
+    const result = await db.delete(userIdentities)
+      .where(and(eq(userIdentities.id, id), eq(userIdentities.userId, userId)));
+    return result[0].affectedRows > 0;
+  }
+
+  async touchIdentity(id: number): Promise<void> {
+    await db.update(userIdentities).set({ lastUsedAt: new Date() }).where(eq(userIdentities.id, id));
+  }
+
+  // Conta criada no primeiro login externo: sem senha, com as mesmas preferências e categorias padrão do cadastro
+  async createOAuthUser(user: { email: string; name: string; username: string }, identity: { provider: string; subject: string }): Promise<User> {
+    const defaultCategories = await this.getDefaultCategories();
+    return this.runInTransaction(async (tx) => {
+      const newUser = await this.createUser({ ...user, password: null }, tx);
+      await this.createUserPreferences({ userId: newUser.id }, tx);
+      if (defaultCategories.length > 0) {
+        await this.createManyCategories(defaultCategories.map((category) => ({
+          ...category,
+          userId: newUser.id,
+          id: undefined as any,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        })), tx);
+      }
+      await this.createIdentity({ userId: newUser.id, ...identity, email: user.email }, tx);
+      return newUser;
+    });
+  }
+
+  // Só define a senha de quem ainda não tem uma (UPDATE condicional); trocar a senha existente continua exigindo a redefinição
+  async setPassword(userId: number, hashedPassword: string): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ password: hashedPassword, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.password)));
+    return result[0].affectedRows === 1;
+  }
+
+  async createApiToken(token: { userId: number; name: string; tokenHash: string; tokenPrefix: string; scopes: string; expiresAt: Date | null }): Promise<ApiToken> {
+    const result = await db.insert(apiTokens).values({ ...token, createdAt: new Date() });
+    const [created] = await db.select().from(apiTokens).where(eq(apiTokens.id, result[0].insertId));
+    if (!created) {
+      throw new Error("Failed to retrieve API token after creation.");
+    }
+    return created;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getApiTokens(userId: number): Promise<ApiToken[]> {
+    return db.select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt), desc(apiTokens.id));
+  }
+
+  async deleteApiToken(id: number, userId: number): Promise<boolean> {
+    const result = await db.delete(apiTokens).where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)));
+    return result[0].affectedRows > 0;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  async getHouseholdMembership(ownerId: number, userId: number): Promise<HouseholdMember | undefined> {
+    const [member] = await db.select()
+      .from(householdMembers)
+      .where(and(eq(householdMembers.ownerId, ownerId), eq(householdMembers.userId, userId)));
+    return member;
+  }
+
+  async getHouseholdMembers(ownerId: number): Promise<HouseholdMemberSummary[]> {
+    const rows = await db.select({
+      id: householdMembers.id,
+      userId: householdMembers.userId,
+      name: users.name,
+      email: users.email,
+      role: householdMembers.role,
+      createdAt: householdMembers.createdAt,
+    })
+      .from(householdMembers)
+      .innerJoin(users, eq(users.id, householdMembers.userId))
+      .where(eq(householdMembers.ownerId, ownerId))
+      .orderBy(asc(householdMembers.createdAt), asc(householdMembers.id));
+    return rows.map((row) => ({ ...row, role: row.role as HouseholdRole }));
+  }
+
+  async getHouseholdMemberships(userId: number): Promise<HouseholdMembershipSummary[]> {
+    const rows = await db.select({ ownerId: householdMembers.ownerId, ownerName: users.name, role: householdMembers.role })
+      .from(householdMembers)
+      .innerJoin(users, eq(users.id, householdMembers.ownerId))
+      .where(eq(householdMembers.userId, userId))
+      .orderBy(asc(users.name));
+    return rows.map((row) => ({ ...row, role: row.role as HouseholdRole }));
+  }
+
+  async updateHouseholdMemberRole(id: number, ownerId: number, role: HouseholdRole): Promise<HouseholdMember | undefined> {
+    const result = await db.update(householdMembers)
+      .set({ role })
+      .where(and(eq(householdMembers.id, id), eq(householdMembers.ownerId, ownerId)));
+    if (result[0].affectedRows === 0) return undefined;
+    const [member] = await db.select().from(householdMembers).where(eq(householdMembers.id, id));
+    return member;
+  }
+
+  async deleteHouseholdMember(id: number, ownerId: number): Promise<boolean> {
+    const result = await db.delete(householdMembers)
+      .where(and(eq(householdMembers.id, id), eq(householdMembers.ownerId, ownerId)));
+    return result[0].affectedRows > 0;
+  }
+
+  async leaveHousehold(ownerId: number, userId: number): Promise<boolean> {
+    const result = await db.delete(householdMembers)
+      .where(and(eq(householdMembers.ownerId, ownerId), eq(householdMembers.userId, userId)));
+    return result[0].affectedRows > 0;
+  }
+
+  async createHouseholdInvitation(invitation: { ownerId: number; email: string; role: HouseholdRole; tokenHash: string; expiresAt: Date }): Promise<HouseholdInvitation> {
+    const result = await db.insert(householdInvitations).values({ ...invitation, createdAt: new Date() });
+    const [created] = await db.select().from(householdInvitations).where(eq(householdInvitations.id, result[0].insertId));
+    if (!created) throw new Error('Failed to create household invitation');
+    return created;
+  }
+
+  async getPendingHouseholdInvitations(ownerId: number): Promise<HouseholdInvitation[]> {
+    return db.select()
+      .from(householdInvitations)
+      .where(and(
+        eq(householdInvitations.ownerId, ownerId),
+        isNull(householdInvitations.acceptedAt),
+        gt(householdInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(householdInvitations.createdAt));
+  }
+
+  async deleteHouseholdInvitation(id: number, ownerId: number): Promise<boolean> {
+    const result = await db.delete(householdInvitations)
+      .where(and(eq(householdInvitations.id, id), eq(householdInvitations.ownerId, ownerId)));
+    return result[0].affectedRows > 0;
+  }
+
+  // O convite só vale para o e-mail convidado, uma vez e dentro do prazo. Quem já é membro recebe o papel do convite.
+  async acceptHouseholdInvitation(tokenHash: string, user: Pick<User, 'id' | 'email'>): Promise<HouseholdMember | undefined> {
+    return this.runInTransaction(async (tx) => {
+      const now = new Date();
+      const [invitation] = await tx.select()
+        .from(householdInvitations)
+        .where(eq(householdInvitations.tokenHash, tokenHash))
+        .for('update');
+      if (!invitation || invitation.acceptedAt || invitation.expiresAt <= now) return undefined;
+      if (invitation.email.toLowerCase() !== user.email.toLowerCase() || invitation.ownerId === user.id) return undefined;
+
+      await tx.update(householdInvitations)
+        .set({ acceptedAt: now })
+        .where(eq(householdInvitations.id, invitation.id));
+
+      const [existing] = await tx.select()
+        .from(householdMembers)
+        .where(and(eq(householdMembers.ownerId, invitation.ownerId), eq(householdMembers.userId, user.id)));
+      if (existing) {
+        await tx.update(householdMembers).set({ role: invitation.role }).where(eq(householdMembers.id, existing.id));
+        return { ...existing, role: invitation.role };
+      }
+      const result = await tx.insert(householdMembers).values({
+        ownerId: invitation.ownerId,
+        userId: user.id,
+        role: invitation.role,
+        createdAt: now,
+      });
+      const [member] = await tx.select().from(householdMembers).where(eq(householdMembers.id, result[0].insertId));
+      return member;
+    });
+  }
+
+  async exportUserData(userId: number): Promise<UserDataExport | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const [
+      [preferences],
+      userAccounts,
+      userCardStatements,
+      userCategories,
+      userCategorizationRules,
+      userRecurrenceRules,
+      userInstallmentGroups,
+      userImportBatches,
+      userTransactions,
+      userBudgets,
+      userGoals,
+      userGoalMilestones,
+      userGoalContributions,
+      userInvestments,
+      userInvestmentMovements,
+      userAlerts,
+      identities,
+      events,
+    ] = await Promise.all([
+      db.select().from(userPreferences).where(eq(userPreferences.userId, userId)),
+      db.select().from(accounts).where(eq(accounts.userId, userId)),
+      db.select().from(cardStatements).where(eq(cardStatements.userId, userId)),
+      db.select().from(categories).where(eq(categories.userId, userId)),
+      db.select().from(categorizationRules).where(eq(categorizationRules.userId, userId)),
+      db.select().from(recurrenceRules).where(eq(recurrenceRules.userId, userId)),
+      db.select().from(installmentGroups).where(eq(installmentGroups.userId, userId)),
+      db.select().from(importBatches).where(eq(importBatches.userId, userId)),
+      db.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(asc(transactions.date), asc(transactions.id)),
+      db.select().from(budgets).where(eq(budgets.userId, userId)),
+      db.select().from(goals).where(eq(goals.userId, userId)),
+      db.select().from(goalMilestones).where(eq(goalMilestones.userId, userId)),
+      db.select().from(goalContributions).where(eq(goalContributions.userId, userId)).orderBy(asc(goalContributions.date), asc(goalContributions.id)),
+      db.select().from(investments).where(eq(investments.userId, userId)),
+      db.select().from(investmentMovements).where(eq(investmentMovements.userId, userId)).orderBy(asc(investmentMovements.date), asc(investmentMovements.id)),
+      db.select().from(alerts).where(eq(alerts.userId, userId)),
+      this.getUserIdentities(userId),
+      db.select().from(authEvents).where(eq(authEvents.userId, userId)).orderBy(asc(authEvents.createdAt)),
+    ]);
+
+    return {
+      format: USER_EXPORT_FORMAT,
+      version: USER_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      profile: { username: user.username, name: user.name, email: user.email, createdAt: user.createdAt },
+      preferences: preferences ?? null,
+      accounts: userAccounts,
+      cardStatements: userCardStatements,
+      categories: userCategories,
+      categorizationRules: userCategorizationRules,
+      recurrenceRules: userRecurrenceRules,
+      installmentGroups: userInstallmentGroups,
+      importBatches: userImportBatches,
+      transactions: userTransactions,
+      budgets: userBudgets,
+      goals: userGoals,
+      goalMilestones: userGoalMilestones,
+      goalContributions: userGoalContributions,
+      investments: userInvestments,
+      investmentMovements: userInvestmentMovements,
+      alerts: userAlerts,
+      linkedAccounts: identities.map(({ provider, email, createdAt }) => ({ provider, email, createdAt })),
+      authEvents: events,
+    };
+  }
+
+  // Até a data marcada a conta continua acessível para o cancelamento, mas todas as sessões e tokens de API são encerrados
+  async scheduleAccountDeletion(userId: number, deleteAt: Date): Promise<void> {
+    await this.runInTransaction(async (tx) => {
+      const now = new Date();
+      await tx.update(users).set({ deletionScheduledAt: deleteAt, updatedAt: now }).where(eq(users.id, userId));
+      await tx.update(sessions)
+        .set({ revokedAt: now })
+        .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+      await tx.delete(apiTokens).where(eq(apiTokens.userId, userId));
+    });
+  }
+
+  async cancelAccountDeletion(userId: number): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ deletionScheduledAt: null, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), sql`${users.deletionScheduledAt} IS NOT NULL`));
+    return result[0].affectedRows === 1;
+  }
+
+  // Apaga as contas cuja exclusão venceu. Cada conta é apagada na sua própria transação, e o prazo é
+  // conferido de novo dentro dela: um cancelamento concorrente vence a exclusão.
+  async purgeScheduledAccountDeletions(now: Date = new Date()): Promise<number> {
+    const due = await db.select({ id: users.id })
+      .from(users)
+      .where(lte(users.deletionScheduledAt, now));
+
+    let erased = 0;
+    for (const { id } of due) {
+      const removedFiles: string[] = [];
+      const deleted = await this.runInTransaction(async (tx) => {
+        const [user] = await tx.select({ email: users.email, deletionScheduledAt: users.deletionScheduledAt })
+          .from(users)
+          .where(eq(users.id, id))
+          .for('update');
+        if (!user?.deletionScheduledAt || user.deletionScheduledAt > now) return false;
+        await this.eraseUserData(tx, id, user.email, removedFiles);
+        return true;
+      });
+      if (deleted) {
+        erased++;
+        await removeStoredFiles(removedFiles);
+      }
+    }
+    return erased;
+  }
+
+  // Dados financeiros primeiro (ver deleteFinancialData); o usuário por último
+  private async eraseUserData(tx: TransactionClient, userId: number, email: string, removedFiles: string[]): Promise<void> {
+    await this.deleteFinancialData(tx, userId, removedFiles);
+    await tx.delete(userPreferences).where(eq(userPreferences.userId, userId));
+    await tx.delete(sessions).where(eq(sessions.userId, userId));
+    await tx.delete(apiTokens).where(eq(apiTokens.userId, userId));
+    await tx.delete(userIdentities).where(eq(userIdentities.userId, userId));
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+    await tx.delete(householdInvitations).where(eq(householdInvitations.ownerId, userId));
+    await tx.delete(householdMembers).where(or(eq(householdMembers.ownerId, userId), eq(householdMembers.userId, userId)));
+    // Lançamentos nas casas de outros usuários (transações, anexos, movimentações de metas e de investimentos)
+    // passam a ser atribuídos ao dono de cada casa
+    await tx.update(transactions).set({ createdBy: null }).where(eq(transactions.createdBy, userId));
+    await tx.update(transactionAttachments).set({ createdBy: null }).where(eq(transactionAttachments.createdBy, userId));
+    await tx.update(goalContributions).set({ createdBy: null }).where(eq(goalContributions.createdBy, userId));
+    await tx.update(investmentMovements).set({ createdBy: null }).where(eq(investmentMovements.createdBy, userId));
+    // Inclui as tentativas de login sem usuário associado feitas com o e-mail da conta
+    await tx.delete(authEvents).where(or(eq(authEvents.userId, userId), eq(authEvents.email, email)));
+    await tx.delete(users).where(eq(users.id, userId));
+  }
+
+  // Dados financeiros do usuário (tudo menos perfil, preferências e credenciais), na ordem das chaves estrangeiras:
+  // anexos e movimentações de metas antes das transações, marcos antes das metas, e estas antes de faturas, parcelamentos, recorrências e importações; regras e
+  // orçamentos antes das categorias; movimentações de investimentos antes dos investimentos. As chaves dos arquivos anexados vão para removedFiles.
+  private async deleteFinancialData(tx: TransactionClient, userId: number, removedFiles: string[]): Promise<Record<BundleEntity, number>> {
+    const affected = (result: { 0: { affectedRows: number } }) => result[0].affectedRows;
+    removedFiles.push(...await this.deleteAttachmentsOf(tx, eq(transactions.userId, userId)));
+    const deletedGoalContributions = affected(await tx.delete(goalContributions).where(eq(goalContributions.userId, userId)));
+    const deletedGoalMilestones = affected(await tx.delete(goalMilestones).where(eq(goalMilestones.userId, userId)));
+    const deletedTransactions = affected(await tx.delete(transactions).where(eq(transactions.userId, userId)));
+    return {
+      transactions: deletedTransactions,
+      cardStatements: affected(await tx.delete(cardStatements).where(eq(cardStatements.userId, userId))),
+      installmentGroups: affected(await tx.delete(installmentGroups).where(eq(installmentGroups.userId, userId))),
+      recurrenceRules: affected(await tx.delete(recurrenceRules).where(eq(recurrenceRules.userId, userId))),
+      importBatches: affected(await tx.delete(importBatches).where(eq(importBatches.userId, userId))),
+      categorizationRules: affected(await tx.delete(categorizationRules).where(eq(categorizationRules.userId, userId))),
+      budgets: affected(await tx.delete(budgets).where(eq(budgets.userId, userId))),
+      categories: affected(await tx.delete(categories).where(eq(categories.userId, userId))),
+      accounts: affected(await tx.delete(accounts).where(eq(accounts.userId, userId))),
+      goals: affected(await tx.delete(goals).where(eq(goals.userId, userId))),
+      goalMilestones: deletedGoalMilestones,
+      goalContributions: deletedGoalContributions,
+      investmentMovements: affected(await tx.delete(investmentMovements).where(eq(investmentMovements.userId, userId))),
+      investments: affected(await tx.delete(investments).where(eq(investments.userId, userId))),
+      alerts: affected(await tx.delete(alerts).where(eq(alerts.userId, userId))),
+    };
+  }
+
+  // Recria os dados de um pacote exportado em uma única transação, trocando os ids de origem pelos novos.
+  // Em dryRun a transação é desfeita e só o relatório é devolvido.
+  async importUserData(userId: number, bundle: ValidatedUserExportBundle, mode: UserDataImportMode, dryRun: boolean): Promise<BundleImportReport> {
+    const report: BundleImportReport = {
+      mode,
+      dryRun,
+      entities: Object.fromEntries(BUNDLE_ENTITIES.map((entity) => [entity, { created: 0, matched: 0, deleted: 0 }])) as BundleImportReport['entities'],
+      preferences: 'absent',
+    };
+
+    const removedFiles: string[] = [];
+    try {
+      await this.runInTransaction(async (tx) => {
+        if (mode === 'replace') {
+          const deleted = await this.deleteFinancialData(tx, userId, removedFiles);
+          for (const entity of BUNDLE_ENTITIES) {
+            report.entities[entity].deleted = deleted[entity];
+          }
+        }
+        await this.insertBundle(tx, userId, bundle, mode, report);
+        if (dryRun) throw new DryRunRollback();
+      });
+      await removeStoredFiles(removedFiles);
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+    return report;
+  }
+
+  private async insertBundle(
+    tx: TransactionClient,
+    userId: number,
+    bundle: ValidatedUserExportBundle,
+    mode: UserDataImportMode,
+    report: BundleImportReport,
+  ): Promise<void> {
+    const now = new Date();
+    const timestamps = { createdAt: now, updatedAt: now };
+    const merge = mode === 'merge';
+    // Chave natural usada no merge para reconhecer um registro equivalente já existente
+    const naturalKey = (...parts: unknown[]) => parts
+      .map((part) => (part instanceof Date ? part.toISOString().slice(0, 10) : String(part ?? '')).trim().toLowerCase())
+      .join('|');
+
+    const ids = {
+      categories: new Map<number, number>(),
+      accounts: new Map<number, number>(),
+      cardStatements: new Map<number, number>(),
+      recurrenceRules: new Map<number, number>(),
+      installmentGroups: new Map<number, number>(),
+      importBatches: new Map<number, number>(),
+      transactions: new Map<number, number>(),
+      budgets: new Map<number, number>(),
+      goals: new Map<number, number>(),
+      investments: new Map<number, number>(),
+    };
+    const ref = (entity: keyof typeof ids, id: number | null): number | null => {
+      if (id === null) return null;
+      const mapped = ids[entity].get(id);
+      if (mapped === undefined) {
+        throw new BundleImportError(`Referência inválida no pacote: ${entity} ${id} não existe.`);
+      }
+      return mapped;
+    };
+    const requiredRef = (entity: keyof typeof ids, id: number) => ref(entity, id) as number;
+    // Liga o registro do pacote a um existente (merge) ou o insere
+    const place = async (entity: keyof typeof ids & BundleEntity, bundleId: number, existingId: number | undefined, insert: () => Promise<number>) => {
+      if (existingId !== undefined) {
+        ids[entity].set(bundleId, existingId);
+        report.entities[entity].matched++;
+        return;
+      }
+      ids[entity].set(bundleId, await insert());
+      report.entities[entity].created++;
+    };
+    const existingKeys = async <T extends { id: number }>(rows: Promise<T[]>, key: (row: T) => string) => {
+      const keys = new Map<string, number>();
+      if (merge) {
+        for (const row of await rows) keys.set(key(row), row.id);
+      }
+      return keys;
+    };
+
+    const existingCategories = await existingKeys(tx.select().from(categories).where(eq(categories.userId, userId)), (c) => naturalKey(c.type, c.name));
+    for (const category of bundle.categories) {
+      await place('categories', category.id, existingCategories.get(naturalKey(category.type, category.name)), async () => {
+        const result = await tx.insert(categories).values({ userId, name: category.name, type: category.type, color: category.color, icon: category.icon, ...timestamps });
+        return result[0].insertId;
+      });
+    }
+
+    // Contas reaproveitadas mantêm o saldo atual e recebem o efeito das transações importadas
+    const matchedAccountIds = new Set<number>();
+    const existingAccounts = await existingKeys(tx.select().from(accounts).where(eq(accounts.userId, userId)), (a) => naturalKey(a.type, a.name));
+    for (const account of bundle.accounts) {
+      const existingId = existingAccounts.get(naturalKey(account.type, account.name));
+      if (existingId !== undefined) matchedAccountIds.add(existingId);
+      await place('accounts', account.id, existingId, async () => {
+        const { id: _id, ...values } = account;
+        const result = await tx.insert(accounts).values({ ...values, userId, ...timestamps });
+        return result[0].insertId;
+      });
+    }
+
+    const existingStatements = await existingKeys(tx.select().from(cardStatements).where(eq(cardStatements.userId, userId)), (s) => naturalKey(s.accountId, s.closingDate));
+    for (const statement of bundle.cardStatements) {
+      const accountId = requiredRef('accounts', statement.accountId);
+      await place('cardStatements', statement.id, existingStatements.get(naturalKey(accountId, statement.closingDate)), async () => {
+        const { id: _id, paymentTransactionId: _payment, ...values } = statement;
+        const result = await tx.insert(cardStatements).values({ ...values, accountId, userId, ...timestamps });
+        return result[0].insertId;
+      });
+    }
+
+    const existingRules = await existingKeys(
+      tx.select().from(recurrenceRules).where(eq(recurrenceRules.userId, userId)),
+      (r) => naturalKey(r.description, r.amount, r.type, r.frequency, r.startDate, r.accountId),
+    );
+    for (const rule of bundle.recurrenceRules) {
+      const accountId = ref('accounts', rule.accountId);
+      await place('recurrenceRules', rule.id, existingRules.get(naturalKey(rule.description, rule.amount, rule.type, rule.frequency, rule.startDate, accountId)), async () => {
+        const { id: _id, ...values } = rule;
+        const result = await tx.insert(recurrenceRules).values({
+          ...values,
+          userId,
+          categoryId: ref('categories', rule.categoryId),
+          accountId,
+          destinationAccountId: ref('accounts', rule.destinationAccountId),
+          ...timestamps,
+        });
+        return result[0].insertId;
+      });
+    }
+
+    const existingGroups = await existingKeys(
+      tx.select().from(installmentGroups).where(eq(installmentGroups.userId, userId)),
+      (g) => naturalKey(g.accountId, g.description, g.totalAmount, g.firstDate),
+    );
+    for (const group of bundle.installmentGroups) {
+      const accountId = requiredRef('accounts', group.accountId);
+      await place('installmentGroups', group.id, existingGroups.get(naturalKey(accountId, group.description, group.totalAmount, group.firstDate)), async () => {
+        const { id: _id, ...values } = group;
+        const result = await tx.insert(installmentGroups).values({ ...values, accountId, userId, ...timestamps });
+        return result[0].insertId;
+      });
+    }
+
+    for (const batch of bundle.importBatches) {
+      await place('importBatches', batch.id, undefined, async () => {
+        const { id: _id, ...values } = batch;
+        const result = await tx.insert(importBatches).values({ ...values, accountId: requiredRef('accounts', batch.accountId), userId, ...timestamps });
+        return result[0].insertId;
+      });
+    }
+
+    const existingCategorizationRules = await existingKeys(
+      tx.select().from(categorizationRules).where(eq(categorizationRules.userId, userId)),
+      (r) => naturalKey(r.categoryId, r.descriptionContains, r.amountEquals),
+    );
+    for (const rule of bundle.categorizationRules) {
+      const categoryId = requiredRef('categories', rule.categoryId);
+      const existingId = existingCategorizationRules.get(naturalKey(categoryId, rule.descriptionContains, rule.amountEquals));
+      if (existingId !== undefined) {
+        report.entities.categorizationRules.matched++;
+        continue;
+      }
+      const { id: _id, ...values } = rule;
+      await tx.insert(categorizationRules).values({ ...values, categoryId, userId, ...timestamps });
+      report.entities.categorizationRules.created++;
+    }
+
+    // Um orçamento por categoria
+    const existingBudgets = await existingKeys(tx.select().from(budgets).where(eq(budgets.userId, userId)), (b) => naturalKey(b.categoryId));
+    for (const budget of bundle.budgets) {
+      const categoryId = requiredRef('categories', budget.categoryId);
+      await place('budgets', budget.id, existingBudgets.get(naturalKey(categoryId)), async () => {
+        const result = await tx.insert(budgets).values({ categoryId, amount: budget.amount, rollover: budget.rollover, userId, ...timestamps });
+        return result[0].insertId;
+      });
+    }
+
+    // Importar o mesmo pacote duas vezes em merge não duplica transações
+    const existingTransactions = await existingKeys(
+      tx.select().from(transactions).where(eq(transactions.userId, userId)),
+      (t) => naturalKey(t.accountId, t.date, t.type, t.amount, t.description),
+    );
+    for (const transaction of bundle.transactions) {
+      const accountId = ref('accounts', transaction.accountId);
+      const existingId = existingTransactions.get(naturalKey(accountId, transaction.date, transaction.type, transaction.amount, transaction.description));
+      await place('transactions', transaction.id, existingId, async () => {
+        const { id: _id, ...values } = transaction;
+        const row = {
+          ...values,
+          userId,
+          accountId,
+          categoryId: ref('categories', transaction.categoryId),
+          destinationAccountId: ref('accounts', transaction.destinationAccountId),
+          statementId: ref('cardStatements', transaction.statementId),
+          installmentGroupId: ref('installmentGroups', transaction.installmentGroupId),
+          recurrenceRuleId: ref('recurrenceRules', transaction.recurrenceRuleId),
+          importBatchId: ref('importBatches', transaction.importBatchId),
+          ...timestamps,
+        };
+        const result = await tx.insert(transactions).values(row);
+        // Contas novas já vêm com o saldo do pacote; só as reaproveitadas precisam do efeito da transação
+        await this.applyBalanceEffects(tx, getBalanceEffects(row).filter((effect) => effect.accountId !== null && matchedAccountIds.has(effect.accountId)));
+        return result[0].insertId;
+      });
+    }
+
+    // Pagamento das faturas criadas agora, depois que as transações têm os novos ids
+    for (const statement of bundle.cardStatements) {
+      if (statement.paymentTransactionId === null || existingStatements.has(naturalKey(ids.accounts.get(statement.accountId), statement.closingDate))) continue;
+      await tx.update(cardStatements)
+        .set({ paymentTransactionId: ref('transactions', statement.paymentTransactionId) })
+        .where(eq(cardStatements.id, requiredRef('cardStatements', statement.id)));
+    }
+
+    const existingGoals = await existingKeys(tx.select().from(goals).where(eq(goals.userId, userId)), (g) => naturalKey(g.name));
+    const createdGoalIds = new Set<number>();
+    for (const goal of bundle.goals) {
+      await place('goals', goal.id, existingGoals.get(naturalKey(goal.name)), async () => {
+        const { id: _id, ...values } = goal;
+        const result = await tx.insert(goals).values({ ...values, userId, ...timestamps });
+        createdGoalIds.add(result[0].insertId);
+        return result[0].insertId;
+      });
+    }
+
+    // Metas reaproveitadas mantêm o próprio histórico e marcos; só as criadas agora recebem os do pacote
+    for (const milestone of bundle.goalMilestones) {
+      const goalId = requiredRef('goals', milestone.goalId);
+      if (!createdGoalIds.has(goalId)) {
+        report.entities.goalMilestones.matched++;
+        continue;
+      }
+      const { id: _id, ...values } = milestone;
+      await tx.insert(goalMilestones).values({ ...values, goalId, userId, createdAt: now });
+      report.entities.goalMilestones.created++;
+    }
+
+    for (const contribution of bundle.goalContributions) {
+      const goalId = requiredRef('goals', contribution.goalId);
+      if (!createdGoalIds.has(goalId)) {
+        report.entities.goalContributions.matched++;
+        continue;
+      }
+      const { id: _id, ...values } = contribution;
+      await tx.insert(goalContributions).values({
+        ...values,
+        goalId,
+        transactionId: ref('transactions', contribution.transactionId),
+        userId,
+        createdAt: now,
+      });
+      report.entities.goalContributions.created++;
+    }
+
+    const existingInvestments = await existingKeys(tx.select().from(investments).where(eq(investments.userId, userId)), (i) => naturalKey(i.name));
+    const createdInvestmentIds = new Set<number>();
+    for (const investment of bundle.investments) {
+      await place('investments', investment.id, existingInvestments.get(naturalKey(investment.name)), async () => {
+        const { id: _id, ...values } = investment;
+        const result = await tx.insert(investments).values({ ...values, userId, ...timestamps });
+        createdInvestmentIds.add(result[0].insertId);
+        return result[0].insertId;
+      });
+    }
+
+    // Como nas metas, investimentos reaproveitados mantêm o próprio extrato
+    for (const movement of bundle.investmentMovements) {
+      const investmentId = requiredRef('investments', movement.investmentId);
+      if (!createdInvestmentIds.has(investmentId)) {
+        report.entities.investmentMovements.matched++;
+        continue;
+      }
+      const { id: _id, ...values } = movement;
+      await tx.insert(investmentMovements).values({ ...values, investmentId, userId, createdAt: now });
+      report.entities.investmentMovements.created++;
+    }
+
+    // Alertas são informativos: uma referência que não está no pacote vira nula em vez de abortar a importação
+    const alertReferences: Record<string, keyof typeof ids> = {
+      transaction: 'transactions',
+      card_statement: 'cardStatements',
+      budget: 'budgets',
+      goal: 'goals',
+    };
+    for (const alert of bundle.alerts) {
+      const referenceEntity = alert.referenceType ? alertReferences[alert.referenceType] : undefined;
+      const referenceId = referenceEntity && alert.referenceId !== null ? ids[referenceEntity].get(alert.referenceId) ?? null : null;
+      const { id: _id, ...values } = alert;
+      await tx.insert(alerts).values({ ...values, referenceId, userId, ...timestamps });
+      report.entities.alerts.created++;
+    }
+
+    // merge preserva as preferências atuais; replace adota as do pacote
+    if (bundle.preferences) {
+      const [current] = await tx.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+      if (!current) {
+        await tx.insert(userPreferences).values({ ...bundle.preferences, userId, ...timestamps });
+        report.preferences = 'imported';
+      } else if (!merge) {
+        await tx.update(userPreferences).set({ ...bundle.preferences, updatedAt: now }).where(eq(userPreferences.id, current.id));
+        report.preferences = 'imported';
+      } else {
+        report.preferences = 'kept';
+      }
+    }
+  }
+
   async getCategories(userId: number): Promise<Category[]> {
     return db.select().from(categories).where(eq(categories.userId, userId));
   }
@@ -152,194 +1389,1131 @@ class DatabaseStorage implements IAppStorage {
       { id: 0, userId: DEMO_USER_ID, name: 'Outras Despesas', type: 'expense', icon: 'dots', color: '#95a5a6', createdAt: now, updatedAt: now },
     ];
 
-    // Retorna sempre o conjunto padrão em memória, evitando consultas inválidas
-    return fallback;
+    // Retorna sempre o conjunto padrão em memória, evitando consultas inválidas
+    return fallback;
+  }
+
+  async createManyCategories(data: InsertCategory[], tx?: TransactionClient): Promise<void> {
+    const dbClient = tx || db;
+    if (data.length === 0) return;
+    await dbClient.insert(categories).values(data);
+  }
+
+  async createCategory(category: InsertCategory): Promise<Category> {
+    if (!category.userId) {
+      throw new Error('UserID é obrigatório para criar uma categoria.');
+    }
+    const result = await db.insert(categories).values(category);
+    const [newCategory] = await db.select().from(categories).where(eq(categories.id, result[0].insertId));
+    if (!newCategory) throw new Error('Failed to create category');
+    return newCategory;
+  }
+
+  async updateCategory(id: number, userId: number, category: Partial<InsertCategory>): Promise<Category | undefined> {
+    const ownership = and(eq(categories.id, id), eq(categories.userId, userId));
+    await db.update(categories).set(category).where(ownership);
+    const [updated] = await db.select().from(categories).where(ownership);
+    return updated;
+  }
+
+  async deleteCategory(id: number, userId: number): Promise<boolean> {
+    const [existing] = await db.select().from(categories).where(and(eq(categories.id, id), eq(categories.userId, userId)));
+    if (!existing) return false;
+    await db.delete(budgets).where(eq(budgets.categoryId, id));
+    await db.delete(categorizationRules).where(eq(categorizationRules.categoryId, id));
+    await db.delete(categories).where(eq(categories.id, id));
+    return true;
+  }
+
+  async getAccounts(userId: number): Promise<Account[]> {
+    return db.select().from(accounts).where(eq(accounts.userId, userId)).orderBy(desc(accounts.id));
+  }
+
+  async getAccountById(id: number, userId: number): Promise<Account | undefined> {
+    const [account] = await db.select().from(accounts).where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+    return account;
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    const now = new Date();
+    const normalized: InsertAccount & { createdAt: Date; updatedAt: Date } = {
+      ...account,
+      createdAt: now,
+      updatedAt: now,
+    } as any;
+
+    const result = await db.insert(accounts).values(normalized);
+    const [newAccount] = await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.id, result[0].insertId));
+
+    if (!newAccount) {
+      throw new Error("Failed to create account");
+    }
+
+    return newAccount;
+  }
+
+  async deleteAccount(id: number, userId: number): Promise<boolean> {
+    const ownership = and(eq(accounts.id, id), eq(accounts.userId, userId));
+    return this.runInTransaction(async (tx) => {
+      const [existing] = await tx.select().from(accounts).where(ownership).for('update');
+      if (!existing) return false;
+      // Mantém o histórico: transações da conta removida ficam sem conta vinculada e sem fatura
+      await tx.update(transactions).set({ statementId: null }).where(eq(transactions.accountId, id));
+      await tx.delete(cardStatements).where(eq(cardStatements.accountId, id));
+      await tx.update(transactions).set({ installmentGroupId: null }).where(eq(transactions.accountId, id));
+      await tx.delete(installmentGroups).where(eq(installmentGroups.accountId, id));
+      await tx.update(transactions).set({ importBatchId: null }).where(eq(transactions.accountId, id));
+      await tx.delete(importBatches).where(eq(importBatches.accountId, id));
+      await tx.update(recurrenceRules).set({ status: 'ended', accountId: null }).where(eq(recurrenceRules.accountId, id));
+      await tx.update(recurrenceRules).set({ status: 'ended', destinationAccountId: null }).where(eq(recurrenceRules.destinationAccountId, id));
+      await tx.update(transactions).set({ accountId: null }).where(eq(transactions.accountId, id));
+      await tx.update(transactions).set({ destinationAccountId: null }).where(eq(transactions.destinationAccountId, id));
+      await tx.delete(accounts).where(ownership);
+      return true;
+    });
+  }
+
+  async getTransactions(userId: number): Promise<Transaction[]> {
+    return db.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(desc(transactions.date));
+  }
+
+  async getTransactionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<Transaction[]> {
+    return db.select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        gte(transactions.date, startDate),
+        lte(transactions.date, endDate)
+      ))
+      .orderBy(asc(transactions.date));
+  }
+
+  async listTransactions(userId: number, query: TransactionListQuery): Promise<TransactionPage> {
+    const conditions: SQL[] = [eq(transactions.userId, userId)];
+    if (query.type) conditions.push(eq(transactions.type, query.type));
+    if (query.categoryId) conditions.push(eq(transactions.categoryId, query.categoryId));
+    if (query.accountId) conditions.push(eq(transactions.accountId, query.accountId));
+    if (query.status) conditions.push(eq(transactions.status, query.status));
+    if (query.expenseType) conditions.push(eq(transactions.expenseType, query.expenseType));
+    if (query.memberId) conditions.push(memberCondition(userId, query.memberId));
+    if (query.minAmount !== undefined) conditions.push(gte(transactions.amount, query.minAmount.toFixed(2)));
+    if (query.maxAmount !== undefined) conditions.push(lte(transactions.amount, query.maxAmount.toFixed(2)));
+    if (query.search) conditions.push(like(transactions.description, `%${escapeLike(query.search)}%`));
+
+    if (query.upcoming) {
+      // Hoje e os próximos dias, inclusive o último (datas são meia-noite UTC, ver dates.ts)
+      const today = startOfDay(new Date());
+      conditions.push(gte(transactions.date, today), lte(transactions.date, addDays(today, query.upcoming)));
+    } else {
+      if (query.startDate) conditions.push(gte(transactions.date, query.startDate));
+      if (query.endDate) conditions.push(lte(transactions.date, query.endDate));
+    }
+
+    const where = and(...conditions);
+    const sortColumn = {
+      date: transactions.date,
+      amount: transactions.amount,
+      description: transactions.description,
+      createdAt: transactions.createdAt,
+    }[query.sortBy];
+    // Com período informado, a ordem padrão é cronológica; sem período, as mais recentes primeiro
+    const sortOrder = query.sortOrder ?? (query.upcoming || query.startDate ? 'asc' : 'desc');
+    const direction = sortOrder === 'asc' ? asc : desc;
+
+    const rows = db.select()
+      .from(transactions)
+      .where(where)
+      .orderBy(direction(sortColumn), direction(transactions.id));
+
+    if (!query.page && !query.pageSize) {
+      const data = await rows;
+      return { data, total: data.length };
+    }
+
+    const pageSize = query.pageSize ?? DEFAULT_TRANSACTION_PAGE_SIZE;
+    const page = query.page ?? 1;
+    const [data, [{ total }]] = await Promise.all([
+      rows.limit(pageSize).offset((page - 1) * pageSize),
+      db.select({ total: sql<number>`count(*)` }).from(transactions).where(where),
+    ]);
+    return { data, total: Number(total) };
+  }
+
+  async createTransaction(transaction: InsertTransaction, recurrence?: ValidatedRecurrenceInput): Promise<Transaction> {
+    // Garantir datas corretas e timestamps exigidos pelo banco
+    const normalizeAmount = (value: any): string => {
+      if (value === null || value === undefined) return '0.00';
+      if (typeof value === 'number') return value.toFixed(2);
+      if (typeof value === 'string') {
+        const withDot = value.replace(',', '.').trim();
+        const num = Number(withDot);
+        if (Number.isNaN(num)) {
+          throw new Error(`Invalid amount value: ${value}`);
+        }
+        return num.toFixed(2);
+      }
+      throw new Error(`Unsupported amount type: ${typeof value}`);
+    };
+
+    const transactionWithTimestamps: InsertTransaction & { createdAt: Date; updatedAt: Date; amount: string } = {
+      ...transaction,
+      amount: normalizeAmount((transaction as any).amount),
+      date: typeof transaction.date === 'string' ? new Date(transaction.date) : transaction.date,
+      dueDate: transaction.dueDate ? (typeof transaction.dueDate === 'string' ? new Date(transaction.dueDate) : transaction.dueDate) : null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as any;
+
+    // Sem categoria informada, as regras de categorização do usuário decidem
+    if (transactionWithTimestamps.type !== 'transfer' && !transactionWithTimestamps.categoryId) {
+      const [categoryId] = await this.categorizeByRules(transactionWithTimestamps.userId, [transactionWithTimestamps]);
+      transactionWithTimestamps.categoryId = categoryId;
+    }
+
+    // console.debug('[storage.createTransaction] Insert values:', transactionWithTimestamps);
+
+    const newTransaction = await this.runInTransaction(async (tx) => {
+      // Transações recorrentes são a ocorrência 0 de uma nova regra (mensal por padrão)
+      if (transactionWithTimestamps.isRecurring) {
+        const rule = await this.insertRecurrenceRule(tx, transactionWithTimestamps, recurrence ?? { frequency: 'monthly', interval: 1 });
+        transactionWithTimestamps.recurrenceRuleId = rule.id;
+        transactionWithTimestamps.recurrenceIndex = 0;
+      }
+      return this.insertTransaction(tx, transactionWithTimestamps);
+    });
+    await this.createAlertIfNeeded(newTransaction);
+    await this.checkBudgetAlerts(newTransaction);
+    if (newTransaction.recurrenceRuleId) {
+      await this.materializeRecurringTransactions(getRecurrenceHorizon(), newTransaction.recurrenceRuleId);
+    }
+    return newTransaction;
+  }
+
+  // Insere a transação, movimenta os saldos e vincula à fatura do cartão, dentro da transação de banco corrente
+  private async insertTransaction(tx: TransactionClient, values: InsertTransaction): Promise<Transaction> {
+    const now = new Date();
+    const result = await tx.insert(transactions).values({ createdAt: now, updatedAt: now, ...values } as any);
+    const [created] = await tx.select().from(transactions).where(eq(transactions.id, result[0].insertId));
+    if (!created) throw new Error('Failed to create transaction');
+    await this.applyBalanceEffects(tx, getBalanceEffects(created));
+    return this.assignStatement(tx, created);
+  }
+
+  async updateTransaction(id: number, userId: number, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const updated = await this.runInTransaction((tx) => this.modifyTransaction(tx, id, userId, transaction));
+    if (updated) {
+      await this.createAlertIfNeeded(updated);
+      await this.checkBudgetAlerts(updated);
+    }
+    return updated;
+  }
+
+  // Altera a transação do usuário, estornando o efeito anterior nos saldos e aplicando o novo, dentro da
+  // transação de banco corrente. Os alertas ficam para quem chama, depois do commit.
+  private async modifyTransaction(tx: TransactionClient, id: number, userId: number, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    // Normalizar datas quando presentes e atualizar updatedAt
+    const normalizeAmount = (value: any): string | undefined => {
+      if (value === undefined) return undefined;
+      if (value === null) return '0.00';
+      if (typeof value === 'number') return value.toFixed(2);
+      if (typeof value === 'string') {
+        const withDot = value.replace(',', '.').trim();
+        const num = Number(withDot);
+        if (Number.isNaN(num)) {
+          throw new Error(`Invalid amount value: ${value}`);
+        }
+        return num.toFixed(2);
+      }
+      throw new Error(`Unsupported amount type: ${typeof value}`);
+    };
+
+    const transactionWithTimestamp: Partial<InsertTransaction> & { updatedAt: Date; amount?: string } = {
+      ...transaction,
+      amount: normalizeAmount((transaction as any).amount),
+      date: transaction.date ? (typeof transaction.date === 'string' ? new Date(transaction.date) : transaction.date) : undefined,
+      dueDate: transaction.dueDate === null
+        ? null
+        : (transaction.dueDate ? (typeof transaction.dueDate === 'string' ? new Date(transaction.dueDate) : transaction.dueDate) : undefined),
+      updatedAt: new Date(),
+    } as any;
+
+    // Remover chaves com valor undefined para não sobrescrever indevidamente
+    Object.keys(transactionWithTimestamp).forEach((key) => ((transactionWithTimestamp as any)[key] === undefined) && delete (transactionWithTimestamp as any)[key]);
+
+    // A linha fica bloqueada até o commit: duas edições simultâneas não estornam o mesmo efeito duas vezes
+    const [previous] = await tx.select().from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+      .for('update');
+    if (!previous) return undefined;
+
+    await tx.update(transactions).set(transactionWithTimestamp).where(eq(transactions.id, id));
+    const [current] = await tx.select().from(transactions).where(eq(transactions.id, id));
+    if (!current) return undefined;
+
+    // Estorna o efeito anterior e aplica o novo (a conta pode ter mudado)
+    await this.applyBalanceEffects(tx, reverseEffects(getBalanceEffects(previous)));
+    await this.applyBalanceEffects(tx, getBalanceEffects(current));
+    return this.assignStatement(tx, current);
+  }
+
+  async deleteTransaction(id: number, userId: number): Promise<boolean> {
+    const removedFiles: string[] = [];
+    const deleted = await this.runInTransaction(async (tx) => {
+      const [existing] = await tx.select().from(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+        .for('update');
+      if (!existing) return false;
+      return this.removeTransaction(tx, existing, removedFiles);
+    });
+    await removeStoredFiles(removedFiles);
+    return deleted;
+  }
+
+  // Exclui uma transação avulsa dentro da transação de banco corrente. As chaves dos anexos vão para removedFiles.
+  // Os saldos só são estornados se a linha ainda existia; retorna se ela foi excluída.
+  private async removeTransaction(tx: TransactionClient, existing: Transaction, removedFiles: string[]): Promise<boolean> {
+    // Excluir o pagamento de uma fatura a reabre
+    await tx.update(cardStatements)
+      .set({ status: 'closed', paymentTransactionId: null, paidAt: null, updatedAt: new Date() })
+      .where(eq(cardStatements.paymentTransactionId, existing.id));
+    // A movimentação da meta continua valendo, só perde o vínculo com a transferência
+    await tx.update(goalContributions).set({ transactionId: null }).where(eq(goalContributions.transactionId, existing.id));
+    removedFiles.push(...await this.deleteAttachmentsOf(tx, eq(transactions.id, existing.id)));
+    const result = await tx.delete(transactions).where(eq(transactions.id, existing.id));
+    if (result[0].affectedRows === 0) return false;
+    await this.applyBalanceEffects(tx, reverseEffects(getBalanceEffects(existing)));
+    return true;
+  }
+
+  async getTransactionAttachments(transactionId: number): Promise<TransactionAttachment[]> {
+    return db.select().from(transactionAttachments)
+      .where(eq(transactionAttachments.transactionId, transactionId))
+      .orderBy(asc(transactionAttachments.id));
+  }
+
+  // Anexos de uma página de transações, numa única consulta (miniaturas das listagens)
+  async getTransactionAttachmentsForList(transactionIds: number[]): Promise<TransactionAttachment[]> {
+    if (transactionIds.length === 0) return [];
+    return db.select().from(transactionAttachments)
+      .where(inArray(transactionAttachments.transactionId, transactionIds))
+      .orderBy(asc(transactionAttachments.id));
+  }
+
+  async getTransactionAttachmentById(id: number, transactionId: number): Promise<TransactionAttachment | undefined> {
+    const [attachment] = await db.select().from(transactionAttachments)
+      .where(and(eq(transactionAttachments.id, id), eq(transactionAttachments.transactionId, transactionId)));
+    return attachment;
+  }
+
+  async createTransactionAttachment(attachment: {
+    transactionId: number;
+    userId: number;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    storageKey: string;
+    createdBy: number | null;
+  }): Promise<TransactionAttachment> {
+    const result = await db.insert(transactionAttachments).values(attachment);
+    const [created] = await db.select().from(transactionAttachments).where(eq(transactionAttachments.id, result[0].insertId));
+    return created;
+  }
+
+  // Apaga o registro e depois o arquivo
+  async deleteTransactionAttachment(id: number, transactionId: number): Promise<TransactionAttachment | undefined> {
+    const attachment = await this.getTransactionAttachmentById(id, transactionId);
+    if (!attachment) return undefined;
+    const result = await db.delete(transactionAttachments).where(eq(transactionAttachments.id, id));
+    if (result[0].affectedRows === 0) return undefined;
+    await removeStoredFiles([attachment.storageKey]);
+    return attachment;
+  }
+
+  // Remove os anexos das transações que atendem à condição e devolve as chaves dos arquivos. Os arquivos só
+  // são apagados depois do commit (removeStoredFiles): se a transação de banco falhar, os anexos continuam válidos.
+  private async deleteAttachmentsOf(tx: TransactionClient, condition: SQL | undefined): Promise<string[]> {
+    const rows = await tx.select({ id: transactionAttachments.id, storageKey: transactionAttachments.storageKey })
+      .from(transactionAttachments)
+      .innerJoin(transactions, eq(transactionAttachments.transactionId, transactions.id))
+      .where(condition);
+    if (rows.length > 0) {
+      await tx.delete(transactionAttachments).where(inArray(transactionAttachments.id, rows.map((row) => row.id)));
+    }
+    return rows.map((row) => row.storageKey);
+  }
+
+  // Soma (ou subtrai) os valores aos saldos das contas dentro da transação de banco corrente
+  private async applyBalanceEffects(tx: TransactionClient, effects: BalanceEffect[]): Promise<void> {
+    for (const { accountId, delta } of effects) {
+      if (!accountId || delta === 0) continue;
+      await tx.update(accounts)
+        .set({ balance: sql`${accounts.balance} + ${delta.toFixed(2)}`, updatedAt: new Date() })
+        .where(eq(accounts.id, accountId));
+    }
+  }
+
+  // Vincula compras/estornos de cartão à fatura do ciclo correspondente (criando-a se preciso)
+  private async assignStatement(tx: TransactionClient, transaction: Transaction): Promise<Transaction> {
+    let statementId: number | null = null;
+    if (transaction.accountId && (transaction.type === 'expense' || transaction.type === 'income')) {
+      const [account] = await tx.select().from(accounts).where(eq(accounts.id, transaction.accountId));
+      if (account?.type === 'credit_card' && account.closingDay) {
+        const statement = await this.findOrCreateStatement(tx, account, transaction.date);
+        statementId = statement.id;
+      }
+    }
+    if (transaction.statementId === statementId) return transaction;
+    await tx.update(transactions).set({ statementId }).where(eq(transactions.id, transaction.id));
+    return { ...transaction, statementId };
+  }
+
+  private async findOrCreateStatement(tx: TransactionClient, account: Account, date: Date | string): Promise<CardStatement> {
+    const cycle = getStatementCycle(account.closingDay!, account.dueDay, date);
+    const [existing] = await tx.select().from(cardStatements).where(and(
+      eq(cardStatements.accountId, account.id),
+      eq(cardStatements.closingDate, cycle.closingDate),
+    ));
+    if (existing) return existing;
+
+    const now = new Date();
+    const result = await tx.insert(cardStatements).values({
+      userId: account.userId,
+      accountId: account.id,
+      ...cycle,
+      status: cycle.closingDate < startOfDay(now) ? 'closed' : 'open',
+      createdAt: now,
+      updatedAt: now,
+    } as any);
+    const [created] = await tx.select().from(cardStatements).where(eq(cardStatements.id, result[0].insertId));
+    if (!created) throw new Error('Failed to create card statement');
+    return created;
+  }
+
+  // Fecha as faturas cujo dia de fechamento já passou e gera o aviso de vencimento
+  private async closeDueStatements(account: Account): Promise<void> {
+    const today = startOfDay(new Date());
+    const toClose = await db.select().from(cardStatements).where(and(
+      eq(cardStatements.accountId, account.id),
+      eq(cardStatements.status, 'open'),
+      lt(cardStatements.closingDate, today),
+    ));
+    for (const statement of toClose) {
+      await db.update(cardStatements)
+        .set({ status: 'closed', updatedAt: new Date() })
+        .where(eq(cardStatements.id, statement.id));
+      const statementTransactions = await db.select().from(transactions).where(eq(transactions.statementId, statement.id));
+      const total = getStatementTotal(statementTransactions);
+      if (total <= 0) continue;
+      await this.createAlert({
+        userId: account.userId,
+        type: 'bill_due',
+        message: `A fatura do cartão "${account.name}" de R$ ${total.toFixed(2)} vence em ${new Date(statement.dueDate).toLocaleDateString('pt-BR')}.`,
+        referenceId: statement.id,
+        referenceType: 'card_statement',
+        isRead: false,
+      });
+    }
+  }
+
+  async getCardStatements(account: Account): Promise<CardStatementsOverview> {
+    if (account.closingDay) {
+      // Garante que a fatura do ciclo atual exista mesmo sem compras
+      await this.runInTransaction((tx) => this.findOrCreateStatement(tx, account, new Date()));
+      await this.closeDueStatements(account);
+    }
+
+    const statementRows = await db.select().from(cardStatements)
+      .where(eq(cardStatements.accountId, account.id))
+      .orderBy(desc(cardStatements.closingDate));
+    const accountTransactions = await db.select().from(transactions)
+      .where(eq(transactions.accountId, account.id))
+      .orderBy(desc(transactions.date));
+
+    const statements: CardStatementSummary[] = statementRows.map((statement) => {
+      const statementTransactions = accountTransactions.filter((t) => t.statementId === statement.id);
+      return { ...statement, total: getStatementTotal(statementTransactions), transactions: statementTransactions };
+    });
+
+    const creditLimit = parseFloat(account.creditLimit ?? '0') || 0;
+    const usedCredit = statements
+      .filter((statement) => statement.status !== 'paid')
+      .reduce((sum, statement) => sum + statement.total, 0);
+    return {
+      accountId: account.id,
+      creditLimit,
+      usedCredit: Math.round(usedCredit * 100) / 100,
+      availableCredit: Math.round((creditLimit - usedCredit) * 100) / 100,
+      statements,
+    };
+  }
+
+  async getCardStatementById(id: number, userId: number): Promise<CardStatement | undefined> {
+    const [statement] = await db.select().from(cardStatements).where(and(eq(cardStatements.id, id), eq(cardStatements.userId, userId)));
+    return statement;
+  }
+
+  // Quita a fatura com uma transferência da conta de origem para o cartão, na mesma transação de banco
+  async payCardStatement(statementId: number, userId: number, sourceAccountId: number, date: Date, createdBy: number | null = null): Promise<CardStatementSummary | undefined> {
+    return this.runInTransaction(async (tx) => {
+      // Bloqueia a fatura: um segundo pagamento simultâneo espera e encontra o status 'paid'
+      const [statement] = await tx.select().from(cardStatements)
+        .where(and(eq(cardStatements.id, statementId), eq(cardStatements.userId, userId)))
+        .for('update');
+      if (!statement || statement.status === 'paid') return undefined;
+      const [card] = await tx.select().from(accounts).where(and(eq(accounts.id, statement.accountId), eq(accounts.userId, userId)));
+      if (!card) return undefined;
+
+      const statementTransactions = await tx.select().from(transactions).where(eq(transactions.statementId, statementId));
+      const total = getStatementTotal(statementTransactions);
+      if (total <= 0) return undefined;
+
+      const closingDate = new Date(statement.closingDate);
+      const now = new Date();
+      const result = await tx.insert(transactions).values({
+        description: `Pagamento da fatura ${card.name} (${String(closingDate.getUTCMonth() + 1).padStart(2, '0')}/${closingDate.getUTCFullYear()})`,
+        amount: total.toFixed(2),
+        date,
+        type: 'transfer',
+        status: 'paid',
+        isRecurring: false,
+        accountId: sourceAccountId,
+        destinationAccountId: card.id,
+        userId: statement.userId,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      } as any);
+      const [payment] = await tx.select().from(transactions).where(eq(transactions.id, result[0].insertId));
+      if (!payment) throw new Error('Failed to create statement payment');
+      await this.applyBalanceEffects(tx, getBalanceEffects(payment));
+
+      await tx.update(cardStatements)
+        .set({ status: 'paid', paymentTransactionId: payment.id, paidAt: now, updatedAt: now })
+        .where(eq(cardStatements.id, statementId));
+      return { ...statement, status: 'paid', paymentTransactionId: payment.id, paidAt: now, total, transactions: statementTransactions };
+    });
+  }
+
+  // Cria o grupo e uma parcela por mês; cada parcela cai na fatura do seu próprio mês
+  async createInstallmentPurchase(purchase: ValidatedInsertInstallmentPurchase, createdBy: number | null = null): Promise<{ group: InstallmentGroup; transactions: Transaction[] }> {
+    const purchaseResult = await this.runInTransaction(async (tx) => {
+      const now = new Date();
+      const groupResult = await tx.insert(installmentGroups).values({
+        userId: purchase.userId,
+        accountId: purchase.accountId,
+        description: purchase.description,
+        totalAmount: purchase.amount.toFixed(2),
+        installmentCount: purchase.installments,
+        firstDate: purchase.date,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now,
+      } as any);
+      const [group] = await tx.select().from(installmentGroups).where(eq(installmentGroups.id, groupResult[0].insertId));
+      if (!group) throw new Error('Failed to create installment group');
+
+      const amounts = splitInstallments(purchase.amount, purchase.installments);
+      const created: Transaction[] = [];
+      for (let index = 0; index < purchase.installments; index++) {
+        const installment = await this.insertTransaction(tx, {
+          description: purchase.description,
+          amount: amounts[index].toFixed(2),
+          date: addMonths(purchase.date, index),
+          dueDate: purchase.dueDate ? addMonths(purchase.dueDate, index) : null,
+          type: 'expense',
+          // Apenas a primeira parcela herda o status informado; as demais ficam pendentes
+          status: index === 0 ? purchase.status : 'pending',
+          isRecurring: false,
+          expenseType: purchase.expenseType ?? null,
+          categoryId: purchase.categoryId,
+          accountId: purchase.accountId,
+          userId: purchase.userId,
+          createdBy,
+          installmentGroupId: group.id,
+          installmentNumber: index + 1,
+          installmentCount: purchase.installments,
+        });
+        created.push(installment);
+      }
+      return { group, transactions: created };
+    });
+    await this.checkBudgetAlerts(purchaseResult.transactions[0]);
+    return purchaseResult;
+  }
+
+  async getInstallmentGroupById(id: number, userId: number): Promise<InstallmentGroup | undefined> {
+    const [group] = await db.select().from(installmentGroups).where(and(eq(installmentGroups.id, id), eq(installmentGroups.userId, userId)));
+    return group;
+  }
+
+  // Aplica as alterações às parcelas ainda não pagas; parcelas pagas mantêm o histórico
+  async updateInstallmentGroup(id: number, userId: number, changes: ValidatedUpdateInstallmentGroup): Promise<Transaction[] | undefined> {
+    return this.runInTransaction(async (tx) => {
+      const [group] = await tx.select().from(installmentGroups).where(and(eq(installmentGroups.id, id), eq(installmentGroups.userId, userId)));
+      if (!group) return undefined;
+
+      const transactionChanges: Partial<InsertTransaction> = {};
+      if (changes.description !== undefined) transactionChanges.description = changes.description;
+      if (changes.categoryId !== undefined) transactionChanges.categoryId = changes.categoryId;
+      if (changes.expenseType !== undefined) transactionChanges.expenseType = changes.expenseType;
+      if (changes.installmentAmount !== undefined) transactionChanges.amount = changes.installmentAmount.toFixed(2);
+
+      const remainingFilter = and(eq(transactions.installmentGroupId, id), ne(transactions.status, 'paid'));
+      if (Object.keys(transactionChanges).length > 0) {
+        await tx.update(transactions).set({ ...transactionChanges, updatedAt: new Date() }).where(remainingFilter);
+      }
+
+      const installments = await tx.select().from(transactions).where(eq(transactions.installmentGroupId, id));
+      const totalAmount = installments.reduce((sum, installment) => sum + (parseFloat(installment.amount) || 0), 0);
+      await tx.update(installmentGroups)
+        .set({
+          description: changes.description ?? group.description,
+          totalAmount: totalAmount.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(installmentGroups.id, id));
+
+      return installments.filter((installment) => installment.status !== 'paid');
+    });
+  }
+
+  // Cancela o parcelamento removendo as parcelas ainda não pagas
+  async cancelInstallmentGroup(id: number, userId: number): Promise<boolean> {
+    const removedFiles: string[] = [];
+    const cancelled = await this.runInTransaction(async (tx) => {
+      const [group] = await tx.select().from(installmentGroups).where(and(eq(installmentGroups.id, id), eq(installmentGroups.userId, userId)));
+      if (!group) return false;
+
+      const remainingFilter = and(eq(transactions.installmentGroupId, id), ne(transactions.status, 'paid'));
+      const remaining = await tx.select().from(transactions).where(remainingFilter);
+      removedFiles.push(...await this.deleteAttachmentsOf(tx, remainingFilter));
+      for (const installment of remaining) {
+        await tx.delete(transactions).where(eq(transactions.id, installment.id));
+        await this.applyBalanceEffects(tx, reverseEffects(getBalanceEffects(installment)));
+      }
+
+      await tx.update(installmentGroups)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(installmentGroups.id, id));
+      return true;
+    });
+    await removeStoredFiles(removedFiles);
+    return cancelled;
+  }
+
+  private async insertRecurrenceRule(
+    tx: TransactionClient,
+    transaction: InsertTransaction,
+    recurrence: ValidatedRecurrenceInput,
+    generatedCount = 1,
+  ): Promise<RecurrenceRule> {
+    const now = new Date();
+    const result = await tx.insert(recurrenceRules).values({
+      userId: transaction.userId,
+      frequency: recurrence.frequency,
+      interval: recurrence.interval,
+      dayOfMonth: recurrence.frequency === 'monthly' ? recurrence.dayOfMonth ?? null : null,
+      startDate: transaction.date,
+      endDate: recurrence.endDate ?? null,
+      occurrenceCount: recurrence.count ?? null,
+      generatedCount,
+      status: 'active',
+      description: transaction.description,
+      amount: transaction.amount,
+      type: transaction.type,
+      categoryId: transaction.categoryId ?? null,
+      accountId: transaction.accountId ?? null,
+      destinationAccountId: transaction.destinationAccountId ?? null,
+      expenseType: transaction.expenseType ?? null,
+      createdAt: now,
+      updatedAt: now,
+    } as any);
+    const [rule] = await tx.select().from(recurrenceRules).where(eq(recurrenceRules.id, result[0].insertId));
+    if (!rule) throw new Error('Failed to create recurrence rule');
+    return rule;
+  }
+
+  // Gera como pendentes as ocorrências ainda não criadas até a data limite; retorna quantas foram criadas.
+  // A regra é bloqueada (FOR UPDATE) para que o agendador e as requisições não dupliquem ocorrências.
+  async materializeRecurringTransactions(until: Date, ruleId?: number): Promise<number> {
+    const conditions = [eq(recurrenceRules.status, 'active')];
+    if (ruleId !== undefined) conditions.push(eq(recurrenceRules.id, ruleId));
+    const activeRules = await db.select({ id: recurrenceRules.id }).from(recurrenceRules).where(and(...conditions));
+
+    const created: Transaction[] = [];
+    for (const { id } of activeRules) {
+      created.push(...await this.runInTransaction(async (tx) => {
+        const generated: Transaction[] = [];
+        const [rule] = await tx.select().from(recurrenceRules).where(eq(recurrenceRules.id, id)).for('update');
+        if (!rule || rule.status !== 'active') return generated;
+
+        let index = rule.generatedCount;
+        let ended = false;
+        while (true) {
+          if (rule.occurrenceCount && index >= rule.occurrenceCount) {
+            ended = true;
+            break;
+          }
+          const date = getOccurrenceDate(rule, index);
+          if (rule.endDate && date > startOfDay(rule.endDate)) {
+            ended = true;
+            break;
+          }
+          if (date > until) break;
+
+          generated.push(await this.insertTransaction(tx, {
+            description: rule.description,
+            amount: rule.amount,
+            date,
+            type: rule.type,
+            status: 'pending',
+            isRecurring: true,
+            expenseType: rule.expenseType,
+            categoryId: rule.categoryId,
+            accountId: rule.accountId,
+            destinationAccountId: rule.destinationAccountId,
+            userId: rule.userId,
+            recurrenceRuleId: rule.id,
+            recurrenceIndex: index,
+          }));
+          index++;
+        }
+
+        if (index !== rule.generatedCount || ended) {
+          await tx.update(recurrenceRules)
+            .set({ generatedCount: index, status: ended ? 'ended' : rule.status, updatedAt: new Date() })
+            .where(eq(recurrenceRules.id, rule.id));
+        }
+        return generated;
+      }));
+    }
+    await this.checkBudgetAlertsForBatch(created);
+    return created.length;
   }
 
-  async createManyCategories(data: InsertCategory[], tx?: TransactionClient): Promise<void> {
-    const dbClient = tx || db;
-    if (data.length === 0) return;
-    await dbClient.insert(categories).values(data);
+  // Edita uma ocorrência recorrente. "this" altera só a ocorrência; "future" e "all" propagam os campos do modelo
+  // para as ocorrências ainda não liquidadas (a partir desta ou todas) e para a regra. Uma mudança no padrão
+  // de recorrência com escopo "future" encerra a regra atual e cria uma nova a partir desta ocorrência.
+  async updateRecurringTransaction(
+    id: number,
+    userId: number,
+    changes: Partial<InsertTransaction>,
+    scope: RecurrenceScope,
+    recurrence?: ValidatedRecurrenceInput,
+  ): Promise<Transaction | undefined> {
+    // A ocorrência editada e a propagação para a série são gravadas na mesma transação de banco
+    const removedFiles: string[] = [];
+    const result = await this.runInTransaction(async (tx) => {
+      const updated = await this.modifyTransaction(tx, id, userId, changes);
+      if (!updated || scope === 'this' || !updated.recurrenceRuleId || updated.recurrenceIndex === null) {
+        return { updated, propagated: false, newRuleId: undefined };
+      }
+      const ruleId = updated.recurrenceRuleId;
+      const occurrenceIndex = updated.recurrenceIndex;
+
+      const templateChanges: Partial<InsertTransaction> = {};
+      for (const field of RECURRENCE_TEMPLATE_FIELDS) {
+        if (changes[field] !== undefined) (templateChanges as any)[field] = updated[field];
+      }
+
+      const siblingFilter = and(
+        eq(transactions.recurrenceRuleId, ruleId),
+        ne(transactions.id, id),
+        notInArray(transactions.status, SETTLED_STATUSES),
+        scope === 'future' ? gt(transactions.recurrenceIndex, occurrenceIndex) : undefined,
+      );
+
+      if (recurrence && scope === 'future') {
+        // Encerra a regra atual nesta ocorrência e recomeça a série com o novo padrão
+        removedFiles.push(...await this.deleteAttachmentsOf(tx, siblingFilter));
+        await tx.delete(transactions).where(siblingFilter);
+        await tx.update(recurrenceRules)
+          .set({ occurrenceCount: occurrenceIndex, generatedCount: occurrenceIndex, status: 'ended', updatedAt: new Date() })
+          .where(eq(recurrenceRules.id, ruleId));
+        const rule = await this.insertRecurrenceRule(tx, updated, recurrence);
+        await tx.update(transactions)
+          .set({ recurrenceRuleId: rule.id, recurrenceIndex: 0 })
+          .where(eq(transactions.id, id));
+        return { updated, propagated: true, newRuleId: rule.id };
+      }
+
+      if (Object.keys(templateChanges).length > 0) {
+        const siblings = await tx.select().from(transactions).where(siblingFilter);
+        for (const sibling of siblings) {
+          await tx.update(transactions).set({ ...templateChanges, updatedAt: new Date() }).where(eq(transactions.id, sibling.id));
+          await this.assignStatement(tx, { ...sibling, ...templateChanges } as Transaction);
+        }
+        await tx.update(recurrenceRules)
+          .set({ ...(templateChanges as any), updatedAt: new Date() })
+          .where(eq(recurrenceRules.id, ruleId));
+      }
+      return { updated, propagated: true, newRuleId: undefined };
+    });
+    await removeStoredFiles(removedFiles);
+
+    const { updated, propagated, newRuleId } = result;
+    if (!updated) return undefined;
+    await this.createAlertIfNeeded(updated);
+    await this.checkBudgetAlerts(updated);
+    if (!propagated) return updated;
+
+    if (newRuleId) {
+      await this.materializeRecurringTransactions(getRecurrenceHorizon(), newRuleId);
+    }
+    return this.getTransactionById(id, userId);
   }
 
-  async createCategory(category: InsertCategory): Promise<Category> {
-    if (!category.userId) {
-      throw new Error('UserID é obrigatório para criar uma categoria.');
+  // Exclui uma ocorrência recorrente. "future" e "all" removem também as ocorrências não liquidadas
+  // (a partir desta ou todas) e encerram a regra; as já pagas/recebidas ficam como histórico.
+  async deleteRecurringTransaction(id: number, userId: number, scope: RecurrenceScope): Promise<boolean> {
+    const existing = await this.getTransactionById(id, userId);
+    if (!existing) return false;
+    if (scope === 'this' || !existing.recurrenceRuleId || existing.recurrenceIndex === null) {
+      return this.deleteTransaction(id, userId);
     }
-    const result = await db.insert(categories).values(category);
-    const [newCategory] = await db.select().from(categories).where(eq(categories.id, result[0].insertId));
-    if (!newCategory) throw new Error('Failed to create category');
-    return newCategory;
+    const ruleId = existing.recurrenceRuleId;
+    const occurrenceIndex = existing.recurrenceIndex;
+
+    const removedFiles: string[] = [];
+    const deleted = await this.runInTransaction(async (tx) => {
+      const toDelete = await tx.select().from(transactions).where(and(
+        eq(transactions.recurrenceRuleId, ruleId),
+        scope === 'future' ? gte(transactions.recurrenceIndex, occurrenceIndex) : undefined,
+      ));
+      const removable = toDelete.filter((transaction) => transaction.id === id || !SETTLED_STATUSES.includes(transaction.status));
+      if (removable.length > 0) {
+        const removableFilter = inArray(transactions.id, removable.map((transaction) => transaction.id));
+        removedFiles.push(...await this.deleteAttachmentsOf(tx, removableFilter));
+        await tx.delete(transactions).where(removableFilter);
+      }
+      for (const transaction of removable) {
+        await this.applyBalanceEffects(tx, reverseEffects(getBalanceEffects(transaction)));
+      }
+      await tx.update(recurrenceRules)
+        .set({
+          status: 'ended',
+          ...(scope === 'future' ? { occurrenceCount: occurrenceIndex } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(recurrenceRules.id, ruleId));
+      return true;
+    });
+    await removeStoredFiles(removedFiles);
+    return deleted;
   }
 
-  async updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category | undefined> {
-    await db.update(categories).set(category).where(eq(categories.id, id));
-    const [updated] = await db.select().from(categories).where(eq(categories.id, id));
-    return updated;
+  // Marca as linhas do extrato que já existem na conta; nada é gravado nesta etapa
+  async previewImport(userId: number, accountId: number, rows: ParsedImportRow[]): Promise<ImportPreviewRow[]> {
+    if (rows.length === 0) return [];
+    const times = rows.map((row) => row.date.getTime());
+    const windowMs = IMPORT_DUPLICATE_WINDOW_DAYS * 24 * 3600 * 1000;
+    const existing = await db.select().from(transactions).where(and(
+      eq(transactions.accountId, accountId),
+      gte(transactions.date, new Date(Math.min(...times) - windowMs)),
+      lte(transactions.date, new Date(Math.max(...times) + windowMs)),
+    ));
+
+    const suggestedCategories = await this.categorizeByRules(userId, rows);
+    return rows.map((row, index) => ({
+      ...row,
+      duplicateOf: findImportDuplicate(row, existing)?.id ?? null,
+      categoryId: suggestedCategories[index],
+    }));
   }
 
-  async deleteCategory(id: number): Promise<boolean> {
-    await db.delete(categories).where(eq(categories.id, id));
-    return true;
+  // Grava as linhas confirmadas como um lote; extratos trazem lançamentos já liquidados
+  async commitImport(userId: number, data: ValidatedConfirmImport, createdBy: number | null = null): Promise<{ batch: ImportBatch; transactions: Transaction[] }> {
+    const result = await this.runInTransaction(async (tx) => {
+      const now = new Date();
+      const batchResult = await tx.insert(importBatches).values({
+        userId,
+        accountId: data.accountId,
+        format: data.format,
+        fileName: data.fileName ?? null,
+        transactionCount: data.rows.length,
+        status: 'committed',
+        createdAt: now,
+        updatedAt: now,
+      });
+      const [batch] = await tx.select().from(importBatches).where(eq(importBatches.id, batchResult[0].insertId));
+      if (!batch) throw new Error('Failed to create import batch');
+
+      const created: Transaction[] = [];
+      for (const row of data.rows) {
+        created.push(await this.insertTransaction(tx, {
+          description: row.description,
+          amount: row.amount,
+          date: row.date,
+          type: row.type,
+          status: row.type === 'income' ? 'received' : 'paid',
+          isRecurring: false,
+          categoryId: row.categoryId ?? null,
+          accountId: data.accountId,
+          userId,
+          createdBy,
+          importBatchId: batch.id,
+          externalId: row.externalId ?? null,
+        }));
+      }
+      return { batch, transactions: created };
+    });
+    await this.checkBudgetAlertsForBatch(result.transactions);
+    return result;
   }
 
-  async getAccounts(userId: number): Promise<Account[]> {
-    return db.select().from(accounts).where(eq(accounts.userId, userId)).orderBy(desc(accounts.id));
+  async getImportBatches(userId: number): Promise<ImportBatch[]> {
+    return db.select().from(importBatches).where(eq(importBatches.userId, userId)).orderBy(desc(importBatches.createdAt));
   }
 
-  async createAccount(account: InsertAccount): Promise<Account> {
-    const now = new Date();
-    const normalized: InsertAccount & { createdAt: Date; updatedAt: Date } = {
-      ...account,
-      createdAt: now,
-      updatedAt: now,
-    } as any;
+  async getImportBatchById(id: number, userId: number): Promise<ImportBatch | undefined> {
+    const [batch] = await db.select().from(importBatches).where(and(eq(importBatches.id, id), eq(importBatches.userId, userId)));
+    return batch;
+  }
 
-    const result = await db.insert(accounts).values(normalized);
-    const [newAccount] = await db
-      .select()
-      .from(accounts)
-      .where(eq(accounts.id, result[0].insertId));
+  // Desfaz o lote: remove as transações importadas e estorna seus efeitos nos saldos
+  async undoImportBatch(id: number, userId: number): Promise<boolean> {
+    const removedFiles: string[] = [];
+    const undone = await this.runInTransaction(async (tx) => {
+      // Bloqueia o lote: um segundo desfazer simultâneo espera e encontra o status 'undone'
+      const [batch] = await tx.select().from(importBatches)
+        .where(and(eq(importBatches.id, id), eq(importBatches.userId, userId)))
+        .for('update');
+      if (!batch || batch.status === 'undone') return false;
+      const imported = await tx.select().from(transactions).where(eq(transactions.importBatchId, id));
+      for (const transaction of imported) {
+        await this.applyBalanceEffects(tx, reverseEffects(getBalanceEffects(transaction)));
+      }
+      removedFiles.push(...await this.deleteAttachmentsOf(tx, eq(transactions.importBatchId, id)));
+      await tx.delete(transactions).where(eq(transactions.importBatchId, id));
+      await tx.update(importBatches).set({ status: 'undone', updatedAt: new Date() }).where(eq(importBatches.id, id));
+      return true;
+    });
+    await removeStoredFiles(removedFiles);
+    return undone;
+  }
 
-    if (!newAccount) {
-      throw new Error("Failed to create account");
-    }
+  async getCategorizationRules(userId: number): Promise<CategorizationRule[]> {
+    return db.select().from(categorizationRules)
+      .where(eq(categorizationRules.userId, userId))
+      .orderBy(desc(categorizationRules.priority), asc(categorizationRules.id));
+  }
 
-    return newAccount;
+  async getCategorizationRuleById(id: number, userId: number): Promise<CategorizationRule | undefined> {
+    const [rule] = await db.select().from(categorizationRules).where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
+    return rule;
   }
 
-  async deleteAccount(id: number): Promise<boolean> {
-    await db.delete(accounts).where(eq(accounts.id, id));
-    return true;
+  async createCategorizationRule(rule: ValidatedInsertCategorizationRule): Promise<CategorizationRule> {
+    const now = new Date();
+    const result = await db.insert(categorizationRules).values({ ...rule, createdAt: now, updatedAt: now });
+    const [newRule] = await db.select().from(categorizationRules).where(eq(categorizationRules.id, result[0].insertId));
+    if (!newRule) throw new Error('Failed to create categorization rule');
+    return newRule;
   }
 
-  async getTransactions(userId: number): Promise<Transaction[]> {
-    return db.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(desc(transactions.date));
+  async updateCategorizationRule(id: number, userId: number, rule: ValidatedUpdateCategorizationRule): Promise<CategorizationRule | undefined> {
+    const ownership = and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId));
+    await db.update(categorizationRules).set({ ...rule, updatedAt: new Date() }).where(ownership);
+    const [updated] = await db.select().from(categorizationRules).where(ownership);
+    return updated;
   }
 
-  async getTransactionsByDateRange(userId: number, startDate: Date, endDate: Date): Promise<Transaction[]> {
-    return db.select()
-      .from(transactions)
-      .where(and(
-        eq(transactions.userId, userId),
-        gte(transactions.date, startDate),
-        lte(transactions.date, endDate)
-      ))
-      .orderBy(asc(transactions.date));
+  async deleteCategorizationRule(id: number, userId: number): Promise<boolean> {
+    const result = await db.delete(categorizationRules).where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
+    return result[0].affectedRows > 0;
   }
 
-  async getTransactionsByType(userId: number, type: string): Promise<Transaction[]> {
-    return db.select()
-      .from(transactions)
-      .where(and(
-        eq(transactions.userId, userId),
-        eq(transactions.type, type)
-      ))
-      .orderBy(desc(transactions.date));
+  // Regras do usuário com o tipo da categoria de destino, na ordem de avaliação
+  private async getRulesWithType(userId: number, ruleId?: number): Promise<CategorizationRuleWithType[]> {
+    const rows = await db.select({ rule: categorizationRules, categoryType: categories.type })
+      .from(categorizationRules)
+      .innerJoin(categories, eq(categorizationRules.categoryId, categories.id))
+      .where(ruleId === undefined
+        ? eq(categorizationRules.userId, userId)
+        : and(eq(categorizationRules.userId, userId), eq(categorizationRules.id, ruleId)))
+      .orderBy(desc(categorizationRules.priority), asc(categorizationRules.id));
+    return rows.map(({ rule, categoryType }) => ({ ...rule, categoryType }));
   }
 
-  async getUpcomingTransactions(userId: number, days: number): Promise<Transaction[]> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const futureDate = new Date(today);
-    futureDate.setDate(today.getDate() + days);
-    futureDate.setHours(23, 59, 59, 999);
-    
-    return db.select()
+  // Categoria definida pelas regras para cada item (null quando nenhuma regra casa)
+  async categorizeByRules(userId: number, items: CategorizableTransaction[]): Promise<(number | null)[]> {
+    if (items.length === 0) return [];
+    const rules = await this.getRulesWithType(userId);
+    return items.map((item) => findMatchingRule(rules, item)?.categoryId ?? null);
+  }
+
+  // Reaplica as regras (ou apenas uma delas) ao histórico de receitas e despesas; retorna quantas mudaram
+  // Retorna quantas transações mudaram (ou mudariam, em dryRun); as alterações são gravadas numa única transação de banco
+  async applyCategorizationRules(userId: number, { ruleId, overwrite, dryRun }: ApplyCategorizationRulesOptions): Promise<number> {
+    const rules = await this.getRulesWithType(userId, ruleId);
+    if (rules.length === 0) return 0;
+
+    const changed = await this.runInTransaction(async (tx) => {
+      const conditions = [eq(transactions.userId, userId), inArray(transactions.type, ['income', 'expense'])];
+      if (!overwrite) conditions.push(isNull(transactions.categoryId));
+      const history = await tx.select().from(transactions).where(and(...conditions)).for('update');
+
+      const recategorized: Transaction[] = [];
+      const idsByCategory = new Map<number, number[]>();
+      for (const transaction of history) {
+        const match = findMatchingRule(rules, transaction);
+        if (!match || match.categoryId === transaction.categoryId) continue;
+        recategorized.push({ ...transaction, categoryId: match.categoryId });
+        idsByCategory.set(match.categoryId, [...(idsByCategory.get(match.categoryId) ?? []), transaction.id]);
+      }
+      if (dryRun) return recategorized;
+
+      const now = new Date();
+      for (const [categoryId, ids] of idsByCategory) {
+        await tx.update(transactions).set({ categoryId, updatedAt: now }).where(inArray(transactions.id, ids));
+      }
+      return recategorized;
+    });
+
+    if (!dryRun) await this.checkBudgetAlertsForBatch(changed);
+    return changed.length;
+  }
+
+  // Aprende com as categorias escolhidas manualmente: agrupa descrições parecidas que ainda
+  // não são cobertas por nenhuma regra e sugere a categoria predominante de cada grupo
+  async suggestCategorizationRules(userId: number): Promise<CategorizationRuleSuggestion[]> {
+    const rules = await this.getRulesWithType(userId);
+    const rows = await db.select({ transaction: transactions, categoryName: categories.name })
       .from(transactions)
+      .innerJoin(categories, eq(transactions.categoryId, categories.id))
       .where(and(
         eq(transactions.userId, userId),
-        gte(transactions.date, today),
-        lte(transactions.date, futureDate)
-      ))
-      .orderBy(asc(transactions.date));
-  }
+        inArray(transactions.type, ['income', 'expense']),
+      ));
 
-  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    // Garantir datas corretas e timestamps exigidos pelo banco
-    const normalizeAmount = (value: any): string => {
-      if (value === null || value === undefined) return '0.00';
-      if (typeof value === 'number') return value.toFixed(2);
-      if (typeof value === 'string') {
-        const withDot = value.replace(',', '.').trim();
-        const num = Number(withDot);
-        if (Number.isNaN(num)) {
-          throw new Error(`Invalid amount value: ${value}`);
-        }
-        return num.toFixed(2);
-      }
-      throw new Error(`Unsupported amount type: ${typeof value}`);
-    };
+    const groups = new Map<string, { total: number; byCategory: Map<number, { name: string; count: number }> }>();
+    for (const { transaction, categoryName } of rows) {
+      if (!transaction.categoryId || findMatchingRule(rules, transaction)) continue;
+      const key = getSuggestionKey(transaction.description);
+      if (!key) continue;
+      const groupKey = `${transaction.type}:${key}`;
+      const group = groups.get(groupKey) ?? { total: 0, byCategory: new Map() };
+      const entry = group.byCategory.get(transaction.categoryId) ?? { name: categoryName, count: 0 };
+      entry.count++;
+      group.byCategory.set(transaction.categoryId, entry);
+      group.total++;
+      groups.set(groupKey, group);
+    }
 
-    const transactionWithTimestamps: InsertTransaction & { createdAt: Date; updatedAt: Date; amount: string } = {
-      ...transaction,
-      amount: normalizeAmount((transaction as any).amount),
-      date: typeof transaction.date === 'string' ? new Date(transaction.date) : transaction.date,
-      dueDate: transaction.dueDate ? (typeof transaction.dueDate === 'string' ? new Date(transaction.dueDate) : transaction.dueDate) : null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    } as any;
+    const suggestions: CategorizationRuleSuggestion[] = [];
+    groups.forEach((group, groupKey) => {
+      if (group.total < RULE_SUGGESTION_MIN_MATCHES) return;
+      const [categoryId, { name, count }] = Array.from(group.byCategory.entries())
+        .sort(([, a], [, b]) => b.count - a.count)[0];
+      if (count / group.total < RULE_SUGGESTION_MIN_SHARE) return;
+      suggestions.push({
+        descriptionContains: groupKey.slice(groupKey.indexOf(':') + 1),
+        categoryId,
+        categoryName: name,
+        matches: count,
+      });
+    });
+    return suggestions.sort((a, b) => b.matches - a.matches).slice(0, 10);
+  }
 
-    // console.debug('[storage.createTransaction] Insert values:', transactionWithTimestamps);
+  async getBudgets(userId: number): Promise<Budget[]> {
+    return db.select().from(budgets).where(eq(budgets.userId, userId)).orderBy(asc(budgets.id));
+  }
 
-    const result = await db.insert(transactions).values(transactionWithTimestamps);
-    const [newTransaction] = await db.select().from(transactions).where(eq(transactions.id, result[0].insertId));
-    if (!newTransaction) throw new Error('Failed to create transaction');
-    await this.createAlertIfNeeded(newTransaction);
-    return newTransaction;
+  async getBudgetById(id: number, userId: number): Promise<Budget | undefined> {
+    const [budget] = await db.select().from(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+    return budget;
   }
 
-  async updateTransaction(id: number, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
-    // Normalizar datas quando presentes e atualizar updatedAt
-    const normalizeAmount = (value: any): string | undefined => {
-      if (value === undefined) return undefined;
-      if (value === null) return '0.00';
-      if (typeof value === 'number') return value.toFixed(2);
-      if (typeof value === 'string') {
-        const withDot = value.replace(',', '.').trim();
-        const num = Number(withDot);
-        if (Number.isNaN(num)) {
-          throw new Error(`Invalid amount value: ${value}`);
-        }
-        return num.toFixed(2);
+  // Planejado x gasto por orçamento no mês (month de 1 a 12). Com rollover, a sobra de cada mês
+  // desde a criação do orçamento é somada ao seguinte; estouros não reduzem o mês seguinte.
+  async getBudgetSummaries(userId: number, year: number, month: number): Promise<BudgetSummary[]> {
+    const rows = await db.select({ budget: budgets, category: categories })
+      .from(budgets)
+      .innerJoin(categories, eq(budgets.categoryId, categories.id))
+      .where(eq(budgets.userId, userId))
+      .orderBy(asc(categories.name));
+
+    const monthStart = startOfMonth(year, month);
+    const monthEnd = startOfMonth(year, month + 1);
+    const targetIndex = monthIndex(monthStart);
+
+    const summaries: BudgetSummary[] = [];
+    for (const { budget, category } of rows) {
+      const amount = parseFloat(budget.amount);
+      const firstMonth = new Date(budget.createdAt);
+      const createdMonth = startOfMonth(firstMonth.getUTCFullYear(), firstMonth.getUTCMonth() + 1);
+      const historyStart = budget.rollover && createdMonth < monthStart ? createdMonth : monthStart;
+      const expenses = await db.select({ amount: transactions.amount, date: transactions.date })
+        .from(transactions)
+        .where(and(
+          eq(transactions.userId, userId),
+          eq(transactions.categoryId, budget.categoryId),
+          eq(transactions.type, 'expense'),
+          gte(transactions.date, historyStart),
+          lt(transactions.date, monthEnd),
+        ));
+
+      const spentByMonth = new Map<number, number>();
+      for (const expense of expenses) {
+        const index = monthIndex(expense.date);
+        spentByMonth.set(index, (spentByMonth.get(index) ?? 0) + (parseFloat(expense.amount) || 0));
       }
-      throw new Error(`Unsupported amount type: ${typeof value}`);
-    };
-
-    const transactionWithTimestamp: Partial<InsertTransaction> & { updatedAt: Date; amount?: string } = {
-      ...transaction,
-      amount: normalizeAmount((transaction as any).amount),
-      date: transaction.date ? (typeof transaction.date === 'string' ? new Date(transaction.date) : transaction.date) : undefined,
-      dueDate: transaction.dueDate === null
-        ? null
-        : (transaction.dueDate ? (typeof transaction.dueDate === 'string' ? new Date(transaction.dueDate) : transaction.dueDate) : undefined),
-      updatedAt: new Date(),
-    } as any;
 
-    // Remover chaves com valor undefined para não sobrescrever indevidamente
-    Object.keys(transactionWithTimestamp).forEach((key) => ((transactionWithTimestamp as any)[key] === undefined) && delete (transactionWithTimestamp as any)[key]);
+      let carryOver = 0;
+      for (let index = monthIndex(historyStart); index < targetIndex; index++) {
+        carryOver = Math.max(0, amount + carryOver - (spentByMonth.get(index) ?? 0));
+      }
 
-    await db.update(transactions).set(transactionWithTimestamp).where(eq(transactions.id, id));
-    const [updated] = await db.select().from(transactions).where(eq(transactions.id, id));
-    if (updated) {
-      await this.createAlertIfNeeded(updated);
+      const planned = Math.round((amount + carryOver) * 100) / 100;
+      const spent = Math.round((spentByMonth.get(targetIndex) ?? 0) * 100) / 100;
+      summaries.push({
+        ...budget,
+        categoryName: category.name,
+        categoryColor: category.color,
+        carryOver: Math.round(carryOver * 100) / 100,
+        planned,
+        spent,
+        remaining: Math.round((planned - spent) * 100) / 100,
+        percent: planned > 0 ? Math.round((spent / planned) * 10000) / 100 : 0,
+      });
     }
+    return summaries;
+  }
+
+  async createBudget(budget: ValidatedInsertBudget): Promise<Budget> {
+    const now = new Date();
+    const result = await db.insert(budgets).values({ ...budget, createdAt: now, updatedAt: now });
+    const [newBudget] = await db.select().from(budgets).where(eq(budgets.id, result[0].insertId));
+    if (!newBudget) throw new Error('Failed to create budget');
+    return newBudget;
+  }
+
+  async updateBudget(id: number, userId: number, budget: ValidatedUpdateBudget): Promise<Budget | undefined> {
+    const ownership = and(eq(budgets.id, id), eq(budgets.userId, userId));
+    await db.update(budgets).set({ ...budget, updatedAt: new Date() }).where(ownership);
+    const [updated] = await db.select().from(budgets).where(ownership);
     return updated;
   }
 
-  async deleteTransaction(id: number): Promise<boolean> {
-    await db.delete(transactions).where(eq(transactions.id, id));
-    return true;
+  async deleteBudget(id: number, userId: number): Promise<boolean> {
+    const result = await db.delete(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+    return result[0].affectedRows > 0;
   }
 
-  async getTransactionById(id: number): Promise<Transaction | undefined> {
-    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
+  async getTransactionById(id: number, userId: number): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions).where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
     return transaction;
   }
 
-  async getGoals(userId: number): Promise<Goal[]> {
-    return db.select().from(goals).where(eq(goals.userId, userId));
+  async getGoals(userId: number, options: { archived?: boolean } = {}): Promise<Goal[]> {
+    return db.select().from(goals).where(and(
+      eq(goals.userId, userId),
+      options.archived ? isNotNull(goals.archivedAt) : isNull(goals.archivedAt),
+    ));
   }
 
   async createGoal(goal: InsertGoal): Promise<Goal> {
@@ -376,13 +2550,24 @@ class DatabaseStorage implements IAppStorage {
       updatedAt: new Date(),
     } as any;
 
-    const result = await db.insert(goals).values(goalWithTimestamps);
-    const [newGoal] = await db.select().from(goals).where(eq(goals.id, result[0].insertId));
-    if (!newGoal) throw new Error('Failed to create goal');
-    return newGoal;
+    return this.runInTransaction(async (tx) => {
+      const result = await tx.insert(goals).values(goalWithTimestamps);
+      const [newGoal] = await tx.select().from(goals).where(eq(goals.id, result[0].insertId));
+      if (!newGoal) throw new Error('Failed to create goal');
+      // O valor já guardado ao criar a meta entra no histórico como saldo inicial
+      await this.insertOpeningContribution(tx, newGoal);
+      await tx.insert(goalMilestones).values(DEFAULT_GOAL_MILESTONE_PERCENTS.map((percent) => ({
+        goalId: newGoal.id,
+        userId: newGoal.userId,
+        kind: 'percent',
+        value: percent.toFixed(2),
+      })));
+      // Marcos que o saldo inicial já cobre são marcados sem gerar alerta
+      return this.syncGoalProgress(tx, newGoal, false);
+    });
   }
 
-  async updateGoal(id: number, goal: Partial<InsertGoal>): Promise<Goal | undefined> {
+  async updateGoal(id: number, userId: number, goal: Partial<InsertGoal>): Promise<Goal | undefined> {
     const normalizeAmount = (value: any): string | undefined => {
       if (value === undefined) return undefined;
       if (value === null) return '0.00';
@@ -406,7 +2591,8 @@ class DatabaseStorage implements IAppStorage {
             ? (typeof (goal as any).targetDate === 'string' ? new Date((goal as any).targetDate) : (goal as any).targetDate)
             : undefined),
       targetAmount: normalizeAmount((goal as any).targetAmount),
-      currentAmount: normalizeAmount((goal as any).currentAmount),
+      // currentAmount não é atualizado aqui: é o saldo das movimentações (ver addGoalContribution)
+      currentAmount: undefined,
       monthlyContribution: normalizeAmount((goal as any).monthlyContribution),
       annualInterestRate: (goal as any).annualInterestRate !== undefined
         ? (typeof (goal as any).annualInterestRate === 'number'
@@ -419,14 +2605,273 @@ class DatabaseStorage implements IAppStorage {
     // Remover undefined para não sobrescrever indevido
     Object.keys(goalWithTimestamp).forEach((key) => ((goalWithTimestamp as any)[key] === undefined) && delete (goalWithTimestamp as any)[key]);
 
-    await db.update(goals).set(goalWithTimestamp).where(eq(goals.id, id));
-    const [updated] = await db.select().from(goals).where(eq(goals.id, id));
+    const ownership = and(eq(goals.id, id), eq(goals.userId, userId));
+    return this.runInTransaction(async (tx) => {
+      await tx.update(goals).set(goalWithTimestamp).where(ownership);
+      const [updated] = await tx.select().from(goals).where(ownership);
+      // Um novo valor alvo pode atingir (ou desfazer) marcos e a conclusão da meta
+      return updated ? this.syncGoalProgress(tx, updated) : undefined;
+    });
+  }
+
+  // As transferências criadas pelas movimentações ficam: o dinheiro continua na conta da reserva
+  async deleteGoal(id: number, userId: number): Promise<boolean> {
+    const ownership = and(eq(goals.id, id), eq(goals.userId, userId));
+    return this.runInTransaction(async (tx) => {
+      const [existing] = await tx.select().from(goals).where(ownership);
+      if (!existing) return false;
+      await tx.delete(goalContributions).where(eq(goalContributions.goalId, id));
+      await tx.delete(goalMilestones).where(eq(goalMilestones.goalId, id));
+      await tx.delete(goals).where(ownership);
+      return true;
+    });
+  }
+
+  async archiveGoal(id: number, userId: number, archived: boolean): Promise<Goal | undefined> {
+    const ownership = and(eq(goals.id, id), eq(goals.userId, userId));
+    await db.update(goals).set({ archivedAt: archived ? new Date() : null, updatedAt: new Date() }).where(ownership);
+    const [goal] = await db.select().from(goals).where(ownership);
+    return goal;
+  }
+
+  async getGoalMilestones(goalId: number): Promise<GoalMilestone[]> {
+    return db.select().from(goalMilestones)
+      .where(eq(goalMilestones.goalId, goalId))
+      .orderBy(asc(goalMilestones.kind), asc(goalMilestones.value));
+  }
+
+  // Substitui os marcos da meta. Os que continuam mantêm reachedAt; os novos que o saldo já cobre
+  // são marcados sem alerta, para não avisar sobre algo que já tinha acontecido.
+  async setGoalMilestones(goalId: number, userId: number, milestones: ValidatedGoalMilestones): Promise<GoalMilestone[] | undefined> {
+    return this.runInTransaction(async (tx) => {
+      const [goal] = await tx.select().from(goals)
+        .where(and(eq(goals.id, goalId), eq(goals.userId, userId)))
+        .for('update');
+      if (!goal) return undefined;
+
+      const key = (milestone: { kind: string; value: string }) => `${milestone.kind}:${parseFloat(milestone.value).toFixed(2)}`;
+      const wanted = new Map(milestones.map((milestone) => [key(milestone), milestone]));
+      const existing = await tx.select().from(goalMilestones).where(eq(goalMilestones.goalId, goalId));
+      const removed = existing.filter((milestone) => !wanted.has(key(milestone))).map((milestone) => milestone.id);
+      if (removed.length > 0) {
+        await tx.delete(goalMilestones).where(inArray(goalMilestones.id, removed));
+      }
+      const kept = new Set(existing.map(key));
+      const added = [...wanted.values()].filter((milestone) => !kept.has(key(milestone)));
+      if (added.length > 0) {
+        await tx.insert(goalMilestones).values(added.map((milestone) => ({ ...milestone, goalId, userId })));
+      }
+
+      await this.syncGoalProgress(tx, goal, false);
+      return tx.select().from(goalMilestones)
+        .where(eq(goalMilestones.goalId, goalId))
+        .orderBy(asc(goalMilestones.kind), asc(goalMilestones.value));
+    });
+  }
+
+  // Avisa uma vez por mês sobre metas ativas que, no ritmo atual, não chegam ao valor alvo na data alvo.
+  // Chamado periodicamente pelo agendador (ver server/index.ts); devolve quantos alertas foram criados.
+  async checkGoalPace(now: Date = new Date()): Promise<number> {
+    const candidates = await db.select().from(goals).where(and(
+      eq(goals.status, 'active'),
+      isNull(goals.archivedAt),
+      isNotNull(goals.targetDate),
+    ));
+    const monthStart = startOfMonth(now.getUTCFullYear(), now.getUTCMonth() + 1);
+    let created = 0;
+    for (const goal of candidates) {
+      const shortfall = getPaceShortfall(goal, now);
+      if (!shortfall) continue;
+      if (await this.hasAlertSince(goal.userId, 'goal_behind', goal.id, monthStart)) continue;
+
+      const targetDate = new Date(goal.targetDate!).toLocaleDateString('pt-BR', { timeZone: 'UTC' });
+      await this.createAlert({
+        userId: goal.userId,
+        type: 'goal_behind',
+        message: shortfall.monthsUntilTargetDate && shortfall.requiredMonthlyContribution !== null
+          ? `A meta "${goal.name}" está abaixo do ritmo: para chegar a R$ ${parseFloat(goal.targetAmount).toFixed(2)} até ${targetDate}, é preciso guardar R$ ${shortfall.requiredMonthlyContribution.toFixed(2)} por mês.`
+          : `O prazo da meta "${goal.name}" (${targetDate}) terminou sem que ela fosse alcançada.`,
+        referenceId: goal.id,
+        referenceType: 'goal_behind',
+        isRead: false,
+      });
+      created++;
+    }
+    return created;
+  }
+
+  async getGoalById(id: number, userId: number): Promise<Goal | undefined> {
+    const [goal] = await db.select().from(goals).where(and(eq(goals.id, id), eq(goals.userId, userId)));
+    return goal;
+  }
+
+  async getGoalContributions(goalId: number): Promise<GoalContribution[]> {
+    return db.select().from(goalContributions)
+      .where(eq(goalContributions.goalId, goalId))
+      .orderBy(asc(goalContributions.date), asc(goalContributions.id));
+  }
+
+  // Registra a movimentação e recalcula o saldo com a meta travada: abas concorrentes não sobrescrevem
+  // uma à outra. Com as contas informadas, cria também a transferência correspondente.
+  async addGoalContribution(
+    goalId: number,
+    userId: number,
+    contribution: ValidatedInsertGoalContribution,
+    createdBy: number | null = null,
+  ): Promise<{ goal: Goal; contribution: GoalContribution } | undefined> {
+    return this.runInTransaction(async (tx) => {
+      const [goal] = await tx.select().from(goals)
+        .where(and(eq(goals.id, goalId), eq(goals.userId, userId)))
+        .for('update');
+      if (!goal) return undefined;
+
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)` }).from(goalContributions).where(eq(goalContributions.goalId, goalId));
+      if (Number(count) === 0) {
+        // Meta anterior ao histórico de movimentações: o valor guardado até então vira o saldo inicial
+        await this.insertOpeningContribution(tx, goal);
+      }
+
+      const amount = parseFloat(contribution.amount);
+      if (contribution.type === 'withdrawal' && amount > parseFloat(goal.currentAmount)) {
+        throw new GoalContributionError('Retirada maior que o saldo da meta');
+      }
+
+      const date = contribution.date ?? new Date();
+      let transactionId: number | null = null;
+      if (contribution.accountId && contribution.reserveAccountId) {
+        const isDeposit = contribution.type === 'deposit';
+        const transfer = await this.insertTransaction(tx, {
+          description: isDeposit ? `Meta: ${goal.name}` : `Retirada da meta: ${goal.name}`,
+          amount: contribution.amount,
+          date,
+          type: 'transfer',
+          status: 'paid',
+          accountId: isDeposit ? contribution.accountId : contribution.reserveAccountId,
+          destinationAccountId: isDeposit ? contribution.reserveAccountId : contribution.accountId,
+          userId,
+          createdBy,
+        });
+        transactionId = transfer.id;
+      }
+
+      const result = await tx.insert(goalContributions).values({
+        goalId,
+        userId,
+        type: contribution.type,
+        amount: contribution.amount,
+        date,
+        note: contribution.note ?? null,
+        transactionId,
+        createdBy,
+      });
+      const [created] = await tx.select().from(goalContributions).where(eq(goalContributions.id, result[0].insertId));
+      const recalculated = await this.recalculateGoalAmount(tx, goal.id);
+      return { goal: await this.syncGoalProgress(tx, recalculated), contribution: created };
+    });
+  }
+
+  // Desfaz a movimentação e a transferência criada por ela
+  async deleteGoalContribution(id: number, goalId: number, userId: number): Promise<Goal | undefined> {
+    const removedFiles: string[] = [];
+    const updated = await this.runInTransaction(async (tx) => {
+      const [goal] = await tx.select().from(goals)
+        .where(and(eq(goals.id, goalId), eq(goals.userId, userId)))
+        .for('update');
+      if (!goal) return undefined;
+      const [contribution] = await tx.select().from(goalContributions)
+        .where(and(eq(goalContributions.id, id), eq(goalContributions.goalId, goalId)));
+      if (!contribution) return undefined;
+
+      await tx.delete(goalContributions).where(eq(goalContributions.id, id));
+      if (contribution.transactionId) {
+        const [transfer] = await tx.select().from(transactions).where(eq(transactions.id, contribution.transactionId)).for('update');
+        if (transfer) await this.removeTransaction(tx, transfer, removedFiles);
+      }
+      return this.syncGoalProgress(tx, await this.recalculateGoalAmount(tx, goal.id));
+    });
+    await removeStoredFiles(removedFiles);
     return updated;
   }
 
-  async deleteGoal(id: number): Promise<boolean> {
-    await db.delete(goals).where(eq(goals.id, id));
-    return true;
+  private async insertOpeningContribution(tx: TransactionClient, goal: Goal): Promise<void> {
+    if (parseFloat(goal.currentAmount) <= 0) return;
+    await tx.insert(goalContributions).values({
+      goalId: goal.id,
+      userId: goal.userId,
+      type: 'opening',
+      amount: goal.currentAmount,
+      date: goal.createdAt,
+      note: null,
+    });
+  }
+
+  // currentAmount = depósitos (e saldo inicial) menos retiradas
+  private async recalculateGoalAmount(tx: TransactionClient, goalId: number): Promise<Goal> {
+    const [{ balance }] = await tx.select({
+      balance: sql<string>`coalesce(sum(case when ${goalContributions.type} = 'withdrawal' then -${goalContributions.amount} else ${goalContributions.amount} end), 0)`,
+    }).from(goalContributions).where(eq(goalContributions.goalId, goalId));
+    await tx.update(goals)
+      .set({ currentAmount: Number(balance).toFixed(2), updatedAt: new Date() })
+      .where(eq(goals.id, goalId));
+    const [goal] = await tx.select().from(goals).where(eq(goals.id, goalId));
+    return goal;
+  }
+
+  // Confere marcos e conclusão da meta contra o saldo atual. Marcos recém-atingidos e a conclusão geram
+  // alertas (quando notify); uma retirada que deixa o saldo abaixo deles os desfaz, para avisar de novo depois.
+  private async syncGoalProgress(tx: TransactionClient, goal: Goal, notify = true): Promise<Goal> {
+    const now = new Date();
+    const current = parseFloat(goal.currentAmount);
+    const target = parseFloat(goal.targetAmount);
+    const notifications: InsertAlert[] = [];
+
+    const milestones = await tx.select().from(goalMilestones).where(eq(goalMilestones.goalId, goal.id));
+    for (const milestone of milestones) {
+      const amount = milestoneAmount(milestone, target);
+      const reached = current >= amount - 0.005;
+      if (reached && !milestone.reachedAt) {
+        await tx.update(goalMilestones).set({ reachedAt: now }).where(eq(goalMilestones.id, milestone.id));
+        // O marco no valor alvo é coberto pelo alerta de meta alcançada
+        if (amount < target) {
+          notifications.push({
+            userId: goal.userId,
+            type: 'goal_milestone',
+            message: milestone.kind === 'percent'
+              ? `A meta "${goal.name}" atingiu ${parseFloat(milestone.value)}%: R$ ${current.toFixed(2)} de R$ ${target.toFixed(2)}.`
+              : `A meta "${goal.name}" passou de R$ ${amount.toFixed(2)}: R$ ${current.toFixed(2)} de R$ ${target.toFixed(2)}.`,
+            referenceId: goal.id,
+            referenceType: 'goal',
+            isRead: false,
+          });
+        }
+      } else if (!reached && milestone.reachedAt) {
+        await tx.update(goalMilestones).set({ reachedAt: null }).where(eq(goalMilestones.id, milestone.id));
+      }
+    }
+
+    const achieved = target > 0 && current >= target - 0.005;
+    if (achieved !== (goal.status === 'achieved')) {
+      await tx.update(goals)
+        .set({ status: achieved ? 'achieved' : 'active', achievedAt: achieved ? now : null, updatedAt: now })
+        .where(eq(goals.id, goal.id));
+      if (achieved) {
+        notifications.push({
+          userId: goal.userId,
+          type: 'goal_achieved',
+          message: `Meta "${goal.name}" alcançada: R$ ${current.toFixed(2)} guardados.`,
+          referenceId: goal.id,
+          referenceType: 'goal',
+          isRead: false,
+        });
+      }
+    }
+
+    if (notify && notifications.length > 0) {
+      await tx.insert(alerts).values(notifications.map((alert) => ({ ...alert, createdAt: now, updatedAt: now })));
+    }
+    if (achieved === (goal.status === 'achieved')) return goal;
+    const [updated] = await tx.select().from(goals).where(eq(goals.id, goal.id));
+    return updated;
   }
 
   async getInvestments(userId: number): Promise<Investment[]> {
@@ -436,31 +2881,139 @@ class DatabaseStorage implements IAppStorage {
       .orderBy(desc(investments.createdAt));
   }
 
-  async createInvestment(investment: InsertInvestment): Promise<Investment> {
-    const result = await db.insert(investments).values(investment);
-    const [newInvestment] = await db.select()
+  async getInvestmentById(id: number, userId: number): Promise<Investment | undefined> {
+    const [investment] = await db.select()
       .from(investments)
-      .where(eq(investments.id, result[0].insertId));
-    
-    if (!newInvestment) throw new Error('Failed to create investment');
-    return newInvestment;
+      .where(and(eq(investments.id, id), eq(investments.userId, userId)));
+    return investment;
+  }
+
+  async createInvestment(investment: InsertInvestment): Promise<Investment> {
+    return this.runInTransaction(async (tx) => {
+      const result = await tx.insert(investments).values({ ...investment, costBasis: investment.amount });
+      const [newInvestment] = await tx.select()
+        .from(investments)
+        .where(eq(investments.id, result[0].insertId));
+
+      if (!newInvestment) throw new Error('Failed to create investment');
+      // O valor informado na criação entra no extrato como a primeira aplicação
+      await this.insertOpeningApplication(tx, newInvestment);
+      return newInvestment;
+    });
   }
 
-  async updateInvestment(id: number, investment: Partial<InsertInvestment>): Promise<Investment | undefined> {
+  async updateInvestment(id: number, userId: number, investment: Partial<InsertInvestment>): Promise<Investment | undefined> {
+    const ownership = and(eq(investments.id, id), eq(investments.userId, userId));
     await db.update(investments)
       .set(investment)
-      .where(eq(investments.id, id));
+      .where(ownership);
     
     const [updated] = await db.select()
       .from(investments)
-      .where(eq(investments.id, id));
+      .where(ownership);
     
     return updated;
   }
 
-  async deleteInvestment(id: number): Promise<boolean> {
-    await db.delete(investments).where(eq(investments.id, id));
-    return true;
+  async deleteInvestment(id: number, userId: number): Promise<boolean> {
+    const ownership = and(eq(investments.id, id), eq(investments.userId, userId));
+    return this.runInTransaction(async (tx) => {
+      const [existing] = await tx.select().from(investments).where(ownership);
+      if (!existing) return false;
+      await tx.delete(investmentMovements).where(eq(investmentMovements.investmentId, id));
+      await tx.delete(investments).where(ownership);
+      return true;
+    });
+  }
+
+  async getInvestmentMovements(investmentId: number): Promise<InvestmentMovement[]> {
+    return db.select().from(investmentMovements)
+      .where(eq(investmentMovements.investmentId, investmentId))
+      .orderBy(asc(investmentMovements.date), asc(investmentMovements.id));
+  }
+
+  async getInvestmentMovementsForList(investmentIds: number[]): Promise<InvestmentMovement[]> {
+    if (investmentIds.length === 0) return [];
+    return db.select().from(investmentMovements)
+      .where(inArray(investmentMovements.investmentId, investmentIds))
+      .orderBy(asc(investmentMovements.date), asc(investmentMovements.id));
+  }
+
+  // Registra a movimentação e recalcula posição e custo com o investimento travado, como em addGoalContribution.
+  // Um resgate ou taxa que deixa a posição negativa em qualquer data desfaz o lançamento.
+  async addInvestmentMovement(
+    investmentId: number,
+    userId: number,
+    movement: ValidatedInsertInvestmentMovement,
+    createdBy: number | null = null,
+  ): Promise<{ investment: Investment; movement: InvestmentMovement } | undefined> {
+    return this.runInTransaction(async (tx) => {
+      const [investment] = await tx.select().from(investments)
+        .where(and(eq(investments.id, investmentId), eq(investments.userId, userId)))
+        .for('update');
+      if (!investment) return undefined;
+
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)` }).from(investmentMovements).where(eq(investmentMovements.investmentId, investmentId));
+      if (Number(count) === 0) {
+        // Investimento anterior ao extrato: a posição guardada até então vira a aplicação inicial
+        await this.insertOpeningApplication(tx, investment);
+      }
+
+      const result = await tx.insert(investmentMovements).values({
+        investmentId,
+        userId,
+        type: movement.type,
+        amount: movement.amount,
+        date: movement.date ?? new Date(),
+        note: movement.note ?? null,
+        createdBy,
+      });
+      const [created] = await tx.select().from(investmentMovements).where(eq(investmentMovements.id, result[0].insertId));
+      return { investment: await this.recalculateInvestmentPosition(tx, investmentId), movement: created };
+    });
+  }
+
+  // Excluir uma aplicação pode deixar um resgate posterior sem saldo; nesse caso a exclusão é recusada
+  async deleteInvestmentMovement(id: number, investmentId: number, userId: number): Promise<Investment | undefined> {
+    return this.runInTransaction(async (tx) => {
+      const [investment] = await tx.select().from(investments)
+        .where(and(eq(investments.id, investmentId), eq(investments.userId, userId)))
+        .for('update');
+      if (!investment) return undefined;
+      const [movement] = await tx.select().from(investmentMovements)
+        .where(and(eq(investmentMovements.id, id), eq(investmentMovements.investmentId, investmentId)));
+      if (!movement) return undefined;
+
+      await tx.delete(investmentMovements).where(eq(investmentMovements.id, id));
+      return this.recalculateInvestmentPosition(tx, investmentId);
+    });
+  }
+
+  private async insertOpeningApplication(tx: TransactionClient, investment: Investment): Promise<void> {
+    if (parseFloat(investment.amount) <= 0) return;
+    await tx.insert(investmentMovements).values({
+      investmentId: investment.id,
+      userId: investment.userId,
+      type: 'application',
+      amount: investment.amount,
+      date: investment.startDate,
+      note: null,
+    });
+  }
+
+  // amount e costBasis a partir do extrato completo (ver server/investments.ts)
+  private async recalculateInvestmentPosition(tx: TransactionClient, investmentId: number): Promise<Investment> {
+    const movements = await tx.select().from(investmentMovements).where(eq(investmentMovements.investmentId, investmentId));
+    const { summary, overdrawn } = buildInvestmentStatement(movements);
+    if (overdrawn) {
+      const date = new Date(overdrawn.date).toISOString().split('T')[0];
+      throw new InvestmentMovementError(`Posição insuficiente em ${date}`);
+    }
+    await tx.update(investments)
+      .set({ amount: summary.position.toFixed(2), costBasis: summary.costBasis.toFixed(2), updatedAt: new Date() })
+      .where(eq(investments.id, investmentId));
+    const [investment] = await tx.select().from(investments).where(eq(investments.id, investmentId));
+    return investment;
   }
 
   async getAlerts(userId: number): Promise<Alert[]> {
@@ -490,15 +3043,32 @@ class DatabaseStorage implements IAppStorage {
     return newAlert;
   }
 
-  async markAlertAsRead(id: number): Promise<boolean> {
+  // Avisos periódicos (orçamento, ritmo das metas) saem uma vez por período para cada referência
+  async hasAlertSince(userId: number, referenceType: string, referenceId: number, since: Date): Promise<boolean> {
+    const [existing] = await db.select({ id: alerts.id }).from(alerts).where(and(
+      eq(alerts.userId, userId),
+      eq(alerts.referenceId, referenceId),
+      eq(alerts.referenceType, referenceType),
+      gte(alerts.createdAt, since),
+    ));
+    return !!existing;
+  }
+
+  async markAlertAsRead(id: number, userId: number): Promise<boolean> {
+    const ownership = and(eq(alerts.id, id), eq(alerts.userId, userId));
+    const [existing] = await db.select().from(alerts).where(ownership);
+    if (!existing) return false;
     await db.update(alerts)
       .set({ isRead: true })
-      .where(eq(alerts.id, id));
+      .where(ownership);
     return true;
   }
 
-  async deleteAlert(id: number): Promise<boolean> {
-    await db.delete(alerts).where(eq(alerts.id, id));
+  async deleteAlert(id: number, userId: number): Promise<boolean> {
+    const ownership = and(eq(alerts.id, id), eq(alerts.userId, userId));
+    const [existing] = await db.select().from(alerts).where(ownership);
+    if (!existing) return false;
+    await db.delete(alerts).where(ownership);
     return true;
   }
 
@@ -575,6 +3145,49 @@ class DatabaseStorage implements IAppStorage {
     }
   }
 
+  // Avisa uma única vez por mês quando a despesa faz o orçamento da categoria passar de 80% ou 100%.
+  // Só considera despesas do mês corrente; lançamentos retroativos ou futuros não geram aviso.
+  private async checkBudgetAlerts(transaction: Transaction | undefined): Promise<void> {
+    if (!transaction || transaction.type !== 'expense' || !transaction.categoryId) return;
+    const now = new Date();
+    if (monthIndex(transaction.date) !== monthIndex(now)) return;
+
+    const summary = (await this.getBudgetSummaries(transaction.userId, now.getUTCFullYear(), now.getUTCMonth() + 1))
+      .find((item) => item.categoryId === transaction.categoryId);
+    if (!summary) return;
+    const threshold = BUDGET_ALERT_THRESHOLDS.find((value) => summary.percent >= value);
+    if (!threshold) return;
+
+    const referenceType = `budget_${threshold}`;
+    const monthStart = startOfMonth(now.getUTCFullYear(), now.getUTCMonth() + 1);
+    if (await this.hasAlertSince(transaction.userId, referenceType, summary.id, monthStart)) return;
+
+    await this.createAlert({
+      userId: transaction.userId,
+      type: 'budget',
+      message: threshold >= 100
+        ? `O orçamento de "${summary.categoryName}" foi ultrapassado: R$ ${summary.spent.toFixed(2)} de R$ ${summary.planned.toFixed(2)}.`
+        : `O orçamento de "${summary.categoryName}" atingiu ${threshold}%: R$ ${summary.spent.toFixed(2)} de R$ ${summary.planned.toFixed(2)}.`,
+      referenceId: summary.id,
+      referenceType,
+      isRead: false,
+    });
+  }
+
+  // Lançamentos em lote (importação, ocorrências geradas) avaliam cada orçamento uma vez:
+  // o resumo do mês já soma todas as despesas do lote na categoria
+  private async checkBudgetAlertsForBatch(created: Transaction[]): Promise<void> {
+    const currentMonth = monthIndex(new Date());
+    const checked = new Set<string>();
+    for (const transaction of created) {
+      if (transaction.type !== 'expense' || !transaction.categoryId || monthIndex(transaction.date) !== currentMonth) continue;
+      const key = `${transaction.userId}:${transaction.categoryId}`;
+      if (checked.has(key)) continue;
+      checked.add(key);
+      await this.checkBudgetAlerts(transaction);
+    }
+  }
+
   async initializeSampleData(): Promise<{ success: boolean; userId?: number; message?: string }> {
     try {
       console.log('[initializeSampleData] Iniciando criação de dados de exemplo...');
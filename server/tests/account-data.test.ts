@@ -0,0 +1,71 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Exportação e exclusão da conta com o storage em memória (ver helpers.ts)
+
+const PASSWORD = 'senha-segura-123';
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', password: '', sessionVersion: 0, deletionScheduledAt: null as Date | null };
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+  const { hashPassword } = await import('../auth.js');
+
+  USER.password = await hashPassword(PASSWORD);
+  [token] = await signIn(USER);
+
+  mock.method(storage, 'createAuthEvent', async () => {});
+  mock.method(storage, 'exportUserData', async (userId: number) => ({
+    format: 'financeiro-export',
+    version: 1,
+    exportedAt: '2026-03-10T12:00:00.000Z',
+    profile: { username: USER.username, name: USER.name, email: USER.email, createdAt: new Date() },
+    transactions: [{ id: 1, userId, description: 'Mercado' }],
+  }));
+  mock.method(storage, 'scheduleAccountDeletion', async (_userId: number, deleteAt: Date) => {
+    USER.deletionScheduledAt = deleteAt;
+  });
+  mock.method(storage, 'cancelAccountDeletion', async () => {
+    if (!USER.deletionScheduledAt) return false;
+    USER.deletionScheduledAt = null;
+    return true;
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('GET /api/me/export devolve o pacote como arquivo para download', async () => {
+  const response = await request('GET', '/api/me/export');
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('content-disposition') ?? '', /attachment; filename="financeiro-export-2026-03-10\.json"/);
+  const bundle = await response.json();
+  assert.equal(bundle.format, 'financeiro-export');
+  assert.equal(bundle.transactions.length, 1);
+});
+
+test('exclusão exige a senha atual', async () => {
+  const response = await request('DELETE', '/api/me', { password: 'errada' });
+  assert.equal(response.status, 400);
+  assert.equal(USER.deletionScheduledAt, null);
+});
+
+test('exclusão é agendada para depois do prazo de carência e pode ser cancelada', async () => {
+  const response = await request('DELETE', '/api/me', { password: PASSWORD });
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('set-cookie') ?? '', /refresh_token=;/);
+  const daysAhead = (USER.deletionScheduledAt!.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+  assert.ok(daysAhead > 6.9 && daysAhead <= 7);
+
+  assert.equal((await request('POST', '/api/me/cancel-deletion')).status, 200);
+  assert.equal(USER.deletionScheduledAt, null);
+  assert.equal((await request('POST', '/api/me/cancel-deletion')).status, 404);
+});
@@ -0,0 +1,89 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRequiredScope } from '../scopes.js';
+import { startTestServer, type TestServer } from './helpers.js';
+
+// Tokens de API aceitos pelo protect, com o storage em memória (ver helpers.ts)
+
+test('consultas exigem "read" e alterações o escopo de escrita do recurso', () => {
+  assert.equal(getRequiredScope('GET', '/api/transactions'), 'read');
+  assert.equal(getRequiredScope('POST', '/api/transactions'), 'transactions:write');
+  assert.equal(getRequiredScope('PUT', '/api/installment-groups/3'), 'transactions:write');
+  assert.equal(getRequiredScope('DELETE', '/api/goals/7'), 'goals:write');
+  assert.equal(getRequiredScope('PUT', '/api/user/preferences'), null);
+});
+
+test('rotas de autenticação não aceitam token de API, exceto /api/auth/me', () => {
+  assert.equal(getRequiredScope('GET', '/api/auth/me'), 'read');
+  assert.equal(getRequiredScope('GET', '/api/auth/tokens'), null);
+  assert.equal(getRequiredScope('POST', '/api/auth/tokens'), null);
+  assert.equal(getRequiredScope('GET', '/api/auth/sessions'), null);
+});
+
+test('preferências e dados da conta não aceitam token de API, nem para consulta', () => {
+  assert.equal(getRequiredScope('GET', '/api/user/preferences'), null);
+  assert.equal(getRequiredScope('GET', '/api/me/export'), null);
+  assert.equal(getRequiredScope('POST', '/api/me/import'), null);
+  assert.equal(getRequiredScope('DELETE', '/api/me'), null);
+});
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const READ_TOKEN = 'fin_pat_somente-leitura';
+const EXPIRED_TOKEN = 'fin_pat_expirado';
+const touched: number[] = [];
+
+let server: TestServer;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+  const { hashToken } = await import('../auth.js');
+
+  const apiTokens = [
+    { id: 1, userId: USER.id, tokenHash: hashToken(READ_TOKEN), scopes: 'read', expiresAt: null },
+    { id: 2, userId: USER.id, tokenHash: hashToken(EXPIRED_TOKEN), scopes: 'read,goals:write', expiresAt: new Date(Date.now() - 1000) },
+  ];
+  mock.method(storage, 'getApiTokenByHash', async (tokenHash: string) => apiTokens.find((apiToken) => apiToken.tokenHash === tokenHash));
+  mock.method(storage, 'touchApiToken', async (id: number) => {
+    touched.push(id);
+  });
+  mock.method(storage, 'getUser', async (id: number) => (id === USER.id ? USER : null));
+  mock.method(storage, 'getGoals', async () => []);
+  mock.method(storage, 'createGoal', async () => {
+    throw new Error('createGoal não deveria ser chamado');
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, token: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('token com "read" consulta os dados e registra o último uso', async () => {
+  const response = await request('GET', '/api/goals', READ_TOKEN);
+  assert.equal(response.status, 200);
+  assert.deepEqual(touched, [1]);
+});
+
+test('token sem o escopo de escrita recebe 403', async () => {
+  const response = await request('POST', '/api/goals', READ_TOKEN, { name: 'Viagem', targetAmount: '1000' });
+  assert.equal(response.status, 403);
+  assert.match((await response.json()).message, /goals:write/);
+});
+
+test('token de API não gerencia tokens nem sessões', async () => {
+  assert.equal((await request('GET', '/api/auth/tokens', READ_TOKEN)).status, 403);
+  assert.equal((await request('GET', '/api/auth/sessions', READ_TOKEN)).status, 403);
+});
+
+test('token expirado ou desconhecido devolve 401', async () => {
+  assert.equal((await request('GET', '/api/goals', EXPIRED_TOKEN)).status, 401);
+  assert.equal((await request('GET', '/api/goals', 'fin_pat_inexistente')).status, 401);
+});
+
+test('token de API não exporta os dados da conta nem lê as preferências', async () => {
+  assert.equal((await request('GET', '/api/me/export', READ_TOKEN)).status, 403);
+  assert.equal((await request('GET', '/api/user/preferences', READ_TOKEN)).status, 403);
+});
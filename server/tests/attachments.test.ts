@@ -0,0 +1,104 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Anexos de transações com o storage em memória (ver helpers.ts) e os arquivos num diretório temporário
+const uploadDir = mkdtempSync(path.join(tmpdir(), 'financeiro-uploads-'));
+process.env.FILE_STORE = 'local';
+process.env.UPLOAD_DIR = uploadDir;
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const TRANSACTION = { id: 5, userId: USER.id, type: 'expense', status: 'paid', amount: '80.00', date: '2026-03-02' };
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('resto da imagem')]);
+const attachments: any[] = [];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+
+  [token] = await signIn(USER);
+
+  mock.method(storage, 'getTransactionById', async (id: number, userId: number) =>
+    (id === TRANSACTION.id && userId === TRANSACTION.userId ? TRANSACTION : undefined));
+  mock.method(storage, 'getTransactionAttachments', async (transactionId: number) =>
+    attachments.filter((attachment) => attachment.transactionId === transactionId));
+  mock.method(storage, 'getTransactionAttachmentById', async (id: number, transactionId: number) =>
+    attachments.find((attachment) => attachment.id === id && attachment.transactionId === transactionId));
+  mock.method(storage, 'createTransactionAttachment', async (values: any) => {
+    const attachment = { id: attachments.length + 1, ...values, createdAt: new Date() };
+    attachments.push(attachment);
+    return attachment;
+  });
+
+  server = await startTestServer({ jsonLimit: '50mb' });
+});
+
+after(async () => {
+  await server.close();
+  rmSync(uploadDir, { recursive: true, force: true });
+});
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('armazenamento local grava, lê e apaga pela chave gerada', async () => {
+  const { fileStore } = await import('../files.js');
+  const key = await fileStore.put(Buffer.from('%PDF-1.4'), 'pdf');
+  assert.match(key, /\.pdf$/);
+  assert.equal((await fileStore.get(key))?.toString(), '%PDF-1.4');
+  await fileStore.delete(key);
+  assert.equal(await fileStore.get(key), null);
+  await assert.rejects(fileStore.get('../../etc/passwd'), /Chave de arquivo inválida/);
+});
+
+test('upload grava o arquivo e devolve o anexo sem a chave de armazenamento', async () => {
+  const response = await request('POST', `/api/transactions/${TRANSACTION.id}/attachments`, {
+    fileName: 'recibo.png',
+    mimeType: 'image/png',
+    content: PNG.toString('base64'),
+  });
+  assert.equal(response.status, 201);
+  const body = await response.json();
+  assert.equal(body.fileName, 'recibo.png');
+  assert.equal(body.size, PNG.length);
+  assert.equal(body.storageKey, undefined);
+
+  const content = await request('GET', `/api/transactions/${TRANSACTION.id}/attachments/${body.id}/content`);
+  assert.equal(content.status, 200);
+  assert.equal(content.headers.get('content-type'), 'image/png');
+  assert.deepEqual(Buffer.from(await content.arrayBuffer()), PNG);
+});
+
+test('conteúdo que não corresponde ao tipo declarado é recusado', async () => {
+  const response = await request('POST', `/api/transactions/${TRANSACTION.id}/attachments`, {
+    fileName: 'boleto.pdf',
+    mimeType: 'application/pdf',
+    content: Buffer.from('<html></html>').toString('base64'),
+  });
+  assert.equal(response.status, 400);
+  assert.ok((await response.json()).errors.content);
+
+  const wrongType = await request('POST', `/api/transactions/${TRANSACTION.id}/attachments`, {
+    fileName: 'script.html',
+    mimeType: 'text/html',
+    content: Buffer.from('<html></html>').toString('base64'),
+  });
+  assert.equal(wrongType.status, 400);
+  assert.ok((await wrongType.json()).errors.mimeType);
+});
+
+test('transação de outro usuário devolve 404', async () => {
+  const response = await request('POST', '/api/transactions/99/attachments', {
+    fileName: 'recibo.png',
+    mimeType: 'image/png',
+    content: PNG.toString('base64'),
+  });
+  assert.equal(response.status, 404);
+  assert.equal((await request('GET', '/api/transactions/99/attachments/1/content')).status, 404);
+});
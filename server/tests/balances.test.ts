@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getBalanceEffects, reverseEffects, type BalanceEffect } from '../balances.js';
+
+// Efeitos das transações sobre os saldos, na mesma sequência que o storage aplica ao criar, alterar e excluir
+
+const transaction = (changes: object) => ({
+  type: 'expense',
+  status: 'paid',
+  amount: '100.00',
+  accountId: 1 as number | null,
+  destinationAccountId: null as number | null,
+  ...changes,
+});
+
+// Saldo final de cada conta depois de aplicar os efeitos, sem as contas que ficaram zeradas
+function balances(...effects: BalanceEffect[][]): Record<number, number> {
+  const totals: Record<number, number> = {};
+  for (const { accountId, delta } of effects.flat()) {
+    if (accountId === null) continue;
+    totals[accountId] = (totals[accountId] ?? 0) + delta;
+    if (totals[accountId] === 0) delete totals[accountId];
+  }
+  return totals;
+}
+
+// Alteração: desfaz a versão anterior e aplica a nova, como em modifyTransaction
+const change = (previous: object, current: object) =>
+  balances(reverseEffects(getBalanceEffects(transaction(previous))), getBalanceEffects(transaction(current)));
+
+test('receita recebida soma e despesa paga subtrai do saldo da conta', () => {
+  assert.deepEqual(getBalanceEffects(transaction({ type: 'income', status: 'received' })), [{ accountId: 1, delta: 100 }]);
+  assert.deepEqual(getBalanceEffects(transaction({ type: 'expense', status: 'paid' })), [{ accountId: 1, delta: -100 }]);
+});
+
+test('transferência realizada sai da origem e entra no destino', () => {
+  assert.deepEqual(getBalanceEffects(transaction({ type: 'transfer', destinationAccountId: 2 })), [
+    { accountId: 1, delta: -100 },
+    { accountId: 2, delta: 100 },
+  ]);
+});
+
+test('receitas, despesas e transferências pendentes não movimentam saldo', () => {
+  assert.deepEqual(getBalanceEffects(transaction({ type: 'income', status: 'pending' })), []);
+  assert.deepEqual(getBalanceEffects(transaction({ type: 'expense', status: 'pending' })), []);
+  assert.deepEqual(getBalanceEffects(transaction({ type: 'transfer', status: 'pending', destinationAccountId: 2 })), []);
+  assert.deepEqual(getBalanceEffects(transaction({ amount: 'abc' })), []);
+});
+
+test('excluir desfaz exatamente o que a criação aplicou', () => {
+  for (const created of [
+    transaction({ type: 'income', status: 'received' }),
+    transaction({ type: 'expense' }),
+    transaction({ type: 'transfer', destinationAccountId: 2 }),
+    transaction({ status: 'pending' }),
+  ]) {
+    const effects = getBalanceEffects(created);
+    assert.deepEqual(balances(effects, reverseEffects(effects)), {});
+  }
+});
+
+test('mudar o tipo ou o status desfaz o efeito anterior antes de aplicar o novo', () => {
+  assert.deepEqual(change({ type: 'expense' }, { type: 'income', status: 'received' }), { 1: 200 });
+  assert.deepEqual(change({ type: 'expense' }, { type: 'transfer', destinationAccountId: 2 }), { 2: 100 });
+  assert.deepEqual(change({ type: 'expense', status: 'pending' }, { type: 'expense', status: 'paid' }), { 1: -100 });
+  assert.deepEqual(change({ type: 'income', status: 'received' }, { type: 'income', status: 'pending' }), { 1: -100 });
+});
+
+test('mudar a conta ou o destino devolve o valor à conta anterior', () => {
+  assert.deepEqual(change({ accountId: 1 }, { accountId: 3 }), { 1: 100, 3: -100 });
+  assert.deepEqual(change({ amount: '100.00' }, { accountId: 3, amount: '80.00' }), { 1: 100, 3: -80 });
+  assert.deepEqual(
+    change({ type: 'transfer', destinationAccountId: 2 }, { type: 'transfer', destinationAccountId: 3 }),
+    { 2: -100, 3: 100 },
+  );
+});
@@ -0,0 +1,74 @@
+import { test, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import './helpers.js';
+import { confirmImportSchema, type InsertAlert, type Transaction, type ValidatedConfirmImport } from '../../shared/schema.js';
+import type { BudgetSummary } from '../storage.js';
+
+// Avisos de orçamento para lançamentos em lote, com o storage em memória (ver helpers.ts)
+
+const USER_ID = 1;
+const ACCOUNT_ID = 3;
+const now = new Date();
+const thisMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+const lastMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 15));
+
+// Mercado (7) passa de 80% com a importação, Farmácia (8) já teve o aviso de 100% neste mês e Lazer (9) segue abaixo
+const budget = (id: number, categoryId: number, categoryName: string, spent: number) => ({
+  id,
+  categoryId,
+  categoryName,
+  planned: 500,
+  spent,
+  percent: (spent / 500) * 100,
+}) as BudgetSummary;
+const SUMMARIES = [budget(70, 7, 'Mercado', 420), budget(80, 8, 'Farmácia', 520), budget(90, 9, 'Lazer', 100)];
+const SENT = new Set(['budget_100:80']);
+
+const data: ValidatedConfirmImport = confirmImportSchema.parse({
+  accountId: ACCOUNT_ID,
+  format: 'ofx',
+  fileName: 'extrato.ofx',
+  rows: [
+    { date: thisMonth, description: 'Supermercado', amount: 120, type: 'expense', categoryId: 7 },
+    { date: thisMonth, description: 'Feira', amount: 30, type: 'expense', categoryId: 7 },
+    { date: thisMonth, description: 'Drogaria', amount: 45, type: 'expense', categoryId: 8 },
+    { date: lastMonth, description: 'Cinema do mês passado', amount: 60, type: 'expense', categoryId: 9 },
+    { date: thisMonth, description: 'Reembolso', amount: 80, type: 'income', categoryId: 7 },
+    { date: thisMonth, description: 'Sem categoria', amount: 10, type: 'expense' },
+  ],
+});
+
+after(async () => {
+  mock.restoreAll();
+  const { connection } = await import('../db.js');
+  await connection.end().catch(() => {});
+});
+
+test('importação avisa uma vez por orçamento que cruzou o limite no mês', async () => {
+  const { storage } = await import('../storage.js');
+  // A gravação do lote devolve as transações como o banco as criaria
+  const transactions = data.rows.map((row, index) => ({
+    ...row,
+    id: index + 1,
+    userId: USER_ID,
+    accountId: ACCOUNT_ID,
+    categoryId: row.categoryId ?? null,
+    status: row.type === 'income' ? 'received' : 'paid',
+  }) as Transaction);
+  mock.method(storage, 'runInTransaction', async () => ({ batch: { id: 1 }, transactions }));
+  mock.method(storage, 'getBudgetSummaries', async () => SUMMARIES);
+  mock.method(storage, 'hasAlertSince', async (_userId: number, referenceType: string, referenceId: number) =>
+    SENT.has(`${referenceType}:${referenceId}`));
+  const created = mock.method(storage, 'createAlert', async (alert: InsertAlert) => ({ id: 1, ...alert }));
+
+  const result = await storage.commitImport(USER_ID, data);
+  assert.equal(result.transactions.length, data.rows.length);
+  assert.deepEqual(created.mock.calls.map((call) => call.arguments[0]), [{
+    userId: USER_ID,
+    type: 'budget',
+    message: 'O orçamento de "Mercado" atingiu 80%: R$ 420.00 de R$ 500.00.',
+    referenceId: 70,
+    referenceType: 'budget_80',
+    isRead: false,
+  }]);
+});
@@ -0,0 +1,56 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Reaplicação das regras de categorização ao histórico, com o storage em memória (ver helpers.ts)
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const RULE = { id: 3, userId: USER.id, categoryId: 10, descriptionContains: 'padaria', amountEquals: null, priority: 0 };
+const calls: { userId: number; options: unknown }[] = [];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+
+  [token] = await signIn(USER);
+
+  mock.method(storage, 'getCategorizationRuleById', async (id: number, userId: number) =>
+    (id === RULE.id && userId === RULE.userId ? RULE : undefined));
+  mock.method(storage, 'applyCategorizationRules', async (userId: number, options: unknown) => {
+    calls.push({ userId, options });
+    return 4;
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('por padrão só as transações sem categoria recebem a categoria da regra', async () => {
+  const response = await request('POST', '/api/categorization-rules/apply', {});
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { updated: 4, dryRun: false });
+  assert.deepEqual(calls.at(-1), { userId: USER.id, options: { overwrite: false, dryRun: false } });
+});
+
+test('simulação e substituição chegam ao storage junto com a regra escolhida', async () => {
+  const response = await request('POST', '/api/categorization-rules/apply', { ruleId: RULE.id, overwrite: true, dryRun: true });
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { updated: 4, dryRun: true });
+  assert.deepEqual(calls.at(-1)?.options, { ruleId: RULE.id, overwrite: true, dryRun: true });
+});
+
+test('regra de outro usuário ou opções inválidas não chegam ao storage', async () => {
+  const before = calls.length;
+  assert.equal((await request('POST', '/api/categorization-rules/apply', { ruleId: 99 })).status, 404);
+  const invalid = await request('POST', '/api/categorization-rules/apply', { overwrite: 'sim' });
+  assert.equal(invalid.status, 400);
+  assert.ok((await invalid.json()).errors.overwrite);
+  assert.equal(calls.length, before);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMonths, getOccurrenceDate, getStatementCycle, monthIndex } from '../dates.js';
+import { CSV_LAYOUTS, parseCsv, parseOfx } from '../import.js';
+
+// Servidor fora de UTC: as datas lidas do banco (meia-noite UTC) não podem mudar de dia
+process.env.TZ = 'America/Sao_Paulo';
+
+const utc = (day: string) => new Date(`${day}T00:00:00Z`);
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+test('o fuso do processo é o de São Paulo', () => {
+  assert.equal(utc('2026-01-15').getDate(), 14);
+});
+
+test('ciclo de fatura usa o dia da data do banco, não o do fuso local', () => {
+  const onClosing = getStatementCycle(10, 20, utc('2026-01-10'));
+  assert.equal(day(onClosing.closingDate), '2026-01-10');
+  assert.equal(day(onClosing.periodStart), '2025-12-11');
+  assert.equal(day(onClosing.dueDate), '2026-01-20');
+
+  const afterClosing = getStatementCycle(10, 5, utc('2026-01-11'));
+  assert.equal(day(afterClosing.closingDate), '2026-02-10');
+  assert.equal(day(afterClosing.dueDate), '2026-03-05');
+});
+
+test('parcelas e recorrências avançam o mês sem trocar o dia', () => {
+  assert.equal(day(addMonths(utc('2026-01-31'), 1)), '2026-02-28');
+  assert.equal(day(addMonths(utc('2026-03-01'), 1)), '2026-04-01');
+
+  const monthly = { frequency: 'monthly', interval: 1, dayOfMonth: 1, startDate: utc('2026-03-01') };
+  assert.equal(day(getOccurrenceDate(monthly, 2)), '2026-05-01');
+  const weekly = { frequency: 'weekly', interval: 1, dayOfMonth: null, startDate: utc('2026-03-01') };
+  assert.equal(day(getOccurrenceDate(weekly, 1)), '2026-03-08');
+});
+
+test('transação do dia 1º conta no orçamento do próprio mês', () => {
+  assert.equal(monthIndex(utc('2026-03-01')), 2026 * 12 + 2);
+});
+
+test('OFX e CSV importados ficam na meia-noite UTC do dia informado', () => {
+  const [ofx] = parseOfx('<STMTTRN><DTPOSTED>20260301120000[-3:BRT]<TRNAMT>-50.00<FITID>1<MEMO>Padaria</STMTTRN>');
+  assert.equal(ofx.date.toISOString(), '2026-03-01T00:00:00.000Z');
+
+  const [csv] = parseCsv('01/03/2026;Padaria;-50,00', CSV_LAYOUTS.itau);
+  assert.equal(csv.date.toISOString(), '2026-03-01T00:00:00.000Z');
+});
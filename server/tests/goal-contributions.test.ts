@@ -0,0 +1,95 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getGoalPace } from '../goals.js';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Movimentações de metas com o storage em memória (ver helpers.ts)
+
+test('ritmo compara os aportes de cada mês com o planejado, sem contar o saldo inicial', () => {
+  const pace = getGoalPace(
+    { monthlyContribution: '500.00', createdAt: new Date('2026-01-10T12:00:00Z') },
+    [
+      { type: 'opening', amount: '1000.00', date: new Date('2026-01-10T12:00:00Z') },
+      { type: 'deposit', amount: '500.00', date: new Date('2026-01-15T12:00:00Z') },
+      { type: 'deposit', amount: '300.00', date: new Date('2026-03-05T12:00:00Z') },
+      { type: 'withdrawal', amount: '100.00', date: new Date('2026-03-20T12:00:00Z') },
+    ],
+    new Date('2026-03-25T12:00:00Z'),
+  );
+  assert.deepEqual(pace.months.map((month) => [month.month, month.actual]), [['2026-01', 500], ['2026-02', 0], ['2026-03', 200]]);
+  assert.equal(pace.plannedTotal, 1500);
+  assert.equal(pace.actualTotal, 700);
+  assert.equal(pace.difference, -800);
+  assert.equal(pace.averageMonthly, 233.33);
+});
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const GOAL = { id: 3, userId: USER.id, name: 'Viagem', targetAmount: '5000.00', currentAmount: '1000.00' };
+const ACCOUNTS = [{ id: 7, userId: USER.id }, { id: 8, userId: USER.id }, { id: 9, userId: 2 }];
+const calls: any[] = [];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage, GoalContributionError } = await import('../storage.js');
+
+  [token] = await signIn(USER);
+
+  mock.method(storage, 'getAccountById', async (id: number, userId: number) => ACCOUNTS.find((account) => account.id === id && account.userId === userId));
+  mock.method(storage, 'addGoalContribution', async (goalId: number, userId: number, contribution: any, createdBy: number) => {
+    if (goalId !== GOAL.id || userId !== GOAL.userId) return undefined;
+    if (contribution.type === 'withdrawal' && parseFloat(contribution.amount) > parseFloat(GOAL.currentAmount)) {
+      throw new GoalContributionError('Retirada maior que o saldo da meta');
+    }
+    calls.push({ goalId, userId, contribution, createdBy });
+    return {
+      goal: { ...GOAL, currentAmount: (parseFloat(GOAL.currentAmount) + parseFloat(contribution.amount)).toFixed(2) },
+      contribution: { id: calls.length, goalId, ...contribution },
+    };
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('depósito devolve a meta com o saldo recalculado e registra quem lançou', async () => {
+  const response = await request('POST', `/api/goals/${GOAL.id}/contributions`, {
+    amount: 250,
+    accountId: 7,
+    reserveAccountId: 8,
+  });
+  assert.equal(response.status, 201);
+  const body = await response.json();
+  assert.equal(body.goal.currentAmount, '1250.00');
+  assert.equal(body.contribution.type, 'deposit');
+  assert.equal(calls.at(-1).contribution.amount, '250.00');
+  assert.equal(calls.at(-1).createdBy, USER.id);
+});
+
+test('retirada acima do saldo e conta de outro usuário são recusadas', async () => {
+  const withdrawal = await request('POST', `/api/goals/${GOAL.id}/contributions`, { type: 'withdrawal', amount: 2000 });
+  assert.equal(withdrawal.status, 400);
+  assert.ok((await withdrawal.json()).errors.amount);
+
+  const foreignAccount = await request('POST', `/api/goals/${GOAL.id}/contributions`, {
+    amount: 100,
+    accountId: 7,
+    reserveAccountId: 9,
+  });
+  assert.equal(foreignAccount.status, 400);
+  assert.ok((await foreignAccount.json()).errors.reserveAccountId);
+
+  const missingReserve = await request('POST', `/api/goals/${GOAL.id}/contributions`, { amount: 100, accountId: 7 });
+  assert.equal(missingReserve.status, 400);
+});
+
+test('meta de outro usuário devolve 404', async () => {
+  const response = await request('POST', '/api/goals/99/contributions', { amount: 100 });
+  assert.equal(response.status, 404);
+});
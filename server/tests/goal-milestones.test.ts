@@ -0,0 +1,108 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPaceShortfall, milestoneAmount } from '../goals.js';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Marcos, conclusão e arquivamento de metas com o storage em memória (ver helpers.ts)
+
+test('marco percentual é calculado sobre o valor alvo', () => {
+  assert.equal(milestoneAmount({ kind: 'percent', value: '25.00' }, 1999), 499.75);
+  assert.equal(milestoneAmount({ kind: 'amount', value: '300.00' }, 1999), 300);
+});
+
+test('meta fora do ritmo só é apontada quando não chega ao alvo na data alvo', () => {
+  const now = new Date('2026-01-10T12:00:00Z');
+  const goal = {
+    currentAmount: '0.00',
+    targetAmount: '1200.00',
+    monthlyContribution: '100.00',
+    annualInterestRate: '0',
+    targetDate: new Date('2026-07-01T00:00:00Z'),
+    status: 'active',
+    archivedAt: null,
+  };
+  const shortfall = getPaceShortfall(goal, now);
+  assert.ok(shortfall);
+  assert.equal(shortfall.monthsUntilTargetDate, 6);
+  assert.equal(shortfall.requiredMonthlyContribution, 200);
+
+  assert.equal(getPaceShortfall({ ...goal, monthlyContribution: '200.00' }, now), null);
+  assert.equal(getPaceShortfall({ ...goal, status: 'achieved' }, now), null);
+  assert.equal(getPaceShortfall({ ...goal, archivedAt: now }, now), null);
+  assert.equal(getPaceShortfall({ ...goal, targetDate: null }, now), null);
+});
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const GOALS = [
+  { id: 3, userId: USER.id, name: 'Viagem', status: 'active', targetAmount: '1000.00', archivedAt: null },
+  { id: 4, userId: USER.id, name: 'Reserva', status: 'achieved', targetAmount: '5000.00', archivedAt: null },
+];
+const listCalls: any[] = [];
+const deleted: number[] = [];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+
+  [token] = await signIn(USER);
+
+  const findGoal = (id: number, userId: number) => GOALS.find((goal) => goal.id === id && goal.userId === userId);
+  mock.method(storage, 'getGoals', async (userId: number, options: any) => {
+    listCalls.push(options);
+    return GOALS.filter((goal) => goal.userId === userId);
+  });
+  mock.method(storage, 'getGoalById', async (id: number, userId: number) => findGoal(id, userId));
+  mock.method(storage, 'deleteGoal', async (id: number) => {
+    deleted.push(id);
+    return true;
+  });
+  mock.method(storage, 'archiveGoal', async (id: number, userId: number, archived: boolean) => {
+    const goal = findGoal(id, userId);
+    return goal && { ...goal, archivedAt: archived ? new Date() : null };
+  });
+  mock.method(storage, 'setGoalMilestones', async (goalId: number, userId: number, milestones: any[]) =>
+    (findGoal(goalId, userId) ? milestones.map((milestone, index) => ({ id: index + 1, goalId, reachedAt: null, ...milestone })) : undefined));
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('lista separa metas ativas das arquivadas', async () => {
+  assert.equal((await request('GET', '/api/goals')).status, 200);
+  assert.equal((await request('GET', '/api/goals?archived=true')).status, 200);
+  assert.deepEqual(listCalls, [{ archived: false }, { archived: true }]);
+  assert.equal((await request('GET', '/api/goals?archived=talvez')).status, 400);
+});
+
+test('meta alcançada é arquivada em vez de excluída', async () => {
+  const response = await request('DELETE', '/api/goals/4');
+  assert.equal(response.status, 409);
+  assert.deepEqual(deleted, []);
+
+  const archived = await request('POST', '/api/goals/4/archive');
+  assert.equal(archived.status, 200);
+  assert.ok((await archived.json()).archivedAt);
+  assert.equal((await request('POST', '/api/goals/99/archive')).status, 404);
+
+  assert.equal((await request('DELETE', '/api/goals/3')).status, 200);
+  assert.deepEqual(deleted, [3]);
+});
+
+test('marcos devolvem o valor em reais e recusam percentual acima de 100', async () => {
+  const response = await request('PUT', '/api/goals/3/milestones', {
+    milestones: [{ kind: 'percent', value: 50 }, { kind: 'amount', value: '300' }],
+  });
+  assert.equal(response.status, 200);
+  assert.deepEqual((await response.json()).map((milestone: any) => milestone.amount), [500, 300]);
+
+  const invalid = await request('PUT', '/api/goals/3/milestones', { milestones: [{ kind: 'percent', value: 150 }] });
+  assert.equal(invalid.status, 400);
+  assert.equal((await request('PUT', '/api/goals/99/milestones', { milestones: [] })).status, 404);
+});
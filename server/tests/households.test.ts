@@ -0,0 +1,96 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Casas compartilhadas com o storage em memória (ver helpers.ts)
+
+test('só as rotas financeiras agem na casa escolhida', async () => {
+  const { isHouseholdRoute } = await import('../households.js');
+  assert.equal(isHouseholdRoute('/api/transactions'), true);
+  assert.equal(isHouseholdRoute('/api/dashboard/summary'), true);
+  assert.equal(isHouseholdRoute('/api/goals/3/'), true);
+  assert.equal(isHouseholdRoute('/api/households'), false);
+  assert.equal(isHouseholdRoute('/api/me/export'), false);
+  assert.equal(isHouseholdRoute('/api/auth/me'), false);
+});
+
+const OWNER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const VIEWER = { id: 2, username: 'joao', email: 'joao@example.com', name: 'João', sessionVersion: 0 };
+const MEMBERSHIPS = [{ id: 10, ownerId: OWNER.id, userId: VIEWER.id, role: 'viewer', createdAt: new Date() }];
+const TRANSACTIONS = [
+  { id: 1, userId: OWNER.id, createdBy: null, type: 'income', status: 'received', amount: '100.00', date: '2026-03-01' },
+  { id: 2, userId: OWNER.id, createdBy: VIEWER.id, type: 'expense', status: 'paid', amount: '30.00', date: '2026-03-02' },
+];
+const goalsRequestedFor: number[] = [];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+
+  [, token] = await signIn(OWNER, VIEWER);
+
+  mock.method(storage, 'getHouseholdMembership', async (ownerId: number, userId: number) =>
+    MEMBERSHIPS.find((member) => member.ownerId === ownerId && member.userId === userId));
+  mock.method(storage, 'getHouseholdMemberships', async () => [{ ownerId: OWNER.id, ownerName: OWNER.name, role: 'viewer' }]);
+  mock.method(storage, 'getGoals', async (userId: number) => {
+    goalsRequestedFor.push(userId);
+    return [];
+  });
+  mock.method(storage, 'createGoal', async () => {
+    throw new Error('createGoal não deveria ser chamado');
+  });
+  mock.method(storage, 'getTransactions', async (userId: number) => TRANSACTIONS.filter((transaction) => transaction.userId === userId));
+  mock.method(storage, 'getTransactionsByDateRange', async () => []);
+  mock.method(storage, 'getInvestments', async () => []);
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, household?: number, body?: unknown) {
+  const headers = household === undefined ? undefined : { 'X-Household-Id': String(household) };
+  return server.request(method, path, { token, body, headers });
+}
+
+test('membro consulta os dados do dono da casa escolhida', async () => {
+  const response = await request('GET', '/api/goals', OWNER.id);
+  assert.equal(response.status, 200);
+  assert.deepEqual(goalsRequestedFor, [OWNER.id]);
+});
+
+test('viewer não altera os dados da casa', async () => {
+  const response = await request('POST', '/api/goals', OWNER.id, { name: 'Viagem', targetAmount: '1000' });
+  assert.equal(response.status, 403);
+  assert.match((await response.json()).message, /read-only/);
+});
+
+test('casa da qual o usuário não é membro devolve 403', async () => {
+  assert.equal((await request('GET', '/api/goals', 99)).status, 403);
+  assert.equal((await request('GET', '/api/goals', Number.NaN)).status, 400);
+});
+
+test('rotas pessoais ignoram o cabeçalho da casa', async () => {
+  const response = await request('GET', '/api/households', OWNER.id);
+  assert.equal(response.status, 200);
+  const households = await response.json();
+  assert.deepEqual(households.map((household: { ownerId: number; role: string }) => [household.ownerId, household.role]), [
+    [VIEWER.id, 'owner'],
+    [OWNER.id, 'viewer'],
+  ]);
+});
+
+test('painel filtra por membro; transações sem autor contam para o dono', async () => {
+  const byViewer = await (await request('GET', `/api/dashboard/summary?memberId=${VIEWER.id}`, OWNER.id)).json();
+  assert.equal(byViewer.transactionsCount, 1);
+  assert.equal(byViewer.monthlyExpenses, 30);
+
+  const byOwner = await (await request('GET', `/api/dashboard/summary?memberId=${OWNER.id}`, OWNER.id)).json();
+  assert.equal(byOwner.transactionsCount, 1);
+  assert.equal(byOwner.monthlyIncome, 100);
+
+  const everyone = await (await request('GET', '/api/dashboard/summary', OWNER.id)).json();
+  assert.equal(everyone.transactionsCount, 2);
+});
@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CSV_LAYOUTS, descriptionSimilarity, findImportDuplicate, ImportParseError, parseCsv, parseOfx } from '../import.js';
+
+// Leitura de extratos OFX e CSV e a detecção de lançamentos já gravados
+
+const summary = (rows: ReturnType<typeof parseCsv>) =>
+  rows.map((row) => [row.date.toISOString().slice(0, 10), row.description, row.type, row.amount, row.externalId]);
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<DTSTART>20260301
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260302100000[-3:BRT]
+<TRNAMT>-42,90
+<FITID>2026030201
+<MEMO>PADARIA PAO QUENTE
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260305
+<TRNAMT>3500.00
+<FITID>2026030501
+<NAME>SALARIO EMPRESA X
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="211"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+  <STMTTRN>
+    <TRNTYPE>DEBIT</TRNTYPE>
+    <DTPOSTED>20260310</DTPOSTED>
+    <TRNAMT>-15.00</TRNAMT>
+    <FITID>XML-1</FITID>
+    <NAME>Estacionamento</NAME>
+  </STMTTRN>
+  <STMTTRN>
+    <TRNTYPE>OTHER</TRNTYPE>
+    <DTPOSTED>20260311</DTPOSTED>
+    <TRNAMT>0.00</TRNAMT>
+    <FITID>XML-2</FITID>
+    <MEMO>Lançamento zerado</MEMO>
+  </STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+test('OFX 1.x em SGML lê campos sem tag de fechamento, com vírgula decimal e MEMO ou NAME', () => {
+  assert.deepEqual(summary(parseOfx(OFX_SGML)), [
+    ['2026-03-02', 'PADARIA PAO QUENTE', 'expense', '42.90', '2026030201'],
+    ['2026-03-05', 'SALARIO EMPRESA X', 'income', '3500.00', '2026030501'],
+  ]);
+});
+
+test('OFX 2.x em XML ignora lançamentos de valor zero', () => {
+  assert.deepEqual(summary(parseOfx(OFX_XML)), [['2026-03-10', 'Estacionamento', 'expense', '15.00', 'XML-1']]);
+  assert.throws(() => parseOfx('<OFX><BANKTRANLIST></BANKTRANLIST></OFX>'), ImportParseError);
+});
+
+test('extrato do Nubank usa o identificador da linha', () => {
+  const csv = 'Data,Valor,Identificador,Descrição\n01/03/2026,-50.00,abc-1,Padaria\n02/03/2026,"1,200.00",abc-2,Pix recebido\n';
+  assert.deepEqual(summary(parseCsv(csv, CSV_LAYOUTS.nubank)), [
+    ['2026-03-01', 'Padaria', 'expense', '50.00', 'abc-1'],
+    ['2026-03-02', 'Pix recebido', 'income', '1200.00', 'abc-2'],
+  ]);
+});
+
+test('fatura do cartão inverte o sinal: compras viram despesas e estornos, receitas', () => {
+  const csv = 'date,title,amount\n2026-03-05,Mercado Livre,120.50\n2026-03-06,Estorno Loja,-20.00\n';
+  assert.deepEqual(summary(parseCsv(csv, CSV_LAYOUTS.nubank_card)), [
+    ['2026-03-05', 'Mercado Livre', 'expense', '120.50', null],
+    ['2026-03-06', 'Estorno Loja', 'income', '20.00', null],
+  ]);
+});
+
+test('extrato do Itaú sem cabeçalho lê as colunas pela posição, com milhar e vírgula decimal', () => {
+  const csv = '01/03/2026;PIX TRANSF MARIA;-1.234,56\r\n02/03/2026;SALARIO;5.000,00\r\n';
+  assert.deepEqual(summary(parseCsv(csv, CSV_LAYOUTS.itau)), [
+    ['2026-03-01', 'PIX TRANSF MARIA', 'expense', '1234.56', null],
+    ['2026-03-02', 'SALARIO', 'income', '5000.00', null],
+  ]);
+});
+
+test('extrato do Inter encontra o cabeçalho depois das linhas de identificação da conta', () => {
+  const csv = [
+    '\uFEFFExtrato Conta Corrente',
+    'Conta ;12345-6',
+    'Período ;01/03/2026 a 31/03/2026',
+    '',
+    'Data Lançamento;Histórico;Descrição;Valor;Saldo',
+    '03/03/2026;Pix enviado;"Padaria; Centro";-12,50;987,50',
+    '04/03/2026;Pix recebido;Maria;R$ 100,00;1.087,50',
+  ].join('\n');
+  assert.deepEqual(summary(parseCsv(csv, CSV_LAYOUTS.inter)), [
+    ['2026-03-03', 'Padaria; Centro', 'expense', '12.50', null],
+    ['2026-03-04', 'Maria', 'income', '100.00', null],
+  ]);
+  assert.throws(() => parseCsv('Data;Valor\n03/03/2026;-12,50\n', CSV_LAYOUTS.inter), ImportParseError);
+});
+
+test('similaridade compara as palavras das descrições, sem acentos nem caixa', () => {
+  assert.equal(descriptionSimilarity('PADARIA PÃO QUENTE', 'Padaria Pao Quente'), 1);
+  assert.equal(descriptionSimilarity('Padaria Pão Quente', 'Posto Shell'), 0);
+  assert.equal(descriptionSimilarity('', 'Padaria'), 0);
+});
+
+test('duplicata é o mesmo FITID, ou mesmo tipo e valor em até 3 dias com descrição parecida', () => {
+  const stored = (id: number, changes: object) => ({
+    id,
+    type: 'expense',
+    amount: '42.90',
+    date: new Date('2026-03-02T00:00:00Z'),
+    description: 'Compra PADARIA PAO QUENTE',
+    externalId: null as string | null,
+    ...changes,
+  });
+  const [row] = parseOfx(OFX_SGML);
+
+  // O FITID vale mesmo com valor e descrição diferentes
+  const sameFitid = stored(1, { amount: '10.00', description: 'Outra coisa', externalId: '2026030201' });
+  assert.equal(findImportDuplicate(row, [sameFitid])?.id, 1);
+
+  assert.equal(findImportDuplicate(row, [stored(2, { date: new Date('2026-03-05T00:00:00Z') })])?.id, 2);
+  assert.equal(findImportDuplicate(row, [stored(3, { date: new Date('2026-03-06T00:00:00Z') })]), undefined);
+  assert.equal(findImportDuplicate(row, [stored(4, { amount: '42.00' })]), undefined);
+  assert.equal(findImportDuplicate(row, [stored(5, { type: 'income' })]), undefined);
+  assert.equal(findImportDuplicate(row, [stored(6, { description: 'Posto Shell' })]), undefined);
+  // Outro FITID não impede a comparação por valor, data e descrição
+  assert.equal(findImportDuplicate(row, [stored(7, { externalId: 'outro' })])?.id, 7);
+});
@@ -0,0 +1,121 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildInvestmentStatement } from '../investments.js';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Extrato de investimentos: derivação da posição e do custo, e as rotas com o storage em memória
+
+const movement = (id: number, type: string, amount: string, date: string) => ({
+  id,
+  investmentId: 7,
+  userId: 1,
+  type,
+  amount,
+  date: new Date(`${date}T00:00:00Z`),
+  note: null,
+  createdBy: null,
+  createdAt: new Date(),
+});
+
+test('posição e custo médio são derivados das movimentações em ordem de data', () => {
+  const { entries, summary, overdrawn } = buildInvestmentStatement([
+    movement(4, 'redemption', '550.00', '2026-03-01'),
+    movement(1, 'application', '1000.00', '2026-01-01'),
+    movement(2, 'interest', '100.00', '2026-02-01'),
+    movement(3, 'income', '30.00', '2026-02-15'),
+    movement(5, 'fee', '10.00', '2026-03-01'),
+  ]);
+  assert.deepEqual(entries.map((entry) => entry.position), [1000, 1100, 1100, 550, 540]);
+  assert.equal(overdrawn, null);
+  // Resgatar metade da posição leva metade do custo
+  assert.equal(summary.costBasis, 500);
+  assert.equal(summary.position, 540);
+  assert.equal(summary.income, 30);
+  assert.equal(summary.result, 540 + 550 + 30 - 1000);
+});
+
+test('resgate anterior à aplicação que o cobriria deixa a posição negativa', () => {
+  const { overdrawn } = buildInvestmentStatement([
+    movement(1, 'application', '100.00', '2026-01-01'),
+    movement(2, 'redemption', '150.00', '2026-01-10'),
+    movement(3, 'application', '100.00', '2026-02-01'),
+  ]);
+  assert.equal(overdrawn?.id, 2);
+});
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const INVESTMENT = {
+  id: 7,
+  userId: USER.id,
+  name: 'CDB Banco X',
+  type: 'cdb',
+  amount: '1500.00',
+  costBasis: null,
+  interestRate: '12.00',
+  indexer: 'prefixado',
+  dayCountBasis: 'business_252',
+  startDate: new Date('2025-01-02T00:00:00Z'),
+  maturityDate: null,
+};
+const added: any[] = [];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage, InvestmentMovementError } = await import('../storage.js');
+
+  [token] = await signIn(USER);
+
+  const owned = (id: number, userId: number) => id === INVESTMENT.id && userId === INVESTMENT.userId;
+  mock.method(storage, 'getInvestmentById', async (id: number, userId: number) => (owned(id, userId) ? INVESTMENT : undefined));
+  mock.method(storage, 'getInvestmentMovements', async () => []);
+  mock.method(storage, 'addInvestmentMovement', async (id: number, userId: number, data: any, createdBy: number | null) => {
+    if (!owned(id, userId)) return undefined;
+    if (data.type === 'redemption' && parseFloat(data.amount) > parseFloat(INVESTMENT.amount)) {
+      throw new InvestmentMovementError('Posição insuficiente em 2026-01-10');
+    }
+    added.push({ ...data, createdBy });
+    return { investment: INVESTMENT, movement: { id: 1, investmentId: id, ...data, createdBy } };
+  });
+  mock.method(storage, 'deleteInvestmentMovement', async () => {
+    throw new InvestmentMovementError('Posição insuficiente em 2026-01-10');
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('extrato de investimento antigo resume a posição guardada', async () => {
+  const response = await request('GET', `/api/investments/${INVESTMENT.id}/movements`);
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.deepEqual(body.movements, []);
+  assert.equal(body.summary.position, 1500);
+  assert.equal(body.summary.costBasis, 1500);
+  assert.equal((await request('GET', '/api/investments/99/movements')).status, 404);
+});
+
+test('movimentação registra o autor e recusa resgate maior que a posição', async () => {
+  const response = await request('POST', `/api/investments/${INVESTMENT.id}/movements`, { type: 'interest', amount: '12.5', date: '2026-02-01' });
+  assert.equal(response.status, 201);
+  assert.deepEqual(added.map(({ type, amount, createdBy }) => ({ type, amount, createdBy })), [{ type: 'interest', amount: '12.50', createdBy: USER.id }]);
+
+  const overdrawn = await request('POST', `/api/investments/${INVESTMENT.id}/movements`, { type: 'redemption', amount: 2000 });
+  assert.equal(overdrawn.status, 400);
+  assert.ok((await overdrawn.json()).errors.amount);
+
+  const invalid = await request('POST', `/api/investments/${INVESTMENT.id}/movements`, { type: 'dividend', amount: 10 });
+  assert.equal(invalid.status, 400);
+  assert.ok((await invalid.json()).errors.type);
+  assert.equal((await request('POST', '/api/investments/99/movements', { type: 'application', amount: 10 })).status, 404);
+});
+
+test('exclusão que deixaria um resgate sem posição é recusada', async () => {
+  assert.equal((await request('DELETE', `/api/investments/${INVESTMENT.id}/movements/1`)).status, 409);
+});
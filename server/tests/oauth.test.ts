@@ -0,0 +1,95 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { OAuthProfile, OAuthRequestSecrets } from '../oauth.js';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Login e vínculo por OAuth com o provedor e o storage em memória (ver helpers.ts)
+process.env.GOOGLE_CLIENT_ID = 'google-client';
+process.env.GOOGLE_CLIENT_SECRET = 'google-secret';
+process.env.FRONTEND_ORIGIN = 'http://app.test';
+process.env.USE_HASH_ROUTER = 'false';
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', password: null as string | null, sessionVersion: 0, totpEnabled: false };
+const identities = [{ id: 10, userId: USER.id, provider: 'google', subject: 'google-maria', email: USER.email, createdAt: new Date(), lastUsedAt: null }];
+
+let profile: OAuthProfile;
+let server: TestServer;
+let accessToken: string;
+let createOAuthUserCalls = 0;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+  const { oauthProviders } = await import('../oauth.js');
+
+  const google = oauthProviders.get('google')!;
+  mock.method(google, 'buildAuthorizationUrl', async (secrets: OAuthRequestSecrets) => `https://accounts.example/auth?state=${secrets.state}`);
+  mock.method(google, 'fetchProfile', async () => profile);
+
+  mock.method(storage, 'getUserByEmail', async (email: string) => (email === USER.email ? USER : null));
+  mock.method(storage, 'getIdentity', async (provider: string, subject: string) => identities.find((i) => i.provider === provider && i.subject === subject));
+  mock.method(storage, 'getUserIdentities', async (userId: number) => identities.filter((i) => i.userId === userId));
+  mock.method(storage, 'deleteIdentity', async (id: number) => {
+    identities.splice(identities.findIndex((i) => i.id === id), 1);
+    return true;
+  });
+  mock.method(storage, 'touchIdentity', async () => {});
+  mock.method(storage, 'createOAuthUser', async () => {
+    createOAuthUserCalls++;
+    throw new Error('createOAuthUser não deveria ser chamado');
+  });
+  mock.method(storage, 'createAuthEvent', async () => {});
+  mock.method(storage, 'createSession', async (data: object) => ({ id: 1, ...data }));
+
+  [accessToken] = await signIn(USER);
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+// Inicia o login pelo Google e volta pelo callback com o state e o cookie emitidos; devolve o Location final
+async function completeGoogleLogin(options: { state?: string } = {}): Promise<URL> {
+  const start = await fetch(`${server.baseUrl}/api/auth/google`, { redirect: 'manual' });
+  assert.equal(start.status, 302);
+  const state = new URL(start.headers.get('location')!).searchParams.get('state')!;
+  const cookie = (start.headers.get('set-cookie') ?? '').split(';')[0];
+  assert.match(cookie, /^oauth_state=/);
+
+  const callback = await fetch(`${server.baseUrl}/api/auth/google/callback?code=abc&state=${options.state ?? state}`, {
+    redirect: 'manual',
+    headers: { Cookie: cookie },
+  });
+  assert.equal(callback.status, 302);
+  return new URL(callback.headers.get('location')!);
+}
+
+test('conta externa já vinculada entra na conta do usuário', async () => {
+  profile = { provider: 'google', subject: 'google-maria', email: 'outro@example.com', emailVerified: true, name: 'Maria' };
+  const location = await completeGoogleLogin();
+  assert.equal(location.pathname, '/oauth/callback');
+  assert.ok(location.searchParams.get('token'));
+});
+
+test('e-mail já cadastrado não é vinculado automaticamente', async () => {
+  profile = { provider: 'google', subject: 'google-intruso', email: USER.email, emailVerified: true, name: 'Intruso' };
+  const location = await completeGoogleLogin();
+  assert.equal(location.pathname, '/login');
+  assert.equal(location.searchParams.get('error'), 'oauth_email_in_use');
+  assert.equal(createOAuthUserCalls, 0);
+});
+
+test('callback com state diferente do cookie é recusado', async () => {
+  profile = { provider: 'google', subject: 'google-maria', email: USER.email, emailVerified: true, name: 'Maria' };
+  const location = await completeGoogleLogin({ state: 'forjado' });
+  assert.equal(location.searchParams.get('error'), 'oauth');
+});
+
+test('sem senha, a única conta vinculada não pode ser desvinculada', async () => {
+  const blocked = await server.request('DELETE', '/api/auth/identities/10', { token: accessToken });
+  assert.equal(blocked.status, 400);
+
+  USER.password = 'hash-qualquer';
+  const unlinked = await server.request('DELETE', '/api/auth/identities/10', { token: accessToken });
+  assert.equal(unlinked.status, 200);
+  assert.equal(identities.length, 0);
+});
@@ -0,0 +1,134 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Cada rota que altera dados recusa registros de outro usuário; storage em memória (ver helpers.ts)
+
+const OWNER = { id: 1, username: 'owner', email: 'owner@example.com', sessionVersion: 0 };
+const INTRUDER = { id: 2, username: 'intruder', email: 'intruder@example.com', sessionVersion: 0 };
+
+type OwnedRecord = { id: number; userId: number; [key: string]: unknown };
+
+const records: Record<string, OwnedRecord[]> = {
+  transactions: [{ id: 10, userId: OWNER.id, type: 'expense', accountId: 100, destinationAccountId: null, description: 'Aluguel' }],
+  goals: [{ id: 20, userId: OWNER.id, name: 'Reserva' }],
+  investments: [{ id: 30, userId: OWNER.id, name: 'CDB' }],
+  categories: [{ id: 40, userId: OWNER.id, name: 'Moradia', type: 'expense' }, { id: 42, userId: INTRUDER.id, name: 'Lazer', type: 'expense' }],
+  alerts: [{ id: 50, userId: OWNER.id, isRead: false }],
+  accounts: [{ id: 60, userId: OWNER.id, name: 'Conta corrente' }],
+};
+
+function findOwned(table: string, id: number, userId: number): OwnedRecord | undefined {
+  return records[table].find((record) => record.id === id && record.userId === userId);
+}
+
+let server: TestServer;
+let ownerToken: string;
+let intruderToken: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+
+  [ownerToken, intruderToken] = await signIn(OWNER, INTRUDER);
+
+  mock.method(storage, 'getTransactionById', async (id: number, userId: number) => findOwned('transactions', id, userId));
+  mock.method(storage, 'updateRecurringTransaction', async (id: number, userId: number, changes: object) => {
+    const record = findOwned('transactions', id, userId);
+    return record ? { ...record, ...changes } : undefined;
+  });
+  mock.method(storage, 'deleteRecurringTransaction', async (id: number, userId: number) => !!findOwned('transactions', id, userId));
+  mock.method(storage, 'updateGoal', async (id: number, userId: number, changes: object) => {
+    const record = findOwned('goals', id, userId);
+    return record ? { ...record, ...changes } : undefined;
+  });
+  mock.method(storage, 'getGoalById', async (id: number, userId: number) => findOwned('goals', id, userId));
+  mock.method(storage, 'deleteGoal', async (id: number, userId: number) => !!findOwned('goals', id, userId));
+  mock.method(storage, 'updateInvestment', async (id: number, userId: number, changes: object) => {
+    const record = findOwned('investments', id, userId);
+    return record ? { ...record, ...changes } : undefined;
+  });
+  mock.method(storage, 'deleteInvestment', async (id: number, userId: number) => !!findOwned('investments', id, userId));
+  mock.method(storage, 'updateCategory', async (id: number, userId: number, changes: object) => {
+    const record = findOwned('categories', id, userId);
+    return record ? { ...record, ...changes } : undefined;
+  });
+  mock.method(storage, 'deleteCategory', async (id: number, userId: number) => !!findOwned('categories', id, userId));
+  mock.method(storage, 'getCategories', async (userId: number) => records.categories.filter((category) => category.userId === userId));
+  mock.method(storage, 'createCategory', async (category: object) => ({ id: 41, ...category }));
+  mock.method(storage, 'markAlertAsRead', async (id: number, userId: number) => !!findOwned('alerts', id, userId));
+  mock.method(storage, 'deleteAlert', async (id: number, userId: number) => !!findOwned('alerts', id, userId));
+  mock.method(storage, 'deleteAccount', async (id: number, userId: number) => !!findOwned('accounts', id, userId));
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, token?: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+const mutatingRoutes: { method: string; path: string; body?: unknown }[] = [
+  { method: 'PUT', path: '/api/transactions/10', body: { description: 'Alterada' } },
+  { method: 'DELETE', path: '/api/transactions/10' },
+  { method: 'PUT', path: '/api/goals/20', body: { name: 'Alterada' } },
+  { method: 'DELETE', path: '/api/goals/20' },
+  { method: 'PUT', path: '/api/investments/30', body: { name: 'Alterado' } },
+  { method: 'DELETE', path: '/api/investments/30' },
+  { method: 'PUT', path: '/api/categories/40', body: { name: 'Alterada' } },
+  { method: 'DELETE', path: '/api/categories/40' },
+  { method: 'PUT', path: '/api/alerts/50/read' },
+  { method: 'DELETE', path: '/api/alerts/50' },
+  { method: 'DELETE', path: '/api/accounts/60' },
+];
+
+for (const route of mutatingRoutes) {
+  test(`${route.method} ${route.path} exige autenticação`, async () => {
+    const response = await request(route.method, route.path, undefined, route.body);
+    assert.equal(response.status, 401);
+  });
+
+  test(`${route.method} ${route.path} devolve 404 para outro usuário`, async () => {
+    const response = await request(route.method, route.path, intruderToken, route.body);
+    assert.equal(response.status, 404);
+  });
+
+  test(`${route.method} ${route.path} funciona para o dono`, async () => {
+    const response = await request(route.method, route.path, ownerToken, route.body);
+    assert.equal(response.status, 200);
+  });
+}
+
+test('PUT não transfere o registro para outro usuário via userId no corpo', async () => {
+  const response = await request('PUT', '/api/goals/20', ownerToken, { name: 'Reserva', userId: INTRUDER.id });
+  assert.equal(response.status, 200);
+  const goal = await response.json();
+  assert.equal(goal.userId, OWNER.id);
+});
+
+test('POST /api/categories exige autenticação', async () => {
+  const response = await request('POST', '/api/categories', undefined, { name: 'Nova', type: 'expense' });
+  assert.equal(response.status, 401);
+});
+
+test('POST /api/categories usa o usuário do token e ignora userId no corpo', async () => {
+  const response = await request('POST', '/api/categories', intruderToken, {
+    name: 'Nova',
+    type: 'expense',
+    icon: 'tag',
+    color: '#000000',
+    userId: OWNER.id,
+  });
+  assert.equal(response.status, 201);
+  const category = await response.json();
+  assert.equal(category.userId, INTRUDER.id);
+});
+
+test('PUT /api/transactions recusa a categoria de outro usuário', async () => {
+  const foreign = await request('PUT', '/api/transactions/10', ownerToken, { categoryId: 42 });
+  assert.equal(foreign.status, 400);
+  assert.ok((await foreign.json()).errors.categoryId);
+
+  const own = await request('PUT', '/api/transactions/10', ownerToken, { categoryId: 40 });
+  assert.equal(own.status, 200);
+});
@@ -0,0 +1,87 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { monthsToTarget, project, projectGoal, requiredMonthlyContribution } from '../projection.js';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Projeções de acúmulo; as rotas usam o storage em memória (ver helpers.ts)
+
+test('aporte no início do mês rende um mês a mais de juros', () => {
+  const end = project({ initialAmount: 0, monthlyContribution: 100, annualRate: 12, months: 12 });
+  const start = project({ initialAmount: 0, monthlyContribution: 100, annualRate: 12, months: 12, contributionTiming: 'start' });
+  assert.equal(end.totalContributed, 1200);
+  assert.ok(start.finalNominal > end.finalNominal);
+  // A diferença é exatamente um mês de juros: 12% a.a. equivale a ~0,949% a.m.
+  assert.equal(Math.round((start.finalNominal / end.finalNominal) * 10000) / 10000, 1.0095);
+  assert.deepEqual(end.years.map((year) => year.year), [1]);
+});
+
+test('valor real desconta a inflação do valor nominal', () => {
+  const projection = project({ initialAmount: 1000, monthlyContribution: 0, annualRate: 10, annualInflation: 10, months: 24 });
+  assert.equal(projection.finalNominal, 1210);
+  assert.equal(projection.finalReal, 1000);
+  assert.equal(projection.realAnnualRate, 0);
+});
+
+test('prazo e aporte necessário são coerentes entre si', () => {
+  const required = requiredMonthlyContribution({ initialAmount: 1000, annualRate: 8, targetAmount: 10000, months: 24 })!;
+  assert.equal(monthsToTarget({ initialAmount: 1000, monthlyContribution: required, annualRate: 8, targetAmount: 10000 }), 24);
+  assert.equal(monthsToTarget({ initialAmount: 1000, monthlyContribution: 0, annualRate: 0, targetAmount: 10000 }), null);
+  assert.equal(requiredMonthlyContribution({ initialAmount: 10000, annualRate: 5, targetAmount: 10000, months: 12 }), 0);
+  assert.equal(requiredMonthlyContribution({ initialAmount: 0, annualRate: 0, targetAmount: 1200, months: 12 }), 100);
+});
+
+test('projeção da meta estima a data e o aporte para a data alvo', () => {
+  const projection = projectGoal(
+    { currentAmount: '400.00', targetAmount: '1000.00', monthlyContribution: '100.00', annualInterestRate: '0', targetDate: new Date('2026-04-15T00:00:00Z') },
+    {},
+    new Date('2026-01-10T12:00:00Z'),
+  );
+  assert.equal(projection.remaining, 600);
+  assert.equal(projection.monthsToTarget, 6);
+  assert.equal(projection.estimatedDate, '2026-07-31');
+  assert.equal(projection.monthsUntilTargetDate, 3);
+  assert.equal(projection.requiredMonthlyContribution, 200);
+});
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const GOAL = { id: 3, userId: USER.id, currentAmount: '0.00', targetAmount: '1200.00', monthlyContribution: '100.00', annualInterestRate: '0', targetDate: null };
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+
+  [token] = await signIn(USER);
+
+  mock.method(storage, 'getGoalById', async (id: number, userId: number) =>
+    (id === GOAL.id && userId === GOAL.userId ? GOAL : undefined));
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('simulação valida a entrada e devolve a série mensal', async () => {
+  const response = await request('POST', '/api/simulations', { initialAmount: 1000, monthlyContribution: 100, annualRate: 10, months: 36 });
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.equal(body.months.length, 36);
+  assert.equal(body.years.length, 3);
+
+  const invalid = await request('POST', '/api/simulations', { annualRate: 10, months: 0 });
+  assert.equal(invalid.status, 400);
+  assert.ok((await invalid.json()).errors.months);
+});
+
+test('projeção da meta aceita o momento do aporte e recusa meta de outro usuário', async () => {
+  const response = await request('GET', `/api/goals/${GOAL.id}/projection?contributionTiming=start`);
+  assert.equal(response.status, 200);
+  assert.equal((await response.json()).monthsToTarget, 12);
+  assert.equal((await request('GET', '/api/goals/99/projection')).status, 404);
+  assert.equal((await request('GET', `/api/goals/${GOAL.id}/projection?contributionTiming=middle`)).status, 400);
+});
@@ -0,0 +1,165 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './helpers.js';
+
+// Sessões e refresh tokens exercitados com o storage em memória (ver helpers.ts)
+
+type FakeSession = {
+  id: number;
+  userId: number;
+  refreshTokenHash: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+};
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0, password: '' };
+const OTHER_USER_SESSION_ID = 99;
+const PASSWORD = 'senha-segura-123';
+
+const sessions: FakeSession[] = [];
+
+let server: TestServer;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+  const { hashPassword } = await import('../auth.js');
+
+  USER.password = await hashPassword(PASSWORD);
+  sessions.push({
+    id: OTHER_USER_SESSION_ID,
+    userId: 2,
+    refreshTokenHash: 'outro-usuario',
+    userAgent: null,
+    ipAddress: null,
+    createdAt: new Date(),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null,
+  });
+
+  mock.method(storage, 'getUser', async (id: number) => (id === USER.id ? USER : null));
+  mock.method(storage, 'getUserByEmail', async (email: string) => (email === USER.email ? USER : null));
+  mock.method(storage, 'getLoginFailureStats', async () => ({ count: 0, lastFailureAt: null }));
+  mock.method(storage, 'createAuthEvent', async () => {});
+  mock.method(storage, 'createSession', async (data: Omit<FakeSession, 'id' | 'createdAt' | 'lastUsedAt' | 'revokedAt'>) => {
+    const session = { ...data, id: sessions.length + 1, createdAt: new Date(), lastUsedAt: new Date(), revokedAt: null };
+    sessions.push(session);
+    return session;
+  });
+  mock.method(storage, 'getSessionById', async (id: number) => sessions.find((session) => session.id === id));
+  mock.method(storage, 'rotateSessionToken', async (tokenHash: string, newTokenHash: string, expiresAt: Date) => {
+    const session = sessions.find((s) => s.refreshTokenHash === tokenHash && !s.revokedAt);
+    if (!session) return undefined;
+    Object.assign(session, { refreshTokenHash: newTokenHash, lastUsedAt: new Date(), expiresAt });
+    return session;
+  });
+  mock.method(storage, 'getActiveSessions', async (userId: number) => sessions.filter((s) => s.userId === userId && !s.revokedAt));
+  mock.method(storage, 'revokeSession', async (id: number, userId: number) => {
+    const session = sessions.find((s) => s.id === id && s.userId === userId && !s.revokedAt);
+    if (!session) return false;
+    session.revokedAt = new Date();
+    return true;
+  });
+  mock.method(storage, 'revokeSessionByToken', async (tokenHash: string) => {
+    const session = sessions.find((s) => s.refreshTokenHash === tokenHash && !s.revokedAt);
+    if (session) session.revokedAt = new Date();
+    return session;
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, options: { token?: string; cookie?: string; body?: unknown } = {}) {
+  const headers = { 'User-Agent': 'sessions-test', ...(options.cookie && { Cookie: options.cookie }) };
+  return server.request(method, path, { token: options.token, body: options.body, headers });
+}
+
+// Devolve o par nome=valor do cookie de refresh definido pela resposta
+function refreshCookieFrom(response: Response): string {
+  const header = response.headers.get('set-cookie') ?? '';
+  assert.match(header, /refresh_token=/);
+  return header.split(';')[0];
+}
+
+async function login() {
+  const response = await request('POST', '/api/auth/login', { body: { email: USER.email, password: PASSWORD } });
+  assert.equal(response.status, 200);
+  const { token } = await response.json();
+  return { token: token as string, cookie: refreshCookieFrom(response), setCookie: response.headers.get('set-cookie') ?? '' };
+}
+
+test('login grava o refresh token em cookie httpOnly restrito às rotas de autenticação', async () => {
+  const { token, setCookie } = await login();
+  assert.ok(token);
+  assert.match(setCookie, /HttpOnly/);
+  assert.match(setCookie, /Path=\/api\/auth/);
+  assert.match(setCookie, /SameSite=Lax/);
+  const session = sessions[sessions.length - 1];
+  assert.equal(session.userId, USER.id);
+  assert.equal(session.userAgent, 'sessions-test');
+});
+
+test('refresh troca o refresh token e o anterior deixa de valer', async () => {
+  const { cookie } = await login();
+
+  const refreshed = await request('POST', '/api/auth/refresh', { cookie });
+  assert.equal(refreshed.status, 200);
+  const body = await refreshed.json();
+  assert.ok(body.token);
+  assert.equal(body.user.id, USER.id);
+  assert.notEqual(refreshCookieFrom(refreshed), cookie);
+
+  const reused = await request('POST', '/api/auth/refresh', { cookie });
+  assert.equal(reused.status, 401);
+});
+
+test('refresh sem cookie devolve 401', async () => {
+  const response = await request('POST', '/api/auth/refresh');
+  assert.equal(response.status, 401);
+});
+
+test('GET /api/auth/sessions lista as sessões do usuário e marca a atual', async () => {
+  const { token } = await login();
+  const response = await request('GET', '/api/auth/sessions', { token });
+  assert.equal(response.status, 200);
+  const list = await response.json() as { id: number; current: boolean; userAgent: string }[];
+  assert.ok(list.length >= 1);
+  assert.equal(list.filter((session) => session.current).length, 1);
+  assert.ok(list.every((session) => session.id !== OTHER_USER_SESSION_ID));
+});
+
+test('DELETE /api/auth/sessions/:id não encerra sessão de outro usuário', async () => {
+  const { token } = await login();
+  const response = await request('DELETE', `/api/auth/sessions/${OTHER_USER_SESSION_ID}`, { token });
+  assert.equal(response.status, 404);
+});
+
+test('sessão encerrada invalida o access token e o refresh token', async () => {
+  const device = await login();
+  const other = await login();
+  const deviceSession = sessions[sessions.length - 2];
+
+  const revoked = await request('DELETE', `/api/auth/sessions/${deviceSession.id}`, { token: other.token });
+  assert.equal(revoked.status, 200);
+
+  const me = await request('GET', '/api/auth/me', { token: device.token });
+  assert.equal(me.status, 401);
+  const refreshed = await request('POST', '/api/auth/refresh', { cookie: device.cookie });
+  assert.equal(refreshed.status, 401);
+});
+
+test('logout encerra a sessão no servidor e limpa o cookie', async () => {
+  const { token, cookie } = await login();
+  const response = await request('POST', '/api/auth/logout', { cookie });
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get('set-cookie') ?? '', /refresh_token=;/);
+
+  const me = await request('GET', '/api/auth/me', { token });
+  assert.equal(me.status, 401);
+});
@@ -0,0 +1,86 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ACCOUNT_THROTTLE, getRetryAfterSeconds, isLockedOut } from '../throttle.js';
+import { startTestServer, type TestServer } from './helpers.js';
+
+// Limitação de login com auth_events em memória (ver helpers.ts)
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const secondsAgo = (seconds: number) => new Date(NOW.getTime() - seconds * 1000);
+
+test('as primeiras falhas não exigem espera', () => {
+  assert.equal(getRetryAfterSeconds({ count: 2, lastFailureAt: secondsAgo(0) }, ACCOUNT_THROTTLE, NOW), 0);
+});
+
+test('a espera dobra a cada falha além das gratuitas e respeita o teto', () => {
+  assert.equal(getRetryAfterSeconds({ count: 3, lastFailureAt: secondsAgo(0) }, ACCOUNT_THROTTLE, NOW), 1);
+  assert.equal(getRetryAfterSeconds({ count: 5, lastFailureAt: secondsAgo(0) }, ACCOUNT_THROTTLE, NOW), 4);
+  assert.equal(getRetryAfterSeconds({ count: 9, lastFailureAt: secondsAgo(0) }, ACCOUNT_THROTTLE, NOW), 60);
+  assert.equal(getRetryAfterSeconds({ count: 5, lastFailureAt: secondsAgo(3) }, ACCOUNT_THROTTLE, NOW), 1);
+  assert.equal(getRetryAfterSeconds({ count: 5, lastFailureAt: secondsAgo(10) }, ACCOUNT_THROTTLE, NOW), 0);
+});
+
+test('ao atingir o limite a conta fica bloqueada pelo tempo configurado', () => {
+  const stats = { count: ACCOUNT_THROTTLE.lockoutThreshold, lastFailureAt: secondsAgo(60) };
+  assert.equal(isLockedOut(stats, ACCOUNT_THROTTLE, NOW), true);
+  assert.equal(getRetryAfterSeconds(stats, ACCOUNT_THROTTLE, NOW), ACCOUNT_THROTTLE.lockoutMinutes * 60 - 60);
+
+  const expired = { count: ACCOUNT_THROTTLE.lockoutThreshold, lastFailureAt: secondsAgo(ACCOUNT_THROTTLE.lockoutMinutes * 60) };
+  assert.equal(isLockedOut(expired, ACCOUNT_THROTTLE, NOW), false);
+});
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', password: '', sessionVersion: 0, totpEnabled: false };
+const PASSWORD = 'senha-segura-123';
+const events: { type: string; userId: number | null; email: string | null; ipAddress: string | null; createdAt: Date }[] = [];
+
+let server: TestServer;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+  const { hashPassword } = await import('../auth.js');
+
+  USER.password = await hashPassword(PASSWORD);
+
+  mock.method(storage, 'getUserByEmail', async (email: string) => (email === USER.email ? USER : null));
+  mock.method(storage, 'createSession', async (data: object) => ({ id: 1, ...data }));
+  mock.method(storage, 'createAuthEvent', async (event: { type: string; userId: number | null; email?: string | null; ipAddress?: string | null }) => {
+    events.push({ type: event.type, userId: event.userId, email: event.email ?? null, ipAddress: event.ipAddress ?? null, createdAt: new Date() });
+  });
+  mock.method(storage, 'getLoginFailureStats', async (filter: { email?: string; ipAddress?: string }) => {
+    const failures = events.filter((event) => event.type === 'login_failed'
+      && (filter.email ? event.email === filter.email : event.ipAddress === filter.ipAddress));
+    return { count: failures.length, lastFailureAt: failures.at(-1)?.createdAt ?? null };
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function login(password: string, email: string = USER.email) {
+  return server.request('POST', '/api/auth/login', { body: { email, password } });
+}
+
+test('login bem-sucedido e falhas ficam registrados em auth_events', async () => {
+  assert.equal((await login(PASSWORD)).status, 200);
+  assert.equal((await login('errada')).status, 401);
+  assert.equal((await login('errada', 'NINGUEM@example.com')).status, 401);
+
+  assert.deepEqual(events.map((event) => [event.type, event.userId, event.email]), [
+    ['login_success', USER.id, USER.email],
+    ['login_failed', USER.id, USER.email],
+    ['login_failed', null, 'ninguem@example.com'],
+  ]);
+  assert.ok(events.every((event) => event.ipAddress));
+});
+
+test('após as falhas gratuitas o login responde 429 com Retry-After, mesmo com a senha certa', async () => {
+  for (let attempt = 1; attempt < ACCOUNT_THROTTLE.freeAttempts; attempt++) {
+    assert.equal((await login('errada')).status, 401);
+  }
+
+  const response = await login(PASSWORD);
+  assert.equal(response.status, 429);
+  assert.ok(Number(response.headers.get('retry-after')) > 0);
+  assert.match((await response.json()).message, /Muitas tentativas/);
+});
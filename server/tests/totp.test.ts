@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from '../totp.js';
+
+// Segredo dos vetores de teste da RFC 6238 (SHA-1): "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+test('base32 codifica e decodifica o segredo da RFC', () => {
+  assert.equal(RFC_SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  assert.equal(base32Decode(RFC_SECRET).toString(), '12345678901234567890');
+  assert.equal(base32Decode('gezdgnbv gy3tqojq').toString(), '1234567890');
+});
+
+test('generateTotp reproduz os vetores da RFC 6238 (6 dígitos)', () => {
+  const vectors: [number, string][] = [
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ];
+  for (const [seconds, code] of vectors) {
+    assert.equal(generateTotp(RFC_SECRET, seconds * 1000), code);
+  }
+});
+
+test('verifyTotp aceita um passo de diferença e devolve o passo usado', () => {
+  const secret = generateTotpSecret();
+  const now = Date.UTC(2026, 0, 1, 12, 0, 0);
+  const previous = generateTotp(secret, now - 30 * 1000);
+  assert.equal(verifyTotp(secret, generateTotp(secret, now), now), getTotpStep(now));
+  assert.equal(verifyTotp(secret, previous, now), getTotpStep(now) - 1);
+  assert.equal(verifyTotp(secret, generateTotp(secret, now - 90 * 1000), now), null);
+  assert.equal(verifyTotp(secret, 'abcdef', now), null);
+});
+
+test('códigos de recuperação são únicos e aceitam variações de digitação', () => {
+  const codes = generateRecoveryCodes();
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, codes.length);
+  for (const code of codes) {
+    assert.match(code, /^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    assert.equal(normalizeRecoveryCode(` ${code.toUpperCase().replace('-', '')} `), code);
+  }
+});
+
+test('buildOtpauthUri inclui emissor e parâmetros do TOTP', () => {
+  const uri = new URL(buildOtpauthUri(RFC_SECRET, 'maria@example.com', 'Financeiro'));
+  assert.equal(uri.protocol, 'otpauth:');
+  assert.equal(uri.host, 'totp');
+  assert.equal(decodeURIComponent(uri.pathname), '/Financeiro:maria@example.com');
+  assert.equal(uri.searchParams.get('secret'), RFC_SECRET);
+  assert.equal(uri.searchParams.get('issuer'), 'Financeiro');
+  assert.equal(uri.searchParams.get('digits'), '6');
+  assert.equal(uri.searchParams.get('period'), '30');
+});
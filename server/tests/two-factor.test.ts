@@ -0,0 +1,100 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './helpers.js';
+
+// Login em duas etapas com o storage em memória (ver helpers.ts)
+
+const PASSWORD = 'senha-segura-123';
+const RECOVERY_CODE = 'abcde-fghij';
+
+const user = {
+  id: 1,
+  username: 'maria',
+  email: 'maria@example.com',
+  name: 'Maria',
+  password: '',
+  sessionVersion: 0,
+  totpSecret: '',
+  totpEnabled: true,
+  totpLastUsedStep: null as number | null,
+};
+const recoveryCodeHashes = new Set<string>();
+
+let server: TestServer;
+let generateTotp: (secret: string, timeMs?: number) => string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+  const { hashPassword, hashToken } = await import('../auth.js');
+  const totp = await import('../totp.js');
+  generateTotp = totp.generateTotp;
+
+  user.password = await hashPassword(PASSWORD);
+  user.totpSecret = totp.generateTotpSecret();
+  recoveryCodeHashes.add(hashToken(RECOVERY_CODE));
+
+  mock.method(storage, 'getUser', async (id: number) => (id === user.id ? user : null));
+  mock.method(storage, 'getUserByEmail', async (email: string) => (email === user.email ? user : null));
+  mock.method(storage, 'getLoginFailureStats', async () => ({ count: 0, lastFailureAt: null }));
+  mock.method(storage, 'createAuthEvent', async () => {});
+  mock.method(storage, 'createSession', async (data: object) => ({ id: 1, ...data }));
+  mock.method(storage, 'getSessionById', async (id: number) => ({ id, userId: user.id, revokedAt: null }));
+  mock.method(storage, 'consumeTotpStep', async (_userId: number, step: number) => {
+    if (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step) return false;
+    user.totpLastUsedStep = step;
+    return true;
+  });
+  mock.method(storage, 'consumeRecoveryCode', async (_userId: number, codeHash: string) => recoveryCodeHashes.delete(codeHash));
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function post(path: string, body: unknown, token?: string) {
+  return server.request('POST', path, { token, body });
+}
+
+async function startLogin(): Promise<string> {
+  const response = await post('/api/auth/login', { email: user.email, password: PASSWORD });
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.equal(body.twoFactorRequired, true);
+  assert.equal(body.token, undefined);
+  assert.equal(response.headers.get('set-cookie'), null);
+  return body.challengeToken;
+}
+
+test('com 2FA ativa, a senha sozinha não abre sessão', async () => {
+  const challengeToken = await startLogin();
+  // O token de desafio não serve como access token
+  const me = await server.request('GET', '/api/auth/me', { token: challengeToken });
+  assert.equal(me.status, 401);
+});
+
+test('código TOTP válido conclui o login e não pode ser reutilizado', async () => {
+  const code = generateTotp(user.totpSecret);
+
+  const response = await post('/api/auth/login/2fa', { challengeToken: await startLogin(), code });
+  assert.equal(response.status, 200);
+  const body = await response.json();
+  assert.ok(body.token);
+  assert.equal(body.user.id, user.id);
+
+  const replay = await post('/api/auth/login/2fa', { challengeToken: await startLogin(), code });
+  assert.equal(replay.status, 400);
+  assert.deepEqual((await replay.json()).errors.code, ['Código inválido.']);
+});
+
+test('código de recuperação vale uma única vez', async () => {
+  const first = await post('/api/auth/login/2fa', { challengeToken: await startLogin(), code: RECOVERY_CODE.toUpperCase() });
+  assert.equal(first.status, 200);
+
+  const second = await post('/api/auth/login/2fa', { challengeToken: await startLogin(), code: RECOVERY_CODE });
+  assert.equal(second.status, 400);
+});
+
+test('desafio inválido devolve 401', async () => {
+  const response = await post('/api/auth/login/2fa', { challengeToken: 'invalido', code: '123456' });
+  assert.equal(response.status, 401);
+});
@@ -0,0 +1,129 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { userExportBundleSchema } from '../../shared/schema.js';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Importação de pacotes exportados com o storage em memória (ver helpers.ts)
+
+const PASSWORD = 'senha-atual-123';
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', password: '', sessionVersion: 0 };
+const BUNDLE = {
+  format: 'financeiro-export',
+  version: 1,
+  exportedAt: '2026-03-10T12:00:00.000Z',
+  categories: [{ id: 10, userId: 99, name: 'Mercado', type: 'expense', color: '#f00', icon: 'cart' }],
+  accounts: [{ id: 20, userId: 99, name: 'Nubank', type: 'bank', balance: '150.5', creditLimit: null }],
+  transactions: [{
+    id: 30,
+    userId: 99,
+    description: 'Compras',
+    amount: 49.9,
+    date: '2026-03-01T00:00:00.000Z',
+    type: 'expense',
+    status: 'paid',
+    categoryId: 10,
+    accountId: 20,
+  }],
+};
+const calls: { userId: number; mode: string; dryRun: boolean; transactions: unknown[] }[] = [];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage, BundleImportError } = await import('../storage.js');
+  const { hashPassword } = await import('../auth.js');
+
+  USER.password = await hashPassword(PASSWORD);
+  [token] = await signIn(USER);
+
+  mock.method(storage, 'importUserData', async (userId: number, bundle: { transactions: { categoryId: number | null }[] }, mode: string, dryRun: boolean) => {
+    if (bundle.transactions.some((transaction) => transaction.categoryId === 404)) {
+      throw new BundleImportError('Referência inválida no pacote: categories 404 não existe.');
+    }
+    calls.push({ userId, mode, dryRun, transactions: bundle.transactions });
+    return { mode, dryRun, entities: {}, preferences: 'absent' };
+  });
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string, body?: unknown) {
+  return server.request(method, path, { token, body });
+}
+
+test('pacote validado normaliza valores e completa as listas ausentes', () => {
+  const bundle = userExportBundleSchema.parse(BUNDLE);
+  assert.equal(bundle.accounts[0].balance, '150.50');
+  assert.equal(bundle.transactions[0].amount, '49.90');
+  assert.ok(bundle.transactions[0].date instanceof Date);
+  assert.equal(bundle.transactions[0].statementId, null);
+  assert.deepEqual(bundle.goals, []);
+  assert.equal(bundle.preferences, null);
+});
+
+test('pacote de outro formato ou versão é recusado', () => {
+  assert.equal(userExportBundleSchema.safeParse({ ...BUNDLE, format: 'outro' }).success, false);
+  assert.equal(userExportBundleSchema.safeParse({ ...BUNDLE, version: 2 }).success, false);
+});
+
+test('pacote com tipo, status ou frequência desconhecidos, ou transferência sem destino, é recusado', () => {
+  const transaction = BUNDLE.transactions[0];
+  const rule = { id: 40, frequency: 'monthly', startDate: '2026-03-01', description: 'Aluguel', amount: 1200, type: 'expense', accountId: 20 };
+  assert.equal(userExportBundleSchema.safeParse({ ...BUNDLE, recurrenceRules: [rule] }).success, true);
+
+  const invalid = [
+    { ...BUNDLE, transactions: [{ ...transaction, type: 'foo' }] },
+    { ...BUNDLE, transactions: [{ ...transaction, status: 'done' }] },
+    { ...BUNDLE, transactions: [{ ...transaction, type: 'transfer', destinationAccountId: null }] },
+    { ...BUNDLE, accounts: [{ ...BUNDLE.accounts[0], type: 'wallet' }] },
+    { ...BUNDLE, categories: [{ ...BUNDLE.categories[0], type: 'transfer' }] },
+    { ...BUNDLE, recurrenceRules: [{ ...rule, frequency: 'daily' }] },
+    { ...BUNDLE, recurrenceRules: [{ ...rule, type: 'transfer', destinationAccountId: 20 }] },
+  ];
+  for (const bundle of invalid) {
+    assert.equal(userExportBundleSchema.safeParse(bundle).success, false, JSON.stringify(bundle));
+  }
+});
+
+test('POST /api/me/import simula a importação para o usuário autenticado', async () => {
+  const response = await request('POST', '/api/me/import', { bundle: BUNDLE, mode: 'merge', dryRun: true });
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { mode: 'merge', dryRun: true, entities: {}, preferences: 'absent' });
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].userId, USER.id);
+  assert.equal(calls[0].dryRun, true);
+});
+
+test('modo desconhecido devolve 400 sem chamar o storage', async () => {
+  const response = await request('POST', '/api/me/import', { bundle: BUNDLE, mode: 'overwrite' });
+  assert.equal(response.status, 400);
+  assert.ok((await response.json()).errors.mode);
+  assert.equal(calls.length, 1);
+});
+
+test('referência quebrada no pacote devolve 400 com a mensagem', async () => {
+  const broken = { ...BUNDLE, transactions: [{ ...BUNDLE.transactions[0], categoryId: 404 }] };
+  const response = await request('POST', '/api/me/import', { bundle: broken, mode: 'replace', password: PASSWORD });
+  assert.equal(response.status, 400);
+  assert.match((await response.json()).message, /categories 404/);
+});
+
+test('substituir os dados exige a senha atual, exceto na simulação', async () => {
+  const before = calls.length;
+  const missing = await request('POST', '/api/me/import', { bundle: BUNDLE, mode: 'replace' });
+  assert.equal(missing.status, 400);
+  assert.ok((await missing.json()).errors.password);
+  const wrong = await request('POST', '/api/me/import', { bundle: BUNDLE, mode: 'replace', password: 'errada' });
+  assert.equal(wrong.status, 400);
+  assert.equal(calls.length, before);
+
+  assert.equal((await request('POST', '/api/me/import', { bundle: BUNDLE, mode: 'replace', dryRun: true })).status, 200);
+  assert.equal((await request('POST', '/api/me/import', { bundle: BUNDLE, mode: 'replace', password: PASSWORD })).status, 200);
+  assert.deepEqual(calls.slice(before).map(({ mode, dryRun }) => ({ mode, dryRun })), [
+    { mode: 'replace', dryRun: true },
+    { mode: 'replace', dryRun: false },
+  ]);
+});
@@ -0,0 +1,137 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { businessDaysBetween, isBusinessDay, valueInvestment } from '../valuation.js';
+import { emptyIndexSeries, formatIndexSeries, IndexSeriesError, parseIndexSeries } from '../indices.js';
+import { signIn, startTestServer, type TestServer } from './helpers.js';
+
+// Marcação na curva da renda fixa; o painel usa o storage em memória (ver helpers.ts)
+process.env.INDEX_SERIES_PATH = '/nonexistent/indices.csv';
+
+const cdb = (changes: object = {}) => ({
+  type: 'cdb',
+  amount: '1000.00',
+  costBasis: null,
+  interestRate: '12.00',
+  indexer: 'prefixado',
+  dayCountBasis: 'business_252',
+  startDate: new Date('2025-01-02T00:00:00Z'),
+  maturityDate: null,
+  ...changes,
+});
+
+const asOf = (day: string) => new Date(`${day}T12:00:00Z`);
+
+test('dias úteis descontam fins de semana e feriados nacionais, inclusive os móveis', () => {
+  assert.equal(isBusinessDay('2026-02-16'), false); // Carnaval
+  assert.equal(isBusinessDay('2026-02-18'), true); // Quarta-feira de Cinzas
+  assert.equal(isBusinessDay('2026-04-03'), false); // Sexta-feira Santa
+  assert.equal(isBusinessDay('2026-06-04'), false); // Corpus Christi
+  assert.equal(isBusinessDay('2026-11-20'), false);
+  assert.equal(isBusinessDay('2023-11-20'), true);
+  assert.equal(businessDaysBetween('2026-01-05', '2026-01-12'), 5);
+});
+
+test('prefixado rende por dia útil na base 252 e por dia corrido na base 365', () => {
+  const businessDays = businessDaysBetween('2025-01-02', '2026-01-02');
+  const business = valueInvestment(cdb(), [], emptyIndexSeries(), asOf('2026-01-02'));
+  assert.equal(business.method, 'accrual');
+  assert.equal(business.value, Math.round(1000 * Math.pow(1.12, businessDays / 252) * 100) / 100);
+  assert.equal(business.costBasis, 1000);
+
+  const calendar = valueInvestment(cdb({ dayCountBasis: 'calendar_365', startDate: new Date('2025-01-01T00:00:00Z') }), [], emptyIndexSeries(), asOf('2026-01-01'));
+  assert.equal(calendar.value, 1120);
+  assert.equal(calendar.earnings, 120);
+
+  // Depois do vencimento o valor para de render
+  const matured = valueInvestment(cdb({ dayCountBasis: 'calendar_365', startDate: new Date('2025-01-01T00:00:00Z'), maturityDate: new Date('2026-01-01T00:00:00Z') }), [], emptyIndexSeries(), asOf('2026-06-01'));
+  assert.equal(matured.value, 1120);
+});
+
+test('% do CDI usa a taxa de cada dia útil e repete a última quando a série acaba', () => {
+  const series = emptyIndexSeries();
+  for (let day = '2025-01-02'; day < '2025-07-01'; day = new Date(Date.parse(`${day}T00:00:00Z`) + 86400000).toISOString().slice(0, 10)) {
+    if (isBusinessDay(day)) series.cdi.set(day, 10);
+  }
+  const investment = cdb({ indexer: 'cdi', interestRate: '100.00' });
+  const complete = valueInvestment(investment, [], series, asOf('2025-07-01'));
+  assert.equal(complete.value, Math.round(1000 * Math.pow(1.1, businessDaysBetween('2025-01-02', '2025-07-01') / 252) * 100) / 100);
+  assert.equal(complete.estimated, false);
+
+  const later = valueInvestment(investment, [], series, asOf('2025-08-01'));
+  assert.equal(later.estimated, true);
+  assert.ok(later.value > complete.value);
+
+  // Sem a série carregada o investimento vale a posição registrada, e a marcação diz qual série falta
+  const fallback = valueInvestment(investment, [], emptyIndexSeries(), asOf('2025-07-01'));
+  assert.equal(fallback.method, 'position');
+  assert.equal(fallback.missingSeries, 'cdi');
+  assert.equal(complete.missingSeries, null);
+});
+
+test('IPCA+ compõe a inflação do mês com a taxa real e desconta resgates', () => {
+  const series = parseIndexSeries('date;series;value\n01/01/2025;ipca;1,00\n01/02/2025;ipca;1,00\n');
+  const movements = [
+    { id: 1, investmentId: 7, userId: 1, type: 'application', amount: '1000.00', date: new Date('2025-01-01T00:00:00Z'), note: null, createdBy: null, createdAt: new Date() },
+    // Juros lançados no extrato liberam o resgate, mas não entram na curva
+    { id: 3, investmentId: 7, userId: 1, type: 'interest', amount: '20.10', date: new Date('2025-02-28T00:00:00Z'), note: null, createdBy: null, createdAt: new Date() },
+    { id: 2, investmentId: 7, userId: 1, type: 'redemption', amount: '510.05', date: new Date('2025-03-01T00:00:00Z'), note: null, createdBy: null, createdAt: new Date() },
+  ];
+  const valuation = valueInvestment(cdb({ indexer: 'ipca', interestRate: '0' }), movements, series, asOf('2025-03-01'));
+  // 1000 * 1,01 * 1,01 = 1020,10, metade resgatada em 01/03
+  assert.equal(valuation.value, 510.05);
+  assert.equal(valuation.costBasis, 500);
+
+  assert.equal(valueInvestment({ ...cdb(), type: 'funds' }, movements, series, asOf('2025-03-01')).method, 'position');
+});
+
+test('CSV de índices recusa linhas inválidas e é regravado no mesmo formato', () => {
+  const series = parseIndexSeries('date,series,value\n2025-01-02,cdi,12.15\n');
+  assert.equal(series.cdi.get('2025-01-02'), 12.15);
+  series.ipca.set('2025-01', 0.16);
+  assert.equal(formatIndexSeries(series), 'date,series,value\n2025-01-02,cdi,12.15\n2025-01-01,ipca,0.16\n');
+  assert.deepEqual(parseIndexSeries(formatIndexSeries(series)), series);
+  assert.throws(() => parseIndexSeries('date,series,value\n2025-01-02,selic,12.15\n'), IndexSeriesError);
+  assert.throws(() => parseIndexSeries('data,valor\n'), IndexSeriesError);
+});
+
+const USER = { id: 1, username: 'maria', email: 'maria@example.com', name: 'Maria', sessionVersion: 0 };
+const startDate = new Date(Date.now() - 400 * 86400000);
+const INVESTMENTS = [
+  { id: 7, userId: USER.id, name: 'CDB Banco X', ...cdb({ startDate }) },
+  { id: 8, userId: USER.id, name: 'Fundo Y', ...cdb({ type: 'funds', amount: '500.00' }) },
+];
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+  const { storage } = await import('../storage.js');
+
+  [token] = await signIn(USER);
+
+  mock.method(storage, 'getInvestments', async () => INVESTMENTS);
+  mock.method(storage, 'getInvestmentMovementsForList', async () => []);
+  mock.method(storage, 'getTransactionsByDateRange', async () => []);
+  mock.method(storage, 'getTransactions', async () => []);
+  mock.method(storage, 'getGoals', async () => []);
+
+  server = await startTestServer();
+});
+
+after(() => server.close());
+
+function request(method: string, path: string) {
+  return server.request(method, path, { token });
+}
+
+test('carteira e painel usam o valor na curva da renda fixa', async () => {
+  const expected = valueInvestment(INVESTMENTS[0], [], emptyIndexSeries()).value;
+  assert.ok(expected > 1000);
+
+  const list = await (await request('GET', '/api/investments')).json();
+  assert.deepEqual(list.map((investment: any) => investment.valuation.method), ['accrual', 'position']);
+  assert.equal(list[0].valuation.value, expected);
+
+  const summary = await (await request('GET', '/api/dashboard/summary')).json();
+  assert.equal(summary.totalInvestments, Math.round((expected + 500) * 100) / 100);
+});
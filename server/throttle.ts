@@ -0,0 +1,55 @@
+// Política de limitação das tentativas de login. As falhas vêm da tabela auth_events, então o limite vale
+// entre reinícios do servidor e entre instâncias.
+
+export interface FailureStats {
+  count: number;
+  lastFailureAt: Date | null;
+}
+
+export interface ThrottlePolicy {
+  // Falhas toleradas sem espera
+  freeAttempts: number;
+  // A partir deste número de falhas a chave fica bloqueada por lockoutMinutes
+  lockoutThreshold: number;
+  lockoutMinutes: number;
+  // Teto da espera progressiva entre tentativas (antes do bloqueio)
+  maxDelaySeconds: number;
+}
+
+// Janela em que as falhas são contadas
+export const THROTTLE_WINDOW_MINUTES = 15;
+
+// Por conta (e-mail informado, exista ou não): poucas tentativas, pois o alvo é uma senha específica
+export const ACCOUNT_THROTTLE: ThrottlePolicy = {
+  freeAttempts: 3,
+  lockoutThreshold: 10,
+  lockoutMinutes: 15,
+  maxDelaySeconds: 60,
+};
+
+// Por IP: mais folgado, já que vários usuários podem compartilhar o mesmo endereço
+export const IP_THROTTLE: ThrottlePolicy = {
+  freeAttempts: 10,
+  lockoutThreshold: 50,
+  lockoutMinutes: 15,
+  maxDelaySeconds: 60,
+};
+
+// Cadastros por IP em uma hora
+export const REGISTER_LIMIT_PER_HOUR = 10;
+
+// Segundos até a próxima tentativa permitida (0 = liberado). A espera dobra a cada falha além das
+// gratuitas (1 s, 2 s, 4 s...) até o teto; ao atingir o limite, a chave fica bloqueada por completo.
+export function getRetryAfterSeconds(stats: FailureStats, policy: ThrottlePolicy, now: Date = new Date()): number {
+  if (!stats.lastFailureAt || stats.count < policy.freeAttempts) return 0;
+
+  const waitSeconds = stats.count >= policy.lockoutThreshold
+    ? policy.lockoutMinutes * 60
+    : Math.min(2 ** (stats.count - policy.freeAttempts), policy.maxDelaySeconds);
+  const elapsedSeconds = (now.getTime() - stats.lastFailureAt.getTime()) / 1000;
+  return Math.max(0, Math.ceil(waitSeconds - elapsedSeconds));
+}
+
+export function isLockedOut(stats: FailureStats, policy: ThrottlePolicy, now: Date = new Date()): boolean {
+  return stats.count >= policy.lockoutThreshold && getRetryAfterSeconds(stats, policy, now) > 0;
+}
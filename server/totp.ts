@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+
+// TOTP (RFC 6238) com os parâmetros que todos os apps autenticadores aceitam: SHA-1, 6 dígitos, 30 segundos
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+// Passos aceitos antes e depois do atual, para tolerar relógios levemente fora de sincronia
+const TOTP_WINDOW = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Caractere base32 inválido: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Segredo de 160 bits, tamanho recomendado pela RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function getTotpStep(timeMs: number = Date.now()): number {
+  return Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+// HOTP (RFC 4226) para o contador informado
+export function generateHotp(secret: string, counter: number): string {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(buffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+}
+
+export function generateTotp(secret: string, timeMs: number = Date.now()): string {
+  return generateHotp(secret, getTotpStep(timeMs));
+}
+
+// Devolve o passo de tempo em que o código é válido (para impedir reuso), ou null se não confere
+export function verifyTotp(secret: string, code: string, timeMs: number = Date.now()): number | null {
+  const normalized = code.replace(/\s+/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+  const currentStep = getTotpStep(timeMs);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset;
+    const expected = generateHotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// URI lida pelos apps autenticadores (e codificada no QR code)
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Códigos no formato xxxxx-xxxxx, sem caracteres ambíguos do base32 (0/1 não existem nele)
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+// Aceita o código com ou sem hífen, espaços e em qualquer caixa
+export function normalizeRecoveryCode(code: string): string {
+  const raw = code.toLowerCase().replace(/[^a-z2-7]/g, '');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
@@ -0,0 +1,205 @@
+import { ACCRUAL_INVESTMENT_TYPES, type DayCountBasis, type Investment, type InvestmentIndexer, type InvestmentMovement } from '../shared/schema.js';
+import { buildInvestmentStatement, summarizeLegacyInvestment } from './investments.js';
+import type { IndexSeries } from './indices.js';
+
+// Marcação na curva da renda fixa (CDB, LCI/LCA, Tesouro): o saldo rende juros diários desde cada
+// aplicação até hoje (ou até o vencimento). Na base business_252 só os dias úteis rendem, com a taxa
+// anual convertida por 252; na calendar_365 todos os dias rendem, com a taxa convertida por 365.
+//   prefixado: (1 + taxa)^(1/N) por dia
+//   cdi:       1 + (taxa/100) * ((1 + CDI do dia)^(1/N) - 1), o CDI do dia vindo da série
+//   ipca:      (1 + IPCA do mês)^(1/dias do mês) * (1 + taxa)^(1/N)
+// Resgates, taxas e rendimentos pagos saem do saldo na data; juros lançados no extrato são ignorados,
+// pois a curva já os inclui. Valores brutos, antes de IR e IOF.
+
+export interface InvestmentValuation {
+  // accrual: valor na curva; position: posição registrada (fundos, ou índice sem série carregada)
+  method: 'accrual' | 'position';
+  asOf: string; // YYYY-MM-DD
+  value: number;
+  costBasis: number;
+  // value - costBasis
+  earnings: number;
+  // Algum dia usou o último CDI/IPCA conhecido no lugar de um valor que falta na série
+  estimated: boolean;
+  // Índice do investimento sem série carregada: o valor voltou a ser a posição registrada
+  missingSeries: 'cdi' | 'ipca' | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const dayKey = (value: Date | string) => new Date(value).toISOString().slice(0, 10);
+
+const addDays = (key: string, days: number) => dayKey(new Date(Date.parse(`${key}T00:00:00Z`) + days * DAY_MS));
+
+// Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+function easter(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+// Feriados nacionais, que formam o calendário de dias úteis do mercado (ANBIMA)
+function nationalHolidays(year: number): Set<string> {
+  let holidays = holidayCache.get(year);
+  if (!holidays) {
+    const fixed = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25'];
+    // Consciência Negra é feriado nacional desde 2024
+    if (year >= 2024) fixed.push('11-20');
+    const sunday = easter(year);
+    holidays = new Set([
+      ...fixed.map((day) => `${year}-${day}`),
+      addDays(sunday, -48), // Carnaval (segunda)
+      addDays(sunday, -47), // Carnaval (terça)
+      addDays(sunday, -2), // Sexta-feira Santa
+      addDays(sunday, 60), // Corpus Christi
+    ]);
+    holidayCache.set(year, holidays);
+  }
+  return holidays;
+}
+
+export function isBusinessDay(key: string): boolean {
+  const weekday = new Date(`${key}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !nationalHolidays(Number(key.slice(0, 4))).has(key);
+}
+
+// Dias úteis de from (inclusive) a to (exclusive), a contagem usada nos títulos base 252
+export function businessDaysBetween(from: Date | string, to: Date | string): number {
+  let count = 0;
+  for (let day = dayKey(from), end = dayKey(to); day < end; day = addDays(day, 1)) {
+    if (isBusinessDay(day)) count++;
+  }
+  return count;
+}
+
+// Consulta a série em datas crescentes: sem valor na data, vale o último anterior (ou o primeiro da série)
+function seriesCursor(values: Map<string, number>) {
+  const keys = [...values.keys()].sort();
+  let index = 0;
+  return (key: string): { value: number; estimated: boolean } => {
+    while (index + 1 < keys.length && keys[index + 1] <= key) index++;
+    const exact = values.get(key);
+    return exact !== undefined ? { value: exact, estimated: false } : { value: values.get(keys[index])!, estimated: true };
+  };
+}
+
+// Efeito de cada movimentação no saldo marcado na curva
+function flowOf(movement: Pick<InvestmentMovement, 'type' | 'amount'>): number {
+  const amount = parseFloat(movement.amount);
+  switch (movement.type) {
+    case 'application':
+      return amount;
+    case 'redemption':
+    case 'fee':
+    case 'income':
+      return -amount;
+    default:
+      return 0;
+  }
+}
+
+export function valueInvestment(
+  investment: Pick<Investment, 'type' | 'amount' | 'costBasis' | 'interestRate' | 'indexer' | 'dayCountBasis' | 'startDate' | 'maturityDate'>,
+  movements: InvestmentMovement[],
+  series: IndexSeries,
+  asOf: Date = new Date(),
+): InvestmentValuation {
+  const today = dayKey(asOf);
+  const summary = movements.length > 0 ? buildInvestmentStatement(movements).summary : summarizeLegacyInvestment(investment);
+  const atPosition: InvestmentValuation = {
+    method: 'position',
+    asOf: today,
+    value: summary.position,
+    costBasis: summary.costBasis,
+    earnings: round(summary.position - summary.costBasis),
+    estimated: false,
+    missingSeries: null,
+  };
+
+  const indexer = investment.indexer as InvestmentIndexer;
+  if (!(ACCRUAL_INVESTMENT_TYPES as readonly string[]).includes(investment.type)) return atPosition;
+  if ((indexer === 'cdi' && series.cdi.size === 0) || (indexer === 'ipca' && series.ipca.size === 0)) {
+    return { ...atPosition, missingSeries: indexer };
+  }
+
+  // Investimento anterior ao extrato: a posição registrada conta como aplicada na data de início
+  const flows = new Map<string, number>();
+  const sources = movements.length > 0
+    ? movements
+    : [{ type: 'application', amount: investment.amount, date: investment.startDate }];
+  for (const movement of sources) {
+    const key = dayKey(movement.date);
+    flows.set(key, (flows.get(key) ?? 0) + flowOf(movement));
+  }
+  const firstDay = [...flows.keys()].sort()[0];
+  if (!firstDay || firstDay > today) return atPosition;
+
+  const basis = investment.dayCountBasis as DayCountBasis;
+  const periods = basis === 'calendar_365' ? 365 : 252;
+  const rate = parseFloat(investment.interestRate) / 100;
+  const accrualEnd = investment.maturityDate && dayKey(investment.maturityDate) < today ? dayKey(investment.maturityDate) : today;
+  const cdiAt = seriesCursor(series.cdi);
+  const ipcaAt = seriesCursor(series.ipca);
+  const daysInMonth = new Map<string, number>();
+  const periodsInMonth = (month: string) => {
+    let count = daysInMonth.get(month);
+    if (count === undefined) {
+      const start = `${month}-01`;
+      const next = dayKey(new Date(Date.UTC(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 1)));
+      count = basis === 'calendar_365' ? Math.round((Date.parse(next) - Date.parse(start)) / DAY_MS) : businessDaysBetween(start, next);
+      daysInMonth.set(month, count);
+    }
+    return count;
+  };
+
+  let balance = 0;
+  let estimated = false;
+  for (let day = firstDay; day <= today; day = addDays(day, 1)) {
+    balance += flows.get(day) ?? 0;
+    // Os juros do dia rendem de day para o dia seguinte
+    if (day >= accrualEnd || balance <= 0) continue;
+    if (basis === 'business_252' && !isBusinessDay(day)) continue;
+
+    let factor: number;
+    if (indexer === 'cdi') {
+      const cdi = cdiAt(day);
+      estimated ||= cdi.estimated;
+      factor = 1 + rate * (Math.pow(1 + cdi.value / 100, 1 / periods) - 1);
+    } else if (indexer === 'ipca') {
+      const month = day.slice(0, 7);
+      const ipca = ipcaAt(month);
+      estimated ||= ipca.estimated;
+      factor = Math.pow(1 + ipca.value / 100, 1 / periodsInMonth(month)) * Math.pow(1 + rate, 1 / periods);
+    } else {
+      factor = Math.pow(1 + rate, 1 / periods);
+    }
+    balance *= factor;
+  }
+
+  const value = round(Math.max(0, balance));
+  return {
+    method: 'accrual',
+    asOf: today,
+    value,
+    costBasis: summary.costBasis,
+    earnings: round(value - summary.costBasis),
+    estimated,
+    missingSeries: null,
+  };
+}
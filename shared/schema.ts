@@ -1,17 +1,193 @@
-import { mysqlTable, text, varchar, int, boolean, timestamp, decimal, date, datetime } from "drizzle-orm/mysql-core";
+import { mysqlTable, text, varchar, int, boolean, timestamp, decimal, date, datetime, index, uniqueIndex } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = mysqlTable("users", {
   id: int("id").primaryKey().autoincrement(),
   username: varchar("username", { length: 191 }).notNull().unique(),
-  password: text("password").notNull(),
+  // Nula para contas criadas por login externo (OAuth) até o usuário definir uma senha
+  password: text("password"),
   name: text("name").notNull(),
   email: varchar("email", { length: 191 }).notNull().unique(),
+  // Incrementado ao redefinir a senha; tokens emitidos com versão anterior deixam de valer
+  sessionVersion: int("session_version").default(0).notNull(),
+  // Segredo TOTP em base32. Com totpEnabled falso e segredo preenchido, a ativação está pendente de confirmação
+  totpSecret: varchar("totp_secret", { length: 64 }),
+  totpEnabled: boolean("totp_enabled").default(false).notNull(),
+  // Último passo de tempo aceito; um código TOTP não pode ser usado duas vezes
+  totpLastUsedStep: int("totp_last_used_step"),
+  // Exclusão da conta pedida pelo usuário: os dados são apagados nesta data, a menos que o pedido seja cancelado
+  deletionScheduledAt: timestamp("deletion_scheduled_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
 });
 
+// Tokens de redefinição de senha: só o hash SHA-256 é gravado; cada token vale uma única vez até expiresAt
+export const passwordResetTokens = mysqlTable("password_reset_tokens", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "password_reset_tokens_user_id_fk",
+  }),
+}));
+
+// Códigos de recuperação da autenticação em dois fatores: só o hash é gravado e cada um vale uma vez
+export const recoveryCodes = mysqlTable("recovery_codes", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "recovery_codes_user_id_fk",
+  }),
+}));
+
+// Contas externas (OpenID Connect) vinculadas ao usuário. O vínculo é pelo subject do provedor, não pelo e-mail,
+// e só é criado no primeiro login (conta nova) ou explicitamente pelo usuário autenticado.
+export const userIdentities = mysqlTable("user_identities", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  // Identificador do provedor configurado (ex.: "google")
+  provider: varchar("provider", { length: 40 }).notNull(),
+  // Claim "sub" do ID token: estável e único dentro do provedor
+  subject: varchar("subject", { length: 191 }).notNull(),
+  // E-mail informado pelo provedor no momento do vínculo (apenas exibição)
+  email: varchar("email", { length: 191 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "user_identities_user_id_fk",
+  }),
+  providerSubjectIndex: uniqueIndex("user_identities_provider_subject_idx").on(table.provider, table.subject),
+}));
+
+// Auditoria de autenticação: logins (com e sem sucesso), troca de senha, vínculo OAuth, 2FA e sessões.
+// As falhas de login também alimentam a limitação de tentativas por e-mail e por IP.
+export const authEvents = mysqlTable("auth_events", {
+  id: int("id").primaryKey().autoincrement(),
+  // Nulo quando o e-mail da tentativa não pertence a nenhum usuário
+  userId: int("user_id"),
+  // Ver AUTH_EVENT_TYPES
+  type: varchar("type", { length: 40 }).notNull(),
+  // E-mail informado na tentativa (normalizado), usado na limitação por conta
+  email: varchar("email", { length: 191 }),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  userAgent: varchar("user_agent", { length: 255 }),
+  // Complemento opcional, ex.: provedor OAuth ou "recovery_code"
+  detail: varchar("detail", { length: 100 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "auth_events_user_id_fk",
+  }),
+  userCreatedIndex: index("auth_events_user_created_idx").on(table.userId, table.createdAt),
+  emailCreatedIndex: index("auth_events_email_created_idx").on(table.email, table.createdAt),
+  ipCreatedIndex: index("auth_events_ip_created_idx").on(table.ipAddress, table.createdAt),
+}));
+
+// Sessões de login. Cada uma guarda apenas o hash do refresh token vigente, trocado a cada renovação;
+// o hash anterior permite detectar a reutilização de um token já rotacionado (cookie roubado)
+export const sessions = mysqlTable("sessions", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull().unique(),
+  previousTokenHash: varchar("previous_token_hash", { length: 64 }).unique(),
+  userAgent: varchar("user_agent", { length: 255 }),
+  ipAddress: varchar("ip_address", { length: 45 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "sessions_user_id_fk",
+  }),
+}));
+
+// Tokens de acesso pessoal para scripts (Authorization: Bearer fin_pat_...). Só o hash fica no banco.
+export const apiTokens = mysqlTable("api_tokens", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  // Início do token em claro, exibido para o usuário reconhecer qual token é qual
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(),
+  // Escopos separados por vírgula (ver API_TOKEN_SCOPES)
+  scopes: varchar("scopes", { length: 255 }).notNull(),
+  // Nulo quando o token não expira
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "api_tokens_user_id_fk",
+  }),
+}));
+
+// Casas compartilhadas. Cada usuário é dono da própria casa (os dados financeiros gravados com o seu userId);
+// os membros convidados acessam esses dados com o papel definido pelo dono.
+export const householdMembers = mysqlTable("household_members", {
+  id: int("id").primaryKey().autoincrement(),
+  // Dono da casa: os registros financeiros compartilhados são os que têm userId = ownerId
+  ownerId: int("owner_id").notNull(),
+  userId: int("user_id").notNull(),
+  // Ver HOUSEHOLD_MEMBER_ROLES; o dono não aparece nesta tabela
+  role: varchar("role", { length: 20 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ownerReference: foreignKey({
+    columns: [table.ownerId],
+    foreignColumns: [users.id],
+    name: "household_members_owner_id_fk",
+  }),
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "household_members_user_id_fk",
+  }),
+  ownerUserIndex: uniqueIndex("household_members_owner_user_idx").on(table.ownerId, table.userId),
+  userIndex: index("household_members_user_idx").on(table.userId),
+}));
+
+// Convites para a casa, enviados por e-mail. Só o hash do token é gravado; o convite vale uma vez,
+// até expiresAt, e só para o usuário com o e-mail convidado.
+export const householdInvitations = mysqlTable("household_invitations", {
+  id: int("id").primaryKey().autoincrement(),
+  ownerId: int("owner_id").notNull(),
+  email: varchar("email", { length: 191 }).notNull(),
+  role: varchar("role", { length: 20 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ownerReference: foreignKey({
+    columns: [table.ownerId],
+    foreignColumns: [users.id],
+    name: "household_invitations_owner_id_fk",
+  }),
+}));
+
 export const accounts = mysqlTable("accounts", {
   id: int("id").primaryKey().autoincrement(),
   userId: int("user_id").notNull(),
@@ -34,6 +210,112 @@ export const accounts = mysqlTable("accounts", {
   }),
 }));
 
+// Faturas de cartão de crédito: cada ciclo vai do dia seguinte ao fechamento anterior até o dia de fechamento
+export const cardStatements = mysqlTable("card_statements", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  accountId: int("account_id").notNull(),
+  periodStart: date("period_start").notNull(),
+  closingDate: date("closing_date").notNull(),
+  dueDate: date("due_date").notNull(),
+  status: text("status").default("open").notNull(), // 'open', 'closed' or 'paid'
+  // Transferência que quitou a fatura
+  paymentTransactionId: int("payment_transaction_id"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "card_statements_user_id_fk",
+  }),
+  accountReference: foreignKey({
+    columns: [table.accountId],
+    foreignColumns: [accounts.id],
+    name: "card_statements_account_id_fk",
+  }),
+}));
+
+// Compra parcelada: cada parcela é uma transação filha (transactions.installment_group_id)
+export const installmentGroups = mysqlTable("installment_groups", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  accountId: int("account_id").notNull(),
+  description: text("description").notNull(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  installmentCount: int("installment_count").notNull(),
+  firstDate: date("first_date").notNull(),
+  status: text("status").default("active").notNull(), // 'active' or 'cancelled'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "installment_groups_user_id_fk",
+  }),
+  accountReference: foreignKey({
+    columns: [table.accountId],
+    foreignColumns: [accounts.id],
+    name: "installment_groups_account_id_fk",
+  }),
+}));
+
+// Lote de importação de extrato (OFX/CSV); desfazer o lote remove todas as transações criadas por ele
+export const importBatches = mysqlTable("import_batches", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  accountId: int("account_id").notNull(),
+  format: text("format").notNull(), // 'ofx' or 'csv'
+  fileName: text("file_name"),
+  transactionCount: int("transaction_count").default(0).notNull(),
+  status: text("status").default("committed").notNull(), // 'committed' or 'undone'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "import_batches_user_id_fk",
+  }),
+  accountReference: foreignKey({
+    columns: [table.accountId],
+    foreignColumns: [accounts.id],
+    name: "import_batches_account_id_fk",
+  }),
+}));
+
+// Regras de recorrência: o agendador materializa as próximas ocorrências como transações pendentes
+export const recurrenceRules = mysqlTable("recurrence_rules", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  frequency: text("frequency").notNull(), // 'weekly', 'monthly' or 'yearly'
+  interval: int("interval").default(1).notNull(), // a cada N semanas/meses/anos
+  dayOfMonth: int("day_of_month"), // somente para 'monthly'; padrão é o dia da data inicial
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  occurrenceCount: int("occurrence_count"), // limite de ocorrências (opcional)
+  generatedCount: int("generated_count").default(0).notNull(),
+  status: text("status").default("active").notNull(), // 'active' or 'ended'
+  // Modelo usado para criar as ocorrências
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  type: text("type").notNull(),
+  categoryId: int("category_id"),
+  accountId: int("account_id"),
+  destinationAccountId: int("destination_account_id"),
+  expenseType: text("expense_type"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "recurrence_rules_user_id_fk",
+  }),
+}));
+
 export const categories = mysqlTable("categories", {
   id: int("id").primaryKey().autoincrement(),
   name: text("name").notNull(),
@@ -56,13 +338,32 @@ export const transactions = mysqlTable("transactions", {
   description: text("description").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   date: date("date").notNull(),
-  type: text("type").notNull(), // 'expense' or 'income'
-  categoryId: int("category_id").notNull(),
+  type: text("type").notNull(), // 'expense', 'income' or 'transfer'
+  categoryId: int("category_id"), // obrigatório para receitas/despesas; transferências não têm categoria
   status: text("status").notNull(), // 'pending', 'paid', 'received', 'overdue'
   isRecurring: boolean("is_recurring").default(false).notNull(),
   expenseType: text("expense_type"), // 'fixed' or 'variable' (only for expenses)
   dueDate: date("due_date"),
+  // Conta bancária/cartão movimentada pela transação (origem, no caso de transferências)
+  accountId: int("account_id"),
+  // Conta de destino (somente para transferências)
+  destinationAccountId: int("destination_account_id"),
+  // Fatura do cartão à qual a compra pertence (definida pelo servidor a partir do dia de fechamento)
+  statementId: int("statement_id"),
+  // Parcelamento: grupo da compra, número desta parcela e total de parcelas (ex.: 3/12)
+  installmentGroupId: int("installment_group_id"),
+  installmentNumber: int("installment_number"),
+  installmentCount: int("installment_count"),
+  // Regra de recorrência que gerou a transação e o índice da ocorrência (0 = primeira)
+  recurrenceRuleId: int("recurrence_rule_id"),
+  recurrenceIndex: int("recurrence_index"),
+  // Lote de importação de origem e identificador da transação no banco (FITID do OFX)
+  importBatchId: int("import_batch_id"),
+  externalId: varchar("external_id", { length: 255 }),
   userId: int("user_id").notNull(),
+  // Quem lançou a transação (o dono ou um membro da casa). Nulo nas geradas pelo sistema e nas anteriores
+  // às casas compartilhadas, atribuídas ao dono
+  createdBy: int("created_by"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
 }, (table) => ({
@@ -71,6 +372,36 @@ export const transactions = mysqlTable("transactions", {
     foreignColumns: [categories.id],
     name: 'transactions_category_id_fk',
   }),
+  accountReference: foreignKey({
+    columns: [table.accountId],
+    foreignColumns: [accounts.id],
+    name: 'transactions_account_id_fk',
+  }),
+  destinationAccountReference: foreignKey({
+    columns: [table.destinationAccountId],
+    foreignColumns: [accounts.id],
+    name: 'transactions_destination_account_id_fk',
+  }),
+  statementReference: foreignKey({
+    columns: [table.statementId],
+    foreignColumns: [cardStatements.id],
+    name: 'transactions_statement_id_fk',
+  }),
+  recurrenceRuleReference: foreignKey({
+    columns: [table.recurrenceRuleId],
+    foreignColumns: [recurrenceRules.id],
+    name: 'transactions_recurrence_rule_id_fk',
+  }),
+  installmentGroupReference: foreignKey({
+    columns: [table.installmentGroupId],
+    foreignColumns: [installmentGroups.id],
+    name: 'transactions_installment_group_id_fk',
+  }),
+  importBatchReference: foreignKey({
+    columns: [table.importBatchId],
+    foreignColumns: [importBatches.id],
+    name: 'transactions_import_batch_id_fk',
+  }),
   userReference: foreignKey({
     columns: [table.userId],
     foreignColumns: [users.id],
@@ -78,6 +409,80 @@ export const transactions = mysqlTable("transactions", {
   })
 }));
 
+// Comprovantes e boletos anexados a uma transação. O conteúdo fica no armazenamento de arquivos
+// (ver server/files.ts) sob storageKey; userId é o dono da transação.
+export const transactionAttachments = mysqlTable("transaction_attachments", {
+  id: int("id").primaryKey().autoincrement(),
+  transactionId: int("transaction_id").notNull(),
+  userId: int("user_id").notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: int("size").notNull(),
+  storageKey: varchar("storage_key", { length: 191 }).notNull().unique(),
+  createdBy: int("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  transactionReference: foreignKey({
+    columns: [table.transactionId],
+    foreignColumns: [transactions.id],
+    name: "transaction_attachments_transaction_id_fk",
+  }),
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "transaction_attachments_user_id_fk",
+  }),
+  transactionIndex: index("transaction_attachments_transaction_idx").on(table.transactionId),
+}));
+
+// Regra de categorização automática: todas as condições preenchidas precisam casar.
+// Vale apenas para transações do mesmo tipo (receita/despesa) da categoria de destino.
+export const categorizationRules = mysqlTable("categorization_rules", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  categoryId: int("category_id").notNull(),
+  descriptionContains: varchar("description_contains", { length: 255 }),
+  amountEquals: decimal("amount_equals", { precision: 10, scale: 2 }),
+  // Regras com prioridade maior são avaliadas primeiro
+  priority: int("priority").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: 'categorization_rules_user_id_fk',
+  }),
+  categoryReference: foreignKey({
+    columns: [table.categoryId],
+    foreignColumns: [categories.id],
+    name: 'categorization_rules_category_id_fk',
+  }),
+}));
+
+// Orçamento mensal por categoria de despesa
+export const budgets = mysqlTable("budgets", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("user_id").notNull(),
+  categoryId: int("category_id").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  // Quando ativo, o valor não gasto no mês soma ao orçamento do mês seguinte
+  rollover: boolean("rollover").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
+}, (table) => ({
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: 'budgets_user_id_fk',
+  }),
+  categoryReference: foreignKey({
+    columns: [table.categoryId],
+    foreignColumns: [categories.id],
+    name: 'budgets_category_id_fk',
+  }),
+}));
+
 export const goals = mysqlTable("goals", {
   id: int("id").primaryKey().autoincrement(),
   name: text("name").notNull(),
@@ -88,6 +493,11 @@ export const goals = mysqlTable("goals", {
   annualInterestRate: decimal("annual_interest_rate", { precision: 5, scale: 2 }).default('0').notNull(), // e.g., 5.00 for 5%
   description: text("description"),
   userId: int("user_id").notNull(),
+  // "achieved" quando o saldo chega ao valor alvo (e volta a "active" se uma retirada o deixar abaixo)
+  status: varchar("status", { length: 20 }).default("active").notNull(), // ver GOAL_STATUSES
+  achievedAt: timestamp("achieved_at"),
+  // Metas arquivadas saem da lista e do painel, mas mantêm histórico e marcos
+  archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").onUpdateNow().notNull(),
 }, (table) => ({
@@ -98,6 +508,63 @@ export const goals = mysqlTable("goals", {
   })
 }));
 
+// Depósitos e retiradas de uma meta. goals.currentAmount é o saldo delas, recalculado pelo servidor a cada
+// movimentação. "opening" registra o valor que a meta já tinha ao ser criada (ou antes deste histórico existir).
+export const goalContributions = mysqlTable("goal_contributions", {
+  id: int("id").primaryKey().autoincrement(),
+  goalId: int("goal_id").notNull(),
+  userId: int("user_id").notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // ver GOAL_CONTRIBUTION_TYPES
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // sempre positivo; o tipo define o sinal
+  date: date("date").notNull(),
+  note: varchar("note", { length: 255 }),
+  // Transferência entre contas que movimentou o dinheiro (opcional)
+  transactionId: int("transaction_id"),
+  createdBy: int("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  goalReference: foreignKey({
+    columns: [table.goalId],
+    foreignColumns: [goals.id],
+    name: "goal_contributions_goal_id_fk",
+  }),
+  transactionReference: foreignKey({
+    columns: [table.transactionId],
+    foreignColumns: [transactions.id],
+    name: "goal_contributions_transaction_id_fk",
+  }),
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "goal_contributions_user_id_fk",
+  }),
+  goalIndex: index("goal_contributions_goal_idx").on(table.goalId, table.date),
+}));
+
+// Marcos de uma meta: percentual do valor alvo ou valor fixo. reachedAt é preenchido quando o saldo passa
+// do marco (gerando um alerta) e limpo se uma retirada o deixar abaixo de novo.
+export const goalMilestones = mysqlTable("goal_milestones", {
+  id: int("id").primaryKey().autoincrement(),
+  goalId: int("goal_id").notNull(),
+  userId: int("user_id").notNull(),
+  kind: varchar("kind", { length: 10 }).notNull(), // ver GOAL_MILESTONE_KINDS
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(),
+  reachedAt: timestamp("reached_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  goalReference: foreignKey({
+    columns: [table.goalId],
+    foreignColumns: [goals.id],
+    name: "goal_milestones_goal_id_fk",
+  }),
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "goal_milestones_user_id_fk",
+  }),
+  goalValueIndex: uniqueIndex("goal_milestones_goal_value_idx").on(table.goalId, table.kind, table.value),
+}));
+
 // Helper function for foreign key constraints
 function foreignKey(config: {
   columns: any[];
@@ -115,8 +582,14 @@ export const investments = mysqlTable("investments", {
   id: int("id").primaryKey().autoincrement(),
   name: text("name").notNull(),
   type: text("type").notNull(), // 'cdb', 'lci_lca', 'tesouro_direto', 'funds'
+  // Posição atual: saldo das movimentações, recalculado pelo servidor a cada lançamento (ver investmentMovements)
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  // Custo médio da posição; null em investimentos anteriores às movimentações, cujo custo é o próprio amount
+  costBasis: decimal("cost_basis", { precision: 10, scale: 2 }),
+  // prefixado: % a.a.; cdi: % do CDI; ipca: taxa real % a.a. acima do IPCA (ver INVESTMENT_INDEXERS)
   interestRate: decimal("interest_rate", { precision: 5, scale: 2 }).notNull(),
+  indexer: varchar("indexer", { length: 20 }).notNull().default("prefixado"),
+  dayCountBasis: varchar("day_count_basis", { length: 20 }).notNull().default("business_252"), // ver DAY_COUNT_BASES
   startDate: date("start_date").notNull(),
   maturityDate: date("maturity_date"),
   userId: int("user_id").notNull(),
@@ -130,10 +603,36 @@ export const investments = mysqlTable("investments", {
   })
 }));
 
+// Aplicações, resgates, juros, rendimentos pagos e taxas de um investimento. A posição e o custo
+// (investments.amount e investments.costBasis) são derivados delas; ver server/investments.ts.
+export const investmentMovements = mysqlTable("investment_movements", {
+  id: int("id").primaryKey().autoincrement(),
+  investmentId: int("investment_id").notNull(),
+  userId: int("user_id").notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // ver INVESTMENT_MOVEMENT_TYPES
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // sempre positivo; o tipo define o efeito
+  date: date("date").notNull(),
+  note: varchar("note", { length: 255 }),
+  createdBy: int("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  investmentReference: foreignKey({
+    columns: [table.investmentId],
+    foreignColumns: [investments.id],
+    name: "investment_movements_investment_id_fk",
+  }),
+  userReference: foreignKey({
+    columns: [table.userId],
+    foreignColumns: [users.id],
+    name: "investment_movements_user_id_fk",
+  }),
+  investmentIndex: index("investment_movements_investment_idx").on(table.investmentId, table.date),
+}));
+
 export const alerts = mysqlTable("alerts", {
   id: int("id").primaryKey().autoincrement(),
   userId: int("user_id").notNull(),
-  type: text("type").notNull(), // 'bill_due', 'goal_achieved', 'unusual_spending'
+  type: text("type").notNull(), // 'due_date', 'budget', 'goal_milestone', 'goal_achieved', 'goal_behind'
   message: text("message").notNull(),
   isRead: boolean("is_read").default(false).notNull(),
   referenceId: int("reference_id"),
@@ -167,29 +666,109 @@ export const userPreferences = mysqlTable("user_preferences", {
 
 // Schemas for form validation
 // Esquema de validação de usuário com senha forte
+const passwordSchema = z.string()
+  .min(8, { message: "A senha deve ter pelo menos 8 caracteres" })
+  .refine(
+    (password) => /[A-Z]/.test(password),
+    { message: "A senha deve conter pelo menos uma letra maiúscula" }
+  )
+  .refine(
+    (password) => /[a-z]/.test(password),
+    { message: "A senha deve conter pelo menos uma letra minúscula" }
+  )
+  .refine(
+    (password) => /[0-9]/.test(password),
+    { message: "A senha deve conter pelo menos um número" }
+  )
+  .refine(
+    (password) => /[^A-Za-z0-9]/.test(password),
+    { message: "A senha deve conter pelo menos um caractere especial" }
+  );
+
 export const insertUserSchema = createInsertSchema(users)
   .extend({
-    password: z.string()
-      .min(8, { message: "A senha deve ter pelo menos 8 caracteres" })
-      .refine(
-        (password) => /[A-Z]/.test(password),
-        { message: "A senha deve conter pelo menos uma letra maiúscula" }
-      )
-      .refine(
-        (password) => /[a-z]/.test(password),
-        { message: "A senha deve conter pelo menos uma letra minúscula" }
-      )
-      .refine(
-        (password) => /[0-9]/.test(password),
-        { message: "A senha deve conter pelo menos um número" }
-      )
-      .refine(
-        (password) => /[^A-Za-z0-9]/.test(password),
-        { message: "A senha deve conter pelo menos um caractere especial" }
-      )
+    password: passwordSchema,
   })
-  .omit({ id: true, createdAt: true, updatedAt: true });
-export const insertCategorySchema = createInsertSchema(categories).omit({ id: true, createdAt: true, updatedAt: true });
+  .omit({ id: true, sessionVersion: true, totpSecret: true, totpEnabled: true, totpLastUsedStep: true, deletionScheduledAt: true, createdAt: true, updatedAt: true });
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, { message: "Token é obrigatório" }),
+  password: passwordSchema,
+});
+
+// Definição de senha por quem entrou apenas com conta externa
+export const setPasswordSchema = z.object({
+  password: passwordSchema,
+});
+
+// Escopos de um token de API: "read" libera as consultas (GET); cada ":write" libera as alterações do recurso
+export const API_TOKEN_SCOPES = [
+  "read",
+  "transactions:write",
+  "accounts:write",
+  "categories:write",
+  "budgets:write",
+  "goals:write",
+  "investments:write",
+  "alerts:write",
+] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+export const API_TOKEN_MAX_EXPIRY_DAYS = 365;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, { message: "O nome é obrigatório" }).max(100, { message: "O nome deve ter no máximo 100 caracteres" }),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, { message: "Selecione pelo menos um escopo" }),
+  // Nulo: o token não expira
+  expiresInDays: z.number().int().min(1).max(API_TOKEN_MAX_EXPIRY_DAYS).nullable(),
+});
+
+// Papéis em uma casa: o dono gerencia os membros; editor lança e altera dados; viewer só consulta
+export const HOUSEHOLD_ROLES = ["owner", "editor", "viewer"] as const;
+export type HouseholdRole = typeof HOUSEHOLD_ROLES[number];
+// Papéis que o dono pode atribuir a um convidado
+export const HOUSEHOLD_MEMBER_ROLES = ["editor", "viewer"] as const;
+export const HOUSEHOLD_INVITATION_TTL_DAYS = 7;
+
+export const inviteHouseholdMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email({ message: "Email inválido" }),
+  role: z.enum(HOUSEHOLD_MEMBER_ROLES),
+});
+
+export const updateHouseholdMemberSchema = z.object({
+  role: z.enum(HOUSEHOLD_MEMBER_ROLES),
+});
+
+export const acceptHouseholdInvitationSchema = z.object({
+  token: z.string().min(1, { message: "Convite inválido" }),
+});
+
+// Confirmação de identidade para alterar a autenticação em dois fatores
+export const confirmPasswordSchema = z.object({
+  password: z.string().min(1, { message: "A senha não pode estar em branco" }),
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, { message: "Informe o código" }),
+});
+
+// Segunda etapa do login: código do app autenticador ou código de recuperação
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, { message: "Login expirado" }),
+});
+
+// Valores aceitos nas colunas de texto com domínio fechado (API e pacotes importados)
+export const ACCOUNT_TYPES = ["bank", "credit_card"] as const;
+export const CATEGORY_TYPES = ["income", "expense"] as const;
+export const TRANSACTION_TYPES = ["income", "expense", "transfer"] as const;
+export const TRANSACTION_STATUSES = ["pending", "paid", "received", "overdue"] as const;
+export const RECURRENCE_FREQUENCIES = ["weekly", "monthly", "yearly"] as const;
+export const RECURRENCE_RULE_STATUSES = ["active", "ended"] as const;
+
+export const insertCategorySchema = createInsertSchema(categories, {
+  type: z.enum(CATEGORY_TYPES),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+// Atualizações nunca trocam o dono do registro (userId vem sempre do token)
+export const updateCategorySchema = insertCategorySchema.omit({ userId: true }).partial();
 
 export const insertGoalSchema = createInsertSchema(goals, {
   targetDate: z.coerce.date().optional().nullable(),
@@ -197,18 +776,137 @@ export const insertGoalSchema = createInsertSchema(goals, {
   currentAmount: z.string().optional().default('0').refine(value => !isNaN(parseFloat(value)), { message: "Valor atual deve ser um número válido" }),
   monthlyContribution: z.string().optional().default('0').refine(value => !isNaN(parseFloat(value)), { message: "Contribuição mensal deve ser um número válido" }),
   annualInterestRate: z.string().optional().default('0').refine(value => !isNaN(parseFloat(value)), { message: "Taxa de juros anual deve ser um número válido" }),
+}).omit({ id: true, status: true, achievedAt: true, archivedAt: true, createdAt: true, updatedAt: true });
+// currentAmount só é informado na criação (saldo inicial); depois muda apenas pelas movimentações
+export const updateGoalSchema = insertGoalSchema.omit({ userId: true, currentAmount: true }).partial();
+
+export const GOAL_CONTRIBUTION_TYPES = ["opening", "deposit", "withdrawal"] as const;
+export type GoalContributionType = typeof GOAL_CONTRIBUTION_TYPES[number];
+
+export const GOAL_STATUSES = ["active", "achieved"] as const;
+export type GoalStatus = typeof GOAL_STATUSES[number];
+
+export const GOAL_MILESTONE_KINDS = ["percent", "amount"] as const;
+export type GoalMilestoneKind = typeof GOAL_MILESTONE_KINDS[number];
+
+// Marcos criados junto com cada meta
+export const DEFAULT_GOAL_MILESTONE_PERCENTS = [25, 50, 75, 100];
+
+// Query string de GET /api/goals: sem archived=true só as metas não arquivadas
+export const goalListQuerySchema = z.object({
+  archived: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+// PUT /api/goals/:id/milestones substitui o conjunto de marcos da meta
+export const goalMilestonesSchema = z.object({
+  milestones: z.array(z.object({
+    kind: z.enum(GOAL_MILESTONE_KINDS),
+    value: z.coerce
+      .number({ invalid_type_error: "Valor deve ser numérico" })
+      .min(0.01, { message: "Valor deve ser maior que zero" })
+      .transform((value) => value.toFixed(2)),
+  }).refine((milestone) => milestone.kind !== "percent" || parseFloat(milestone.value) <= 100, {
+    message: "Percentual deve ser no máximo 100",
+    path: ["value"],
+  })).max(20, { message: "No máximo 20 marcos por meta" }),
+});
+
+// Movimentação lançada pelo usuário. Com accountId e reserveAccountId, o servidor cria a transferência:
+// da conta para a reserva da meta nos depósitos, e da reserva para a conta nas retiradas.
+export const insertGoalContributionSchema = z.object({
+  type: z.enum(["deposit", "withdrawal"]).default("deposit"),
+  amount: z.coerce
+    .number({ invalid_type_error: "Valor deve ser numérico" })
+    .min(0.01, { message: "Valor deve ser maior que zero" })
+    .transform((value) => value.toFixed(2)),
+  date: z.coerce.date().optional(),
+  note: z.string().trim().max(255).optional().nullable(),
+  accountId: z.coerce.number().int().positive().optional().nullable(),
+  reserveAccountId: z.coerce.number().int().positive().optional().nullable(),
+}).refine((data) => !data.accountId === !data.reserveAccountId, {
+  message: "Informe as duas contas da transferência",
+  path: ["reserveAccountId"],
+}).refine((data) => !data.accountId || data.accountId !== data.reserveAccountId, {
+  message: "A conta da reserva deve ser diferente da conta de origem",
+  path: ["reserveAccountId"],
+});
+
+// Aporte no início ou no fim de cada mês nas projeções (ver server/projection.ts)
+export const CONTRIBUTION_TIMINGS = ["start", "end"] as const;
+export type ContributionTiming = typeof CONTRIBUTION_TIMINGS[number];
+
+// Query string de GET /api/goals/:id/projection
+export const goalProjectionQuerySchema = z.object({
+  contributionTiming: z.enum(CONTRIBUTION_TIMINGS).default("end"),
+  annualInflation: z.coerce.number().min(0).max(100).default(0),
+});
+
+// Entrada de POST /api/simulations; taxas em % ao ano
+export const simulationInputSchema = z.object({
+  initialAmount: z.coerce.number().min(0, { message: "Valor inicial não pode ser negativo" }).default(0),
+  monthlyContribution: z.coerce.number().min(0, { message: "Aporte mensal não pode ser negativo" }).default(0),
+  annualRate: z.coerce.number().min(0, { message: "Taxa não pode ser negativa" }).max(1000),
+  annualInflation: z.coerce.number().min(0).max(100).default(0),
+  months: z.coerce.number().int().min(1, { message: "Informe ao menos um mês" }).max(1200, { message: "Período máximo de 100 anos" }),
+  contributionTiming: z.enum(CONTRIBUTION_TIMINGS).default("end"),
+});
+export const insertBudgetSchema = createInsertSchema(budgets, {
+  amount: z.coerce
+    .number({ invalid_type_error: "Valor deve ser numérico" })
+    .min(0.01, { message: "Valor deve ser maior que zero" })
+    .transform((value) => value.toFixed(2)),
+  categoryId: z.coerce.number().int().positive({ message: "Categoria é obrigatória" }),
+  rollover: z.boolean().optional().default(false),
 }).omit({ id: true, createdAt: true, updatedAt: true });
+
+export const updateBudgetSchema = insertBudgetSchema.omit({ userId: true, categoryId: true }).partial();
+
+// Tipos de renda fixa valorizados pela curva (juros diários); os demais valem a posição registrada
+export const ACCRUAL_INVESTMENT_TYPES = ["cdb", "lci_lca", "tesouro_direto"] as const;
+export const INVESTMENT_INDEXERS = ["prefixado", "cdi", "ipca"] as const;
+export type InvestmentIndexer = typeof INVESTMENT_INDEXERS[number];
+// business_252: juros só em dias úteis, 252 por ano; calendar_365: juros em todos os dias corridos
+export const DAY_COUNT_BASES = ["business_252", "calendar_365"] as const;
+export type DayCountBasis = typeof DAY_COUNT_BASES[number];
+
 export const insertInvestmentSchema = createInsertSchema(investments, {
   startDate: z.coerce.date(), // Garante a conversão de string para Date
   maturityDate: z.coerce.date().optional().nullable(), // Garante a conversão e mantém opcional
   amount: z.string().refine(value => !isNaN(parseFloat(value)), { message: "Valor do investimento deve ser um número válido" }),
   interestRate: z.string().refine(value => !isNaN(parseFloat(value)), { message: "Taxa de juros deve ser um número válido" }),
-}).omit({ id: true, createdAt: true, updatedAt: true });
+  indexer: z.enum(INVESTMENT_INDEXERS).optional(),
+  dayCountBasis: z.enum(DAY_COUNT_BASES).optional(),
+}).omit({ id: true, costBasis: true, createdAt: true, updatedAt: true });
+
+// amount só é informado na criação (aplicação inicial); depois muda apenas pelas movimentações
+export const updateInvestmentSchema = insertInvestmentSchema.omit({ userId: true, amount: true }).partial();
 
-export const updateInvestmentSchema = insertInvestmentSchema.partial();
+// application: aplicação (compra); redemption: resgate; interest: juros incorporados à posição;
+// income: rendimento pago fora da posição (cupom, dividendo); fee: taxa ou imposto descontado da posição
+export const INVESTMENT_MOVEMENT_TYPES = ["application", "redemption", "interest", "income", "fee"] as const;
+export type InvestmentMovementType = typeof INVESTMENT_MOVEMENT_TYPES[number];
+
+export const insertInvestmentMovementSchema = z.object({
+  type: z.enum(INVESTMENT_MOVEMENT_TYPES),
+  amount: z.coerce
+    .number({ invalid_type_error: "Valor deve ser numérico" })
+    .min(0.01, { message: "Valor deve ser maior que zero" })
+    .transform((value) => value.toFixed(2)),
+  date: z.coerce.date().optional(),
+  note: z.string().trim().max(255).optional().nullable(),
+});
+
+// Transferências exigem uma conta de destino diferente da origem (transações, regras de recorrência e pacotes importados)
+const hasTransferDestination = (data: { type: string; accountId?: number | null; destinationAccountId?: number | null }) =>
+  data.type !== "transfer" || (!!data.destinationAccountId && data.destinationAccountId !== data.accountId);
+const transferDestinationError = {
+  message: "Informe uma conta de destino diferente da conta de origem",
+  path: ["destinationAccountId"],
+};
 
 // Accounts: permitir receber saldo/limite como número (ou string) e normalizar aqui
 export const insertAccountSchema = createInsertSchema(accounts, {
+  type: z.enum(ACCOUNT_TYPES),
   balance: z.coerce.number().min(0),
   creditLimit: z.coerce.number().min(0).optional(),
 }).omit({ id: true, createdAt: true, updatedAt: true });
@@ -218,7 +916,20 @@ export const insertAccountSchema = createInsertSchema(accounts, {
 const baseInsertTransactionSchema = createInsertSchema(transactions, {
   date: z.coerce.date(),
   dueDate: z.coerce.date().optional().nullable(),
-}).omit({ id: true, createdAt: true, updatedAt: true });
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  statementId: true,
+  installmentGroupId: true,
+  installmentNumber: true,
+  installmentCount: true,
+  recurrenceRuleId: true,
+  recurrenceIndex: true,
+  importBatchId: true,
+  externalId: true,
+  createdBy: true,
+});
 
 // Adiciona validações mais fortes para campos críticos
 const transactionValidationSchema = baseInsertTransactionSchema.extend({
@@ -228,11 +939,12 @@ const transactionValidationSchema = baseInsertTransactionSchema.extend({
     .min(0.01, { message: "Valor deve ser maior que zero" })
     .transform((value) => value.toFixed(2)),
   // Garante tipos e status válidos de forma explícita
-  type: z.enum(["income", "expense"]),
-  status: z.enum(["pending", "paid", "received", "overdue"]),
+  type: z.enum(TRANSACTION_TYPES),
+  status: z.enum(TRANSACTION_STATUSES),
   // Relacionamentos devem ser IDs inteiros positivos
   accountId: z.coerce.number().int().positive({ message: "Conta é obrigatória" }),
-  categoryId: z.coerce.number().int().positive({ message: "Categoria é obrigatória" }),
+  categoryId: z.coerce.number().int().positive({ message: "Categoria é obrigatória" }).nullish(),
+  destinationAccountId: z.coerce.number().int().positive({ message: "Conta de destino inválida" }).nullish(),
 });
 
 export const insertTransactionSchema = transactionValidationSchema
@@ -240,12 +952,14 @@ export const insertTransactionSchema = transactionValidationSchema
   .refine(
     (data) =>
       (data.type === "income" && ["pending", "received"].includes(data.status)) ||
-      (data.type === "expense" && ["pending", "paid", "overdue"].includes(data.status)),
+      (data.type === "expense" && ["pending", "paid", "overdue"].includes(data.status)) ||
+      (data.type === "transfer" && ["pending", "paid"].includes(data.status)),
     {
       message: "Combinação inválida entre tipo e status da transação",
       path: ["status"],
     },
   )
+  .refine(hasTransferDestination, transferDestinationError)
   // Se dueDate existir, não pode ser anterior à date
   .refine(
     (data) => {
@@ -259,7 +973,174 @@ export const insertTransactionSchema = transactionValidationSchema
     },
   );
 
-export const updateTransactionSchema = transactionValidationSchema.partial();
+export const updateTransactionSchema = transactionValidationSchema.omit({ userId: true }).partial();
+
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 50;
+
+// Filtros, ordenação e paginação de GET /api/transactions (query string)
+export const transactionListQuerySchema = z.object({
+  type: z.enum(TRANSACTION_TYPES).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  accountId: z.coerce.number().int().positive().optional(),
+  status: z.enum(TRANSACTION_STATUSES).optional(),
+  expenseType: z.enum(["fixed", "variable"]).optional(),
+  minAmount: z.coerce.number().min(0).optional(),
+  maxAmount: z.coerce.number().min(0).optional(),
+  search: z.string().trim().min(1).max(255).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  // Membro da casa que lançou a transação (ver transactions.createdBy)
+  memberId: z.coerce.number().int().positive().optional(),
+  // Atalho para "próximos N dias" a partir de hoje
+  upcoming: z.coerce.number().int().min(1).max(365).optional(),
+  sortBy: z.enum(["date", "amount", "description", "createdAt"]).default("date"),
+  sortOrder: z.enum(["asc", "desc"]).optional(),
+  // Sem page/pageSize a resposta continua sendo a lista completa (compatibilidade)
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(200).optional(),
+}).refine(
+  (data) => data.minAmount === undefined || data.maxAmount === undefined || data.minAmount <= data.maxAmount,
+  { message: "Valor mínimo maior que o valor máximo", path: ["minAmount"] },
+);
+
+// Padrão de recorrência enviado junto com transações recorrentes
+export const recurrenceInputSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES).default("monthly"),
+  interval: z.coerce.number().int().min(1).max(24).default(1),
+  dayOfMonth: z.coerce.number().int().min(1).max(31).optional().nullable(),
+  endDate: z.coerce.date().optional().nullable(),
+  count: z.coerce.number().int().min(1).max(600).optional().nullable(),
+});
+
+// Escopo de edição/exclusão de uma ocorrência recorrente
+export const recurrenceScopeSchema = z.enum(["this", "future", "all"]).default("this");
+
+// Compra parcelada: o valor informado é o total, dividido entre as parcelas mensais
+export const insertInstallmentPurchaseSchema = z.object({
+  description: z.string().min(1, { message: "Descrição é obrigatória" }),
+  amount: z.coerce
+    .number({ invalid_type_error: "Valor deve ser numérico" })
+    .min(0.01, { message: "Valor deve ser maior que zero" }),
+  installments: z.coerce
+    .number()
+    .int()
+    .min(2, { message: "Informe ao menos 2 parcelas" })
+    .max(48, { message: "Máximo de 48 parcelas" }),
+  date: z.coerce.date(),
+  dueDate: z.coerce.date().optional().nullable(),
+  status: z.enum(["pending", "paid"]).default("pending"),
+  expenseType: z.enum(["fixed", "variable"]).optional().nullable(),
+  accountId: z.coerce.number().int().positive({ message: "Conta é obrigatória" }),
+  categoryId: z.coerce.number().int().positive({ message: "Categoria é obrigatória" }),
+  userId: z.number().int().positive(),
+});
+
+// Alterações aplicadas às parcelas restantes (ainda não pagas) de um parcelamento
+export const updateInstallmentGroupSchema = z.object({
+  description: z.string().min(1, { message: "Descrição é obrigatória" }).optional(),
+  categoryId: z.coerce.number().int().positive({ message: "Categoria é obrigatória" }).optional(),
+  expenseType: z.enum(["fixed", "variable"]).optional().nullable(),
+  installmentAmount: z.coerce
+    .number({ invalid_type_error: "Valor deve ser numérico" })
+    .min(0.01, { message: "Valor deve ser maior que zero" })
+    .optional(),
+});
+
+const categorizationRuleFields = z.object({
+  categoryId: z.coerce.number().int().positive({ message: "Categoria é obrigatória" }),
+  descriptionContains: z.string().trim().max(255).nullish().transform((value) => value || null),
+  amountEquals: z
+    .union([z.coerce.number({ invalid_type_error: "Valor deve ser numérico" }).min(0.01, { message: "Valor deve ser maior que zero" }), z.null()])
+    .optional()
+    .transform((value) => (value === undefined || value === null ? value : value.toFixed(2))),
+  priority: z.coerce.number().int().min(0).max(1000).default(0),
+});
+
+export const insertCategorizationRuleSchema = categorizationRuleFields
+  .extend({ userId: z.number().int().positive() })
+  .refine((data) => !!data.descriptionContains || !!data.amountEquals, {
+    message: "Informe ao menos uma condição (descrição ou valor)",
+    path: ["descriptionContains"],
+  });
+
+export const updateCategorizationRuleSchema = categorizationRuleFields.partial();
+
+// Reaplicação das regras ao histórico. Sem overwrite só recebem categoria as transações que não têm nenhuma,
+// para não desfazer escolhas manuais; dryRun só conta quantas mudariam.
+export const applyCategorizationRulesSchema = z.object({
+  ruleId: z.coerce.number().int().positive().optional(),
+  overwrite: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+});
+
+// Layout de CSV: colunas pelo nome do cabeçalho (ou índice, a partir de 0, quando não há cabeçalho)
+export const csvLayoutSchema = z.object({
+  delimiter: z.string().length(1).default(","),
+  hasHeader: z.boolean().default(true),
+  dateColumn: z.string().min(1, { message: "Coluna de data é obrigatória" }),
+  descriptionColumn: z.string().min(1, { message: "Coluna de descrição é obrigatória" }),
+  amountColumn: z.string().min(1, { message: "Coluna de valor é obrigatória" }),
+  idColumn: z.string().optional().nullable(),
+  dateFormat: z.enum(["DD/MM/YYYY", "YYYY-MM-DD"]).default("DD/MM/YYYY"),
+  decimalSeparator: z.enum([",", "."]).default(","),
+  // Faturas de cartão exportam compras como valores positivos
+  invertSign: z.boolean().default(false),
+});
+
+// Arquivo enviado para pré-visualização; CSV exige um layout pré-definido (layout) ou personalizado (csvLayout)
+export const importPreviewSchema = z.object({
+  accountId: z.coerce.number().int().positive({ message: "Conta é obrigatória" }),
+  format: z.enum(["ofx", "csv"]),
+  layout: z.string().optional().nullable(),
+  csvLayout: csvLayoutSchema.optional().nullable(),
+  fileName: z.string().max(255).optional().nullable(),
+  content: z.string().min(1, { message: "Arquivo vazio" }),
+}).refine((data) => data.format !== "csv" || !!data.layout || !!data.csvLayout, {
+  message: "Informe o layout do CSV",
+  path: ["layout"],
+});
+
+// Linha confirmada pelo usuário após a pré-visualização
+export const importRowSchema = z.object({
+  date: z.coerce.date(),
+  description: z.string().min(1, { message: "Descrição é obrigatória" }),
+  amount: z.coerce
+    .number({ invalid_type_error: "Valor deve ser numérico" })
+    .min(0.01, { message: "Valor deve ser maior que zero" })
+    .transform((value) => value.toFixed(2)),
+  type: z.enum(["income", "expense"]),
+  externalId: z.string().max(255).optional().nullable(),
+  // Sem categoria, as regras de categorização do usuário decidem
+  categoryId: z.coerce.number().int().positive({ message: "Categoria é obrigatória" }).nullish(),
+});
+
+export const confirmImportSchema = z.object({
+  accountId: z.coerce.number().int().positive({ message: "Conta é obrigatória" }),
+  format: z.enum(["ofx", "csv"]),
+  fileName: z.string().max(255).optional().nullable(),
+  rows: z.array(importRowSchema).min(1, { message: "Selecione ao menos uma transação" }).max(5000),
+});
+
+// Pagamento de fatura: transferência a partir de uma conta bancária
+export const payCardStatementSchema = z.object({
+  sourceAccountId: z.coerce.number().int().positive({ message: "Conta de origem é obrigatória" }),
+  date: z.coerce.date().optional(),
+});
+
+// Anexos: imagens e PDFs enviados em base64 no corpo JSON
+export const ATTACHMENT_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"] as const;
+export type AttachmentMimeType = typeof ATTACHMENT_MIME_TYPES[number];
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_PER_TRANSACTION = 10;
+
+export const uploadAttachmentSchema = z.object({
+  fileName: z.string().trim().min(1, { message: "Nome do arquivo é obrigatório" }).max(255),
+  mimeType: z.enum(ATTACHMENT_MIME_TYPES, { errorMap: () => ({ message: "Envie uma imagem (JPEG, PNG, WebP) ou um PDF" }) }),
+  content: z.string()
+    .min(1, { message: "Arquivo vazio" })
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, { message: "Conteúdo deve estar em base64" })
+    .refine((value) => value.length <= Math.ceil(ATTACHMENT_MAX_BYTES / 3) * 4, { message: "Arquivo maior que 10 MB" }),
+});
 
 export const insertAlertSchema = createInsertSchema(alerts).omit({ id: true, createdAt: true, updatedAt: true });
 
@@ -276,17 +1157,254 @@ export const updateUserPreferencesSchema = insertUserPreferencesSchema.partial()
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+
+export const AUTH_EVENT_TYPES = [
+  "login_success",
+  "login_failed",
+  "account_locked",
+  "register",
+  "logout",
+  "password_changed",
+  "oauth_login",
+  "oauth_linked",
+  "oauth_unlinked",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "recovery_codes_regenerated",
+  "session_revoked",
+  "api_token_created",
+  "api_token_revoked",
+  "account_deletion_scheduled",
+  "account_deletion_cancelled",
+] as const;
+export type AuthEventType = typeof AUTH_EVENT_TYPES[number];
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type HouseholdInvitation = typeof householdInvitations.$inferSelect;
+
+// Identificação do pacote gerado por GET /api/me/export
+export const USER_EXPORT_FORMAT = "financeiro-export";
+export const USER_EXPORT_VERSION = 1;
+
+// Validação do pacote enviado em POST /api/me/import. Ids são os do ambiente de origem e só servem para
+// ligar os registros entre si; campos com valor padrão podem faltar (pacotes parciais, ex.: só categorias).
+const exportedId = z.number().int();
+const exportedRef = exportedId.nullish().transform((value) => value ?? null);
+const exportedDecimal = z.union([z.string(), z.number()]).transform((value) => Number(value).toFixed(2));
+const exportedOptionalDecimal = exportedDecimal.nullish().transform((value) => value ?? null);
+const exportedDate = z.coerce.date();
+const exportedOptionalDate = z.coerce.date().nullish().transform((value) => value ?? null);
+const exportedOptionalText = z.string().nullish().transform((value) => value ?? null);
+const exportedOptionalInt = z.number().int().nullish().transform((value) => value ?? null);
+
+export const userExportBundleSchema = z.object({
+  format: z.literal(USER_EXPORT_FORMAT),
+  version: z.literal(USER_EXPORT_VERSION),
+  preferences: z.object({
+    language: z.string(),
+    theme: z.string(),
+    currency: z.string(),
+    dateFormat: z.string(),
+  }).nullish().transform((value) => value ?? null),
+  accounts: z.array(z.object({
+    id: exportedId,
+    name: z.string(),
+    type: z.enum(ACCOUNT_TYPES),
+    balance: exportedDecimal.default("0.00"),
+    creditLimit: exportedOptionalDecimal,
+    closingDay: exportedOptionalInt,
+    dueDay: exportedOptionalInt,
+  })).default([]),
+  cardStatements: z.array(z.object({
+    id: exportedId,
+    accountId: exportedId,
+    periodStart: exportedDate,
+    closingDate: exportedDate,
+    dueDate: exportedDate,
+    status: z.string().default("open"),
+    paymentTransactionId: exportedRef,
+    paidAt: exportedOptionalDate,
+  })).default([]),
+  categories: z.array(z.object({
+    id: exportedId,
+    name: z.string(),
+    type: z.enum(CATEGORY_TYPES),
+    color: z.string(),
+    icon: z.string(),
+  })).default([]),
+  categorizationRules: z.array(z.object({
+    id: exportedId,
+    categoryId: exportedId,
+    descriptionContains: exportedOptionalText,
+    amountEquals: exportedOptionalDecimal,
+    priority: z.number().int().default(0),
+  })).default([]),
+  recurrenceRules: z.array(z.object({
+    id: exportedId,
+    frequency: z.enum(RECURRENCE_FREQUENCIES),
+    interval: z.number().int().default(1),
+    dayOfMonth: exportedOptionalInt,
+    startDate: exportedDate,
+    endDate: exportedOptionalDate,
+    occurrenceCount: exportedOptionalInt,
+    generatedCount: z.number().int().default(0),
+    status: z.enum(RECURRENCE_RULE_STATUSES).default("active"),
+    description: z.string(),
+    amount: exportedDecimal,
+    type: z.enum(TRANSACTION_TYPES),
+    categoryId: exportedRef,
+    accountId: exportedRef,
+    destinationAccountId: exportedRef,
+    expenseType: exportedOptionalText,
+  }).refine(hasTransferDestination, transferDestinationError)).default([]),
+  installmentGroups: z.array(z.object({
+    id: exportedId,
+    accountId: exportedId,
+    description: z.string(),
+    totalAmount: exportedDecimal,
+    installmentCount: z.number().int(),
+    firstDate: exportedDate,
+    status: z.string().default("active"),
+  })).default([]),
+  importBatches: z.array(z.object({
+    id: exportedId,
+    accountId: exportedId,
+    format: z.string(),
+    fileName: exportedOptionalText,
+    transactionCount: z.number().int().default(0),
+    status: z.string().default("committed"),
+  })).default([]),
+  transactions: z.array(z.object({
+    id: exportedId,
+    description: z.string(),
+    amount: exportedDecimal,
+    date: exportedDate,
+    type: z.enum(TRANSACTION_TYPES),
+    categoryId: exportedRef,
+    status: z.enum(TRANSACTION_STATUSES),
+    isRecurring: z.boolean().default(false),
+    expenseType: exportedOptionalText,
+    dueDate: exportedOptionalDate,
+    accountId: exportedRef,
+    destinationAccountId: exportedRef,
+    statementId: exportedRef,
+    installmentGroupId: exportedRef,
+    installmentNumber: exportedOptionalInt,
+    installmentCount: exportedOptionalInt,
+    recurrenceRuleId: exportedRef,
+    recurrenceIndex: exportedOptionalInt,
+    importBatchId: exportedRef,
+    externalId: exportedOptionalText,
+  }).refine(hasTransferDestination, transferDestinationError)).default([]),
+  budgets: z.array(z.object({
+    id: exportedId,
+    categoryId: exportedId,
+    amount: exportedDecimal,
+    rollover: z.boolean().default(false),
+  })).default([]),
+  goals: z.array(z.object({
+    id: exportedId,
+    name: z.string(),
+    targetAmount: exportedDecimal,
+    currentAmount: exportedDecimal.default("0.00"),
+    targetDate: exportedOptionalDate,
+    monthlyContribution: exportedDecimal.default("0.00"),
+    annualInterestRate: exportedDecimal.default("0.00"),
+    description: exportedOptionalText,
+    status: z.enum(GOAL_STATUSES).default("active"),
+    achievedAt: exportedOptionalDate,
+    archivedAt: exportedOptionalDate,
+  })).default([]),
+  goalMilestones: z.array(z.object({
+    id: exportedId,
+    goalId: exportedId,
+    kind: z.enum(GOAL_MILESTONE_KINDS),
+    value: exportedDecimal,
+    reachedAt: exportedOptionalDate,
+  })).default([]),
+  goalContributions: z.array(z.object({
+    id: exportedId,
+    goalId: exportedId,
+    type: z.enum(GOAL_CONTRIBUTION_TYPES),
+    amount: exportedDecimal,
+    date: exportedDate,
+    note: exportedOptionalText,
+    transactionId: exportedRef,
+  })).default([]),
+  investments: z.array(z.object({
+    id: exportedId,
+    name: z.string(),
+    type: z.string(),
+    amount: exportedDecimal,
+    costBasis: exportedOptionalDecimal,
+    interestRate: exportedDecimal,
+    indexer: z.enum(INVESTMENT_INDEXERS).default("prefixado"),
+    dayCountBasis: z.enum(DAY_COUNT_BASES).default("business_252"),
+    startDate: exportedDate,
+    maturityDate: exportedOptionalDate,
+  })).default([]),
+  investmentMovements: z.array(z.object({
+    id: exportedId,
+    investmentId: exportedId,
+    type: z.enum(INVESTMENT_MOVEMENT_TYPES),
+    amount: exportedDecimal,
+    date: exportedDate,
+    note: exportedOptionalText,
+  })).default([]),
+  alerts: z.array(z.object({
+    id: exportedId,
+    type: z.string(),
+    message: z.string(),
+    isRead: z.boolean().default(false),
+    referenceId: exportedRef,
+    referenceType: exportedOptionalText,
+  })).default([]),
+});
+
+// merge: soma o pacote aos dados atuais, reaproveitando categorias e contas de mesmo nome e tipo;
+// replace: apaga os dados financeiros atuais antes de importar. dryRun só devolve o relatório.
+export const importUserDataSchema = z.object({
+  bundle: userExportBundleSchema,
+  mode: z.enum(["merge", "replace"]),
+  dryRun: z.boolean().default(false),
+});
+
+export type ValidatedUserExportBundle = z.infer<typeof userExportBundleSchema>;
+export type UserDataImportMode = z.infer<typeof importUserDataSchema>["mode"];
+export type AuthEvent = typeof authEvents.$inferSelect;
+
+export type Session = typeof sessions.$inferSelect;
+
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = typeof categories.$inferInsert;
 
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = typeof transactions.$inferInsert;
+export type TransactionAttachment = typeof transactionAttachments.$inferSelect;
+export type ValidatedUploadAttachment = z.infer<typeof uploadAttachmentSchema>;
+
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+export type InsertCategorizationRule = typeof categorizationRules.$inferInsert;
+
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = typeof budgets.$inferInsert;
 
 export type Goal = typeof goals.$inferSelect;
 export type InsertGoal = typeof goals.$inferInsert;
+export type GoalContribution = typeof goalContributions.$inferSelect;
+export type GoalMilestone = typeof goalMilestones.$inferSelect;
+export type ValidatedGoalMilestones = z.infer<typeof goalMilestonesSchema>["milestones"];
+export type ValidatedInsertGoalContribution = z.infer<typeof insertGoalContributionSchema>;
+export type SimulationInput = z.infer<typeof simulationInputSchema>;
 
 export type Investment = typeof investments.$inferSelect;
 export type InsertInvestment = typeof investments.$inferInsert;
+export type InvestmentMovement = typeof investmentMovements.$inferSelect;
+export type ValidatedInsertInvestmentMovement = z.infer<typeof insertInvestmentMovementSchema>;
 
 export type Alert = typeof alerts.$inferSelect;
 export type InsertAlert = typeof alerts.$inferInsert;
@@ -294,6 +1412,18 @@ export type InsertAlert = typeof alerts.$inferInsert;
 export type Account = typeof accounts.$inferSelect;
 export type InsertAccount = typeof accounts.$inferInsert;
 
+export type CardStatement = typeof cardStatements.$inferSelect;
+export type InsertCardStatement = typeof cardStatements.$inferInsert;
+
+export type RecurrenceRule = typeof recurrenceRules.$inferSelect;
+export type InsertRecurrenceRule = typeof recurrenceRules.$inferInsert;
+
+export type InstallmentGroup = typeof installmentGroups.$inferSelect;
+export type InsertInstallmentGroup = typeof installmentGroups.$inferInsert;
+
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertImportBatch = typeof importBatches.$inferInsert;
+
 export type UserPreference = typeof userPreferences.$inferSelect;
 export type InsertUserPreference = typeof userPreferences.$inferInsert;
 
@@ -302,12 +1432,28 @@ export type ValidatedInsertUser = z.infer<typeof insertUserSchema>;
 export type ValidatedInsertCategory = z.infer<typeof insertCategorySchema>;
 export type ValidatedInsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type ValidatedInsertGoal = z.infer<typeof insertGoalSchema>;
+export type ValidatedInsertBudget = z.infer<typeof insertBudgetSchema>;
+export type ValidatedInsertCategorizationRule = z.infer<typeof insertCategorizationRuleSchema>;
+export type ValidatedUpdateCategorizationRule = z.infer<typeof updateCategorizationRuleSchema>;
+export type ApplyCategorizationRulesOptions = z.infer<typeof applyCategorizationRulesSchema>;
+export type ValidatedUpdateBudget = z.infer<typeof updateBudgetSchema>;
 export type ValidatedInsertInvestment = z.infer<typeof insertInvestmentSchema>;
 export type ValidatedInsertAlert = z.infer<typeof insertAlertSchema>;
 export type ValidatedInsertAccount = z.infer<typeof insertAccountSchema>;
 export type ValidatedInsertUserPreference = z.infer<typeof insertUserPreferencesSchema>;
 export type ValidatedUpdateUserPreference = z.infer<typeof updateUserPreferencesSchema>;
 
+export type ValidatedRecurrenceInput = z.infer<typeof recurrenceInputSchema>;
+export type RecurrenceScope = z.infer<typeof recurrenceScopeSchema>;
+export type ValidatedInsertInstallmentPurchase = z.infer<typeof insertInstallmentPurchaseSchema>;
+export type ValidatedUpdateInstallmentGroup = z.infer<typeof updateInstallmentGroupSchema>;
+export type ValidatedPayCardStatement = z.infer<typeof payCardStatementSchema>;
+export type CsvLayout = z.infer<typeof csvLayoutSchema>;
+export type ValidatedImportPreview = z.infer<typeof importPreviewSchema>;
+export type ValidatedImportRow = z.infer<typeof importRowSchema>;
+export type ValidatedConfirmImport = z.infer<typeof confirmImportSchema>;
+
 export type ValidatedUpdateTransaction = z.infer<typeof updateTransactionSchema>;
+export type TransactionListQuery = z.infer<typeof transactionListQuerySchema>;
 export type ValidatedUpdateInvestment = z.infer<typeof updateInvestmentSchema>;
 // For other updates, you might use Partial<ValidatedInsertType> if a specific update schema doesn't exist